@@ -0,0 +1,151 @@
+-- CreateEnum
+CREATE TYPE "UserStatus" AS ENUM ('PENDING_APPROVAL', 'ACTIVE', 'SUSPENDED', 'INACTIVE');
+
+-- CreateEnum
+CREATE TYPE "TextStatus" AS ENUM ('DRAFT', 'PENDING_REVIEW', 'APPROVED', 'PUBLISHED', 'ARCHIVED');
+
+-- CreateEnum
+CREATE TYPE "AnnotationType" AS ENUM ('NOTE', 'COMMENT', 'REFERENCE', 'TRANSLATION');
+
+-- CreateEnum
+CREATE TYPE "AnnotationStatus" AS ENUM ('DRAFT', 'PENDING', 'APPROVED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "users" (
+    "id" TEXT NOT NULL,
+    "username" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "password" TEXT NOT NULL,
+    "status" "UserStatus" NOT NULL DEFAULT 'PENDING_APPROVAL',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "users_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "roles" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "permissions" JSONB NOT NULL,
+
+    CONSTRAINT "roles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "user_roles" (
+    "userId" TEXT NOT NULL,
+    "roleId" TEXT NOT NULL,
+    "granted_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_roles_pkey" PRIMARY KEY ("userId","roleId")
+);
+
+-- CreateTable
+CREATE TABLE "legal_texts" (
+    "id" TEXT NOT NULL,
+    "title_zh" TEXT NOT NULL,
+    "title_pt" TEXT,
+    "law_number" TEXT,
+    "category" TEXT,
+    "publication_date" TIMESTAMP(3),
+    "content_id" TEXT,
+    "source_url" TEXT,
+    "hash" TEXT,
+    "author_id" TEXT NOT NULL,
+    "is_public" BOOLEAN NOT NULL DEFAULT false,
+    "status" "TextStatus" NOT NULL DEFAULT 'DRAFT',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "legal_texts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "annotations" (
+    "id" TEXT NOT NULL,
+    "text_id" TEXT NOT NULL,
+    "author_id" TEXT NOT NULL,
+    "start_offset" INTEGER NOT NULL,
+    "end_offset" INTEGER NOT NULL,
+    "selected_text" TEXT NOT NULL,
+    "context_hash" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "type" "AnnotationType" NOT NULL DEFAULT 'NOTE',
+    "status" "AnnotationStatus" NOT NULL DEFAULT 'DRAFT',
+    "is_public" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "annotations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "login_logs" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "ip_address" TEXT NOT NULL,
+    "user_agent" TEXT NOT NULL,
+    "success" BOOLEAN NOT NULL,
+    "login_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "login_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_username_key" ON "users"("username");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_email_key" ON "users"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "roles_name_key" ON "roles"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "legal_texts_hash_key" ON "legal_texts"("hash");
+
+-- CreateIndex
+CREATE INDEX "legal_texts_title_zh_idx" ON "legal_texts"("title_zh");
+
+-- CreateIndex
+CREATE INDEX "legal_texts_category_idx" ON "legal_texts"("category");
+
+-- CreateIndex
+CREATE INDEX "legal_texts_publication_date_idx" ON "legal_texts"("publication_date");
+
+-- CreateIndex
+CREATE INDEX "legal_texts_status_is_public_idx" ON "legal_texts"("status", "is_public");
+
+-- CreateIndex
+CREATE INDEX "annotations_text_id_idx" ON "annotations"("text_id");
+
+-- CreateIndex
+CREATE INDEX "annotations_author_id_idx" ON "annotations"("author_id");
+
+-- CreateIndex
+CREATE INDEX "annotations_context_hash_idx" ON "annotations"("context_hash");
+
+-- CreateIndex
+CREATE INDEX "login_logs_user_id_idx" ON "login_logs"("user_id");
+
+-- CreateIndex
+CREATE INDEX "login_logs_login_at_idx" ON "login_logs"("login_at");
+
+-- AddForeignKey
+ALTER TABLE "user_roles" ADD CONSTRAINT "user_roles_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_roles" ADD CONSTRAINT "user_roles_roleId_fkey" FOREIGN KEY ("roleId") REFERENCES "roles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "legal_texts" ADD CONSTRAINT "legal_texts_author_id_fkey" FOREIGN KEY ("author_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "annotations" ADD CONSTRAINT "annotations_text_id_fkey" FOREIGN KEY ("text_id") REFERENCES "legal_texts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "annotations" ADD CONSTRAINT "annotations_author_id_fkey" FOREIGN KEY ("author_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "login_logs" ADD CONSTRAINT "login_logs_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "search_documents" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'legal_text',
+    "content_zh" TEXT,
+    "content_pt" TEXT,
+    "searchable_text" TEXT NOT NULL,
+    "word_count" INTEGER NOT NULL DEFAULT 0,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "search_documents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "search_documents_type_idx" ON "search_documents"("type");
+
+-- 中文檢索依賴 pg_trgm；擴展須以有權限的帳號經遷移建立，應用運行時不再執行 DDL
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- CreateIndex
+CREATE INDEX "search_documents_trgm_idx" ON "search_documents" USING GIN ("searchable_text" gin_trgm_ops);
+
+-- 表達式索引，須與 src/modules/search/utils/searchIndexes.ts 的表達式一致
+CREATE INDEX "search_documents_fts_idx" ON "search_documents" USING GIN (to_tsvector('portuguese', searchable_text));
+
+CREATE INDEX "legal_texts_metadata_trgm_idx" ON "legal_texts" USING GIN ((coalesce(title_zh, '') || ' ' || coalesce(title_pt, '') || ' ' || coalesce(law_number, '') || ' ' || coalesce(category, '')) gin_trgm_ops);
@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "search_settings" (
+    "key" TEXT NOT NULL,
+    "value" JSONB NOT NULL,
+    "updated_by_id" TEXT,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "search_settings_pkey" PRIMARY KEY ("key")
+);
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "synonyms" (
+    "id" TEXT NOT NULL,
+    "term" TEXT NOT NULL,
+    "term_language" TEXT NOT NULL,
+    "synonym" TEXT NOT NULL,
+    "synonym_language" TEXT NOT NULL,
+    "bidirectional" BOOLEAN NOT NULL DEFAULT true,
+    "confidence" DOUBLE PRECISION NOT NULL DEFAULT 1.0,
+    "created_by_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "synonyms_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "synonyms_term_idx" ON "synonyms"("term");
+
+-- CreateIndex
+CREATE INDEX "synonyms_synonym_idx" ON "synonyms"("synonym");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "synonyms_term_synonym_key" ON "synonyms"("term", "synonym");
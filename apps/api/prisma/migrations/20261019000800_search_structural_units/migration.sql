@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "search_documents" ADD COLUMN     "article_number" TEXT,
+ADD COLUMN     "chapter_path" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "end_offset" INTEGER,
+ADD COLUMN     "language" TEXT,
+ADD COLUMN     "parent_id" TEXT,
+ADD COLUMN     "start_offset" INTEGER,
+ADD COLUMN     "title" TEXT;
+
+-- CreateIndex
+CREATE INDEX "search_documents_parent_id_idx" ON "search_documents"("parent_id");
+
+-- CreateIndex
+CREATE INDEX "search_documents_title_trgm_idx" ON "search_documents" USING GIN ("title" gin_trgm_ops);
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "query_logs" (
+    "id" TEXT NOT NULL,
+    "query" TEXT NOT NULL,
+    "normalized_query" TEXT NOT NULL,
+    "language" TEXT NOT NULL,
+    "filters" JSONB NOT NULL,
+    "result_count" INTEGER NOT NULL,
+    "public_result_count" INTEGER NOT NULL DEFAULT 0,
+    "latency_ms" INTEGER NOT NULL,
+    "engines" TEXT[],
+    "user_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "query_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "query_logs_normalized_query_idx" ON "query_logs"("normalized_query");
+
+-- CreateIndex
+CREATE INDEX "query_logs_created_at_idx" ON "query_logs"("created_at");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "search_documents" ADD COLUMN     "acl_roles" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "acl_user_ids" TEXT[] DEFAULT ARRAY[]::TEXT[];
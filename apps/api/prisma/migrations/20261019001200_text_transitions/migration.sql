@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "text_transitions" (
+    "id" TEXT NOT NULL,
+    "text_id" TEXT NOT NULL,
+    "from_status" "TextStatus" NOT NULL,
+    "to_status" "TextStatus" NOT NULL,
+    "action" TEXT NOT NULL,
+    "actor_id" TEXT NOT NULL,
+    "comment" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "text_transitions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "text_transitions_text_id_created_at_idx" ON "text_transitions"("text_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "text_transitions" ADD CONSTRAINT "text_transitions_text_id_fkey" FOREIGN KEY ("text_id") REFERENCES "legal_texts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "text_transitions" ADD CONSTRAINT "text_transitions_actor_id_fkey" FOREIGN KEY ("actor_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- DropIndex
+DROP INDEX "annotations_text_id_idx";
+
+-- AlterTable
+ALTER TABLE "annotations" ADD COLUMN     "language" TEXT NOT NULL DEFAULT 'zh';
+
+-- CreateIndex
+CREATE INDEX "annotations_text_id_language_idx" ON "annotations"("text_id", "language");
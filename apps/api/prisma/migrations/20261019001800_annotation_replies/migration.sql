@@ -0,0 +1,52 @@
+-- AlterTable
+ALTER TABLE "annotations" ADD COLUMN     "resolved_at" TIMESTAMP(3),
+ADD COLUMN     "resolved_by_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "annotation_replies" (
+    "id" TEXT NOT NULL,
+    "annotation_id" TEXT NOT NULL,
+    "parent_id" TEXT,
+    "author_id" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "is_public" BOOLEAN NOT NULL DEFAULT true,
+    "edited_at" TIMESTAMP(3),
+    "deleted_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "annotation_replies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "reply_mentions" (
+    "reply_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "reply_mentions_pkey" PRIMARY KEY ("reply_id","user_id")
+);
+
+-- CreateIndex
+CREATE INDEX "annotation_replies_annotation_id_created_at_idx" ON "annotation_replies"("annotation_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "reply_mentions_user_id_created_at_idx" ON "reply_mentions"("user_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "annotations" ADD CONSTRAINT "annotations_resolved_by_id_fkey" FOREIGN KEY ("resolved_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "annotation_replies" ADD CONSTRAINT "annotation_replies_annotation_id_fkey" FOREIGN KEY ("annotation_id") REFERENCES "annotations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "annotation_replies" ADD CONSTRAINT "annotation_replies_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "annotation_replies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "annotation_replies" ADD CONSTRAINT "annotation_replies_author_id_fkey" FOREIGN KEY ("author_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reply_mentions" ADD CONSTRAINT "reply_mentions_reply_id_fkey" FOREIGN KEY ("reply_id") REFERENCES "annotation_replies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reply_mentions" ADD CONSTRAINT "reply_mentions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
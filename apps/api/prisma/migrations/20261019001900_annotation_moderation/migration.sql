@@ -0,0 +1,30 @@
+-- AlterEnum
+ALTER TYPE "AnnotationStatus" ADD VALUE 'ARCHIVED';
+
+-- AlterTable
+ALTER TABLE "annotations" ADD COLUMN     "rejection_reason" TEXT;
+
+-- CreateTable
+CREATE TABLE "annotation_transitions" (
+    "id" TEXT NOT NULL,
+    "annotation_id" TEXT NOT NULL,
+    "from_status" "AnnotationStatus" NOT NULL,
+    "to_status" "AnnotationStatus" NOT NULL,
+    "actor_id" TEXT NOT NULL,
+    "reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "annotation_transitions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "annotations_status_is_public_idx" ON "annotations"("status", "is_public");
+
+-- CreateIndex
+CREATE INDEX "annotation_transitions_annotation_id_created_at_idx" ON "annotation_transitions"("annotation_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "annotation_transitions" ADD CONSTRAINT "annotation_transitions_annotation_id_fkey" FOREIGN KEY ("annotation_id") REFERENCES "annotations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "annotation_transitions" ADD CONSTRAINT "annotation_transitions_actor_id_fkey" FOREIGN KEY ("actor_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
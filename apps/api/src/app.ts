@@ -108,6 +108,30 @@ export async function buildApp() {
     app.log.warn('Failed to load extraction routes:', error);
   }
 
+  try {
+    const { searchRoutes } = await import('./modules/search/routes/searchRoutes');
+    await app.register(searchRoutes, { prefix: '/api/search' });
+    app.log.info('Search routes loaded');
+  } catch (error) {
+    app.log.warn({ err: error }, 'Failed to load search routes');
+  }
+
+  try {
+    const { textRoutes } = await import('./modules/texts/routes/textRoutes');
+    await app.register(textRoutes, { prefix: '/api/texts' });
+    app.log.info('Text routes loaded');
+  } catch (error) {
+    app.log.warn({ err: error }, 'Failed to load text routes');
+  }
+
+  try {
+    const { annotationRoutes } = await import('./modules/annotation/routes/annotationRoutes');
+    await app.register(annotationRoutes, { prefix: '/api/annotations' });
+    app.log.info('Annotation routes loaded');
+  } catch (error) {
+    app.log.warn({ err: error }, 'Failed to load annotation routes');
+  }
+
   // API概覽端點
   app.get('/api', async (request, reply) => {
     return {
@@ -118,6 +142,9 @@ export async function buildApp() {
         endpoints: {
           auth: '/api/auth',
           extraction: '/api/extraction',
+          search: '/api/search',
+          texts: '/api/texts',
+          annotations: '/api/annotations',
           health: '/health',
           docs: '/docs'
         },
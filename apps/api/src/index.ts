@@ -2,6 +2,7 @@ import 'dotenv/config';
 import { buildApp } from './app';
 import { connectMongoDB, closeConnections } from './config/database';
 import { RoleService } from './modules/auth/services/RoleService';
+import { SynonymService } from './modules/search/services/SynonymService';
 
 async function start() {
   try {
@@ -14,6 +15,11 @@ async function start() {
     await roleService.initializeRoles();
     console.log('👥 Roles initialized');
 
+    // 初始化同義詞詞庫
+    const synonymService = new SynonymService();
+    await synonymService.initializeSynonyms();
+    console.log('📖 Synonyms initialized');
+
     // 構建應用
     const app = await buildApp();
 
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { StructuralAnalyzer } from './StructuralAnalyzer';
+import { AnnotationPosition, StructuralPath } from '../../../shared/types/annotation.types';
+import { LegalTextStructure } from '../../../shared/types/text.types';
+
+const TEXT = [
+  '第一章 總則',
+  '第一條 本法規範租賃關係。',
+  '',
+  '租賃期間由當事人約定，並應支付租金。',
+  '第二條 出租人應交付租賃物。',
+  '承租人應按月支付租金。'
+].join('\n');
+
+function structureOf(text: string, articleIds: string[] = ['article-1', 'article-2']): LegalTextStructure {
+  const first = text.indexOf('第一條');
+  const second = text.indexOf('第二條');
+
+  return {
+    chapters: [{ id: 'chapter-1', title: '總則', startOffset: 0, endOffset: text.length }],
+    sections: [],
+    articles: [
+      { id: articleIds[0]!, title: '第一條', number: '1', startOffset: first, endOffset: second },
+      { id: articleIds[1]!, title: '第二條', number: '2', startOffset: second, endOffset: text.length }
+    ]
+  };
+}
+
+function positionOf(selectedText: string, startOffset: number, structural: StructuralPath): AnnotationPosition {
+  return {
+    language: 'zh',
+    primary: { startOffset, endOffset: startOffset + selectedText.length, selectedText },
+    context: { before: '', after: '', hash: '' },
+    structural,
+    fingerprint: { hash: '', trigrams: [], length: selectedText.length, wordCount: 1 },
+    metadata: { createdAt: new Date(), textLength: selectedText.length, confidence: 1 }
+  };
+}
+
+describe('StructuralAnalyzer.analyze', () => {
+  const analyzer = new StructuralAnalyzer();
+
+  it('records the chapter, article and paragraphs of the selection from the stored structure', () => {
+    const offset = TEXT.indexOf('當事人');
+
+    expect(analyzer.analyze({ language: 'zh', text: TEXT, structure: structureOf(TEXT) }, offset)).toEqual({
+      chapterId: 'chapter-1',
+      articleId: 'article-1',
+      articleNumber: '1',
+      // 空行不計入段落
+      paragraphIndex: 2,
+      articleParagraphIndex: 1,
+      paragraphOffset: offset - TEXT.indexOf('租賃期間')
+    });
+  });
+
+  it('counts line-break paragraphs when the text has no structure', () => {
+    const offset = TEXT.indexOf('承租人');
+
+    expect(analyzer.analyze({ language: 'zh', text: TEXT }, offset, 'p:nth-of-type(5)')).toEqual({
+      paragraphIndex: 4,
+      paragraphOffset: 0,
+      elementPath: 'p:nth-of-type(5)'
+    });
+  });
+
+  it('keeps only the element path without a document', () => {
+    expect(analyzer.analyze(null, 10, 'p')).toEqual({ elementPath: 'p' });
+  });
+});
+
+describe('StructuralAnalyzer.findByStructuralPath', () => {
+  const analyzer = new StructuralAnalyzer();
+  const offset = TEXT.lastIndexOf('租金');
+  const structural = analyzer.analyze({ language: 'zh', text: TEXT, structure: structureOf(TEXT) }, offset);
+
+  it('finds the selection in the same paragraph of the matching article after earlier insertions', async () => {
+    const edited = TEXT.replace('第二條', '第一條之一 承租人應支付租金。\n第二條');
+    // 結構重新生成後 ID 改變，仍按條文編號配對
+    const structure = structureOf(edited, ['article-a', 'article-b']);
+
+    const range = await analyzer.findByStructuralPath(edited, positionOf('租金', offset, structural), { language: 'zh', structure });
+
+    expect(range).toMatchObject({ startOffset: edited.lastIndexOf('租金'), text: '租金', confidence: 0.85 });
+  });
+
+  it('falls back to the paragraph index of the whole text', async () => {
+    const range = await analyzer.findByStructuralPath(TEXT, positionOf('租金', offset, structural));
+
+    expect(range).toMatchObject({ startOffset: offset, confidence: 0.75 });
+  });
+
+  it('narrows the search to the stored HTML element', async () => {
+    const html = `<p>第一章 總則</p><p>第一條 本法規範租賃關係。</p><p>租賃期間由當事人約定，並應支付租金。</p>`
+      + `<p>第二條 出租人應交付租賃物。</p><p>承租人應按月支付租金。</p>`;
+    const position = positionOf('租金', offset, { elementPath: 'p:nth-of-type(5)', paragraphOffset: 7 });
+
+    const range = await analyzer.findByStructuralPath(TEXT, position, { language: 'zh', html });
+
+    expect(range).toMatchObject({ startOffset: offset, confidence: 0.9 });
+  });
+
+  it('ignores legacy paragraph indexes without an offset within the paragraph', async () => {
+    const position = positionOf('租金', offset, { paragraphIndex: 4 });
+
+    await expect(analyzer.findByStructuralPath(TEXT, position)).resolves.toBeNull();
+  });
+});
@@ -1,91 +1,164 @@
+import * as cheerio from 'cheerio';
 import {
   AnnotationPosition,
+  StructuralDocument,
   StructuralPath,
   TextRange
 } from '../../../shared/types/annotation.types';
+import { StructureRange } from '../../../shared/types/text.types';
+import { Span, paragraphSpans, indexContaining } from '../utils/textSpans';
 
-export class StructuralAnalyzer {
-  async analyze(textId: string, startOffset: number, endOffset: number, elementPath?: string): Promise<StructuralPath> {
-    const result: StructuralPath = {
-      paragraphIndex: this.calculateParagraphIndex(startOffset)
-    };
+// 元素定位時在元素文字前後額外搜索的字符數，容許 HTML 與純文本的空白差異
+const ELEMENT_SLACK = 20;
 
+export class StructuralAnalyzer {
+  /**
+   * 記錄選取範圍所在的章、節、條文以及段落。段落按換行切分，空行不計。
+   */
+  analyze(document: StructuralDocument | null, startOffset: number, elementPath?: string): StructuralPath {
+    const result: StructuralPath = {};
     if (elementPath) result.elementPath = elementPath;
-    
-    const chapterId = await this.findChapterId(textId, startOffset);
-    if (chapterId) result.chapterId = chapterId;
-    
-    const articleId = await this.findArticleId(textId, startOffset);
-    if (articleId) result.articleId = articleId;
+    if (!document) return result;
+
+    const paragraphs = paragraphSpans(document.text, 0, document.text.length);
+    const paragraphIndex = indexContaining(paragraphs, startOffset);
+    const paragraph = paragraphs[paragraphIndex];
+    if (paragraph) {
+      result.paragraphIndex = paragraphIndex;
+      result.paragraphOffset = startOffset - paragraph.start;
+    }
+
+    const structure = document.structure;
+    if (!structure) return result;
+
+    const chapter = this.rangeContaining(structure.chapters, startOffset);
+    if (chapter) result.chapterId = chapter.id;
+
+    const section = this.rangeContaining(structure.sections, startOffset);
+    if (section) result.sectionId = section.id;
+
+    const article = this.rangeContaining(structure.articles, startOffset);
+    if (article) {
+      result.articleId = article.id;
+      result.articleNumber = article.number;
+
+      const articleParagraphs = paragraphSpans(document.text, article.startOffset, article.endOffset);
+      const articleParagraphIndex = indexContaining(articleParagraphs, startOffset);
+      if (articleParagraphIndex !== -1) result.articleParagraphIndex = articleParagraphIndex;
+    }
 
     return result;
   }
 
-  async findByStructuralPath(textContent: string, position: AnnotationPosition): Promise<TextRange | null> {
+  /**
+   * 依次以 HTML 元素路徑、條文內段落、全文段落縮小範圍，再在範圍內尋找選取文字。
+   * 條文按 ID 或編號配對，其他位置插入或刪除內容不影響定位。
+   */
+  async findByStructuralPath(
+    textContent: string,
+    position: AnnotationPosition,
+    document?: Omit<StructuralDocument, 'text'>
+  ): Promise<TextRange | null> {
     const structural = position.structural;
-    
-    if (structural.paragraphIndex !== undefined) {
-      // 基於段落索引查找
-      return this.findByParagraphIndex(textContent, structural.paragraphIndex, position.primary.selectedText);
+    const targetText = position.primary.selectedText;
+
+    if (structural.elementPath && document?.html) {
+      const span = this.findElementSpan(textContent, document.html, structural.elementPath, position.primary.startOffset);
+      const range = span && this.locateInSpan(textContent, span, targetText, structural.paragraphOffset);
+      if (range) return { ...range, confidence: 0.9 };
+    }
+
+    // 沒有段落內偏移量的是舊版按固定長度估算的數據，段落序號不可信
+    if (structural.paragraphOffset === undefined) {
+      return null;
     }
-    
-    if (structural.elementPath) {
-      // 基於元素路徑查找
-      return this.findByElementPath(textContent, structural.elementPath, position.primary.selectedText);
+
+    const article = this.findArticle(document, structural);
+    if (article && structural.articleParagraphIndex !== undefined) {
+      const span = paragraphSpans(textContent, article.startOffset, article.endOffset)[structural.articleParagraphIndex];
+      const range = span && this.locateInSpan(textContent, span, targetText, structural.paragraphOffset);
+      if (range) return { ...range, confidence: 0.85 };
+    }
+
+    if (structural.paragraphIndex !== undefined) {
+      const span = paragraphSpans(textContent, 0, textContent.length)[structural.paragraphIndex];
+      const range = span && this.locateInSpan(textContent, span, targetText, structural.paragraphOffset);
+      if (range) return { ...range, confidence: 0.75 };
     }
-    
+
     return null;
   }
 
-  private calculateParagraphIndex(offset: number): number {
-    // 簡化實現：假設每300個字符為一段
-    return Math.floor(offset / 300);
+  // 選取起點所在的範圍；多個範圍重疊時取最內層（最短）的
+  private rangeContaining<T extends StructureRange>(ranges: T[], startOffset: number): T | undefined {
+    return ranges
+      .filter(range => range.startOffset <= startOffset && startOffset < range.endOffset)
+      .sort((a, b) => (a.endOffset - a.startOffset) - (b.endOffset - b.startOffset))[0];
   }
 
-  private async findChapterId(textId: string, offset: number): Promise<string | undefined> {
-    // 模擬實現，實際應該查詢數據庫
-    return `chapter_${Math.floor(offset / 5000)}`;
-  }
+  private findArticle(
+    document: Omit<StructuralDocument, 'text'> | undefined,
+    structural: StructuralPath
+  ): StructureRange | undefined {
+    const articles = document?.structure?.articles || [];
 
-  private async findArticleId(textId: string, offset: number): Promise<string | undefined> {
-    // 模擬實現，實際應該查詢數據庫
-    return `article_${Math.floor(offset / 1000)}`;
+    return articles.find(article => structural.articleId !== undefined && article.id === structural.articleId)
+      || articles.find(article => structural.articleNumber !== undefined && article.number === structural.articleNumber);
   }
 
-  private findByParagraphIndex(textContent: string, paragraphIndex: number, targetText: string): TextRange | null {
-    // 簡化的段落查找邏輯
-    const estimatedOffset = paragraphIndex * 300;
-    const searchStart = Math.max(0, estimatedOffset - 100);
-    const searchEnd = Math.min(textContent.length, estimatedOffset + 600);
-    
-    const searchArea = textContent.slice(searchStart, searchEnd);
-    const targetIndex = searchArea.indexOf(targetText);
-    
-    if (targetIndex !== -1) {
-      const absoluteStart = searchStart + targetIndex;
-      return {
-        startOffset: absoluteStart,
-        endOffset: absoluteStart + targetText.length,
-        text: targetText,
-        confidence: 0.8
-      };
+  /**
+   * 在存儲的 HTML 中解析 CSS 選擇器路徑，取元素文字的首個非空行，
+   * 到純文本中找到最接近原位置的出現處，得出元素在純文本中的大致範圍。
+   */
+  private findElementSpan(textContent: string, html: string, elementPath: string, expectedOffset: number): Span | null {
+    let elementText: string;
+    try {
+      const $ = cheerio.load(html);
+      const element = $(elementPath).first();
+      if (element.length === 0) return null;
+      elementText = element.text();
+    } catch {
+      // 客戶端提交的選擇器可能無法解析
+      return null;
     }
-    
-    return null;
+
+    const lines = elementText.split('\n').map(line => line.trim()).filter(Boolean);
+    const anchor = lines[0];
+    if (!anchor) return null;
+
+    let best = -1;
+    for (let index = textContent.indexOf(anchor); index !== -1; index = textContent.indexOf(anchor, index + 1)) {
+      if (best === -1 || Math.abs(index - expectedOffset) < Math.abs(best - expectedOffset)) {
+        best = index;
+      }
+    }
+    if (best === -1) return null;
+
+    const length = elementText.replace(/\s+/g, ' ').trim().length;
+    return { start: best, end: Math.min(textContent.length, best + length + ELEMENT_SLACK) };
   }
 
-  private findByElementPath(textContent: string, elementPath: string, targetText: string): TextRange | null {
-    // 簡化實現，實際應該解析CSS選擇器路徑
-    const index = textContent.indexOf(targetText);
-    if (index !== -1) {
-      return {
-        startOffset: index,
-        endOffset: index + targetText.length,
-        text: targetText,
-        confidence: 0.9
-      };
+  // 範圍內選取文字的出現處，有多處時取最接近原段落內偏移量的；跨段選取時向後延伸範圍
+  private locateInSpan(textContent: string, span: Span, targetText: string, expectedOffset?: number): TextRange | null {
+    const end = Math.max(span.end, span.start + (expectedOffset ?? 0) + targetText.length);
+    const area = textContent.slice(span.start, end);
+    let best = -1;
+
+    for (let index = area.indexOf(targetText); index !== -1; index = area.indexOf(targetText, index + 1)) {
+      if (best === -1 || expectedOffset === undefined) {
+        best = index;
+        if (expectedOffset === undefined) break;
+      } else if (Math.abs(index - expectedOffset) < Math.abs(best - expectedOffset)) {
+        best = index;
+      }
     }
-    
-    return null;
+    if (best === -1) return null;
+
+    const startOffset = span.start + best;
+    return {
+      startOffset,
+      endOffset: startOffset + targetText.length,
+      text: targetText
+    };
   }
-} 
\ No newline at end of file
+}
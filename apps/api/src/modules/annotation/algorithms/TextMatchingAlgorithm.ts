@@ -4,8 +4,14 @@ import {
   TextMatch,
   PositioningMethod
 } from '../../../shared/types/annotation.types';
+import { HashUtil } from '../utils/hashUtils';
+
+// 指紋相似度低於此值的窗口不作為候選
+const MIN_FINGERPRINT_SIMILARITY = 0.6;
 
 export class TextMatchingAlgorithm {
+  private hashUtil = new HashUtil();
+
   async findByContextMatch(textContent: string, position: AnnotationPosition): Promise<TextRange | null> {
     const { context, primary } = position;
     
@@ -24,32 +30,59 @@ export class TextMatchingAlgorithm {
     return this.locateExactText(textContent, bestMatch, primary.selectedText);
   }
 
+  /**
+   * 以選取文字長度的窗口滑過正文，按三元組指紋相似度評分。
+   * 先以四分之一窗口的步長粗掃，再在最佳窗口附近逐字符細化。
+   */
   async findByTextFingerprint(textContent: string, position: AnnotationPosition): Promise<TextRange | null> {
-    const targetText = position.primary.selectedText;
+    const windowSize = position.primary.selectedText.length;
+    if (windowSize === 0 || textContent.length < windowSize) {
+      return null;
+    }
+
     const fingerprint = position.fingerprint;
-    
-    // 使用滑動窗口尋找相似的文本段
-    const windowSize = targetText.length;
+    const score = (offset: number) =>
+      this.hashUtil.compareFingerprints(
+        fingerprint,
+        this.hashUtil.generateFingerprint(textContent.slice(offset, offset + windowSize))
+      );
+
+    const lastOffset = textContent.length - windowSize;
     const step = Math.max(1, Math.floor(windowSize / 4));
-    
-    for (let i = 0; i <= textContent.length - windowSize; i += step) {
-      const candidate = textContent.slice(i, i + windowSize);
-      const candidateFingerprint = this.generateTextFingerprint(candidate);
-      
-      if (this.compareFingerprints(fingerprint, candidateFingerprint)) {
-        const similarity = this.calculateTextSimilarity(targetText, candidate);
-        if (similarity > 0.8) {
-          return {
-            startOffset: i,
-            endOffset: i + windowSize,
-            text: candidate,
-            confidence: similarity
-          };
-        }
+    let bestOffset = -1;
+    let bestScore = 0;
+
+    for (let offset = 0; offset <= lastOffset; offset += step) {
+      const similarity = score(offset);
+      if (similarity > bestScore) {
+        bestScore = similarity;
+        bestOffset = offset;
       }
+      if (similarity === 1) break;
     }
-    
-    return null;
+
+    if (bestOffset === -1 || bestScore < MIN_FINGERPRINT_SIMILARITY / 2) {
+      return null;
+    }
+
+    for (let offset = Math.max(0, bestOffset - step + 1); offset <= Math.min(lastOffset, bestOffset + step - 1); offset++) {
+      const similarity = score(offset);
+      if (similarity > bestScore) {
+        bestScore = similarity;
+        bestOffset = offset;
+      }
+    }
+
+    if (bestScore < MIN_FINGERPRINT_SIMILARITY) {
+      return null;
+    }
+
+    return {
+      startOffset: bestOffset,
+      endOffset: bestOffset + windowSize,
+      text: textContent.slice(bestOffset, bestOffset + windowSize),
+      confidence: bestScore
+    };
   }
 
   async findByFuzzyMatch(textContent: string, position: AnnotationPosition): Promise<TextRange | null> {
@@ -208,29 +241,6 @@ export class TextMatchingAlgorithm {
     };
   }
 
-  private generateTextFingerprint(text: string): string {
-    const words = text.toLowerCase().split(/\s+/).filter(word => word.length > 2);
-    
-    // 生成3-gram
-    const trigrams = [];
-    for (let i = 0; i < words.length - 2; i++) {
-      trigrams.push(words.slice(i, i + 3).join(' '));
-    }
-    
-    return trigrams.join('|');
-  }
-
-  private compareFingerprints(fp1: string, fp2: string): boolean {
-    const trigrams1 = new Set(fp1.split('|'));
-    const trigrams2 = new Set(fp2.split('|'));
-    
-    const intersection = new Set([...trigrams1].filter(x => trigrams2.has(x)));
-    const union = new Set([...trigrams1, ...trigrams2]);
-    
-    const similarity = intersection.size / (union.size || 1);
-    return similarity > 0.3;
-  }
-
   private findBestSubstringMatch(textContent: string, targetText: string): TextRange | null {
     const normalizedTarget = this.normalizeText(targetText);
     const normalizedContent = this.normalizeText(textContent);
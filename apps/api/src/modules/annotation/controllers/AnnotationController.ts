@@ -0,0 +1,452 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { AnnotationService } from '../services/AnnotationService';
+import { ReanchoringService } from '../services/ReanchoringService';
+import { ThreadService } from '../services/ThreadService';
+import { ModerationService } from '../services/ModerationService';
+import {
+  CreateAnnotationInput,
+  UpdateAnnotationInput,
+  AnnotationListFilters,
+  AnnotationStatus,
+  ReattachAnnotationInput,
+  ReplyInput,
+  ReplyUpdate,
+  MentionFilters,
+  ModerationQueueFilters,
+  AnnotationViewer,
+  AnnotationError
+} from '../../../shared/types/annotation.types';
+
+export interface ListAnnotationsRequest {
+  Querystring: AnnotationListFilters;
+}
+
+export interface AnnotationIdRequest {
+  Params: {
+    id: string;
+  };
+}
+
+export interface CreateAnnotationRequest {
+  Body: CreateAnnotationInput;
+}
+
+export interface UpdateAnnotationRequest {
+  Params: {
+    id: string;
+  };
+  Body: UpdateAnnotationInput;
+}
+
+export interface ChangeAnnotationStatusRequest {
+  Params: {
+    id: string;
+  };
+  Body: {
+    status: AnnotationStatus;
+    reason?: string;
+  };
+}
+
+export interface ModerateAnnotationRequest {
+  Params: {
+    id: string;
+  };
+  Body: {
+    reason?: string;
+  } | null;
+}
+
+export interface ModerationQueueRequest {
+  Querystring: ModerationQueueFilters;
+}
+
+export interface ReattachAnnotationRequest {
+  Params: {
+    id: string;
+  };
+  Body: ReattachAnnotationInput;
+}
+
+export interface OrphanReportRequest {
+  Querystring: {
+    textId?: string;
+  };
+}
+
+export interface AddReplyRequest {
+  Params: {
+    id: string;
+  };
+  Body: ReplyInput;
+}
+
+export interface ReplyIdRequest {
+  Params: {
+    id: string;
+    replyId: string;
+  };
+}
+
+export interface UpdateReplyRequest {
+  Params: {
+    id: string;
+    replyId: string;
+  };
+  Body: ReplyUpdate;
+}
+
+export interface ListMentionsRequest {
+  Querystring: MentionFilters;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  INVALID_ANNOTATION: 400,
+  INVALID_SELECTION: 400,
+  INVALID_REPLY: 400,
+  REASON_REQUIRED: 400,
+  ANNOTATION_FORBIDDEN: 403,
+  ANNOTATION_NOT_FOUND: 404,
+  REPLY_NOT_FOUND: 404,
+  TEXT_NOT_FOUND: 404,
+  INVALID_STATUS_CHANGE: 409,
+  STATUS_CONFLICT: 409,
+  THREAD_RESOLVED: 409
+};
+
+export class AnnotationController {
+  constructor(
+    private annotationService: AnnotationService,
+    private reanchoringService: ReanchoringService,
+    private threadService: ThreadService,
+    private moderationService: ModerationService
+  ) {}
+
+  // 文本的註解列表，含按當前正文重新定位的位置
+  async list(
+    request: FastifyRequest<ListAnnotationsRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const annotations = await this.annotationService.list(request.query, this.getViewer(request));
+
+      reply.send({
+        success: true,
+        data: annotations
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to list annotations');
+    }
+  }
+
+  async get(
+    request: FastifyRequest<AnnotationIdRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const annotation = await this.annotationService.get(request.params.id, this.getViewer(request));
+
+      reply.send({
+        success: true,
+        data: annotation
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to get annotation');
+    }
+  }
+
+  async create(
+    request: FastifyRequest<CreateAnnotationRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const annotation = await this.annotationService.create(request.body, this.getViewer(request));
+
+      reply.code(201).send({
+        success: true,
+        data: annotation
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to create annotation');
+    }
+  }
+
+  async update(
+    request: FastifyRequest<UpdateAnnotationRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const annotation = await this.annotationService.update(request.params.id, request.body, this.getViewer(request));
+
+      reply.send({
+        success: true,
+        data: annotation
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to update annotation');
+    }
+  }
+
+  async delete(
+    request: FastifyRequest<AnnotationIdRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      await this.annotationService.delete(request.params.id, this.getViewer(request));
+
+      reply.send({
+        success: true,
+        message: 'Annotation deleted'
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to delete annotation');
+    }
+  }
+
+  async changeStatus(
+    request: FastifyRequest<ChangeAnnotationStatusRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const annotation = await this.annotationService.changeStatus(
+        request.params.id,
+        request.body.status,
+        this.getViewer(request),
+        request.body.reason
+      );
+
+      reply.send({
+        success: true,
+        data: annotation
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to change annotation status');
+    }
+  }
+
+  // 審核員批准或駁回公開註解；駁回須附理由
+  moderate(status: 'APPROVED' | 'REJECTED') {
+    return async (
+      request: FastifyRequest<ModerateAnnotationRequest>,
+      reply: FastifyReply
+    ): Promise<void> => {
+      try {
+        const annotation = await this.annotationService.changeStatus(
+          request.params.id,
+          status,
+          this.getViewer(request),
+          request.body?.reason
+        );
+
+        reply.send({
+          success: true,
+          data: annotation
+        });
+      } catch (error) {
+        this.sendError(reply, error, `Failed to ${status === 'APPROVED' ? 'approve' : 'reject'} annotation`);
+      }
+    };
+  }
+
+  async getModerationQueue(
+    request: FastifyRequest<ModerationQueueRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const queue = await this.moderationService.getQueue(request.query, this.getViewer(request));
+
+      reply.send({
+        success: true,
+        data: queue
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to get moderation queue');
+    }
+  }
+
+  async getTransitions(
+    request: FastifyRequest<AnnotationIdRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const transitions = await this.moderationService.getHistory(request.params.id, this.getViewer(request));
+
+      reply.send({
+        success: true,
+        data: transitions
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to get status history');
+    }
+  }
+
+  // 正文修改後需要手動重新附著的註解（僅本人的）
+  async getOrphanReport(
+    request: FastifyRequest<OrphanReportRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const report = await this.reanchoringService.getOrphanReport(this.getViewer(request), request.query.textId);
+
+      reply.send({
+        success: true,
+        data: report
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to get orphaned annotations');
+    }
+  }
+
+  async reattach(
+    request: FastifyRequest<ReattachAnnotationRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const annotation = await this.annotationService.reattach(
+        request.params.id,
+        request.body.selection,
+        this.getViewer(request)
+      );
+
+      reply.send({
+        success: true,
+        data: annotation
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to reattach annotation');
+    }
+  }
+
+  // 討論串：可見的回覆按層級嵌套返回
+  async getThread(
+    request: FastifyRequest<AnnotationIdRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const thread = await this.threadService.getThread(request.params.id, this.getViewer(request));
+
+      reply.send({
+        success: true,
+        data: thread
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to get annotation thread');
+    }
+  }
+
+  async addReply(
+    request: FastifyRequest<AddReplyRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const created = await this.threadService.addReply(request.params.id, request.body, this.getViewer(request));
+
+      reply.code(201).send({
+        success: true,
+        data: created
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to add reply');
+    }
+  }
+
+  async updateReply(
+    request: FastifyRequest<UpdateReplyRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const updated = await this.threadService.updateReply(
+        request.params.id,
+        request.params.replyId,
+        request.body,
+        this.getViewer(request)
+      );
+
+      reply.send({
+        success: true,
+        data: updated
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to update reply');
+    }
+  }
+
+  async deleteReply(
+    request: FastifyRequest<ReplyIdRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      await this.threadService.deleteReply(request.params.id, request.params.replyId, this.getViewer(request));
+
+      reply.send({
+        success: true,
+        message: 'Reply deleted'
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to delete reply');
+    }
+  }
+
+  async resolve(
+    request: FastifyRequest<AnnotationIdRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const thread = await this.threadService.setResolved(request.params.id, true, this.getViewer(request));
+
+      reply.send({
+        success: true,
+        data: thread
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to resolve thread');
+    }
+  }
+
+  async reopen(
+    request: FastifyRequest<AnnotationIdRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const thread = await this.threadService.setResolved(request.params.id, false, this.getViewer(request));
+
+      reply.send({
+        success: true,
+        data: thread
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to reopen thread');
+    }
+  }
+
+  // 本人被提及的回覆
+  async listMentions(
+    request: FastifyRequest<ListMentionsRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const mentions = await this.threadService.listMentions(request.query, this.getViewer(request));
+
+      reply.send({
+        success: true,
+        data: mentions
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to list mentions');
+    }
+  }
+
+  private getViewer(request: FastifyRequest): AnnotationViewer {
+    const user = (request as any).user as { id: string; roles: string[] };
+    return { id: user.id, roles: user.roles };
+  }
+
+  private sendError(reply: FastifyReply, error: unknown, fallback: string): void {
+    const status = error instanceof AnnotationError ? ERROR_STATUS[error.code] || 500 : 500;
+
+    reply.code(status).send({
+      success: false,
+      error: error instanceof Error ? error.message : fallback
+    });
+  }
+}
@@ -0,0 +1,776 @@
+import { FastifyInstance } from 'fastify';
+import {
+  AnnotationController,
+  ListAnnotationsRequest,
+  AnnotationIdRequest,
+  CreateAnnotationRequest,
+  UpdateAnnotationRequest,
+  ChangeAnnotationStatusRequest,
+  ReattachAnnotationRequest,
+  OrphanReportRequest,
+  AddReplyRequest,
+  ReplyIdRequest,
+  UpdateReplyRequest,
+  ListMentionsRequest,
+  ModerateAnnotationRequest,
+  ModerationQueueRequest
+} from '../controllers/AnnotationController';
+import { AnnotationService } from '../services/AnnotationService';
+import { ReanchoringService } from '../services/ReanchoringService';
+import { ThreadService } from '../services/ThreadService';
+import { ModerationService } from '../services/ModerationService';
+import { AuthMiddleware } from '../../auth/middleware/authMiddleware';
+
+const ANNOTATION_TYPES = ['NOTE', 'COMMENT', 'REFERENCE', 'TRANSLATION'];
+const ANNOTATION_STATUSES = ['DRAFT', 'PENDING', 'APPROVED', 'REJECTED', 'ARCHIVED'];
+
+const MODERATION_ROUTES = [
+  { action: 'approve', status: 'APPROVED', description: '批准公開註解（審核員）', reasonRequired: false },
+  { action: 'reject', status: 'REJECTED', description: '駁回公開註解並說明理由（審核員）', reasonRequired: true }
+] as const;
+
+const annotationSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    textId: { type: 'string' },
+    language: { type: 'string' },
+    authorId: { type: 'string' },
+    content: { type: 'string' },
+    type: { type: 'string' },
+    status: { type: 'string' },
+    isPublic: { type: 'boolean' },
+    rejectionReason: { type: 'string', nullable: true },
+    selectedText: { type: 'string' },
+    anchor: {
+      type: 'object',
+      properties: {
+        status: { type: 'string', enum: ['anchored', 'lost', 'orphaned'] },
+        range: {
+          type: 'object',
+          nullable: true,
+          properties: {
+            startOffset: { type: 'number' },
+            endOffset: { type: 'number' },
+            text: { type: 'string' },
+            confidence: { type: 'number' }
+          }
+        },
+        confidence: { type: 'number' },
+        method: { type: 'string', nullable: true }
+      }
+    },
+    alignment: {
+      type: 'object',
+      nullable: true,
+      properties: {
+        sourceLanguage: { type: 'string' },
+        targetLanguage: { type: 'string' },
+        status: { type: 'string', enum: ['aligned', 'unaligned'] },
+        range: {
+          type: 'object',
+          nullable: true,
+          properties: {
+            startOffset: { type: 'number' },
+            endOffset: { type: 'number' },
+            text: { type: 'string' },
+            confidence: { type: 'number' }
+          }
+        },
+        confidence: { type: 'number' },
+        granularity: { type: 'string', nullable: true },
+        articleNumber: { type: 'string', nullable: true }
+      }
+    },
+    resolvedAt: { type: 'string', nullable: true },
+    resolvedById: { type: 'string', nullable: true },
+    createdAt: { type: 'string' },
+    updatedAt: { type: 'string' }
+  }
+};
+
+const selectionSchema = {
+  type: 'object',
+  required: ['selectedText', 'startOffset', 'endOffset'],
+  properties: {
+    selectedText: { type: 'string', minLength: 1, maxLength: 5000 },
+    startOffset: { type: 'integer', minimum: 0 },
+    endOffset: { type: 'integer', minimum: 1 },
+    contextBefore: { type: 'string', default: '' },
+    contextAfter: { type: 'string', default: '' },
+    elementPath: { type: 'string', maxLength: 1000 },
+    pageUrl: { type: 'string' }
+  }
+};
+
+const replyUserSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    username: { type: 'string' }
+  }
+};
+
+// 回覆按層級嵌套，子回覆不在響應架構中展開以免遞歸
+const replySchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    annotationId: { type: 'string' },
+    parentId: { type: 'string', nullable: true },
+    authorId: { type: 'string' },
+    author: replyUserSchema,
+    content: { type: 'string', nullable: true },
+    isPublic: { type: 'boolean' },
+    deleted: { type: 'boolean' },
+    mentions: { type: 'array', items: replyUserSchema },
+    editedAt: { type: 'string', nullable: true },
+    createdAt: { type: 'string' },
+    replies: { type: 'array', items: { type: 'object', additionalProperties: true } }
+  }
+};
+
+const threadResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    data: {
+      type: 'object',
+      properties: {
+        annotationId: { type: 'string' },
+        resolved: { type: 'boolean' },
+        resolvedAt: { type: 'string', nullable: true },
+        resolvedBy: { ...replyUserSchema, nullable: true },
+        total: { type: 'number' },
+        replies: { type: 'array', items: { type: 'object', additionalProperties: true } }
+      }
+    }
+  }
+};
+
+const replyResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    data: replySchema
+  }
+};
+
+const annotationResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    data: annotationSchema
+  }
+};
+
+const annotationIdParams = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string', format: 'uuid' }
+  }
+};
+
+const replyIdParams = {
+  type: 'object',
+  required: ['id', 'replyId'],
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    replyId: { type: 'string', format: 'uuid' }
+  }
+};
+
+const errorResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    error: { type: 'string' }
+  }
+};
+
+export async function annotationRoutes(fastify: FastifyInstance) {
+  // 初始化服務和控制器
+  const annotationService = new AnnotationService();
+  const reanchoringService = new ReanchoringService();
+  const threadService = new ThreadService(annotationService);
+  const moderationService = new ModerationService(annotationService);
+  const annotationController = new AnnotationController(
+    annotationService,
+    reanchoringService,
+    threadService,
+    moderationService
+  );
+  const authMiddleware = new AuthMiddleware();
+
+  // 正文變更時在背景重新定位註解
+  reanchoringService.start();
+  fastify.addHook('onClose', async () => {
+    reanchoringService.stop();
+  });
+
+  // 文本的註解列表（非公開或未批准的註解僅作者及審核員可見）；
+  // includeParallel 時另一語言版本的註解附帶在本語言中的對齊位置
+  fastify.get<ListAnnotationsRequest>('/', {
+    schema: {
+      description: '列出文本某一語言版本的註解，並按當前正文重新定位；可同時返回另一語言的對齊註解',
+      tags: ['Annotations'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        required: ['textId'],
+        properties: {
+          textId: { type: 'string', format: 'uuid' },
+          language: { type: 'string', enum: ['zh', 'pt'] },
+          status: { type: 'string', enum: ANNOTATION_STATUSES },
+          authorId: { type: 'string', format: 'uuid' },
+          includeParallel: { type: 'boolean', default: false }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'array', items: annotationSchema }
+          }
+        },
+        404: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: [authMiddleware.requireAuth(), authMiddleware.requirePermission('annotations', 'read')],
+    handler: annotationController.list.bind(annotationController)
+  });
+
+  // 孤立註解報告；靜態路徑優先於 /:id
+  fastify.get<OrphanReportRequest>('/orphans', {
+    schema: {
+      description: '列出本人因正文修改而無法自動重新定位的註解及候選位置',
+      tags: ['Annotations'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          textId: { type: 'string', format: 'uuid' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                total: { type: 'number' },
+                items: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      annotationId: { type: 'string' },
+                      textId: { type: 'string' },
+                      textTitle: { type: 'string' },
+                      language: { type: 'string' },
+                      content: { type: 'string' },
+                      selectedText: { type: 'string' },
+                      lastKnownRange: {
+                        type: 'object',
+                        properties: {
+                          startOffset: { type: 'number' },
+                          endOffset: { type: 'number' }
+                        }
+                      },
+                      confidence: { type: 'number' },
+                      orphanedAt: { type: 'string', nullable: true },
+                      candidates: {
+                        type: 'array',
+                        items: {
+                          type: 'object',
+                          properties: {
+                            startOffset: { type: 'number' },
+                            endOffset: { type: 'number' },
+                            similarity: { type: 'number' },
+                            text: { type: 'string' }
+                          }
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        },
+        500: errorResponseSchema
+      }
+    },
+    preHandler: [authMiddleware.requireAuth(), authMiddleware.requirePermission('annotations', 'read')],
+    handler: annotationController.getOrphanReport.bind(annotationController)
+  });
+
+  // 審核隊列（審核員）：待審核的公開註解及其上下文
+  fastify.get<ModerationQueueRequest>('/moderation-queue', {
+    schema: {
+      description: '待審核的公開註解隊列',
+      tags: ['Annotations'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          textId: { type: 'string', format: 'uuid' },
+          language: { type: 'string', enum: ['zh', 'pt'] },
+          page: { type: 'integer', minimum: 1 },
+          limit: { type: 'integer', minimum: 1, maximum: 100 }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                items: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      id: { type: 'string' },
+                      textId: { type: 'string' },
+                      textTitle: { type: 'string' },
+                      language: { type: 'string' },
+                      author: replyUserSchema,
+                      content: { type: 'string' },
+                      type: { type: 'string' },
+                      selectedText: { type: 'string' },
+                      context: {
+                        type: 'object',
+                        properties: {
+                          before: { type: 'string' },
+                          after: { type: 'string' }
+                        }
+                      },
+                      submittedAt: { type: 'string' },
+                      createdAt: { type: 'string' }
+                    }
+                  }
+                },
+                total: { type: 'number' },
+                page: { type: 'number' },
+                limit: { type: 'number' }
+              }
+            }
+          }
+        },
+        403: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: authMiddleware.requireAuth(),
+    handler: annotationController.getModerationQueue.bind(annotationController)
+  });
+
+  // 提及本人的回覆，最新的在前
+  fastify.get<ListMentionsRequest>('/mentions', {
+    schema: {
+      description: '列出本人在註解討論中被提及的回覆',
+      tags: ['Annotations'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          page: { type: 'integer', minimum: 1, default: 1 },
+          limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                items: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      replyId: { type: 'string' },
+                      annotationId: { type: 'string' },
+                      textId: { type: 'string' },
+                      author: replyUserSchema,
+                      content: { type: 'string' },
+                      createdAt: { type: 'string' }
+                    }
+                  }
+                },
+                total: { type: 'number' },
+                page: { type: 'number' },
+                limit: { type: 'number' }
+              }
+            }
+          }
+        },
+        500: errorResponseSchema
+      }
+    },
+    preHandler: [authMiddleware.requireAuth(), authMiddleware.requirePermission('annotations', 'read')],
+    handler: annotationController.listMentions.bind(annotationController)
+  });
+
+  fastify.get<AnnotationIdRequest>('/:id', {
+    schema: {
+      description: '獲取註解及其重新定位後的位置和信心度',
+      tags: ['Annotations'],
+      security: [{ bearerAuth: [] }],
+      params: annotationIdParams,
+      response: {
+        200: annotationResponseSchema,
+        404: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: [authMiddleware.requireAuth(), authMiddleware.requirePermission('annotations', 'read')],
+    handler: annotationController.get.bind(annotationController)
+  });
+
+  // 以前端選取數據建立註解，並保存多層定位信息
+  fastify.post<CreateAnnotationRequest>('/', {
+    schema: {
+      description: '創建註解',
+      tags: ['Annotations'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['textId', 'language', 'selection', 'content'],
+        additionalProperties: false,
+        properties: {
+          textId: { type: 'string', format: 'uuid' },
+          language: { type: 'string', enum: ['zh', 'pt'] },
+          selection: selectionSchema,
+          content: { type: 'string', minLength: 1, maxLength: 10000 },
+          type: { type: 'string', enum: ANNOTATION_TYPES },
+          isPublic: { type: 'boolean' }
+        }
+      },
+      response: {
+        201: annotationResponseSchema,
+        400: errorResponseSchema,
+        404: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: [authMiddleware.requireAuth(), authMiddleware.requirePermission('annotations', 'create')],
+    handler: annotationController.create.bind(annotationController)
+  });
+
+  fastify.put<UpdateAnnotationRequest>('/:id', {
+    schema: {
+      description: '更新註解內容、類型或公開狀態（僅作者）',
+      tags: ['Annotations'],
+      security: [{ bearerAuth: [] }],
+      params: annotationIdParams,
+      body: {
+        type: 'object',
+        additionalProperties: false,
+        minProperties: 1,
+        properties: {
+          content: { type: 'string', minLength: 1, maxLength: 10000 },
+          type: { type: 'string', enum: ANNOTATION_TYPES },
+          isPublic: { type: 'boolean' }
+        }
+      },
+      response: {
+        200: annotationResponseSchema,
+        400: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: [authMiddleware.requireAuth(), authMiddleware.requirePermission('annotations', 'update')],
+    handler: annotationController.update.bind(annotationController)
+  });
+
+  fastify.delete<AnnotationIdRequest>('/:id', {
+    schema: {
+      description: '刪除註解（作者或審核員）',
+      tags: ['Annotations'],
+      security: [{ bearerAuth: [] }],
+      params: annotationIdParams,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' }
+          }
+        },
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: [authMiddleware.requireAuth(), authMiddleware.requirePermission('annotations', 'delete')],
+    handler: annotationController.delete.bind(annotationController)
+  });
+
+  // 狀態變更；作者可提交、撤回或歸檔，批准和駁回由服務按審核權限檢查
+  fastify.put<ChangeAnnotationStatusRequest>('/:id/status', {
+    schema: {
+      description: '變更註解狀態',
+      tags: ['Annotations'],
+      security: [{ bearerAuth: [] }],
+      params: annotationIdParams,
+      body: {
+        type: 'object',
+        required: ['status'],
+        additionalProperties: false,
+        properties: {
+          status: { type: 'string', enum: ANNOTATION_STATUSES },
+          reason: { type: 'string', maxLength: 2000 }
+        }
+      },
+      response: {
+        200: annotationResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+        409: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: authMiddleware.requireAuth(),
+    handler: annotationController.changeStatus.bind(annotationController)
+  });
+
+  // 批准、駁回；權限由服務按審核權限檢查
+  for (const { action, status, description, reasonRequired } of MODERATION_ROUTES) {
+    fastify.post<ModerateAnnotationRequest>(`/:id/${action}`, {
+      schema: {
+        description,
+        tags: ['Annotations'],
+        security: [{ bearerAuth: [] }],
+        params: annotationIdParams,
+        body: {
+          type: 'object',
+          nullable: true,
+          ...(reasonRequired ? { required: ['reason'] } : {}),
+          additionalProperties: false,
+          properties: {
+            reason: { type: 'string', maxLength: 2000 }
+          }
+        },
+        response: {
+          200: annotationResponseSchema,
+          400: errorResponseSchema,
+          403: errorResponseSchema,
+          404: errorResponseSchema,
+          409: errorResponseSchema,
+          500: errorResponseSchema
+        }
+      },
+      preHandler: authMiddleware.requireAuth(),
+      handler: annotationController.moderate(status)
+    });
+  }
+
+  fastify.get<AnnotationIdRequest>('/:id/transitions', {
+    schema: {
+      description: '註解的狀態變更記錄（含駁回理由）',
+      tags: ['Annotations'],
+      security: [{ bearerAuth: [] }],
+      params: annotationIdParams,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  annotationId: { type: 'string' },
+                  fromStatus: { type: 'string' },
+                  toStatus: { type: 'string' },
+                  actor: replyUserSchema,
+                  reason: { type: 'string', nullable: true },
+                  createdAt: { type: 'string' }
+                }
+              }
+            }
+          }
+        },
+        404: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: [authMiddleware.requireAuth(), authMiddleware.requirePermission('annotations', 'read')],
+    handler: annotationController.getTransitions.bind(annotationController)
+  });
+
+  // 手動重新附著：以當前正文中的新選取範圍重建定位
+  fastify.post<ReattachAnnotationRequest>('/:id/reattach', {
+    schema: {
+      description: '為孤立註解重新選取正文範圍（僅作者）',
+      tags: ['Annotations'],
+      security: [{ bearerAuth: [] }],
+      params: annotationIdParams,
+      body: {
+        type: 'object',
+        required: ['selection'],
+        additionalProperties: false,
+        properties: {
+          selection: selectionSchema
+        }
+      },
+      response: {
+        200: annotationResponseSchema,
+        400: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: [authMiddleware.requireAuth(), authMiddleware.requirePermission('annotations', 'update')],
+    handler: annotationController.reattach.bind(annotationController)
+  });
+
+  // 討論串（非公開回覆僅其作者、註解作者、被提及者及審核員可見）
+  fastify.get<AnnotationIdRequest>('/:id/replies', {
+    schema: {
+      description: '獲取註解的討論串',
+      tags: ['Annotations'],
+      security: [{ bearerAuth: [] }],
+      params: annotationIdParams,
+      response: {
+        200: threadResponseSchema,
+        404: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: [authMiddleware.requireAuth(), authMiddleware.requirePermission('annotations', 'read')],
+    handler: annotationController.getThread.bind(annotationController)
+  });
+
+  // 回覆內容中的 @用戶名 會記錄為提及
+  fastify.post<AddReplyRequest>('/:id/replies', {
+    schema: {
+      description: '回覆註解或其中一條回覆',
+      tags: ['Annotations'],
+      security: [{ bearerAuth: [] }],
+      params: annotationIdParams,
+      body: {
+        type: 'object',
+        required: ['content'],
+        additionalProperties: false,
+        properties: {
+          content: { type: 'string', minLength: 1, maxLength: 10000 },
+          parentId: { type: 'string', format: 'uuid' },
+          isPublic: { type: 'boolean' }
+        }
+      },
+      response: {
+        201: replyResponseSchema,
+        400: errorResponseSchema,
+        404: errorResponseSchema,
+        409: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: [authMiddleware.requireAuth(), authMiddleware.requirePermission('annotations', 'create')],
+    handler: annotationController.addReply.bind(annotationController)
+  });
+
+  fastify.put<UpdateReplyRequest>('/:id/replies/:replyId', {
+    schema: {
+      description: '編輯回覆（僅作者）',
+      tags: ['Annotations'],
+      security: [{ bearerAuth: [] }],
+      params: replyIdParams,
+      body: {
+        type: 'object',
+        additionalProperties: false,
+        minProperties: 1,
+        properties: {
+          content: { type: 'string', minLength: 1, maxLength: 10000 },
+          isPublic: { type: 'boolean' }
+        }
+      },
+      response: {
+        200: replyResponseSchema,
+        400: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: [authMiddleware.requireAuth(), authMiddleware.requirePermission('annotations', 'update')],
+    handler: annotationController.updateReply.bind(annotationController)
+  });
+
+  fastify.delete<ReplyIdRequest>('/:id/replies/:replyId', {
+    schema: {
+      description: '刪除回覆（作者或審核員）',
+      tags: ['Annotations'],
+      security: [{ bearerAuth: [] }],
+      params: replyIdParams,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' }
+          }
+        },
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: [authMiddleware.requireAuth(), authMiddleware.requirePermission('annotations', 'delete')],
+    handler: annotationController.deleteReply.bind(annotationController)
+  });
+
+  // 解決與重新打開討論串（註解作者或審核員）
+  fastify.post<AnnotationIdRequest>('/:id/resolve', {
+    schema: {
+      description: '將討論串標記為已解決',
+      tags: ['Annotations'],
+      security: [{ bearerAuth: [] }],
+      params: annotationIdParams,
+      response: {
+        200: threadResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+        409: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: [authMiddleware.requireAuth(), authMiddleware.requirePermission('annotations', 'update')],
+    handler: annotationController.resolve.bind(annotationController)
+  });
+
+  fastify.post<AnnotationIdRequest>('/:id/reopen', {
+    schema: {
+      description: '重新打開已解決的討論串',
+      tags: ['Annotations'],
+      security: [{ bearerAuth: [] }],
+      params: annotationIdParams,
+      response: {
+        200: threadResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+        409: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: [authMiddleware.requireAuth(), authMiddleware.requirePermission('annotations', 'update')],
+    handler: annotationController.reopen.bind(annotationController)
+  });
+}
\ No newline at end of file
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { AlignmentService, articleKey } from './AlignmentService';
+import { StructuralDocument } from '../../../shared/types/annotation.types';
+
+const ZH: StructuralDocument = {
+  language: 'zh',
+  text: [
+    '第一條',
+    '本法律規定租賃制度。租賃須以書面訂立。',
+    '第二條',
+    '租賃期為一年。',
+    '期滿可續期。',
+    '第三條',
+    '本法律自公佈翌日起生效。'
+  ].join('\n')
+};
+
+const PT: StructuralDocument = {
+  language: 'pt',
+  text: [
+    'Artigo 1.º',
+    'A presente lei regula o arrendamento. O arrendamento é celebrado por escrito.',
+    'Artigo 2.º',
+    'O prazo é de um ano.',
+    'Pode ser renovado no termo.',
+    'Artigo 4.º',
+    'A presente lei entra em vigor no dia seguinte.'
+  ].join('\n')
+};
+
+function rangeOf(document: StructuralDocument, text: string, through?: string) {
+  const startOffset = document.text.indexOf(text);
+  const end = through ?? text;
+  return { startOffset, endOffset: document.text.indexOf(end) + end.length };
+}
+
+describe('AlignmentService', () => {
+  const service = new AlignmentService();
+
+  it('aligns a sentence to the matching sentence of the same article', () => {
+    const alignment = service.project(ZH, PT, rangeOf(ZH, '租賃須以書面訂立'));
+
+    expect(alignment).toMatchObject({
+      sourceLanguage: 'zh',
+      targetLanguage: 'pt',
+      status: 'aligned',
+      granularity: 'sentence',
+      confidence: 0.9,
+      articleNumber: '1.º',
+      range: { text: 'O arrendamento é celebrado por escrito.' }
+    });
+  });
+
+  it('aligns a selection spanning paragraphs to the corresponding paragraphs', () => {
+    const alignment = service.project(PT, ZH, rangeOf(PT, 'um ano', 'renovado'));
+
+    expect(alignment.granularity).toBe('paragraph');
+    expect(alignment.range?.text).toBe('租賃期為一年。\n期滿可續期。');
+  });
+
+  it('falls back to the paragraph when sentence counts differ', () => {
+    const target = { ...PT, text: PT.text.replace('arrendamento. O arrendamento', 'arrendamento, que') };
+
+    const alignment = service.project(ZH, target, rangeOf(ZH, '租賃須以書面訂立'));
+
+    expect(alignment).toMatchObject({ granularity: 'paragraph', confidence: 0.75 });
+    expect(alignment.range?.text).toBe('A presente lei regula o arrendamento, que é celebrado por escrito.');
+  });
+
+  it('falls back to the whole article when paragraph counts differ', () => {
+    const target = { ...PT, text: PT.text.replace('um ano.\nPode', 'um ano e pode') };
+
+    const alignment = service.project(ZH, target, rangeOf(ZH, '期滿可續期'));
+
+    expect(alignment).toMatchObject({ granularity: 'article', confidence: 0.5, articleNumber: '2.º' });
+    expect(alignment.range?.text).toBe('Artigo 2.º\nO prazo é de um ano e pode ser renovado no termo.');
+  });
+
+  it('uses the stored structure of the source document', () => {
+    const source: StructuralDocument = {
+      ...ZH,
+      structure: {
+        chapters: [],
+        sections: [],
+        articles: [{ id: 'article-1', number: '2', title: '', startOffset: ZH.text.indexOf('第二條'), endOffset: ZH.text.indexOf('第三條') }]
+      }
+    };
+
+    expect(service.project(source, PT, rangeOf(ZH, '租賃期為一年')).range?.text).toBe('O prazo é de um ano.');
+    // 結構中沒有第一條，選取範圍不屬於任何條文
+    expect(service.project(source, PT, rangeOf(ZH, '租賃須以書面訂立')).status).toBe('unaligned');
+  });
+
+  it('leaves the annotation unaligned when the other version lacks the article', () => {
+    expect(service.project(ZH, PT, rangeOf(ZH, '生效'))).toEqual(service.unaligned('zh', 'pt'));
+  });
+});
+
+describe('articleKey', () => {
+  it('normalizes Chinese and Portuguese article numbers', () => {
+    expect(articleKey('第十五條')).toBe('15');
+    expect(articleKey('Artigo 15.º')).toBe('15');
+    expect(articleKey('15.º-a')).toBe('15-A');
+    expect(articleKey('十五-A')).toBe('15-A');
+    expect(articleKey('１５')).toBe('15');
+    expect(articleKey('único')).toBeNull();
+  });
+});
@@ -0,0 +1,194 @@
+import { parseChineseNumeral } from '../../search/utils/chineseNumerals';
+import { Span, paragraphSpans, indexContaining, trimSpan } from '../utils/textSpans';
+import {
+  AnnotationAlignment,
+  AnnotationLanguage,
+  StructuralDocument
+} from '../../../shared/types/annotation.types';
+
+interface ArticleSpan extends Span {
+  key: string;    // 規範化編號，同一編號多次出現時附序號
+  number: string;
+}
+
+// 行首的條文標題：第十五條、第15條、第十五-A條；Artigo 15.º、Artigo 15.º-A
+const ARTICLE_HEADINGS: Record<AnnotationLanguage, RegExp> = {
+  zh: /^[ \t\u3000]*第\s*([0-9零〇一二三四五六七八九十百千兩]+(?:\s*-\s*[A-Za-z])?)\s*條/gm,
+  pt: /^[ \t]*Artigo\s+(\d+(?:\.?\s*[\u00ba\u00b0o])?(?:\s*-\s*[A-Za-z](?![A-Za-z]))?)/gim
+};
+
+// 句末標點；葡文句點須後接空白和大寫字母或位於段末，且不是「1.」這類項目編號，
+// 避免把 n.º、art. 等縮寫和款項編號當作句末
+const SENTENCE_ENDS: Record<AnnotationLanguage, RegExp> = {
+  zh: /[。；;！？!?]/g,
+  pt: /[;!?]|(?<!(?:^|[\s(])\d{1,3}[a-z]?)\.(?=\s+[A-Z\u00c0-\u00dd]|\s*$)/g
+};
+
+// 按最終對齊粒度的信心度：兩個版本的段落數、句子數一致時逐一對應
+const CONFIDENCE = {
+  sentence: 0.9,
+  paragraph: 0.75,
+  article: 0.5
+} as const;
+
+// 條文編號的比較鍵：「第十五條」、「15」、「Artigo 15.º」都規範為 15，「15.º-A」為 15-A
+export function articleKey(number: string): string | null {
+  const normalized = number.normalize('NFKC');
+  const match = normalized.match(/\d+|[零〇一二三四五六七八九十百千兩]+/);
+  if (!match || match.index === undefined) return null;
+
+  const value = /\d/.test(match[0]) ? Number(match[0]) : parseChineseNumeral(match[0]);
+  if (value === null) return null;
+
+  const rest = normalized.slice(match.index + match[0].length);
+  const suffix = rest.match(/^[.\s\u00ba\u00b0o]*-\s*([A-Za-z])(?![A-Za-z])/);
+
+  return suffix?.[1] ? `${value}-${suffix[1].toUpperCase()}` : String(value);
+}
+
+/**
+ * 中葡雙語平行文本的位置對齊。兩個語言版本的條文編號一一對應：
+ * 先按編號配對條文，段落數相同時按序配對段落，句子數也相同時再配對句子；
+ * 任一層數量不一致就停在上一層，返回整段或整條的範圍和較低的信心度。
+ */
+export class AlignmentService {
+  project(
+    source: StructuralDocument,
+    target: StructuralDocument,
+    range: { startOffset: number; endOffset: number }
+  ): AnnotationAlignment {
+    const unaligned = this.unaligned(source.language, target.language);
+
+    const sourceArticle = this.articleSpans(source)
+      .find(article => article.start <= range.startOffset && range.startOffset < article.end);
+    const targetArticle = sourceArticle && this.articleSpans(target).find(article => article.key === sourceArticle.key);
+    if (!sourceArticle || !targetArticle) {
+      return unaligned;
+    }
+
+    const aligned = (span: Span | null, granularity: keyof typeof CONFIDENCE): AnnotationAlignment => {
+      if (!span) return unaligned;
+
+      return {
+        ...unaligned,
+        status: 'aligned',
+        range: {
+          startOffset: span.start,
+          endOffset: span.end,
+          text: target.text.slice(span.start, span.end),
+          confidence: CONFIDENCE[granularity]
+        },
+        confidence: CONFIDENCE[granularity],
+        granularity,
+        articleNumber: targetArticle.number
+      };
+    };
+
+    const sourceParagraphs = paragraphSpans(source.text, sourceArticle.start, sourceArticle.end);
+    const targetParagraphs = paragraphSpans(target.text, targetArticle.start, targetArticle.end);
+    if (sourceParagraphs.length !== targetParagraphs.length) {
+      return aligned(trimSpan(target.text, targetArticle.start, targetArticle.end), 'article');
+    }
+
+    const first = indexContaining(sourceParagraphs, range.startOffset);
+    const last = indexContaining(sourceParagraphs, Math.max(range.startOffset, range.endOffset - 1));
+    const firstTarget = targetParagraphs[Math.max(first, 0)];
+    const lastTarget = targetParagraphs[Math.max(last, 0)];
+    if (!firstTarget || !lastTarget) {
+      return unaligned;
+    }
+
+    // 跨段選取對齊到對應的多個段落
+    const paragraph = sourceParagraphs[Math.max(first, 0)];
+    if (first !== last || !paragraph) {
+      return aligned({ start: firstTarget.start, end: lastTarget.end }, 'paragraph');
+    }
+
+    const sourceSentences = this.sentenceSpans(source.text, paragraph, source.language);
+    const targetSentences = this.sentenceSpans(target.text, firstTarget, target.language);
+    if (sourceSentences.length !== targetSentences.length) {
+      return aligned(firstTarget, 'paragraph');
+    }
+
+    const firstSentence = targetSentences[Math.max(indexContaining(sourceSentences, range.startOffset), 0)];
+    const lastSentence = targetSentences[
+      Math.max(indexContaining(sourceSentences, Math.max(range.startOffset, range.endOffset - 1)), 0)
+    ];
+    if (!firstSentence || !lastSentence) {
+      return aligned(firstTarget, 'paragraph');
+    }
+
+    return aligned({ start: firstSentence.start, end: lastSentence.end }, 'sentence');
+  }
+
+  unaligned(sourceLanguage: AnnotationLanguage, targetLanguage: AnnotationLanguage): AnnotationAlignment {
+    return {
+      sourceLanguage,
+      targetLanguage,
+      status: 'unaligned',
+      range: null,
+      confidence: 0,
+      granularity: null,
+      articleNumber: null
+    };
+  }
+
+  /**
+   * 正文中的條文範圍。主語言使用存儲的結構；另一語言（或沒有結構時）按行首的條文標題識別，
+   * 每條到下一條標題前結束。
+   */
+  private articleSpans(document: StructuralDocument): ArticleSpan[] {
+    const stored = document.structure?.articles || [];
+    const articles = stored.length > 0
+      ? stored.map(article => ({
+        number: article.number,
+        start: article.startOffset,
+        end: Math.min(article.endOffset, document.text.length)
+      }))
+      : this.detectArticles(document.text, document.language);
+
+    // 附件等處可能重新編號，同一編號按出現次序配對
+    const seen = new Map<string, number>();
+    const spans: ArticleSpan[] = [];
+
+    for (const article of [...articles].sort((a, b) => a.start - b.start)) {
+      const key = articleKey(article.number);
+      if (key === null || article.end <= article.start) continue;
+
+      const occurrence = seen.get(key) ?? 0;
+      seen.set(key, occurrence + 1);
+      spans.push({ ...article, key: occurrence === 0 ? key : `${key}#${occurrence}` });
+    }
+
+    return spans;
+  }
+
+  private detectArticles(text: string, language: AnnotationLanguage): Array<Span & { number: string }> {
+    const headings = [...text.matchAll(new RegExp(ARTICLE_HEADINGS[language]))];
+
+    return headings.map((heading, index) => ({
+      number: (heading[1] || '').trim(),
+      start: heading.index ?? 0,
+      end: headings[index + 1]?.index ?? text.length
+    }));
+  }
+
+  // 段落內的句子範圍；最後一句可以沒有句末標點
+  private sentenceSpans(text: string, paragraph: Span, language: AnnotationLanguage): Span[] {
+    const content = text.slice(paragraph.start, paragraph.end);
+    const spans: Span[] = [];
+    let start = 0;
+
+    for (const end of content.matchAll(new RegExp(SENTENCE_ENDS[language]))) {
+      const stop = (end.index ?? 0) + end[0].length;
+      const span = trimSpan(text, paragraph.start + start, paragraph.start + stop);
+      if (span) spans.push(span);
+      start = stop;
+    }
+
+    const rest = trimSpan(text, paragraph.start + start, paragraph.end);
+    if (rest) spans.push(rest);
+
+    return spans;
+  }
+}
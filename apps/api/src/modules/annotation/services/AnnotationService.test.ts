@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { findUnique, findMany, deleteAnnotation, transaction } = vi.hoisted(() => ({
+  findUnique: vi.fn(),
+  findMany: vi.fn(),
+  deleteAnnotation: vi.fn(),
+  transaction: vi.fn()
+}));
+vi.mock('../../../config/database', () => ({
+  prisma: { annotation: { findUnique, findMany, delete: deleteAnnotation }, $transaction: transaction }
+}));
+vi.mock('../../../shared/schemas/mongodb', () => ({
+  AnnotationPosition: { find: () => ({ lean: async () => [] }) }
+}));
+vi.mock('../../auth/services/RoleService', () => ({ RoleService: class {} }));
+vi.mock('../../texts/services/TextService', () => ({ TextService: class {} }));
+
+import { AnnotationService, MODERATOR_ROLES, annotationVisibility } from './AnnotationService';
+import { PositionService } from './PositionService';
+import { TextService } from '../../texts/services/TextService';
+import { RoleService } from '../../auth/services/RoleService';
+import { AnnotationNotFoundError } from '../../../shared/types/annotation.types';
+import { LegalTextNotFoundError } from '../../../shared/types/text.types';
+
+const PENDING = { id: 'annotation-1', textId: 'text-1', authorId: 'editor-1', status: 'PENDING', isPublic: true };
+
+describe('AnnotationService.changeStatus', () => {
+  const hasAnyRole = vi.fn();
+  const service = new AnnotationService(
+    {} as PositionService,
+    { get: async () => ({ content: {} }) } as unknown as TextService,
+    { hasAnyRole } as unknown as RoleService
+  );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    findUnique.mockResolvedValue(PENDING);
+  });
+
+  it('does not let moderators approve or reject their own annotations', async () => {
+    hasAnyRole.mockResolvedValue(true);
+
+    await expect(service.changeStatus('annotation-1', 'APPROVED', { id: 'editor-1', roles: ['MODERATOR'] })).rejects.toMatchObject({
+      code: 'ANNOTATION_FORBIDDEN'
+    });
+    await expect(service.changeStatus('annotation-1', 'REJECTED', { id: 'editor-1', roles: ['MODERATOR'] }, 'Duplicado')).rejects.toMatchObject({
+      code: 'ANNOTATION_FORBIDDEN'
+    });
+  });
+
+  it('requires a moderator role to moderate other annotations', async () => {
+    hasAnyRole.mockResolvedValue(false);
+    findUnique.mockResolvedValue({ ...PENDING, status: 'APPROVED' });
+
+    await expect(service.changeStatus('annotation-1', 'REJECTED', { id: 'user-2', roles: ['USER'] }, 'Duplicado')).rejects.toMatchObject({
+      code: 'ANNOTATION_FORBIDDEN'
+    });
+    expect(hasAnyRole).toHaveBeenCalledWith('user-2', MODERATOR_ROLES);
+  });
+
+  it('does not let editors moderate even though they hold annotations:*', async () => {
+    const roles: Record<string, string> = { 'editor-2': 'EDITOR', 'moderator-1': 'MODERATOR' };
+    hasAnyRole.mockImplementation(async (userId: string, names: string[]) => names.includes(roles[userId] ?? ''));
+    findUnique.mockResolvedValue({ ...PENDING, status: 'APPROVED' });
+
+    await expect(service.changeStatus('annotation-1', 'REJECTED', { id: 'editor-2', roles: ['EDITOR'] }, 'Duplicado')).rejects.toMatchObject({
+      code: 'ANNOTATION_FORBIDDEN'
+    });
+    await expect(service.canModerate({ id: 'editor-2', roles: ['EDITOR'] })).resolves.toBe(false);
+    await expect(service.canModerate({ id: 'moderator-1', roles: ['MODERATOR'] })).resolves.toBe(true);
+  });
+});
+
+describe('AnnotationService visibility', () => {
+  const hasAnyRole = vi.fn();
+  const service = new AnnotationService(
+    {} as PositionService,
+    { get: async () => ({ content: {} }) } as unknown as TextService,
+    { hasAnyRole } as unknown as RoleService
+  );
+  const moderator = { id: 'moderator-2', roles: ['MODERATOR'] };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    hasAnyRole.mockResolvedValue(true);
+    findMany.mockResolvedValue([]);
+  });
+
+  it.each(['PENDING', 'APPROVED', 'REJECTED'])('lets moderators see public %s annotations of other authors', async status => {
+    findUnique.mockResolvedValue({ ...PENDING, status });
+
+    await expect(service.get('annotation-1', moderator)).resolves.toMatchObject({ status });
+  });
+
+  it.each(['DRAFT', 'PENDING', 'APPROVED'])('hides private %s annotations of other authors from moderators', async status => {
+    findUnique.mockResolvedValue({ ...PENDING, status, isPublic: false });
+
+    await expect(service.get('annotation-1', moderator)).rejects.toBeInstanceOf(AnnotationNotFoundError);
+  });
+
+  it('shows other users only approved public annotations', async () => {
+    hasAnyRole.mockResolvedValue(false);
+    const viewer = { id: 'user-2', roles: ['USER'] };
+
+    findUnique.mockResolvedValue(PENDING);
+    await expect(service.get('annotation-1', viewer)).rejects.toBeInstanceOf(AnnotationNotFoundError);
+
+    findUnique.mockResolvedValue({ ...PENDING, status: 'APPROVED' });
+    await expect(service.get('annotation-1', viewer)).resolves.toMatchObject({ status: 'APPROVED' });
+  });
+
+  it('lets authors see their own private drafts', async () => {
+    hasAnyRole.mockResolvedValue(false);
+    findUnique.mockResolvedValue({ ...PENDING, status: 'DRAFT', isPublic: false });
+
+    await expect(service.get('annotation-1', { id: 'editor-1', roles: ['USER'] })).resolves.toMatchObject({
+      status: 'DRAFT'
+    });
+  });
+
+  it('limits the moderator list to their own and public annotations', async () => {
+    await service.list({ textId: 'text-1' }, moderator);
+
+    const [{ where }] = findMany.mock.calls[0] as [{ where: { AND: unknown[] } }];
+    expect(where.AND).toContainEqual(annotationVisibility('moderator-2', true));
+    expect(annotationVisibility('moderator-2', true)).toEqual({
+      OR: [
+        { authorId: 'moderator-2' },
+        { isPublic: true, status: { in: ['PENDING', 'APPROVED', 'REJECTED'] } }
+      ]
+    });
+  });
+});
+
+describe('AnnotationService text access', () => {
+  const getText = vi.fn();
+  const service = new AnnotationService(
+    {} as PositionService,
+    { get: getText } as unknown as TextService,
+    { hasAnyRole: async () => true } as unknown as RoleService
+  );
+  const author = { id: 'editor-1', roles: ['EDITOR'] };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    findUnique.mockResolvedValue(PENDING);
+    // 文本已不對請求者可見，例如撤回為草稿
+    getText.mockRejectedValue(new LegalTextNotFoundError('text-1'));
+  });
+
+  it('checks the text before editing, deleting or changing the status of an annotation', async () => {
+    await expect(service.update('annotation-1', { content: '修訂' }, author)).rejects.toMatchObject({ code: 'TEXT_NOT_FOUND' });
+    await expect(service.delete('annotation-1', author)).rejects.toMatchObject({ code: 'TEXT_NOT_FOUND' });
+    await expect(service.changeStatus('annotation-1', 'DRAFT', author)).rejects.toMatchObject({ code: 'TEXT_NOT_FOUND' });
+
+    expect(getText).toHaveBeenCalledWith('text-1', author);
+    expect(transaction).not.toHaveBeenCalled();
+    expect(deleteAnnotation).not.toHaveBeenCalled();
+  });
+});
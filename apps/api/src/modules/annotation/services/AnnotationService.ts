@@ -0,0 +1,535 @@
+import { Annotation, Prisma } from '@prisma/client';
+import { prisma } from '../../../config/database';
+import { AnnotationPosition as AnnotationPositionModel } from '../../../shared/schemas/mongodb';
+import { RoleService } from '../../auth/services/RoleService';
+import { TextService } from '../../texts/services/TextService';
+import { PositionService } from './PositionService';
+import { AlignmentService } from './AlignmentService';
+import { StoredPosition, documentFor, selectionAt, toStoredPosition, fromStoredPosition } from '../utils/positionMapper';
+import { LegalTextDetail, LegalTextNotFoundError } from '../../../shared/types/text.types';
+import {
+  AnnotationPosition,
+  AnnotationAnchor,
+  AnnotationMatch,
+  AnnotationView,
+  AnnotationViewer,
+  AnnotationLanguage,
+  AnnotationListFilters,
+  AnnotationStatus,
+  AnnotationRecordType,
+  AnnotationStatusRule,
+  SelectionData,
+  StructuralDocument,
+  CreateAnnotationInput,
+  UpdateAnnotationInput,
+  AnnotationError,
+  AnnotationNotFoundError
+} from '../../../shared/types/annotation.types';
+
+// 作者提交、撤回或歸檔；審核員批准或駁回，但不能審核自己的註解。公開註解在 create/update 時自動提交審核
+export const ANNOTATION_STATUS_RULES: AnnotationStatusRule[] = [
+  { from: ['DRAFT', 'REJECTED'], to: 'PENDING', by: 'author', requiresPublic: true },
+  { from: ['PENDING', 'REJECTED', 'ARCHIVED'], to: 'DRAFT', by: 'author' },
+  { from: ['PENDING'], to: 'APPROVED', by: 'moderator', requiresPublic: true },
+  { from: ['PENDING', 'APPROVED'], to: 'REJECTED', by: 'moderator', requiresReason: true },
+  { from: ['DRAFT', 'PENDING', 'APPROVED', 'REJECTED'], to: 'ARCHIVED', by: 'author' }
+];
+
+// 審核員另可查看審核中和已駁回的公開註解；他人的非公開註解對任何人都不可見
+const MODERATOR_VISIBLE_STATUSES: AnnotationStatus[] = ['PENDING', 'APPROVED', 'REJECTED'];
+
+// 審核限 MODERATOR 和 ADMIN；EDITOR 雖持有 annotations:* 也不能審核
+export const MODERATOR_ROLES = ['MODERATOR', 'ADMIN'];
+
+export function annotationVisibility(viewerId: string, moderator: boolean): Prisma.AnnotationWhereInput {
+  return {
+    OR: [
+      { authorId: viewerId },
+      moderator ? { isPublic: true, status: { in: MODERATOR_VISIBLE_STATUSES } } : { isPublic: true, status: 'APPROVED' }
+    ]
+  };
+}
+
+export function canViewAnnotation(
+  annotation: Pick<Annotation, 'authorId' | 'isPublic' | 'status'>,
+  viewerId: string,
+  moderator: boolean
+): boolean {
+  if (annotation.authorId === viewerId) return true;
+  if (!annotation.isPublic) return false;
+
+  return moderator
+    ? MODERATOR_VISIBLE_STATUSES.includes(annotation.status as AnnotationStatus)
+    : annotation.status === 'APPROVED';
+}
+
+/**
+ * 註解的增刪改查。註解本身在 PostgreSQL，多層定位信息在 MongoDB 的 AnnotationPosition。
+ * 讀取時按當前正文重新定位，正文修改後仍能返回最可能的位置及其信心度。
+ */
+export class AnnotationService {
+  constructor(
+    private positionService: PositionService = new PositionService(),
+    private textService: TextService = new TextService(),
+    private roleService: RoleService = new RoleService(),
+    private alignmentService: AlignmentService = new AlignmentService()
+  ) {}
+
+  async create(input: CreateAnnotationInput, viewer: AnnotationViewer): Promise<AnnotationView> {
+    const content = input.content.trim();
+    if (!content) {
+      throw new AnnotationError('Annotation content is required', 'INVALID_ANNOTATION');
+    }
+
+    const position = await this.positionFor(input.textId, input.language, input.selection, viewer);
+    const { startOffset, endOffset, selectedText } = position.primary;
+    const isPublic = input.isPublic ?? false;
+
+    let positionWritten = false;
+    let annotationId: string | null = null;
+
+    try {
+      const annotation = await prisma.$transaction(async tx => {
+        const created = await tx.annotation.create({
+          data: {
+            textId: input.textId,
+            authorId: viewer.id,
+            language: input.language,
+            startOffset,
+            endOffset,
+            selectedText,
+            contextHash: position.context.hash,
+            content,
+            type: input.type || 'NOTE',
+            isPublic,
+            status: isPublic ? 'PENDING' : 'DRAFT'
+          }
+        });
+        annotationId = created.id;
+
+        if (isPublic) {
+          await tx.annotationTransition.create({
+            data: { annotationId: created.id, fromStatus: 'DRAFT', toStatus: 'PENDING', actorId: viewer.id }
+          });
+        }
+
+        await AnnotationPositionModel.create({
+          annotationId: created.id,
+          textId: input.textId,
+          ...toStoredPosition(position),
+          backup: { fuzzyMatches: [] }
+        });
+        positionWritten = true;
+
+        return created;
+      });
+
+      return this.toView(annotation, {
+        status: 'anchored',
+        range: { startOffset, endOffset, text: selectedText, confidence: 1 },
+        confidence: 1,
+        method: 'primary_position'
+      });
+    } catch (error) {
+      if (positionWritten && annotationId) {
+        await AnnotationPositionModel.deleteOne({ annotationId }).catch(() => {});
+      }
+      throw error;
+    }
+  }
+
+  async get(id: string, viewer: AnnotationViewer): Promise<AnnotationView> {
+    const { annotation, text } = await this.findAccessible(id, viewer);
+    const document = documentFor(text.content, text.structure, this.languageOf(annotation));
+    const [view] = await this.resolve([annotation], document);
+
+    return view as AnnotationView;
+  }
+
+  /**
+   * 文本的註解列表，按當前位置排序；無法定位的排在最後。
+   * includeParallel 時同時返回另一語言版本的註解，按雙語對齊投射到所請求語言的正文。
+   */
+  async list(filters: AnnotationListFilters, viewer: AnnotationViewer): Promise<AnnotationView[]> {
+    const language = filters.language || 'zh';
+    const other: AnnotationLanguage = language === 'zh' ? 'pt' : 'zh';
+    const text = await this.loadText(filters.textId, viewer);
+    const document = documentFor(text.content, text.structure, language);
+
+    const conditions: Prisma.AnnotationWhereInput[] = [{
+      textId: filters.textId,
+      language: filters.includeParallel ? { in: [language, other] } : language
+    }];
+    if (filters.status) conditions.push({ status: filters.status });
+    if (filters.authorId) conditions.push({ authorId: filters.authorId });
+
+    conditions.push(annotationVisibility(viewer.id, await this.canModerate(viewer)));
+
+    const annotations = await prisma.annotation.findMany({
+      where: { AND: conditions },
+      orderBy: { startOffset: 'asc' }
+    });
+
+    const parallel = annotations.filter(annotation => this.languageOf(annotation) === other);
+    const views = [
+      ...(await this.resolve(annotations.filter(annotation => this.languageOf(annotation) === language), document)),
+      ...(await this.resolveParallel(parallel, documentFor(text.content, text.structure, other), document, language))
+    ];
+    const offsetOf = (view: AnnotationView) => {
+      const range = view.alignment ? view.alignment.range : view.anchor.range;
+      return range?.startOffset ?? Number.MAX_SAFE_INTEGER;
+    };
+
+    return views.sort((a, b) => offsetOf(a) - offsetOf(b));
+  }
+
+  async update(id: string, update: UpdateAnnotationInput, viewer: AnnotationViewer): Promise<AnnotationView> {
+    const { annotation, text } = await this.findAccessible(id, viewer);
+    if (annotation.authorId !== viewer.id) {
+      throw new AnnotationError('Only the author can edit an annotation', 'ANNOTATION_FORBIDDEN', { id });
+    }
+
+    const data: Prisma.AnnotationUpdateManyMutationInput = {};
+    if (update.content !== undefined) {
+      data.content = update.content.trim();
+      if (!data.content) {
+        throw new AnnotationError('Annotation content is required', 'INVALID_ANNOTATION');
+      }
+    }
+    if (update.type !== undefined) data.type = update.type;
+    if (update.isPublic !== undefined) data.isPublic = update.isPublic;
+
+    const status = this.statusAfterEdit(annotation, update);
+    const updated = await this.applyChange(annotation, status, viewer.id, data);
+    const document = documentFor(text.content, text.structure, this.languageOf(updated));
+    const [view] = await this.resolve([updated], document);
+
+    return view as AnnotationView;
+  }
+
+  // 作者或審核員可刪除
+  async delete(id: string, viewer: AnnotationViewer): Promise<void> {
+    const annotation = await this.findVisible(id, viewer);
+    if (annotation.authorId !== viewer.id && !(await this.canModerate(viewer))) {
+      throw new AnnotationError('Insufficient permissions to delete this annotation', 'ANNOTATION_FORBIDDEN', { id });
+    }
+
+    await prisma.annotation.delete({ where: { id } });
+    await AnnotationPositionModel.deleteOne({ annotationId: id });
+  }
+
+  /**
+   * 變更註解狀態並記錄。駁回須附理由，理由保留在註解上供作者查看，重新提交時清除。
+   */
+  async changeStatus(
+    id: string,
+    status: AnnotationStatus,
+    viewer: AnnotationViewer,
+    reason?: string
+  ): Promise<AnnotationView> {
+    const { annotation, text } = await this.findAccessible(id, viewer);
+    const rule = ANNOTATION_STATUS_RULES.find(candidate => candidate.to === status && candidate.from.includes(annotation.status));
+
+    if (!rule) {
+      throw new AnnotationError(
+        `Cannot change annotation status from ${annotation.status} to ${status}`,
+        'INVALID_STATUS_CHANGE',
+        { from: annotation.status, to: status }
+      );
+    }
+
+    const allowed = rule.by === 'author' ? annotation.authorId === viewer.id : await this.canModerate(viewer);
+    if (!allowed) {
+      throw new AnnotationError(`Insufficient permissions to set status ${status}`, 'ANNOTATION_FORBIDDEN', { id, status });
+    }
+    if (rule.by === 'moderator' && annotation.authorId === viewer.id) {
+      throw new AnnotationError('Moderators cannot review their own annotations', 'ANNOTATION_FORBIDDEN', { id, status });
+    }
+
+    if (rule.requiresPublic && !annotation.isPublic) {
+      throw new AnnotationError('Only public annotations go through moderation', 'INVALID_STATUS_CHANGE', { id, status });
+    }
+
+    const note = reason?.trim() || null;
+    if (rule.requiresReason && !note) {
+      throw new AnnotationError(`A reason is required to set status ${status}`, 'REASON_REQUIRED', { status });
+    }
+
+    const updated = await this.applyChange(annotation, status, viewer.id, {}, note);
+    const document = documentFor(text.content, text.structure, this.languageOf(updated));
+    const [view] = await this.resolve([updated], document);
+
+    return view as AnnotationView;
+  }
+
+  /**
+   * 作者為無法自動重新定位的註解重新選取正文範圍，重建定位信息並解除孤立標記。
+   */
+  async reattach(id: string, selection: SelectionData, viewer: AnnotationViewer): Promise<AnnotationView> {
+    const annotation = await this.findVisible(id, viewer);
+    if (annotation.authorId !== viewer.id) {
+      throw new AnnotationError('Only the author can reattach an annotation', 'ANNOTATION_FORBIDDEN', { id });
+    }
+
+    const language = this.languageOf(annotation);
+    const position = await this.positionFor(annotation.textId, language, selection, viewer);
+    const { startOffset, endOffset, selectedText } = position.primary;
+
+    const updated = await prisma.annotation.update({
+      where: { id },
+      data: { startOffset, endOffset, selectedText, contextHash: position.context.hash }
+    });
+    await AnnotationPositionModel.updateOne(
+      { annotationId: id },
+      {
+        $set: {
+          ...toStoredPosition(position),
+          'backup.fuzzyMatches': [],
+          orphaned: false,
+          reanchoredAt: new Date()
+        },
+        $unset: { orphanedAt: 1 }
+      },
+      { upsert: true }
+    );
+
+    return this.toView(updated, {
+      status: 'anchored',
+      range: { startOffset, endOffset, text: selectedText, confidence: 1 },
+      confidence: 1,
+      method: 'primary_position'
+    });
+  }
+
+  // 選取內容須與當前正文一致，上下文以服務端正文為準，不信任客戶端提交的內容
+  private async positionFor(
+    textId: string,
+    language: AnnotationLanguage,
+    selection: SelectionData,
+    viewer: AnnotationViewer
+  ): Promise<AnnotationPosition> {
+    const document = await this.loadDocument(textId, language, viewer);
+    if (document === null) {
+      throw new AnnotationError(`The text has no ${language} content`, 'INVALID_SELECTION', { language });
+    }
+
+    const { startOffset, endOffset, selectedText } = selection;
+    if (
+      startOffset < 0 ||
+      endOffset > document.text.length ||
+      startOffset >= endOffset ||
+      document.text.slice(startOffset, endOffset) !== selectedText
+    ) {
+      throw new AnnotationError('Selection does not match the current text content', 'INVALID_SELECTION', {
+        startOffset,
+        endOffset
+      });
+    }
+
+    return this.positionService.calculatePosition(
+      textId,
+      selectionAt(document.text, startOffset, endOffset, selection.elementPath),
+      document
+    );
+  }
+
+  // 無權查看時與不存在同樣返回 404；所屬文本對請求者不可見時同樣拒絕
+  async findVisible(id: string, viewer: AnnotationViewer): Promise<Annotation> {
+    return (await this.findAccessible(id, viewer)).annotation;
+  }
+
+  // 讀寫註解前先確認可查看註解及其所屬文本，並返回文本供定位使用
+  private async findAccessible(
+    id: string,
+    viewer: AnnotationViewer
+  ): Promise<{ annotation: Annotation; text: LegalTextDetail }> {
+    const annotation = await prisma.annotation.findUnique({ where: { id } });
+    if (!annotation) {
+      throw new AnnotationNotFoundError(id);
+    }
+
+    const visible = canViewAnnotation(annotation, viewer.id, false)
+      || canViewAnnotation(annotation, viewer.id, await this.canModerate(viewer));
+    if (!visible) {
+      throw new AnnotationNotFoundError(id);
+    }
+
+    const text = await this.loadText(annotation.textId, viewer);
+    return { annotation, text };
+  }
+
+  /**
+   * 公開註解的內容或公開狀態改變後重新進入審核；改為非公開時撤出審核隊列。
+   */
+  private statusAfterEdit(annotation: Annotation, update: UpdateAnnotationInput): AnnotationStatus {
+    const isPublic = update.isPublic ?? annotation.isPublic;
+    if (annotation.status === 'ARCHIVED') {
+      return annotation.status;
+    }
+
+    if (!isPublic) {
+      return annotation.status === 'PENDING' ? 'DRAFT' : annotation.status;
+    }
+
+    const madePublic = !annotation.isPublic;
+    const contentChanged = update.content !== undefined && update.content.trim() !== annotation.content;
+
+    return madePublic || contentChanged ? 'PENDING' : annotation.status;
+  }
+
+  /**
+   * 以「狀態仍為讀取時狀態」作為更新條件，並發操作時只有一個能成功；狀態改變時記錄流轉。
+   */
+  private async applyChange(
+    annotation: Annotation,
+    status: AnnotationStatus,
+    actorId: string,
+    data: Prisma.AnnotationUpdateManyMutationInput,
+    reason: string | null = null
+  ): Promise<Annotation> {
+    const changed = status !== annotation.status;
+
+    return prisma.$transaction(async tx => {
+      const { count } = await tx.annotation.updateMany({
+        where: { id: annotation.id, status: annotation.status },
+        data: changed
+          ? { ...data, status, rejectionReason: status === 'REJECTED' ? reason : null }
+          : data
+      });
+      if (count === 0) {
+        throw new AnnotationError('Annotation status was changed concurrently, please retry', 'STATUS_CONFLICT', {
+          id: annotation.id
+        });
+      }
+
+      if (changed) {
+        await tx.annotationTransition.create({
+          data: { annotationId: annotation.id, fromStatus: annotation.status, toStatus: status, actorId, reason }
+        });
+      }
+
+      return tx.annotation.findUniqueOrThrow({ where: { id: annotation.id } });
+    });
+  }
+
+  async canModerate(viewer: AnnotationViewer): Promise<boolean> {
+    return this.roleService.hasAnyRole(viewer.id, MODERATOR_ROLES);
+  }
+
+  // 同時確認請求者可查看該文本；該語言沒有正文時返回 null
+  private async loadDocument(
+    textId: string,
+    language: AnnotationLanguage,
+    viewer: AnnotationViewer
+  ): Promise<StructuralDocument | null> {
+    const text = await this.loadText(textId, viewer);
+    return documentFor(text.content, text.structure, language);
+  }
+
+  private async loadText(textId: string, viewer: AnnotationViewer): Promise<LegalTextDetail> {
+    try {
+      return await this.textService.get(textId, viewer);
+    } catch (error) {
+      if (error instanceof LegalTextNotFoundError) {
+        throw new AnnotationError('Legal text not found', 'TEXT_NOT_FOUND', { textId });
+      }
+      throw error;
+    }
+  }
+
+  private async resolve(annotations: Annotation[], document: StructuralDocument | null): Promise<AnnotationView[]> {
+    if (annotations.length === 0) {
+      return [];
+    }
+
+    const stored = await AnnotationPositionModel.find({ annotationId: { $in: annotations.map(annotation => annotation.id) } })
+      .lean<StoredPosition[]>();
+    const positions = new Map(stored.map(position => [position.annotationId, position]));
+
+    return Promise.all(annotations.map(async annotation => {
+      const position = positions.get(annotation.id);
+      let anchor: AnnotationAnchor;
+
+      if (position?.orphaned) {
+        // 背景重新定位已判定為孤立，等待作者手動重新附著
+        anchor = { status: 'orphaned', range: null, confidence: position.confidence, method: null };
+      } else if (position && document !== null) {
+        anchor = await this.reanchor(document, fromStoredPosition(position));
+      } else {
+        anchor = this.lostAnchor();
+      }
+
+      return this.toView(annotation, anchor);
+    }));
+  }
+
+  // 先在註解所在語言的正文中定位，再投射到目標語言；原文已無法定位時不作對齊
+  private async resolveParallel(
+    annotations: Annotation[],
+    source: StructuralDocument | null,
+    target: StructuralDocument | null,
+    targetLanguage: AnnotationLanguage
+  ): Promise<AnnotationView[]> {
+    const views = await this.resolve(annotations, source);
+
+    return views.map(view => ({
+      ...view,
+      alignment: source && target && view.anchor.range
+        ? this.alignmentService.project(source, target, view.anchor.range)
+        : this.alignmentService.unaligned(view.language, targetLanguage)
+    }));
+  }
+
+  private async reanchor(document: StructuralDocument, position: AnnotationPosition): Promise<AnnotationAnchor> {
+    const result = await this.positionService.findAnnotationPosition(document.text, position, undefined, document);
+    if (!result.success || !result.position) {
+      return this.lostAnchor();
+    }
+
+    const best = (result.matches || []).reduce<AnnotationMatch | null>(
+      (current, match) => (!current || match.confidence > current.confidence ? match : current),
+      null
+    );
+
+    return {
+      status: 'anchored',
+      range: {
+        startOffset: result.position.primary.startOffset,
+        endOffset: result.position.primary.endOffset,
+        text: result.position.primary.selectedText,
+        confidence: result.metadata.confidence
+      },
+      confidence: result.metadata.confidence,
+      method: best?.method ?? null
+    };
+  }
+
+  private lostAnchor(): AnnotationAnchor {
+    return { status: 'lost', range: null, confidence: 0, method: null };
+  }
+
+  private languageOf(annotation: Annotation): AnnotationLanguage {
+    return annotation.language === 'pt' ? 'pt' : 'zh';
+  }
+
+  private toView(annotation: Annotation, anchor: AnnotationAnchor): AnnotationView {
+    return {
+      id: annotation.id,
+      textId: annotation.textId,
+      language: this.languageOf(annotation),
+      authorId: annotation.authorId,
+      content: annotation.content,
+      type: annotation.type as AnnotationRecordType,
+      status: annotation.status as AnnotationStatus,
+      isPublic: annotation.isPublic,
+      rejectionReason: annotation.rejectionReason,
+      selectedText: annotation.selectedText,
+      anchor,
+      alignment: null,
+      resolvedAt: annotation.resolvedAt,
+      resolvedById: annotation.resolvedById,
+      createdAt: annotation.createdAt,
+      updatedAt: annotation.updatedAt
+    };
+  }
+}
@@ -0,0 +1,104 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../../config/database';
+import { AnnotationPosition as AnnotationPositionModel } from '../../../shared/schemas/mongodb';
+import { AnnotationService } from './AnnotationService';
+import { StoredPosition } from '../utils/positionMapper';
+import {
+  AnnotationRecordType,
+  AnnotationTransitionEntry,
+  AnnotationViewer,
+  ModerationQueueFilters,
+  ModerationQueuePage,
+  AnnotationError
+} from '../../../shared/types/annotation.types';
+
+const actorSelect = { select: { id: true, username: true } } as const;
+
+/**
+ * 公開註解的審核隊列和狀態流轉記錄。批准、駁回本身經 AnnotationService.changeStatus 執行。
+ */
+export class ModerationService {
+  private readonly MAX_LIMIT = 100;
+
+  constructor(private annotationService: AnnotationService = new AnnotationService()) {}
+
+  // 待審核的公開註解，最早提交的排在前面；不含審核員自己的註解
+  async getQueue(filters: ModerationQueueFilters, viewer: AnnotationViewer): Promise<ModerationQueuePage> {
+    if (!(await this.annotationService.canModerate(viewer))) {
+      throw new AnnotationError('Insufficient permissions to moderate annotations', 'ANNOTATION_FORBIDDEN');
+    }
+
+    const page = Math.max(filters.page || 1, 1);
+    const limit = Math.min(Math.max(filters.limit || 20, 1), this.MAX_LIMIT);
+
+    const where: Prisma.AnnotationWhereInput = { status: 'PENDING', isPublic: true, authorId: { not: viewer.id } };
+    if (filters.textId) where.textId = filters.textId;
+    if (filters.language) where.language = filters.language;
+
+    const [annotations, total] = await Promise.all([
+      prisma.annotation.findMany({
+        where,
+        include: {
+          text: { select: { titleZh: true } },
+          author: actorSelect,
+          // 進入待審核狀態的那次流轉
+          transitions: {
+            where: { toStatus: 'PENDING' },
+            orderBy: { createdAt: 'desc' },
+            take: 1
+          }
+        },
+        orderBy: { updatedAt: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.annotation.count({ where })
+    ]);
+
+    const positions = await AnnotationPositionModel.find({
+      annotationId: { $in: annotations.map(annotation => annotation.id) }
+    }).lean<StoredPosition[]>();
+    const contextById = new Map(positions.map(position => [position.annotationId, position.context]));
+
+    const items = annotations.map(annotation => {
+      const context = contextById.get(annotation.id);
+
+      return {
+        id: annotation.id,
+        textId: annotation.textId,
+        textTitle: annotation.text.titleZh,
+        language: annotation.language === 'pt' ? 'pt' as const : 'zh' as const,
+        author: annotation.author,
+        content: annotation.content,
+        type: annotation.type as AnnotationRecordType,
+        selectedText: annotation.selectedText,
+        context: { before: context?.before || '', after: context?.after || '' },
+        submittedAt: annotation.transitions[0]?.createdAt ?? annotation.updatedAt,
+        createdAt: annotation.createdAt
+      };
+    });
+
+    return { items, total, page, limit };
+  }
+
+  // 狀態流轉記錄，可見性與註解本身一致
+  async getHistory(id: string, viewer: AnnotationViewer): Promise<AnnotationTransitionEntry[]> {
+    await this.annotationService.findVisible(id, viewer);
+
+    const transitions = await prisma.annotationTransition.findMany({
+      where: { annotationId: id },
+      include: { actor: actorSelect },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return transitions.map(transition => ({
+      id: transition.id,
+      annotationId: transition.annotationId,
+      fromStatus: transition.fromStatus,
+      toStatus: transition.toStatus,
+      actor: transition.actor,
+      reason: transition.reason,
+      createdAt: transition.createdAt
+    }));
+  }
+}
@@ -5,6 +5,8 @@ import {
   PositioningResult,
   PositioningMethod,
   AnnotationMatch,
+  TextFingerprint,
+  StructuralDocument,
   TextNotFoundError,
   AmbiguousMatchError,
   LowConfidenceError
@@ -27,10 +29,19 @@ export class PositionService {
     this.hashUtil = new HashUtil();
   }
 
-  async calculatePosition(textId: string, selectionData: SelectionData): Promise<AnnotationPosition> {
+  /**
+   * 計算多層定位信息。提供正文時結構定位使用真實的段落和章節條文範圍。
+   */
+  async calculatePosition(
+    textId: string,
+    selectionData: SelectionData,
+    document?: StructuralDocument
+  ): Promise<AnnotationPosition> {
     const { selectedText, startOffset, endOffset, contextBefore, contextAfter } = selectionData;
 
     return {
+      language: document?.language ?? 'zh',
+
       // 主要定位：絕對偏移量
       primary: {
         startOffset,
@@ -42,14 +53,14 @@ export class PositionService {
       context: {
         before: contextBefore.slice(-50),
         after: contextAfter.slice(0, 50),
-        hash: this.generateContextHash(contextBefore, selectedText, contextAfter)
+        hash: this.generateContextHash(contextBefore.slice(-50), selectedText, contextAfter.slice(0, 50))
       },
 
       // 結構定位：段落/章節信息
-      structural: await this.structuralAnalyzer.analyze(textId, startOffset, endOffset, selectionData.elementPath),
+      structural: this.structuralAnalyzer.analyze(document ?? null, startOffset, selectionData.elementPath),
 
       // 備用定位：文本指紋
-      fingerprint: this.generateTextFingerprint(selectedText, contextBefore, contextAfter),
+      fingerprint: this.generateTextFingerprint(selectedText),
 
       // 元數據
       metadata: {
@@ -63,7 +74,8 @@ export class PositionService {
   async findAnnotationPosition(
     textContent: string, 
     position: AnnotationPosition,
-    minConfidence: number = 0.7
+    minConfidence: number = 0.7,
+    document?: Omit<StructuralDocument, 'text'>
   ): Promise<PositioningResult> {
     const startTime = Date.now();
     const strategies: Array<{
@@ -84,7 +96,7 @@ export class PositionService {
       },
       {
         method: 'structural_path',
-        execute: () => this.findByStructuralPath(textContent, position)
+        execute: () => this.findByStructuralPath(textContent, position, document)
       },
       {
         method: 'fuzzy_match',
@@ -218,12 +230,17 @@ export class PositionService {
     return this.textMatchingAlgorithm.findByTextFingerprint(textContent, position);
   }
 
-  private async findByStructuralPath(textContent: string, position: AnnotationPosition): Promise<TextRange | null> {
-    if (!position.structural.elementPath && !position.structural.paragraphIndex) {
+  private async findByStructuralPath(
+    textContent: string,
+    position: AnnotationPosition,
+    document?: Omit<StructuralDocument, 'text'>
+  ): Promise<TextRange | null> {
+    const { elementPath, paragraphIndex, articleId, articleNumber } = position.structural;
+    if (!elementPath && paragraphIndex === undefined && !articleId && !articleNumber) {
       return null;
     }
 
-    return this.structuralAnalyzer.findByStructuralPath(textContent, position);
+    return this.structuralAnalyzer.findByStructuralPath(textContent, position, document);
   }
 
   private async findByFuzzyMatch(textContent: string, position: AnnotationPosition): Promise<TextRange | null> {
@@ -336,22 +353,14 @@ export class PositionService {
       .trim();
   }
 
+  // 以分隔符拼接，避免不同切分方式得到相同的哈希輸入
   private generateContextHash(contextBefore: string, selectedText: string, contextAfter: string): string {
-    const combined = contextBefore + selectedText + contextAfter;
-    return this.hashUtil.sha256(combined);
+    return this.hashUtil.sha256([contextBefore, selectedText, contextAfter].join('\u0000'));
   }
 
-  private generateTextFingerprint(selectedText: string, contextBefore: string, contextAfter: string): string {
-    const combined = contextBefore + selectedText + contextAfter;
-    const words = combined.split(/\s+/).filter(word => word.length > 2);
-    
-    // 生成3-gram指紋
-    const trigrams = [];
-    for (let i = 0; i < words.length - 2; i++) {
-      trigrams.push(words.slice(i, i + 3).join(' '));
-    }
-    
-    return this.hashUtil.sha256(trigrams.join('|'));
+  // 指紋只取選取文字，與重新定位時的候選窗口可直接比較
+  private generateTextFingerprint(selectedText: string): TextFingerprint {
+    return this.hashUtil.generateFingerprint(selectedText);
   }
 
   private calculatePositionConfidence(selectionData: SelectionData): number {
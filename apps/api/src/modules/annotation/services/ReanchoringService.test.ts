@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { findMany, updateMany, findOneContent, findPositions, updateOne } = vi.hoisted(() => ({
+  findMany: vi.fn(),
+  updateMany: vi.fn(),
+  findOneContent: vi.fn(),
+  findPositions: vi.fn(),
+  updateOne: vi.fn()
+}));
+vi.mock('../../../config/database', () => ({ prisma: { annotation: { findMany, updateMany } } }));
+vi.mock('../../../shared/schemas/mongodb', () => ({
+  LegalTextContent: { findOne: () => ({ lean: findOneContent }) },
+  AnnotationPosition: { find: () => ({ lean: findPositions }), updateOne }
+}));
+
+import { ReanchoringService } from './ReanchoringService';
+import { PositionService } from './PositionService';
+import { AnnotationPosition, PositioningResult, SelectionData } from '../../../shared/types/annotation.types';
+
+const TEXT = '第一條 本法規定租賃關係。第二條 出租人應交付租賃物。';
+
+const STORED = {
+  annotationId: 'annotation-1',
+  textId: 'text-1',
+  position: { startOffset: 4, endOffset: 10, selectedText: '本法規定租賃', contextHash: 'hash-1' },
+  context: { before: '第一條 ', after: '關係。', hash: 'hash-1' },
+  structural: {},
+  fingerprint: 'fingerprint-1',
+  confidence: 1,
+  backup: { fuzzyMatches: [] },
+  orphaned: false,
+  createdAt: new Date('2026-01-01T00:00:00Z')
+};
+
+function positionAt(selection: SelectionData): AnnotationPosition {
+  return {
+    language: 'zh',
+    primary: { startOffset: selection.startOffset, endOffset: selection.endOffset, selectedText: selection.selectedText },
+    context: { before: selection.contextBefore, after: selection.contextAfter, hash: 'hash-2' },
+    structural: {},
+    fingerprint: { hash: 'fingerprint-2', trigrams: [], length: selection.selectedText.length, wordCount: 1 },
+    metadata: { createdAt: new Date(), textLength: selection.selectedText.length, confidence: 1 }
+  };
+}
+
+function found(startOffset: number, endOffset: number, confidence: number): PositioningResult {
+  return {
+    success: true,
+    position: positionAt({ selectedText: TEXT.slice(startOffset, endOffset), startOffset, endOffset, contextBefore: '', contextAfter: '' }),
+    matches: [
+      { range: { startOffset, endOffset, text: TEXT.slice(startOffset, endOffset) }, confidence, method: 'context_match' },
+      { range: { startOffset: 20, endOffset: 26, text: TEXT.slice(20, 26) }, confidence: 0.4, method: 'fuzzy_match' }
+    ],
+    metadata: { totalAttempts: 2, strategiesUsed: ['primary_position', 'context_match'], processingTime: 1, confidence }
+  };
+}
+
+describe('ReanchoringService.reanchorText', () => {
+  const findAnnotationPosition = vi.fn();
+  const positionService = {
+    findAnnotationPosition,
+    calculatePosition: async (_textId: string, selection: SelectionData) => positionAt(selection)
+  } as unknown as PositionService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    findOneContent.mockResolvedValue({ textId: 'text-1', content: { zh: { text: TEXT } } });
+    findPositions.mockResolvedValue([STORED]);
+    findMany.mockResolvedValue([{ id: 'annotation-1', language: 'zh' }]);
+  });
+
+  it('moves annotations matched at or above the threshold to their new offsets', async () => {
+    findAnnotationPosition.mockResolvedValue(found(4, 10, 0.7));
+    const service = new ReanchoringService(positionService);
+
+    const summary = await service.reanchorText('text-1');
+
+    expect(summary).toEqual({ textId: 'text-1', total: 1, reanchored: 1, orphaned: 0, failed: 0 });
+    expect(findAnnotationPosition).toHaveBeenCalledWith(TEXT, expect.anything(), 0.7, { language: 'zh', text: TEXT });
+    expect(updateMany).toHaveBeenCalledWith({
+      where: { id: 'annotation-1' },
+      data: { startOffset: 4, endOffset: 10, selectedText: '本法規定租賃', contextHash: 'hash-2' }
+    });
+    const [, update] = updateOne.mock.calls[0] as [unknown, { $set: Record<string, unknown> }];
+    expect(update.$set).toMatchObject({ confidence: 0.7, orphaned: false });
+    // 已採用的位置不再列為候選
+    expect(update.$set['backup.fuzzyMatches']).toEqual([{ startOffset: 20, endOffset: 26, similarity: 0.4 }]);
+  });
+
+  it('orphans annotations whose best match is below the threshold and keeps the old offsets', async () => {
+    findAnnotationPosition.mockResolvedValue(found(4, 10, 0.69));
+    const service = new ReanchoringService(positionService);
+
+    const summary = await service.reanchorText('text-1');
+
+    expect(summary).toMatchObject({ reanchored: 0, orphaned: 1 });
+    expect(updateMany).not.toHaveBeenCalled();
+    const [, update] = updateOne.mock.calls[0] as [unknown, { $set: Record<string, unknown> }];
+    expect(update.$set).toMatchObject({ confidence: 0.69, orphaned: true });
+    expect(update.$set['backup.fuzzyMatches']).toEqual([
+      { startOffset: 4, endOffset: 10, similarity: 0.69 },
+      { startOffset: 20, endOffset: 26, similarity: 0.4 }
+    ]);
+  });
+
+  it('uses the configured threshold', async () => {
+    findAnnotationPosition.mockResolvedValue(found(4, 10, 0.85));
+    const service = new ReanchoringService(positionService, { minConfidenceThreshold: 0.9 });
+
+    await expect(service.reanchorText('text-1')).resolves.toMatchObject({ reanchored: 0, orphaned: 1 });
+    expect(findAnnotationPosition).toHaveBeenCalledWith(TEXT, expect.anything(), 0.9, { language: 'zh', text: TEXT });
+  });
+
+  it('orphans annotations whose language no longer has content', async () => {
+    findMany.mockResolvedValue([{ id: 'annotation-1', language: 'pt' }]);
+    const service = new ReanchoringService(positionService);
+
+    await expect(service.reanchorText('text-1')).resolves.toMatchObject({ orphaned: 1 });
+    expect(findAnnotationPosition).not.toHaveBeenCalled();
+    expect(updateOne.mock.calls[0]?.[1]).toMatchObject({ $set: { confidence: 0, orphaned: true } });
+  });
+
+  it('keeps the original orphaning time of annotations that stay orphaned', async () => {
+    const orphanedAt = new Date('2026-02-01T00:00:00Z');
+    findPositions.mockResolvedValue([{ ...STORED, orphaned: true, orphanedAt }]);
+    findAnnotationPosition.mockResolvedValue(found(4, 10, 0.3));
+    const service = new ReanchoringService(positionService);
+
+    await service.reanchorText('text-1');
+
+    expect(updateOne.mock.calls[0]?.[1]).toMatchObject({ $set: { orphanedAt } });
+  });
+
+  it('skips positions of deleted annotations and counts failures separately', async () => {
+    findPositions.mockResolvedValue([STORED, { ...STORED, annotationId: 'annotation-2' }, { ...STORED, annotationId: 'deleted' }]);
+    findMany.mockResolvedValue([{ id: 'annotation-1', language: 'zh' }, { id: 'annotation-2', language: 'zh' }]);
+    findAnnotationPosition.mockResolvedValueOnce(found(4, 10, 0.9)).mockRejectedValueOnce(new Error('boom'));
+    const service = new ReanchoringService(positionService);
+
+    await expect(service.reanchorText('text-1')).resolves.toEqual({
+      textId: 'text-1',
+      total: 2,
+      reanchored: 1,
+      orphaned: 0,
+      failed: 1
+    });
+  });
+});
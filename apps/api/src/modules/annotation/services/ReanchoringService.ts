@@ -0,0 +1,244 @@
+import { prisma } from '../../../config/database';
+import { LegalTextContent, AnnotationPosition as AnnotationPositionModel } from '../../../shared/schemas/mongodb';
+import { legalTextEvents } from '../../../shared/events/legalTextEvents';
+import { PositionService } from './PositionService';
+import { StoredPosition, documentFor, selectionAt, toStoredPosition, fromStoredPosition } from '../utils/positionMapper';
+import {
+  AnnotationMatch,
+  AnnotationViewer,
+  OrphanReport,
+  OrphanReportItem,
+  PositioningConfig,
+  ReanchorSummary,
+  StructuralDocument
+} from '../../../shared/types/annotation.types';
+
+type FuzzyMatch = StoredPosition['backup']['fuzzyMatches'][number];
+
+export const DEFAULT_REANCHOR_CONFIG: Pick<PositioningConfig, 'minConfidenceThreshold'> = {
+  minConfidenceThreshold: 0.7
+};
+
+/**
+ * 法律文本正文產生新版本後，在背景重新定位該文本的所有註解。
+ * 信心度達到閾值的更新偏移量並重建定位信息；不足的標記為孤立，
+ * 保留候選位置供作者手動重新附著。同一文本的任務串行執行，執行中再次變更則完成後重跑一次。
+ */
+export class ReanchoringService {
+  private readonly MAX_FUZZY_MATCHES = 5;
+
+  private running = new Map<string, Promise<void>>();
+  private rerun = new Set<string>();
+  private started = false;
+
+  private readonly onContentChanged = ({ textId }: { textId: string }) => {
+    this.enqueue(textId);
+  };
+
+  constructor(
+    private positionService: PositionService = new PositionService(),
+    private config: Pick<PositioningConfig, 'minConfidenceThreshold'> = DEFAULT_REANCHOR_CONFIG
+  ) {}
+
+  start(): void {
+    if (this.started) {
+      return;
+    }
+
+    legalTextEvents.on('contentChanged', this.onContentChanged);
+    this.started = true;
+  }
+
+  stop(): void {
+    legalTextEvents.off('contentChanged', this.onContentChanged);
+    this.started = false;
+  }
+
+  enqueue(textId: string): void {
+    if (this.running.has(textId)) {
+      this.rerun.add(textId);
+      return;
+    }
+
+    const job = this.reanchorText(textId)
+      .then(() => undefined, () => undefined)
+      .finally(() => {
+        this.running.delete(textId);
+        if (this.rerun.delete(textId)) {
+          this.enqueue(textId);
+        }
+      });
+
+    this.running.set(textId, job);
+  }
+
+  async reanchorText(textId: string): Promise<ReanchorSummary> {
+    const summary: ReanchorSummary = { textId, total: 0, reanchored: 0, orphaned: 0, failed: 0 };
+
+    const [content, positions, annotations] = await Promise.all([
+      LegalTextContent.findOne({ textId }).lean(),
+      AnnotationPositionModel.find({ textId }).lean<StoredPosition[]>(),
+      prisma.annotation.findMany({ where: { textId }, select: { id: true, language: true } })
+    ]);
+    const languages = new Map(annotations.map(annotation => [annotation.id, annotation.language]));
+
+    for (const position of positions) {
+      const language = languages.get(position.annotationId);
+      if (!language) continue;
+
+      summary.total++;
+      try {
+        const document = documentFor(content?.content, content?.structure, language === 'pt' ? 'pt' : 'zh');
+        const anchored = await this.reanchorPosition(textId, position, document);
+        if (anchored) {
+          summary.reanchored++;
+        } else {
+          summary.orphaned++;
+        }
+      } catch {
+        summary.failed++;
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * 作者的孤立註解報告，附候選位置的當前文字。
+   */
+  async getOrphanReport(viewer: AnnotationViewer, textId?: string): Promise<OrphanReport> {
+    const annotations = await prisma.annotation.findMany({
+      where: { authorId: viewer.id, ...(textId ? { textId } : {}) },
+      include: { text: { select: { titleZh: true } } }
+    });
+    if (annotations.length === 0) {
+      return { total: 0, items: [] };
+    }
+
+    const orphans = await AnnotationPositionModel.find({
+      annotationId: { $in: annotations.map(annotation => annotation.id) },
+      orphaned: true
+    })
+      .sort({ orphanedAt: -1 })
+      .lean<StoredPosition[]>();
+
+    const textIds = [...new Set(orphans.map(orphan => orphan.textId))];
+    const contents = await LegalTextContent.find({ textId: { $in: textIds } }).lean();
+    const contentByText = new Map(contents.map(content => [content.textId, content.content]));
+    const annotationById = new Map(annotations.map(annotation => [annotation.id, annotation]));
+
+    const items: OrphanReportItem[] = [];
+    for (const orphan of orphans) {
+      const annotation = annotationById.get(orphan.annotationId);
+      if (!annotation) continue;
+
+      const language = annotation.language === 'pt' ? 'pt' : 'zh';
+      const text = contentByText.get(orphan.textId)?.[language]?.text || '';
+
+      items.push({
+        annotationId: annotation.id,
+        textId: annotation.textId,
+        textTitle: annotation.text.titleZh,
+        language,
+        content: annotation.content,
+        selectedText: orphan.position.selectedText,
+        lastKnownRange: { startOffset: orphan.position.startOffset, endOffset: orphan.position.endOffset },
+        confidence: orphan.confidence,
+        orphanedAt: orphan.orphanedAt ?? null,
+        candidates: (orphan.backup?.fuzzyMatches || []).map(match => ({
+          startOffset: match.startOffset,
+          endOffset: match.endOffset,
+          similarity: match.similarity,
+          text: text.slice(match.startOffset, match.endOffset)
+        }))
+      });
+    }
+
+    return { total: items.length, items };
+  }
+
+  // 返回是否成功重新定位
+  private async reanchorPosition(textId: string, stored: StoredPosition, document: StructuralDocument | null): Promise<boolean> {
+    const threshold = this.config.minConfidenceThreshold;
+    const result = document === null
+      ? null
+      : await this.positionService.findAnnotationPosition(document.text, fromStoredPosition(stored), threshold, document);
+    const confidence = result?.metadata.confidence ?? 0;
+
+    if (document !== null && result?.success && result.position && confidence >= threshold) {
+      const { startOffset, endOffset } = result.position.primary;
+      const position = await this.positionService.calculatePosition(
+        textId,
+        selectionAt(document.text, startOffset, endOffset, stored.structural?.elementPath),
+        document
+      );
+
+      await AnnotationPositionModel.updateOne(
+        { annotationId: stored.annotationId },
+        {
+          $set: {
+            ...toStoredPosition(position),
+            confidence,
+            'backup.fuzzyMatches': this.toFuzzyMatches(result.matches, { startOffset, endOffset }),
+            orphaned: false,
+            reanchoredAt: new Date()
+          },
+          $unset: { orphanedAt: 1 }
+        }
+      );
+
+      // 註解可能已被並發刪除，此時忽略
+      await prisma.annotation.updateMany({
+        where: { id: stored.annotationId },
+        data: {
+          startOffset,
+          endOffset,
+          selectedText: position.primary.selectedText,
+          contextHash: position.context.hash
+        }
+      });
+
+      return true;
+    }
+
+    // 保留原偏移量和選取文字，候選位置供手動重新附著時參考
+    await AnnotationPositionModel.updateOne(
+      { annotationId: stored.annotationId },
+      {
+        $set: {
+          confidence,
+          'backup.fuzzyMatches': this.toFuzzyMatches(result?.matches),
+          orphaned: true,
+          orphanedAt: stored.orphaned && stored.orphanedAt ? stored.orphanedAt : new Date(),
+          reanchoredAt: new Date()
+        }
+      }
+    );
+
+    return false;
+  }
+
+  // 按信心度排序的其他候選位置，排除已採用的範圍
+  private toFuzzyMatches(
+    matches: AnnotationMatch[] | undefined,
+    chosen?: { startOffset: number; endOffset: number }
+  ): FuzzyMatch[] {
+    const seen = new Set<string>();
+
+    return (matches || [])
+      .filter(match => !chosen || match.range.startOffset !== chosen.startOffset || match.range.endOffset !== chosen.endOffset)
+      .sort((a, b) => b.confidence - a.confidence)
+      .filter(match => {
+        const key = `${match.range.startOffset}:${match.range.endOffset}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, this.MAX_FUZZY_MATCHES)
+      .map(match => ({
+        startOffset: match.range.startOffset,
+        endOffset: match.range.endOffset,
+        similarity: Math.min(Math.max(match.confidence, 0), 1)
+      }));
+  }
+}
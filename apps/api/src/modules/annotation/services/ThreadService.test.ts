@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { findReplies, createReply, findUsers, findMentions, countMentions } = vi.hoisted(() => ({
+  findReplies: vi.fn(),
+  createReply: vi.fn(),
+  findUsers: vi.fn(),
+  findMentions: vi.fn(),
+  countMentions: vi.fn()
+}));
+vi.mock('../../../config/database', () => ({
+  prisma: {
+    annotationReply: { findMany: findReplies, create: createReply },
+    user: { findMany: findUsers, findUnique: async () => null },
+    replyMention: { findMany: findMentions, count: countMentions }
+  }
+}));
+vi.mock('../../auth/services/RoleService', () => ({ RoleService: class {} }));
+vi.mock('../../texts/services/TextService', async importOriginal => ({
+  ...(await importOriginal<typeof import('../../texts/services/TextService')>()),
+  TextService: class {}
+}));
+vi.mock('./AnnotationService', async importOriginal => ({
+  ...(await importOriginal<typeof import('./AnnotationService')>()),
+  AnnotationService: class {}
+}));
+
+import { ThreadService } from './ThreadService';
+import { AnnotationService, annotationVisibility } from './AnnotationService';
+import { RoleService } from '../../auth/services/RoleService';
+import { TextService, textVisibility } from '../../texts/services/TextService';
+
+const ANNOTATION = {
+  id: 'annotation-1',
+  authorId: 'author-1',
+  status: 'APPROVED',
+  isPublic: true,
+  resolvedAt: null,
+  resolvedById: null
+};
+
+function reply(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    annotationId: 'annotation-1',
+    parentId: null,
+    authorId: 'user-1',
+    author: { id: 'user-1', username: 'ana' },
+    content: `回覆 ${id}`,
+    isPublic: true,
+    deletedAt: null,
+    editedAt: null,
+    createdAt: new Date('2026-10-01T00:00:00Z'),
+    mentions: [],
+    ...overrides
+  };
+}
+
+describe('ThreadService', () => {
+  const findVisible = vi.fn();
+  const canModerate = vi.fn();
+  const hasAnyRole = vi.fn();
+  const canViewAll = vi.fn();
+  const service = new ThreadService(
+    { findVisible, canModerate } as unknown as AnnotationService,
+    { hasAnyRole } as unknown as RoleService,
+    { canViewAll } as unknown as TextService
+  );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    findVisible.mockResolvedValue(ANNOTATION);
+    canModerate.mockResolvedValue(false);
+    canViewAll.mockResolvedValue(false);
+    hasAnyRole.mockImplementation(async (userId: string) => userId === 'moderator-1');
+    createReply.mockImplementation(async ({ data }) => reply('reply-new', { content: data.content }));
+  });
+
+  describe('getThread', () => {
+    const replies = [
+      reply('public'),
+      reply('private', { isPublic: false, authorId: 'user-2' }),
+      reply('private-mention', { isPublic: false, authorId: 'user-2', mentions: [{ userId: 'user-3', user: { id: 'user-3', username: 'rui' } }] }),
+      reply('child', { parentId: 'private' })
+    ];
+
+    it('hides private replies from other users and moves their children up', async () => {
+      findReplies.mockResolvedValue(replies);
+
+      const thread = await service.getThread('annotation-1', { id: 'user-4', roles: ['USER'] });
+
+      expect(thread.total).toBe(2);
+      expect(thread.replies.map(node => node.id)).toEqual(['public', 'child']);
+    });
+
+    it.each([
+      ['the reply author', 'user-2', ['public', 'private', 'private-mention']],
+      ['the annotation author', 'author-1', ['public', 'private', 'private-mention']],
+      ['a mentioned user', 'user-3', ['public', 'private-mention', 'child']]
+    ])('shows private replies to %s', async (_who, viewerId, expected) => {
+      findReplies.mockResolvedValue(replies);
+
+      const thread = await service.getThread('annotation-1', { id: viewerId, roles: ['USER'] });
+
+      expect(thread.replies.map(node => node.id)).toEqual(expected);
+    });
+
+    it('shows every reply to moderators', async () => {
+      findReplies.mockResolvedValue(replies);
+      canModerate.mockResolvedValue(true);
+
+      const thread = await service.getThread('annotation-1', { id: 'moderator-1', roles: ['MODERATOR'] });
+
+      expect(thread.total).toBe(4);
+      expect(thread.replies[1]?.replies.map(node => node.id)).toEqual(['child']);
+    });
+
+    it('keeps deleted replies as placeholders without content', async () => {
+      findReplies.mockResolvedValue([reply('deleted', { deletedAt: new Date() }), reply('child', { parentId: 'deleted' })]);
+
+      const thread = await service.getThread('annotation-1', { id: 'user-4', roles: ['USER'] });
+
+      expect(thread.replies[0]).toMatchObject({ id: 'deleted', deleted: true, content: null, mentions: [] });
+      expect(thread.replies[0]?.replies.map(node => node.id)).toEqual(['child']);
+    });
+  });
+
+  describe('addReply mentions', () => {
+    const viewer = { id: 'user-1', roles: ['USER'] };
+
+    function mentionedIds(): string[] {
+      const { data } = createReply.mock.calls[0]?.[0] as { data: { mentions: { create: Array<{ userId: string }> } } };
+      return data.mentions.create.map(mention => mention.userId);
+    }
+
+    it('mentions active users who can see the annotation, except the replier', async () => {
+      findUsers.mockResolvedValue([{ id: 'user-1' }, { id: 'user-3' }]);
+
+      await service.addReply('annotation-1', { content: '@ana @rui 請看第二款，副本 mail@ana.pt' }, viewer);
+
+      expect(findUsers).toHaveBeenCalledWith({
+        where: { username: { in: ['ana', 'rui'] }, status: 'ACTIVE' },
+        select: { id: true }
+      });
+      expect(mentionedIds()).toEqual(['user-3']);
+    });
+
+    it('only mentions the author and moderators on an unapproved public annotation', async () => {
+      findVisible.mockResolvedValue({ ...ANNOTATION, status: 'PENDING', authorId: 'user-1' });
+      findUsers.mockResolvedValue([{ id: 'user-3' }, { id: 'moderator-1' }]);
+
+      await service.addReply('annotation-1', { content: '@rui @mod 請審核' }, viewer);
+
+      expect(mentionedIds()).toEqual(['moderator-1']);
+    });
+
+    it('mentions nobody else on a private annotation, not even moderators', async () => {
+      findVisible.mockResolvedValue({ ...ANNOTATION, isPublic: false, authorId: 'user-1' });
+      findUsers.mockResolvedValue([{ id: 'user-3' }, { id: 'moderator-1' }]);
+
+      await service.addReply('annotation-1', { content: '@rui @mod 請看' }, viewer);
+
+      expect(mentionedIds()).toEqual([]);
+    });
+
+    it('refuses replies on a resolved thread', async () => {
+      findVisible.mockResolvedValue({ ...ANNOTATION, resolvedAt: new Date() });
+
+      await expect(service.addReply('annotation-1', { content: '補充' }, viewer)).rejects.toMatchObject({
+        code: 'THREAD_RESOLVED'
+      });
+      expect(createReply).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listMentions', () => {
+    it.each([false, true])('only lists mentions on annotations the viewer can see (moderator: %s)', async moderator => {
+      canModerate.mockResolvedValue(moderator);
+      findMentions.mockResolvedValue([]);
+      countMentions.mockResolvedValue(0);
+
+      await service.listMentions({}, { id: 'user-3', roles: ['USER'] });
+
+      expect(countMentions).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-3',
+          reply: {
+            deletedAt: null,
+            annotation: { AND: [annotationVisibility('user-3', moderator), { text: textVisibility('user-3', false) }] }
+          }
+        }
+      });
+    });
+
+    it('skips mentions on texts the viewer can no longer see', async () => {
+      findMentions.mockResolvedValue([]);
+      countMentions.mockResolvedValue(0);
+
+      await service.listMentions({}, { id: 'user-3', roles: ['USER'] });
+
+      const [{ where }] = countMentions.mock.calls[0] as [{ where: { reply: { annotation: { AND: unknown[] } } } }];
+      expect(where.reply.annotation.AND).toContainEqual({
+        text: { OR: [{ isPublic: true, status: 'PUBLISHED' }, { authorId: 'user-3' }] }
+      });
+    });
+  });
+});
@@ -0,0 +1,332 @@
+import { Annotation, Prisma } from '@prisma/client';
+import { prisma } from '../../../config/database';
+import { RoleService } from '../../auth/services/RoleService';
+import { TextService, textVisibility } from '../../texts/services/TextService';
+import { AnnotationService, MODERATOR_ROLES, annotationVisibility, canViewAnnotation } from './AnnotationService';
+import {
+  AnnotationReply,
+  AnnotationThread,
+  AnnotationViewer,
+  ReplyInput,
+  ReplyUpdate,
+  ReplyUser,
+  MentionFilters,
+  MentionPage,
+  AnnotationError
+} from '../../../shared/types/annotation.types';
+
+// @用戶名：前面不能緊接字母數字，避免把電郵地址當作提及
+const MENTION_PATTERN = /(?<![\p{L}\p{N}_.@-])@([\p{L}\p{N}_.-]{3,50})/gu;
+
+const userSelect = { select: { id: true, username: true } } as const;
+
+const replyInclude = {
+  author: userSelect,
+  mentions: { include: { user: userSelect } }
+} as const;
+
+type ReplyRecord = Prisma.AnnotationReplyGetPayload<{ include: typeof replyInclude }>;
+
+/**
+ * 註解討論串：分層回覆、@提及、解決與重新打開。
+ * 討論串的可見性跟隨註解；非公開回覆只對其作者、註解作者、被提及者和審核員可見。
+ */
+export class ThreadService {
+  private readonly MAX_LIMIT = 100;
+
+  constructor(
+    private annotationService: AnnotationService = new AnnotationService(),
+    private roleService: RoleService = new RoleService(),
+    private textService: TextService = new TextService()
+  ) {}
+
+  async getThread(annotationId: string, viewer: AnnotationViewer): Promise<AnnotationThread> {
+    const annotation = await this.annotationService.findVisible(annotationId, viewer);
+    const moderator = await this.annotationService.canModerate(viewer);
+
+    const [records, resolvedBy] = await Promise.all([
+      prisma.annotationReply.findMany({
+        where: { annotationId },
+        include: replyInclude,
+        orderBy: { createdAt: 'asc' }
+      }),
+      annotation.resolvedById
+        ? prisma.user.findUnique({ where: { id: annotation.resolvedById }, ...userSelect })
+        : Promise.resolve(null)
+    ]);
+
+    const visible = records.filter(record => this.canSeeReply(record, annotation, viewer, moderator));
+
+    return {
+      annotationId,
+      resolved: annotation.resolvedAt !== null,
+      resolvedAt: annotation.resolvedAt,
+      resolvedBy,
+      total: visible.length,
+      replies: this.buildTree(records, visible)
+    };
+  }
+
+  async addReply(annotationId: string, input: ReplyInput, viewer: AnnotationViewer): Promise<AnnotationReply> {
+    const annotation = await this.annotationService.findVisible(annotationId, viewer);
+    if (annotation.resolvedAt) {
+      throw new AnnotationError('The thread is resolved, reopen it before replying', 'THREAD_RESOLVED', { annotationId });
+    }
+
+    const content = this.validateContent(input.content);
+    if (input.parentId) {
+      const parent = await prisma.annotationReply.findFirst({
+        where: { id: input.parentId, annotationId, deletedAt: null }
+      });
+      if (!parent) {
+        throw new AnnotationError('Parent reply not found', 'REPLY_NOT_FOUND', { replyId: input.parentId });
+      }
+    }
+
+    const isPublic = input.isPublic ?? true;
+    const mentionIds = await this.resolveMentions(content, annotation, viewer.id);
+
+    const reply = await prisma.annotationReply.create({
+      data: {
+        annotationId,
+        parentId: input.parentId ?? null,
+        authorId: viewer.id,
+        content,
+        isPublic,
+        mentions: { create: mentionIds.map(userId => ({ userId })) }
+      },
+      include: replyInclude
+    });
+
+    return this.toReply(reply);
+  }
+
+  // 只能編輯自己的回覆；提及隨內容重新計算
+  async updateReply(
+    annotationId: string,
+    replyId: string,
+    update: ReplyUpdate,
+    viewer: AnnotationViewer
+  ): Promise<AnnotationReply> {
+    const annotation = await this.annotationService.findVisible(annotationId, viewer);
+    const reply = await this.findReply(annotationId, replyId);
+    if (reply.authorId !== viewer.id) {
+      throw new AnnotationError('Only the author can edit a reply', 'ANNOTATION_FORBIDDEN', { replyId });
+    }
+
+    const data: Prisma.AnnotationReplyUpdateInput = { editedAt: new Date() };
+    if (update.isPublic !== undefined) data.isPublic = update.isPublic;
+
+    if (update.content !== undefined) {
+      const content = this.validateContent(update.content);
+      const mentionIds = await this.resolveMentions(content, annotation, viewer.id);
+      data.content = content;
+      data.mentions = {
+        deleteMany: {},
+        create: mentionIds.map(userId => ({ userId }))
+      };
+    }
+
+    const updated = await prisma.annotationReply.update({
+      where: { id: replyId },
+      data,
+      include: replyInclude
+    });
+
+    return this.toReply(updated);
+  }
+
+  // 軟刪除：保留位置以維持下層回覆的串結構，同時移除提及
+  async deleteReply(annotationId: string, replyId: string, viewer: AnnotationViewer): Promise<void> {
+    await this.annotationService.findVisible(annotationId, viewer);
+    const reply = await this.findReply(annotationId, replyId);
+
+    if (reply.authorId !== viewer.id && !(await this.annotationService.canModerate(viewer))) {
+      throw new AnnotationError('Insufficient permissions to delete this reply', 'ANNOTATION_FORBIDDEN', { replyId });
+    }
+
+    await prisma.$transaction([
+      prisma.replyMention.deleteMany({ where: { replyId } }),
+      prisma.annotationReply.update({ where: { id: replyId }, data: { deletedAt: new Date() } })
+    ]);
+  }
+
+  // 註解作者或審核員可解決、重新打開討論串
+  async setResolved(annotationId: string, resolved: boolean, viewer: AnnotationViewer): Promise<AnnotationThread> {
+    const annotation = await this.annotationService.findVisible(annotationId, viewer);
+    if (annotation.authorId !== viewer.id && !(await this.annotationService.canModerate(viewer))) {
+      throw new AnnotationError(
+        `Insufficient permissions to ${resolved ? 'resolve' : 'reopen'} this thread`,
+        'ANNOTATION_FORBIDDEN',
+        { annotationId }
+      );
+    }
+
+    const { count } = await prisma.annotation.updateMany({
+      where: { id: annotationId, resolvedAt: resolved ? null : { not: null } },
+      data: resolved
+        ? { resolvedAt: new Date(), resolvedById: viewer.id }
+        : { resolvedAt: null, resolvedById: null }
+    });
+    if (count === 0) {
+      throw new AnnotationError(
+        resolved ? 'The thread is already resolved' : 'The thread is not resolved',
+        'INVALID_STATUS_CHANGE',
+        { annotationId }
+      );
+    }
+
+    return this.getThread(annotationId, viewer);
+  }
+
+  // 提及本人的回覆，最新的在前；已刪除或註解已不可見的不列出
+  async listMentions(filters: MentionFilters, viewer: AnnotationViewer): Promise<MentionPage> {
+    const page = Math.max(filters.page || 1, 1);
+    const limit = Math.min(Math.max(filters.limit || 20, 1), this.MAX_LIMIT);
+
+    const [moderator, viewAllTexts] = await Promise.all([
+      this.annotationService.canModerate(viewer),
+      this.textService.canViewAll(viewer)
+    ]);
+    // 與查看註解一致：註解及其所屬文本都須對請求者可見
+    const where: Prisma.ReplyMentionWhereInput = {
+      userId: viewer.id,
+      reply: {
+        deletedAt: null,
+        annotation: {
+          AND: [annotationVisibility(viewer.id, moderator), { text: textVisibility(viewer.id, viewAllTexts) }]
+        }
+      }
+    };
+
+    const [mentions, total] = await Promise.all([
+      prisma.replyMention.findMany({
+        where,
+        include: {
+          reply: {
+            include: {
+              author: userSelect,
+              annotation: { select: { textId: true } }
+            }
+          }
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.replyMention.count({ where })
+    ]);
+
+    return {
+      items: mentions.map(({ reply }) => ({
+        replyId: reply.id,
+        annotationId: reply.annotationId,
+        textId: reply.annotation.textId,
+        author: reply.author,
+        content: reply.content,
+        createdAt: reply.createdAt
+      })),
+      total,
+      page,
+      limit
+    };
+  }
+
+  private async findReply(annotationId: string, replyId: string) {
+    const reply = await prisma.annotationReply.findFirst({
+      where: { id: replyId, annotationId, deletedAt: null }
+    });
+    if (!reply) {
+      throw new AnnotationError('Reply not found', 'REPLY_NOT_FOUND', { replyId });
+    }
+
+    return reply;
+  }
+
+  private validateContent(content: string): string {
+    const trimmed = content.trim();
+    if (!trimmed) {
+      throw new AnnotationError('Reply content is required', 'INVALID_REPLY');
+    }
+
+    return trimmed;
+  }
+
+  /**
+   * 解析 @用戶名，只保留能查看該註解的已存在用戶，不包括回覆者本人。
+   * 未批准的公開註解只有作者和審核員可見，非公開註解只有作者可見，提及其他人不會產生通知。
+   */
+  private async resolveMentions(content: string, annotation: Annotation, authorId: string): Promise<string[]> {
+    const usernames = [...new Set([...content.matchAll(MENTION_PATTERN)].map(match => match[1] as string))];
+    if (usernames.length === 0) {
+      return [];
+    }
+
+    const users = await prisma.user.findMany({
+      where: { username: { in: usernames }, status: 'ACTIVE' },
+      select: { id: true }
+    });
+
+    const mentioned: string[] = [];
+
+    for (const user of users) {
+      if (user.id === authorId) continue;
+
+      const canView = canViewAnnotation(annotation, user.id, false)
+        || canViewAnnotation(annotation, user.id, await this.roleService.hasAnyRole(user.id, MODERATOR_ROLES));
+      if (canView) mentioned.push(user.id);
+    }
+
+    return mentioned;
+  }
+
+  private canSeeReply(reply: ReplyRecord, annotation: Annotation, viewer: AnnotationViewer, moderator: boolean): boolean {
+    return reply.isPublic
+      || moderator
+      || reply.authorId === viewer.id
+      || annotation.authorId === viewer.id
+      || reply.mentions.some(mention => mention.userId === viewer.id);
+  }
+
+  // 看不到的回覆不返回，其下層回覆掛到最近的可見上層
+  private buildTree(records: ReplyRecord[], visible: ReplyRecord[]): AnnotationReply[] {
+    const parents = new Map(records.map(record => [record.id, record.parentId]));
+    const nodes = new Map(visible.map(record => [record.id, this.toReply(record)]));
+    const roots: AnnotationReply[] = [];
+
+    for (const node of nodes.values()) {
+      let parentId = node.parentId;
+      while (parentId && !nodes.has(parentId)) {
+        parentId = parents.get(parentId) ?? null;
+      }
+
+      const parent = parentId ? nodes.get(parentId) : undefined;
+      if (parent) {
+        parent.replies.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+
+    return roots;
+  }
+
+  private toReply(record: ReplyRecord): AnnotationReply {
+    const deleted = record.deletedAt !== null;
+
+    return {
+      id: record.id,
+      annotationId: record.annotationId,
+      parentId: record.parentId,
+      authorId: record.authorId,
+      author: record.author,
+      content: deleted ? null : record.content,
+      isPublic: record.isPublic,
+      deleted,
+      mentions: deleted ? [] : record.mentions.map(mention => mention.user as ReplyUser),
+      editedAt: record.editedAt,
+      createdAt: record.createdAt,
+      replies: []
+    };
+  }
+}
@@ -1,23 +1,72 @@
+import { createHash } from 'crypto';
+import { TextFingerprint } from '../../../shared/types/annotation.types';
+
+// 指紋保存的三元組數量上限，超長選取只取前面部分
+const MAX_TRIGRAMS = 512;
+
+// 中文按字計，其他語言按詞計；只含標點的片段不計
+export function countWords(text: string): number {
+  const chineseChars = (text.match(/[\u4e00-\u9fff]/g) || []).length;
+  const westernWords = text
+    .replace(/[\u4e00-\u9fff]/g, ' ')
+    .split(/\s+/)
+    .filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+
+  return chineseChars + westernWords;
+}
+
 export class HashUtil {
   sha256(input: string): string {
-    // 簡單的哈希實現，在實際應用中應該使用crypto模組
-    let hash = 0;
-    for (let i = 0; i < input.length; i++) {
-      const char = input.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // 轉換為32位整數
-    }
-    return Math.abs(hash).toString(16);
+    return createHash('sha256').update(input, 'utf8').digest('hex');
   }
 
   md5(input: string): string {
-    // 簡化的MD5實現，實際應用中使用crypto
-    return this.sha256(input).substring(0, 8);
+    return createHash('md5').update(input, 'utf8').digest('hex');
+  }
+
+  /**
+   * 生成文本指紋。三元組按字符切分（中文無空格分詞），去重後排序保存，
+   * 可與任意候選文本的指紋計算相似度。
+   */
+  generateFingerprint(text: string): TextFingerprint {
+    const normalized = this.normalize(text);
+    const trigrams = new Set<string>();
+
+    for (let i = 0; i + 3 <= normalized.length && trigrams.size < MAX_TRIGRAMS; i++) {
+      trigrams.add(normalized.slice(i, i + 3));
+    }
+    // 不足三個字符時以整段作為唯一的元素
+    if (trigrams.size === 0 && normalized) {
+      trigrams.add(normalized);
+    }
+
+    return {
+      hash: this.sha256(normalized),
+      trigrams: [...trigrams].sort(),
+      length: normalized.length,
+      wordCount: countWords(normalized)
+    };
+  }
+
+  // 0~1：三元組 Dice 係數，按長度差異折減；規範化文本相同時為 1
+  compareFingerprints(a: TextFingerprint, b: TextFingerprint): number {
+    if (a.hash === b.hash) return 1;
+    if (a.trigrams.length === 0 || b.trigrams.length === 0) return 0;
+
+    const other = new Set(b.trigrams);
+    const shared = a.trigrams.filter(trigram => other.has(trigram)).length;
+    const dice = (2 * shared) / (a.trigrams.length + b.trigrams.length);
+    const lengthRatio = Math.min(a.length, b.length) / Math.max(a.length, b.length, 1);
+
+    return dice * (0.8 + 0.2 * lengthRatio);
   }
 
-  generateFingerprint(text: string): string {
-    // 生成文本指紋
-    const normalized = text.toLowerCase().replace(/\s+/g, ' ').trim();
-    return this.sha256(normalized);
+  // 大小寫、全半角和標點空白差異不影響指紋
+  private normalize(text: string): string {
+    return text
+      .normalize('NFKC')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, ' ')
+      .trim();
   }
-} 
\ No newline at end of file
+}
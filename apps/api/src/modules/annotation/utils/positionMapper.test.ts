@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { documentFor, fromStoredPosition, StoredPosition } from './positionMapper';
+import { HashUtil } from './hashUtils';
+
+function stored(fingerprint: StoredPosition['fingerprint']): StoredPosition {
+  return {
+    annotationId: 'annotation-1',
+    textId: 'text-1',
+    language: 'zh',
+    position: { startOffset: 4, endOffset: 8, selectedText: '租賃期間', contextHash: 'context' },
+    context: { before: '本法律的', after: '為一年', hash: 'context' },
+    structural: {},
+    fingerprint,
+    confidence: 1,
+    backup: { fuzzyMatches: [] },
+    orphaned: false,
+    createdAt: new Date('2026-01-01T00:00:00Z')
+  } as StoredPosition;
+}
+
+describe('fromStoredPosition', () => {
+  it('rebuilds the fingerprint of legacy positions from the selected text', () => {
+    const position = fromStoredPosition(stored('5d41402abc4b2a76'));
+
+    expect(position.fingerprint).toEqual(new HashUtil().generateFingerprint('租賃期間'));
+  });
+
+  it('keeps stored fingerprint objects', () => {
+    const fingerprint = { hash: 'abc', trigrams: ['租賃期', '賃期間'], length: 4, wordCount: 1 };
+
+    expect(fromStoredPosition(stored(fingerprint)).fingerprint).toBe(fingerprint);
+  });
+});
+
+describe('documentFor', () => {
+  const structure = { chapters: [], sections: [], articles: [] };
+
+  it('attaches the structure to the primary language only', () => {
+    const content = { zh: { text: '第一條', html: '<p>第一條</p>' }, pt: { text: 'Artigo 1.º' } };
+
+    expect(documentFor(content, structure, 'zh')).toEqual({ language: 'zh', text: '第一條', html: '<p>第一條</p>', structure });
+    expect(documentFor(content, structure, 'pt')).toEqual({ language: 'pt', text: 'Artigo 1.º' });
+  });
+
+  it('treats Portuguese as primary when there is no Chinese text', () => {
+    expect(documentFor({ pt: { text: 'Artigo 1.º' } }, structure, 'pt')).toEqual({ language: 'pt', text: 'Artigo 1.º', structure });
+    expect(documentFor({ pt: { text: 'Artigo 1.º' } }, structure, 'zh')).toBeNull();
+  });
+});
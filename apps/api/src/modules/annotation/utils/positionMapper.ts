@@ -0,0 +1,101 @@
+import { IAnnotationPosition } from '../../../shared/schemas/mongodb';
+import {
+  AnnotationLanguage,
+  AnnotationPosition,
+  SelectionData,
+  StructuralDocument
+} from '../../../shared/types/annotation.types';
+import { LegalTextStructure } from '../../../shared/types/text.types';
+import { HashUtil } from './hashUtils';
+
+const hashUtil = new HashUtil();
+
+// 服務端從正文截取的上下文長度
+const CONTEXT_LENGTH = 100;
+
+export type StoredPosition = Pick<
+  IAnnotationPosition,
+  'annotationId' | 'textId' | 'language' | 'position' | 'context' | 'structural' | 'fingerprint' | 'confidence' | 'backup' | 'orphaned' | 'orphanedAt' | 'createdAt'
+>;
+
+// 以正文中的一段範圍構造選取數據，上下文以服務端正文為準
+export function selectionAt(text: string, startOffset: number, endOffset: number, elementPath?: string): SelectionData {
+  const selection: SelectionData = {
+    selectedText: text.slice(startOffset, endOffset),
+    startOffset,
+    endOffset,
+    contextBefore: text.slice(Math.max(0, startOffset - CONTEXT_LENGTH), startOffset),
+    contextAfter: text.slice(endOffset, endOffset + CONTEXT_LENGTH)
+  };
+
+  if (elementPath) selection.elementPath = elementPath;
+  return selection;
+}
+
+type StoredBodies = Partial<Record<AnnotationLanguage, { text: string; html?: string }>>;
+
+/**
+ * 某一語言版本的結構定位正文。結構偏移量以主語言（有中文時為中文）為準，
+ * 其他語言只提供正文和 HTML。該語言沒有正文時返回 null。
+ */
+export function documentFor(
+  content: StoredBodies | undefined,
+  structure: LegalTextStructure | undefined,
+  language: AnnotationLanguage
+): StructuralDocument | null {
+  const body = content?.[language];
+  if (!body?.text) return null;
+
+  const document: StructuralDocument = { language, text: body.text };
+  if (body.html) document.html = body.html;
+
+  const primary: AnnotationLanguage = content?.zh?.text ? 'zh' : 'pt';
+  if (structure && language === primary) document.structure = structure;
+
+  return document;
+}
+
+// AnnotationPosition 的 MongoDB 存儲字段（不含關聯 ID 和備用匹配）
+export function toStoredPosition(position: AnnotationPosition) {
+  return {
+    language: position.language,
+    position: {
+      startOffset: position.primary.startOffset,
+      endOffset: position.primary.endOffset,
+      selectedText: position.primary.selectedText,
+      contextHash: position.context.hash,
+      structuralPath: position.structural.elementPath
+    },
+    context: position.context,
+    structural: position.structural,
+    fingerprint: position.fingerprint,
+    confidence: position.metadata.confidence
+  };
+}
+
+export function fromStoredPosition(stored: StoredPosition): AnnotationPosition {
+  return {
+    // 舊數據沒有語言字段，當時只支持中文
+    language: stored.language || 'zh',
+    primary: {
+      startOffset: stored.position.startOffset,
+      endOffset: stored.position.endOffset,
+      selectedText: stored.position.selectedText
+    },
+    context: {
+      before: stored.context.before,
+      after: stored.context.after,
+      hash: stored.context.hash
+    },
+    structural: stored.structural || {},
+    // 舊數據只有無法比較的字串哈希，按選取文字重建
+    fingerprint: typeof stored.fingerprint === 'string'
+      ? hashUtil.generateFingerprint(stored.position.selectedText)
+      : stored.fingerprint,
+    metadata: {
+      createdAt: stored.createdAt,
+      textLength: stored.position.selectedText.length,
+      confidence: stored.confidence
+    }
+  };
+}
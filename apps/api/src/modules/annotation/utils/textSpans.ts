@@ -0,0 +1,40 @@
+export interface Span {
+  start: number;
+  end: number;
+}
+
+// from~to 內非空行的範圍，去掉行首尾空白
+export function paragraphSpans(text: string, from: number, to: number): Span[] {
+  const spans: Span[] = [];
+  const end = Math.min(to, text.length);
+  let lineStart = Math.max(0, from);
+
+  while (lineStart < end) {
+    const newline = text.indexOf('\n', lineStart);
+    const lineEnd = newline === -1 || newline > end ? end : newline;
+
+    const span = trimSpan(text, lineStart, lineEnd);
+    if (span) spans.push(span);
+
+    lineStart = lineEnd + 1;
+  }
+
+  return spans;
+}
+
+// 包含偏移量的範圍；落在範圍之間時歸入前一個
+export function indexContaining(spans: Span[], offset: number): number {
+  let index = -1;
+  for (const [i, span] of spans.entries()) {
+    if (span.start > offset) break;
+    index = i;
+  }
+  return index;
+}
+
+// 去掉首尾空白，全為空白時返回 null
+export function trimSpan(text: string, start: number, end: number): Span | null {
+  while (start < end && /\s/.test(text.charAt(start))) start++;
+  while (end > start && /\s/.test(text.charAt(end - 1))) end--;
+  return end > start ? { start, end } : null;
+}
@@ -131,6 +131,32 @@ export class AuthMiddleware {
     };
   };
 
+  requireAnyRole = (roleNames: string[]) => {
+    return async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const user = (request as any).user;
+        if (!user) {
+          return reply.code(401).send({
+            success: false,
+            error: 'Authentication required'
+          });
+        }
+
+        if (!roleNames.some(roleName => user.roles.includes(roleName))) {
+          return reply.code(403).send({
+            success: false,
+            error: `One of roles ${roleNames.join(', ')} required`
+          });
+        }
+      } catch (error) {
+        return reply.code(403).send({
+          success: false,
+          error: error instanceof Error ? error.message : 'Role check failed'
+        });
+      }
+    };
+  };
+
   optionalAuth = () => {
     return async (request: FastifyRequest, reply: FastifyReply) => {
       try {
@@ -97,6 +97,14 @@ export class RoleService {
     return false;
   }
 
+  async hasAnyRole(userId: string, roleNames: string[]): Promise<boolean> {
+    const count = await prisma.userRole.count({
+      where: { userId, role: { name: { in: roleNames } } }
+    });
+
+    return count > 0;
+  }
+
   async createRole(name: string, description: string, permissions: Permission[]): Promise<void> {
     await prisma.role.create({
       data: {
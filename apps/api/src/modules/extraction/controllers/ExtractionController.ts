@@ -1,12 +1,15 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { TextExtractionService } from '../services/TextExtractionService';
+import { UploadStorageService, StoredUpload } from '../services/UploadStorageService';
+import { ExtractionJobService } from '../services/ExtractionJobService';
 import {
   ExtractionSource,
   ExtractionOptions,
-  ExtractionResult
+  ExtractionJob,
+  ExtractionError
 } from '../../../shared/types/extraction.types';
 
-interface ExtractTextRequest {
+export interface ExtractTextRequest {
   Body: {
     source: string;
     type: 'url' | 'pdf' | 'docx' | 'text';
@@ -19,7 +22,7 @@ interface ExtractTextRequest {
   };
 }
 
-interface ExtractMultipleRequest {
+export interface ExtractMultipleRequest {
   Body: {
     sources: Array<{
       source: string;
@@ -34,10 +37,33 @@ interface ExtractMultipleRequest {
   };
 }
 
+export interface ExtractionJobRequest {
+  Params: { id: string };
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  FILE_REQUIRED: 400,
+  INVALID_FILE: 422,
+  NO_TEXT: 422,
+  NO_TEXT_LAYER: 422,
+  FILE_TOO_LARGE: 413,
+  UNSUPPORTED_FILE_TYPE: 415,
+  JOB_NOT_FOUND: 404,
+  JOB_FINISHED: 409
+};
+
+const MAX_BATCH_SIZE = 100;
+
+const UPLOAD_LANGUAGES = ['zh', 'pt', 'en', 'auto'] as const;
+
 export class ExtractionController {
-  constructor(private extractionService: TextExtractionService) {}
+  constructor(
+    private extractionService: TextExtractionService,
+    private uploadStorage: UploadStorageService,
+    private jobService: ExtractionJobService
+  ) {}
 
-  // 單一文本擷取
+  // 單一文本擷取：入列後返回任務 ID，結果經 /status/:id 查詢
   async extractText(
     request: FastifyRequest<ExtractTextRequest>,
     reply: FastifyReply
@@ -68,22 +94,18 @@ export class ExtractionController {
         timeout: options.timeout || 30000
       };
 
-      // 執行擷取
-      const result = await this.extractionService.extract(extractionSource, extractionOptions);
+      const job = await this.jobService.enqueue([extractionSource], extractionOptions, 'single', this.userId(request));
 
-      reply.send({
+      reply.code(202).send({
         success: true,
-        data: result
+        data: this.jobTicket(job)
       });
     } catch (error) {
-      reply.code(500).send({
-        success: false,
-        error: error instanceof Error ? error.message : 'Extraction failed'
-      });
+      this.handleError(reply, error, 'Extraction failed');
     }
   }
 
-  // 批量文本擷取
+  // 批量文本擷取：整批作為一個任務，各來源的結果隨完成寫入任務
   async extractMultiple(
     request: FastifyRequest<ExtractMultipleRequest>,
     reply: FastifyReply
@@ -101,10 +123,10 @@ export class ExtractionController {
       }
 
       // 限制批量處理數量
-      if (sources.length > 10) {
+      if (sources.length > MAX_BATCH_SIZE) {
         reply.code(400).send({
           success: false,
-          error: 'Cannot process more than 10 sources at once'
+          error: `Cannot process more than ${MAX_BATCH_SIZE} sources at once`
         });
         return;
       }
@@ -123,21 +145,64 @@ export class ExtractionController {
         timeout: options.timeout || 30000
       };
 
-      // 執行批量擷取
-      const results = await this.extractionService.extractMultiple(
-        extractionSources,
-        extractionOptions
-      );
+      const job = await this.jobService.enqueue(extractionSources, extractionOptions, 'batch', this.userId(request));
 
-      reply.send({
+      reply.code(202).send({
         success: true,
-        data: results
+        data: this.jobTicket(job)
       });
     } catch (error) {
-      reply.code(500).send({
-        success: false,
-        error: error instanceof Error ? error.message : 'Batch extraction failed'
+      this.handleError(reply, error, 'Batch extraction failed');
+    }
+  }
+
+  /**
+   * 上傳 PDF 或 DOCX 並入列擷取任務。類型按文件內容判斷；表單字段 language 須位於文件之前，
+   * 否則讀取文件流時尚未解析到。臨時文件由任務結束時刪除，入列失敗則立即刪除。
+   */
+  async uploadAndExtract(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> {
+    let upload: StoredUpload | null = null;
+
+    try {
+      const file = await request.file();
+      if (!file) {
+        throw new ExtractionError('A PDF or DOCX file is required', 'FILE_REQUIRED');
+      }
+
+      upload = await this.uploadStorage.save(file.file, file.filename);
+
+      const languageField = file.fields.language;
+      const language = languageField && !Array.isArray(languageField) && languageField.type === 'field'
+        ? UPLOAD_LANGUAGES.find(candidate => candidate === languageField.value)
+        : undefined;
+
+      const job = await this.jobService.enqueue(
+        [{
+          type: upload.type,
+          source: upload.path,
+          metadata: { originalName: upload.originalName, mimeType: upload.mimeType }
+        }],
+        {
+          language: language || 'auto',
+          preserveFormatting: true
+        },
+        'single',
+        this.userId(request),
+        [upload.path]
+      );
+
+      reply.code(202).send({
+        success: true,
+        data: this.jobTicket(job)
       });
+    } catch (error) {
+      if (upload) {
+        await this.uploadStorage.remove(upload.path).catch(() => undefined);
+      }
+      this.handleError(reply, error, 'Upload failed');
     }
   }
 
@@ -169,30 +234,37 @@ export class ExtractionController {
     }
   }
 
-  // 檢查擷取狀態（用於長時間運行的擷取任務）
+  // 擷取任務狀態：進度、各來源的嘗試次數和部分結果；結束後 result 為最終結果
   async getExtractionStatus(
-    request: FastifyRequest<{ Params: { id: string } }>,
+    request: FastifyRequest<ExtractionJobRequest>,
     reply: FastifyReply
   ): Promise<void> {
     try {
-      const { id } = request.params;
-      
-      // 在實際實現中，這裡應該從緩存或數據庫中獲取任務狀態
-      // 現在只是返回模擬狀態
+      const job = await this.jobService.getOwned(request.params.id, this.userId(request));
+
       reply.send({
         success: true,
-        data: {
-          id,
-          status: 'completed',
-          progress: 100,
-          result: null // 實際結果會在這裡
-        }
+        data: this.jobStatus(job)
       });
     } catch (error) {
-      reply.code(500).send({
-        success: false,
-        error: error instanceof Error ? error.message : 'Failed to get extraction status'
+      this.handleError(reply, error, 'Failed to get extraction status');
+    }
+  }
+
+  // 取消擷取任務；已結束的任務返回 409
+  async cancelExtraction(
+    request: FastifyRequest<ExtractionJobRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const job = await this.jobService.cancel(request.params.id, this.userId(request));
+
+      reply.send({
+        success: true,
+        data: this.jobStatus(job)
       });
+    } catch (error) {
+      this.handleError(reply, error, 'Failed to cancel extraction');
     }
   }
 
@@ -220,4 +292,51 @@ export class ExtractionController {
       });
     }
   }
-} 
\ No newline at end of file
+
+  private userId(request: FastifyRequest): string {
+    return ((request as any).user as { id: string }).id;
+  }
+
+  private jobTicket(job: ExtractionJob) {
+    return {
+      jobId: job.id,
+      status: job.status,
+      statusUrl: `/api/extraction/status/${job.id}`
+    };
+  }
+
+  private jobStatus(job: ExtractionJob) {
+    const results = job.items.map(item => item.result ?? null);
+    const finished = job.status === 'completed' || job.status === 'failed';
+
+    return {
+      id: job.id,
+      kind: job.kind,
+      status: job.status,
+      progress: job.progress,
+      cancelRequested: job.cancelRequested ?? false,
+      items: job.items.map(({ source, status, attempts, error, result }) => ({
+        source: source.source,
+        type: source.type,
+        status,
+        attempts,
+        error: error ?? null,
+        result: result ?? null
+      })),
+      result: finished ? (job.kind === 'single' ? results[0] ?? null : results) : null,
+      error: job.error ?? null,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt ?? null,
+      finishedAt: job.finishedAt ?? null
+    };
+  }
+
+  private handleError(reply: FastifyReply, error: unknown, fallback: string): void {
+    const status = error instanceof ExtractionError ? ERROR_STATUS[error.code] || 500 : 500;
+
+    reply.code(status).send({
+      success: false,
+      error: error instanceof Error ? error.message : fallback
+    });
+  }
+}
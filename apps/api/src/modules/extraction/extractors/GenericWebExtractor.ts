@@ -162,6 +162,9 @@ export class GenericWebExtractor implements WebExtractor {
 
   private htmlToText(html: string): string {
     return html
+      // 塊級元素換行，章節條標題因此獨佔一行
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(?:p|div|h[1-6]|li|tr|table|blockquote|section|article)>/gi, '\n')
       .replace(/<[^>]*>/g, '')
       .replace(/&nbsp;/g, ' ')
       .replace(/&amp;/g, '&')
@@ -169,7 +172,8 @@ export class GenericWebExtractor implements WebExtractor {
       .replace(/&gt;/g, '>')
       .replace(/&quot;/g, '"')
       .replace(/&#39;/g, "'")
-      .replace(/\s+/g, ' ')
+      .replace(/[^\S\n]+/g, ' ')
+      .replace(/ *\n\s*/g, '\n')
       .trim();
   }
 
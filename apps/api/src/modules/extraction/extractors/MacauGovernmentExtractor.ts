@@ -324,12 +324,16 @@ export class MacauGovernmentExtractor implements WebExtractor {
   private htmlToText(html: string): string {
     // 簡單的HTML轉文本實現
     return html
+      // 塊級元素換行，章節條標題因此獨佔一行
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(?:p|div|h[1-6]|li|tr|table|blockquote|section|article)>/gi, '\n')
       .replace(/<[^>]*>/g, '')
       .replace(/&nbsp;/g, ' ')
       .replace(/&amp;/g, '&')
       .replace(/&lt;/g, '<')
       .replace(/&gt;/g, '>')
-      .replace(/\s+/g, ' ')
+      .replace(/[^\S\n]+/g, ' ')
+      .replace(/ *\n\s*/g, '\n')
       .trim();
   }
 
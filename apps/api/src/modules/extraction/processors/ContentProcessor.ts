@@ -51,10 +51,13 @@ export class ContentProcessor {
 
   private cleanText(text: string): string {
     return text
-      // 移除多餘的空白字符
-      .replace(/\s+/g, ' ')
-      // 移除控制字符
-      .replace(/[\u0000-\u001F\u007F-\u009F]/g, '')
+      // 正規化換行
+      .replace(/\r\n?/g, '\n')
+      // 移除多餘的空白字符，保留段落換行
+      .replace(/[^\S\n]+/g, ' ')
+      .replace(/ *\n */g, '\n')
+      // 移除控制字符（換行除外）
+      .replace(/[\u0000-\u0009\u000B-\u001F\u007F-\u009F]/g, '')
       // 統一引號
       .replace(/[""]/g, '"')
       .replace(/['']/g, "'")
@@ -64,9 +67,6 @@ export class ContentProcessor {
       .replace(/\.{3,}/g, '...')
       .replace(/!{2,}/g, '!')
       .replace(/\?{2,}/g, '?')
-      // 正規化換行
-      .replace(/\r\n/g, '\n')
-      .replace(/\r/g, '\n')
       .replace(/\n{3,}/g, '\n\n')
       .trim();
   }
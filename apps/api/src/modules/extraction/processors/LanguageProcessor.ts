@@ -202,9 +202,9 @@ export class LanguageProcessor {
       .replace(/：/g, '：')
       .replace(/？/g, '？')
       .replace(/！/g, '！')
-      // 移除多餘的空格（中文通常不需要空格）
-      .replace(/\s+(?=[\u4e00-\u9fff])/g, '')
-      .replace(/(?<=[\u4e00-\u9fff])\s+/g, '')
+      // 移除多餘的空格（中文通常不需要空格），保留段落換行
+      .replace(/[^\S\n]+(?=[\u4e00-\u9fff])/g, '')
+      .replace(/(?<=[\u4e00-\u9fff])[^\S\n]+/g, '')
       // 標準化數字和法條格式
       .replace(/第(\d+)條/g, '第$1條')
       .replace(/第(\d+)章/g, '第$1章');
@@ -213,8 +213,8 @@ export class LanguageProcessor {
   private processPortugueseText(text: string): string {
     return text
       // 標準化葡語格式
-      .replace(/\s+([,.;:!?])/g, '$1')
-      .replace(/([,.;:!?])\s*/g, '$1 ')
+      .replace(/[^\S\n]+([,.;:!?])/g, '$1')
+      .replace(/([,.;:!?])[^\S\n]*(?=[^\s\d])/g, '$1 ')
       // 標準化法條格式
       .replace(/artigo\s*(\d+)/gi, 'Artigo $1')
       .replace(/n\.?\s*º\s*(\d+)/gi, 'n.º $1')
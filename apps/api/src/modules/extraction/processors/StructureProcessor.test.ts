@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import { StructureProcessor } from './StructureProcessor';
+import { ExtractedContent } from '../../../shared/types/extraction.types';
+
+function content(zh: string | null, pt: string | null): ExtractedContent {
+  const extracted: ExtractedContent = { content: {} };
+  if (zh !== null) extracted.content.zh = { text: zh, html: '', wordCount: zh.length };
+  if (pt !== null) extracted.content.pt = { text: pt, html: '', wordCount: pt.split(/\s+/).length };
+  return extracted;
+}
+
+const ZH = [
+  '第一章',
+  '一般規定',
+  '第一條（標的）',
+  '本法律規定租賃制度。',
+  '第二條',
+  '範圍',
+  '本法律適用於澳門。',
+  '第二章 合同',
+  '第三條（期限）',
+  '租賃期為一年；',
+  '第十條的規定不適用。'
+].join('\n');
+
+const PT = [
+  'CAPÍTULO I',
+  'Disposições gerais',
+  'Artigo 1.º',
+  '(Objecto)',
+  'A presente lei regula o arrendamento.',
+  'Artigo 2.º',
+  'Âmbito',
+  'A presente lei aplica-se a Macau.',
+  'CAPÍTULO II - Contrato',
+  'Artigo 3.º',
+  '(Prazo)',
+  'O prazo é de um ano.'
+].join('\n');
+
+describe('StructureProcessor', () => {
+  it('builds nested chapters and articles with bilingual titles', async () => {
+    const { structure } = await new StructureProcessor().process(content(ZH, PT));
+
+    expect(structure?.chapters).toEqual([
+      {
+        id: 'chapter-1',
+        title: { zh: '一般規定', pt: 'Disposições gerais' },
+        level: 1,
+        startOffset: 0,
+        endOffset: ZH.indexOf('第二章'),
+        articles: ['article-1', 'article-2']
+      },
+      {
+        id: 'chapter-2',
+        title: { zh: '合同', pt: 'Contrato' },
+        level: 1,
+        startOffset: ZH.indexOf('第二章'),
+        endOffset: ZH.length,
+        articles: ['article-3']
+      }
+    ]);
+
+    expect(structure?.articles.map(article => [article.number, article.title, article.chapterId])).toEqual([
+      ['1', { zh: '標的', pt: 'Objecto' }, 'chapter-1'],
+      ['2', { zh: '範圍', pt: 'Âmbito' }, 'chapter-1'],
+      ['3', { zh: '期限', pt: 'Prazo' }, 'chapter-2']
+    ]);
+    expect(structure?.articles[0]).toMatchObject({
+      content: { zh: '本法律規定租賃制度。', pt: 'A presente lei regula o arrendamento.' },
+      startOffset: ZH.indexOf('第一條'),
+      endOffset: ZH.indexOf('第二條')
+    });
+  });
+
+  it('keeps references to other articles inside the article body', async () => {
+    const { structure } = await new StructureProcessor().process(content(ZH, PT));
+
+    expect(structure?.articles).toHaveLength(3);
+    expect(structure?.articles[2]?.content.zh).toBe('租賃期為一年；\n第十條的規定不適用。');
+  });
+
+  it('assigns levels from the heading kinds present in the text', async () => {
+    const text = ['第一編 總則', '第一章 一般規定', '第一節 定義', '第一條', '本法律的定義如下。', '第二節 原則', '第二條', '原則如下。'].join('\n');
+
+    const { structure } = await new StructureProcessor().process(content(text, null));
+
+    expect(structure?.chapters.map(chapter => [chapter.title.zh, chapter.level])).toEqual([['總則', 1], ['一般規定', 2]]);
+    expect(structure?.sections.map(section => [section.title.zh, section.level, section.endOffset])).toEqual([
+      ['定義', 1, text.indexOf('第二節')],
+      ['原則', 1, text.length]
+    ]);
+    expect(structure?.articles.map(article => article.chapterId)).toEqual(['chapter-2', 'chapter-2']);
+  });
+
+  it('normalizes Portuguese article numbers with letter suffixes', async () => {
+    const text = ['Artigo 15.º', 'Texto do artigo quinze.', 'Artigo 15.º-A', '(Aditamento)', 'Texto aditado.'].join('\n');
+
+    const { structure } = await new StructureProcessor().process(content(null, text));
+
+    expect(structure?.articles.map(article => [article.number, article.title?.pt])).toEqual([
+      ['15', undefined],
+      ['15-A', 'Aditamento']
+    ]);
+  });
+
+  it('does not read a capitalized title word as the ordinal marker', async () => {
+    const text = ['Artigo 1 Objecto', 'Texto.', 'Artigo 2.o', 'Texto.', 'Artigo 3 Outras disposições', 'Texto.', 'ARTIGO 4 objecto'].join('\n');
+
+    const { structure } = await new StructureProcessor().process(content(null, text));
+
+    expect(structure?.articles.map(article => [article.number, article.title?.pt])).toEqual([
+      ['1', 'Objecto'],
+      ['2', undefined],
+      ['3', 'Outras disposições'],
+      ['4', 'objecto']
+    ]);
+  });
+
+  it('pairs articles by number when the Portuguese titles start with O', async () => {
+    const zh = ['第一條 標的', '正文。', '第三條 其他規定', '正文。'].join('\n');
+    const pt = ['Artigo 1 Objecto', 'Texto.', 'Artigo 2 Definições', 'Texto.', 'Artigo 3 Outras disposições', 'Texto.'].join('\n');
+
+    const { structure } = await new StructureProcessor().process(content(zh, pt));
+
+    expect(structure?.articles.map(article => article.title)).toEqual([
+      { zh: '標的', pt: 'Objecto' },
+      { zh: '其他規定', pt: 'Outras disposições' }
+    ]);
+  });
+
+  it('classifies unnumbered headings by their document heading style', async () => {
+    const text = ['總則', '第一條', '本法律規定租賃制度。', '定義', '第二條', '定義如下。', '附則', '第三條', '本法律自公佈翌日起生效。'].join('\n');
+    const hints = [{ text: '總則', level: 1 }, { text: '定 義', level: 2 }, { text: '附則', level: 1 }];
+
+    const { structure } = await new StructureProcessor().process(content(text, null), hints);
+
+    expect(structure?.chapters.map(chapter => [chapter.title.zh, chapter.level, chapter.articles])).toEqual([
+      ['總則', 1, ['article-1', 'article-2']],
+      ['附則', 1, ['article-3']]
+    ]);
+    expect(structure?.sections.map(section => [section.title.zh, section.startOffset, section.endOffset])).toEqual([
+      ['定義', text.indexOf('定義'), text.indexOf('附則')]
+    ]);
+    expect((await new StructureProcessor().process(content(text, null))).structure?.chapters).toEqual([]);
+  });
+
+  it('removes the structure when no headings are found', async () => {
+    const extracted = content('沒有任何標題的正文。', null);
+    extracted.structure = { chapters: [], articles: [], sections: [] };
+
+    expect((await new StructureProcessor().process(extracted)).structure).toBeUndefined();
+  });
+});
@@ -0,0 +1,324 @@
+import {
+  ExtractedContent,
+  HeadingHint,
+  Chapter,
+  Article,
+  Section
+} from '../../../shared/types/extraction.types';
+import { parseChineseNumeral } from '../../search/utils/chineseNumerals';
+import { ContentLanguage } from '../utils/textLanguage';
+
+type StructureKind = 'chapter' | 'section' | 'article';
+
+interface HeadingMatch {
+  kind: StructureKind;
+  rank: number; // 同類標題之間的層級：編 1、章 2；節 1、分節 2
+  number: string;
+  rest: string; // 標題行中編號之後的文字
+}
+
+interface StructuralHeading {
+  kind: StructureKind;
+  rank: number;
+  level: number;
+  number: string;
+  title: string;
+  start: number;
+  headingEnd: number;
+  end: number;
+}
+
+interface Line {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// 第一編、第二章、第三節、第一分節、第十五條、第十五-A條
+const ZH_HEADING = /^第\s*([0-9０-９零〇一二三四五六七八九十百千兩]+)\s*(?:-\s*([A-Z]))?\s*(編|章|分節|節|條)\s*(.*)$/;
+const ZH_KINDS: Record<string, [StructureKind, number]> = {
+  編: ['chapter', 1],
+  章: ['chapter', 2],
+  節: ['section', 1],
+  分節: ['section', 2],
+  條: ['article', 1]
+};
+
+// TÍTULO I、CAPÍTULO II、SECÇÃO III、SUBSECÇÃO I、Artigo 15.º-A；葡文處理後條號可能寫作「15. º」。
+// 條文標題區分大小寫且序數 o 後不能緊接字母，否則「Artigo 1 Objecto」的 O 會被當作序數
+const PT_HEADINGS: Array<[StructureKind, number, RegExp]> = [
+  ['chapter', 1, /^(?:T[ÍI]TULO|PARTE)\s+([IVXLCDM]+|\d+)\b\.?\s*-?\s*(.*)$/i],
+  ['chapter', 2, /^CAP[ÍI]TULO\s+([IVXLCDM]+|\d+)\b\.?\s*-?\s*(.*)$/i],
+  ['section', 2, /^SUBSEC[ÇC][ÃA]O\s+([IVXLCDM]+|\d+)\b\.?\s*-?\s*(.*)$/i],
+  ['section', 1, /^SEC[ÇC][ÃA]O\s+([IVXLCDM]+|\d+)\b\.?\s*-?\s*(.*)$/i],
+  ['article', 1, /^(?:ARTIGO|Artigo)\s+(\d+(?:\s*\.?\s*(?:[º°]|o(?![A-Za-zÀ-ÿ])))?(?:\s*-\s*[A-Z](?![A-Za-z]))?)\s*-?\s*(.*)$/]
+];
+
+// 按樣式識別的標題：1 級視同「章」，2 級視同「節」
+const STYLED_KINDS: Record<number, [StructureKind, number]> = { 1: ['chapter', 2], 2: ['section', 1] };
+
+// 標題行或標題下一行的長度上限，超過視為正文
+const MAX_TITLE_LENGTH: Record<ContentLanguage, number> = { zh: 40, pt: 120 };
+
+/**
+ * 從處理後的正文識別章節條結構，適用於各種擷取策略的輸出。
+ * 標題須獨佔一行（條文正文可緊隨條號）；偏移量以主語言（有中文時為中文）的正文為準，
+ * 另一語言的標題序列一致時按順序補上其標題和條文，否則按條號配對條文。
+ * 來源提供標題樣式（DOCX）時，文字無法識別的標題行按樣式級別歸為章或節。
+ */
+export class StructureProcessor {
+  async process(content: ExtractedContent, hints: HeadingHint[] = []): Promise<ExtractedContent> {
+    const primary: ContentLanguage = content.content.zh?.text ? 'zh' : 'pt';
+    const secondary: ContentLanguage = primary === 'zh' ? 'pt' : 'zh';
+    const styled = this.styledLevels(hints);
+
+    const primaryText = content.content[primary]?.text ?? '';
+    const headings = this.findHeadings(primaryText, primary, styled);
+    if (headings.length === 0) {
+      delete content.structure;
+      return content;
+    }
+
+    const secondaryText = content.content[secondary]?.text ?? '';
+    const counterparts = this.counterparts(headings, this.findHeadings(secondaryText, secondary, styled));
+
+    const structure: NonNullable<ExtractedContent['structure']> = { chapters: [], articles: [], sections: [] };
+
+    headings.forEach((heading, index) => {
+      const counterpart = counterparts[index];
+      const title = { [primary]: heading.title } as Record<ContentLanguage, string>;
+      if (counterpart) title[secondary] = counterpart.title;
+
+      if (heading.kind === 'chapter') {
+        structure.chapters.push(this.toChapter(structure.chapters.length + 1, heading, title));
+      } else if (heading.kind === 'section') {
+        structure.sections.push(this.toSection(structure.sections.length + 1, heading, title));
+      } else {
+        const id = `article-${structure.articles.length + 1}`;
+        const articleContent = { [primary]: primaryText.slice(heading.headingEnd, heading.end).trim() } as Record<ContentLanguage, string>;
+        if (counterpart) articleContent[secondary] = secondaryText.slice(counterpart.headingEnd, counterpart.end).trim();
+
+        // 所在的最內層章
+        const chapter = structure.chapters
+          .filter(candidate => candidate.startOffset <= heading.start && heading.start < candidate.endOffset)
+          .pop();
+        chapter?.articles.push(id);
+
+        const article: Article = {
+          id,
+          number: heading.number,
+          content: articleContent,
+          startOffset: heading.start,
+          endOffset: heading.end
+        };
+        if (heading.title) article.title = title;
+        if (chapter) article.chapterId = chapter.id;
+        structure.articles.push(article);
+      }
+    });
+
+    content.structure = structure;
+    return content;
+  }
+
+  /**
+   * 正文中的章節條標題及其範圍：章到下一個同級或更高級的章為止，節到下一個章或同級節為止，
+   * 條到下一個任何結構標題為止。
+   */
+  private findHeadings(text: string, language: ContentLanguage, styled: Map<string, number>): StructuralHeading[] {
+    const lines = this.splitLines(text);
+    const headings: StructuralHeading[] = [];
+    let lastArticle: number | null = null;
+    const matchLine = (line: string) => this.classifyHeading(line, language) ?? this.styledHeading(line, styled);
+
+    lines.forEach((line, index) => {
+      const match = matchLine(line.text);
+      if (!match) return;
+
+      const rest = this.headingTitle(match.rest);
+      let title = rest;
+      let headingEnd = line.end;
+
+      if (rest && this.looksLikeBody(rest, language)) {
+        // 以條號開頭的正文段落可能只是引用其他條文，只接受條號連續的
+        if (match.kind !== 'article' || !this.continuesNumbering(match.number, lastArticle)) return;
+        title = '';
+        headingEnd = line.end - match.rest.length;
+      } else if (!rest) {
+        // 標題在下一行：「第一章」「一般規定」、「Artigo 1.º」「(Objecto)」
+        const next = lines[index + 1];
+        if (next && !matchLine(next.text) && !this.looksLikeBody(this.headingTitle(next.text), language)) {
+          title = this.headingTitle(next.text);
+          headingEnd = next.end;
+        }
+      }
+
+      if (match.kind === 'article') {
+        lastArticle = this.articleBase(match.number);
+      }
+
+      headings.push({
+        kind: match.kind,
+        rank: match.rank,
+        level: 0,
+        number: match.number,
+        // 章節沒有名稱時以標題行本身作名稱
+        title: title || (match.kind === 'article' ? '' : line.text.trim()),
+        start: line.start,
+        headingEnd,
+        end: text.length
+      });
+    });
+
+    // 層級按文中實際出現的標題類別計算，只有「章」的文本中章為第 1 級
+    for (const kind of ['chapter', 'section'] as const) {
+      const ranks = [...new Set(headings.filter(heading => heading.kind === kind).map(heading => heading.rank))].sort();
+      for (const heading of headings) {
+        if (heading.kind === kind) heading.level = ranks.indexOf(heading.rank) + 1;
+      }
+    }
+    for (const heading of headings) {
+      if (heading.kind === 'article') heading.level = 1;
+    }
+
+    headings.forEach((heading, index) => {
+      const next = headings.slice(index + 1).find(candidate => {
+        if (heading.kind === 'article') return true;
+        if (heading.kind === 'section') {
+          return candidate.kind === 'chapter' || (candidate.kind === 'section' && candidate.rank <= heading.rank);
+        }
+        return candidate.kind === 'chapter' && candidate.rank <= heading.rank;
+      });
+      if (next) heading.end = next.start;
+    });
+
+    return headings;
+  }
+
+  private classifyHeading(line: string, language: ContentLanguage): HeadingMatch | null {
+    const text = line.trim();
+
+    if (language === 'zh') {
+      const match = text.match(ZH_HEADING);
+      const kind = match?.[3] ? ZH_KINDS[match[3]] : undefined;
+      if (!match?.[1] || !kind) return null;
+
+      const digits = match[1].replace(/[０-９]/g, char => String.fromCharCode(char.charCodeAt(0) - 0xfee0));
+      const value = /^\d+$/.test(digits) ? Number(digits) : parseChineseNumeral(digits);
+      if (value === null) return null;
+
+      return {
+        kind: kind[0],
+        rank: kind[1],
+        number: match[2] ? `${value}-${match[2]}` : String(value),
+        rest: match[4] ?? ''
+      };
+    }
+
+    for (const [kind, rank, pattern] of PT_HEADINGS) {
+      const match = text.match(pattern);
+      if (match?.[1]) {
+        // 條號規範為「15」、「15-A」
+        const number = kind === 'article' ? match[1].replace(/[\s.ºo°]/g, '') : match[1].toUpperCase();
+        return { kind, rank, number, rest: match[2] ?? '' };
+      }
+    }
+
+    return null;
+  }
+
+  // 正文處理會調整空白和標點，按文字和數字比對
+  private styledLevels(hints: HeadingHint[]): Map<string, number> {
+    const levels = new Map<string, number>();
+    for (const hint of hints) {
+      const key = this.headingKey(hint.text);
+      if (key && STYLED_KINDS[hint.level] && !levels.has(key)) levels.set(key, hint.level);
+    }
+    return levels;
+  }
+
+  private styledHeading(line: string, styled: Map<string, number>): HeadingMatch | null {
+    const level = styled.get(this.headingKey(line));
+    const kind = level === undefined ? undefined : STYLED_KINDS[level];
+    if (!kind) return null;
+
+    return { kind: kind[0], rank: kind[1], number: '', rest: line.trim() };
+  }
+
+  private headingKey(text: string): string {
+    return text.normalize('NFKC').replace(/[^\p{L}\p{N}]/gu, '');
+  }
+
+  // 條文標題常寫在括號中：「第一條（標的）」、「Artigo 1.º (Objecto)」
+  private headingTitle(rest: string): string {
+    return rest.trim().replace(/^[（(]\s*(.*?)\s*[）)]$/, '$1');
+  }
+
+  private looksLikeBody(text: string, language: ContentLanguage): boolean {
+    return text.length > MAX_TITLE_LENGTH[language] || /[。；，：.;,:]$/.test(text);
+  }
+
+  // 條號與上一條相同（15 之後的 15-A）、遞增一，或從 1 重新開始（附件中的規章）
+  private continuesNumbering(number: string, lastArticle: number | null): boolean {
+    const base = this.articleBase(number);
+    return lastArticle === null || base === 1 || base === lastArticle || base === lastArticle + 1;
+  }
+
+  private articleBase(number: string): number {
+    return parseInt(number, 10);
+  }
+
+  // 兩種語言的標題序列一致時按順序配對，否則只按條號配對條文
+  private counterparts(
+    headings: StructuralHeading[],
+    candidates: StructuralHeading[]
+  ): Array<StructuralHeading | undefined> {
+    if (candidates.length === headings.length && candidates.every((candidate, index) => candidate.kind === headings[index]?.kind)) {
+      return candidates;
+    }
+
+    const articles = new Map<string, StructuralHeading>();
+    for (const candidate of candidates) {
+      if (candidate.kind === 'article' && !articles.has(candidate.number)) {
+        articles.set(candidate.number, candidate);
+      }
+    }
+
+    return headings.map(heading => heading.kind === 'article' ? articles.get(heading.number) : undefined);
+  }
+
+  private splitLines(text: string): Line[] {
+    const lines: Line[] = [];
+    let start = 0;
+
+    for (const part of text.split('\n')) {
+      if (part.trim()) {
+        lines.push({ text: part, start, end: start + part.length });
+      }
+      start += part.length + 1;
+    }
+
+    return lines;
+  }
+
+  private toChapter(index: number, heading: StructuralHeading, title: Chapter['title']): Chapter {
+    return {
+      id: `chapter-${index}`,
+      title,
+      level: heading.level,
+      startOffset: heading.start,
+      endOffset: heading.end,
+      articles: []
+    };
+  }
+
+  private toSection(index: number, heading: StructuralHeading, title: Section['title']): Section {
+    return {
+      id: `section-${index}`,
+      title,
+      level: heading.level,
+      startOffset: heading.start,
+      endOffset: heading.end
+    };
+  }
+}
@@ -1,23 +1,89 @@
 import { FastifyInstance } from 'fastify';
-import { ExtractionController } from '../controllers/ExtractionController';
+import {
+  ExtractionController,
+  ExtractTextRequest,
+  ExtractMultipleRequest,
+  ExtractionJobRequest
+} from '../controllers/ExtractionController';
 import { TextExtractionService } from '../services/TextExtractionService';
+import { UploadStorageService } from '../services/UploadStorageService';
+import { ExtractionJobService } from '../services/ExtractionJobService';
+import { AuthMiddleware } from '../../auth/middleware/authMiddleware';
+
+const errorResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    error: { type: 'string' }
+  }
+};
+
+const jobTicketResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    data: {
+      type: 'object',
+      properties: {
+        jobId: { type: 'string' },
+        status: { type: 'string' },
+        statusUrl: { type: 'string' }
+      }
+    }
+  }
+};
+
+const jobStatusResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    data: {
+      type: 'object',
+      description: 'Job state, per-source attempts and partial results, and the final result once finished',
+      properties: {
+        id: { type: 'string' },
+        kind: { type: 'string', enum: ['single', 'batch'] },
+        status: { type: 'string', enum: ['queued', 'running', 'completed', 'failed', 'cancelled'] },
+        progress: { type: 'number' }
+      },
+      additionalProperties: true
+    }
+  }
+};
+
+const jobParamsSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string' }
+  }
+};
 
 export async function extractionRoutes(fastify: FastifyInstance) {
   // 初始化服務和控制器
-  const extractionService = new TextExtractionService();
-  const extractionController = new ExtractionController(extractionService);
+  const uploadStorage = new UploadStorageService();
+  const extractionService = new TextExtractionService(uploadStorage);
+  const jobService = new ExtractionJobService(extractionService, uploadStorage);
+  const extractionController = new ExtractionController(extractionService, uploadStorage, jobService);
+  const authMiddleware = new AuthMiddleware();
+
+  // 在背景處理擷取任務隊列
+  jobService.start();
+  fastify.addHook('onClose', async () => {
+    jobService.stop();
+  });
 
   // 單一文本擷取
-  fastify.post('/extract', {
+  fastify.post<ExtractTextRequest>('/extract', {
     schema: {
-      description: '擷取單一文本',
+      description: '擷取單一文本（異步任務，返回任務 ID）',
       body: {
         type: 'object',
         required: ['source', 'type'],
         properties: {
           source: { 
             type: 'string',
-            description: 'URL or file path to extract from'
+            description: 'URL, or the path of a file stored by /upload'
           },
           type: { 
             type: 'string',
@@ -49,46 +115,26 @@ export async function extractionRoutes(fastify: FastifyInstance) {
         }
       },
       response: {
-        200: {
-          type: 'object',
-          properties: {
-            success: { type: 'boolean' },
-            data: {
-              type: 'object',
-              description: 'Extraction result'
-            }
-          }
-        },
-        400: {
-          type: 'object',
-          properties: {
-            success: { type: 'boolean' },
-            error: { type: 'string' }
-          }
-        },
-        500: {
-          type: 'object',
-          properties: {
-            success: { type: 'boolean' },
-            error: { type: 'string' }
-          }
-        }
+        202: jobTicketResponseSchema,
+        400: errorResponseSchema,
+        500: errorResponseSchema
       }
     },
+    preHandler: [authMiddleware.requireAuth()],
     handler: extractionController.extractText.bind(extractionController)
   });
 
   // 批量文本擷取
-  fastify.post('/extract/batch', {
+  fastify.post<ExtractMultipleRequest>('/extract/batch', {
     schema: {
-      description: '批量擷取多個文本',
+      description: '批量擷取多個文本（作為一個異步任務，返回任務 ID）',
       body: {
         type: 'object',
         required: ['sources'],
         properties: {
           sources: {
             type: 'array',
-            maxItems: 10,
+            maxItems: 100,
             items: {
               type: 'object',
               required: ['source', 'type'],
@@ -116,24 +162,32 @@ export async function extractionRoutes(fastify: FastifyInstance) {
         }
       },
       response: {
-        200: {
-          type: 'object',
-          properties: {
-            success: { type: 'boolean' },
-            data: {
-              type: 'array',
-              items: {
-                type: 'object',
-                description: 'Extraction results'
-              }
-            }
-          }
-        }
+        202: jobTicketResponseSchema,
+        400: errorResponseSchema,
+        500: errorResponseSchema
       }
     },
+    preHandler: [authMiddleware.requireAuth()],
     handler: extractionController.extractMultiple.bind(extractionController)
   });
 
+  // 上傳 PDF 或 DOCX 文件並擷取
+  fastify.post('/upload', {
+    schema: {
+      description: '上傳 PDF 或 DOCX 文件並擷取文本（異步任務，返回任務 ID；multipart/form-data，字段 file，可選字段 language 須在 file 之前）',
+      consumes: ['multipart/form-data'],
+      response: {
+        202: jobTicketResponseSchema,
+        400: errorResponseSchema,
+        413: errorResponseSchema,
+        415: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: [authMiddleware.requireAuth(), authMiddleware.requirePermission('texts', 'create')],
+    handler: extractionController.uploadAndExtract.bind(extractionController)
+  });
+
   // 獲取支持的擷取類型
   fastify.get('/types', {
     schema: {
@@ -163,37 +217,37 @@ export async function extractionRoutes(fastify: FastifyInstance) {
     handler: extractionController.getSupportedTypes.bind(extractionController)
   });
 
-  // 擷取狀態查詢
-  fastify.get('/status/:id', {
+  // 擷取任務狀態查詢
+  fastify.get<ExtractionJobRequest>('/status/:id', {
     schema: {
-      description: '查詢擷取任務狀態',
-      params: {
-        type: 'object',
-        properties: {
-          id: { type: 'string' }
-        }
-      },
+      description: '查詢擷取任務狀態、進度和結果（僅限提交任務的用戶）',
+      params: jobParamsSchema,
       response: {
-        200: {
-          type: 'object',
-          properties: {
-            success: { type: 'boolean' },
-            data: {
-              type: 'object',
-              properties: {
-                id: { type: 'string' },
-                status: { type: 'string' },
-                progress: { type: 'number' },
-                result: { type: 'object' }
-              }
-            }
-          }
-        }
+        200: jobStatusResponseSchema,
+        404: errorResponseSchema,
+        500: errorResponseSchema
       }
     },
+    preHandler: [authMiddleware.requireAuth()],
     handler: extractionController.getExtractionStatus.bind(extractionController)
   });
 
+  // 取消擷取任務
+  fastify.post<ExtractionJobRequest>('/status/:id/cancel', {
+    schema: {
+      description: '取消擷取任務（僅限提交任務的用戶）；執行中的任務在當前來源完成後停止',
+      params: jobParamsSchema,
+      response: {
+        200: jobStatusResponseSchema,
+        404: errorResponseSchema,
+        409: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: [authMiddleware.requireAuth()],
+    handler: extractionController.cancelExtraction.bind(extractionController)
+  });
+
   // 健康檢查
   fastify.get('/health', {
     schema: {
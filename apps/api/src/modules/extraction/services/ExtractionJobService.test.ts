@@ -0,0 +1,302 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// 只實現任務隊列用到的 Redis 命令
+const { redis, store, lists } = vi.hoisted(() => {
+  const store = new Map<string, string>();
+  const lists = new Map<string, string[]>();
+  const list = (key: string) => {
+    if (!lists.has(key)) lists.set(key, []);
+    return lists.get(key)!;
+  };
+  const lrem = async (key: string, _count: number, value: string) => {
+    const items = list(key);
+    const index = items.indexOf(value);
+    if (index === -1) return 0;
+    items.splice(index, 1);
+    return 1;
+  };
+
+  const redis = {
+    get: async (key: string) => store.get(key) ?? null,
+    set: async (key: string, value: string) => {
+      store.set(key, value);
+      return 'OK';
+    },
+    exists: async (key: string) => (store.has(key) ? 1 : 0),
+    lpush: async (key: string, value: string) => list(key).unshift(value),
+    rpush: async (key: string, value: string) => list(key).push(value),
+    lrem,
+    lrange: async (key: string) => [...list(key)],
+    rpoplpush: async (source: string, destination: string) => {
+      const value = list(source).pop();
+      if (value === undefined) return null;
+      list(destination).unshift(value);
+      return value;
+    },
+    multi: () => {
+      const commands: Array<() => Promise<unknown>> = [];
+      const chain = {
+        set: (key: string, value: string) => {
+          commands.push(() => redis.set(key, value));
+          return chain;
+        },
+        lpush: (key: string, value: string) => {
+          commands.push(() => redis.lpush(key, value));
+          return chain;
+        },
+        exec: async () => {
+          for (const command of commands) await command();
+          return [];
+        }
+      };
+      return chain;
+    }
+  };
+
+  return { redis, store, lists };
+});
+vi.mock('../../../config/database', () => ({ redis }));
+
+import { ExtractionJobService } from './ExtractionJobService';
+import { TextExtractionService } from './TextExtractionService';
+import { UploadStorageService } from './UploadStorageService';
+import { ExtractionJob, ExtractionResult, ExtractionSource } from '../../../shared/types/extraction.types';
+
+const SOURCE: ExtractionSource = { type: 'url', source: 'https://bo.io.gov.mo/bo/i/2024/01/lei-1.asp' };
+
+const succeeded = (): ExtractionResult => ({
+  success: true,
+  data: { content: { zh: { text: '第一條', html: '<p>第一條</p>', wordCount: 3 } } },
+  metadata: { extractedAt: new Date(), source: SOURCE.source, type: 'url' }
+} as unknown as ExtractionResult);
+
+const failed = (errorCode: string): ExtractionResult => ({
+  success: false,
+  error: `${errorCode} happened`,
+  errorCode,
+  metadata: { extractedAt: new Date(), source: SOURCE.source, type: 'url' }
+} as unknown as ExtractionResult);
+
+const storedJob = (id: string) => JSON.parse(store.get(`extraction:job:${id}`)!) as ExtractionJob;
+
+describe('ExtractionJobService', () => {
+  const extract = vi.fn();
+  const remove = vi.fn(async () => {});
+  const service = new ExtractionJobService(
+    { extract } as unknown as TextExtractionService,
+    { remove } as unknown as UploadStorageService
+  );
+
+  // start 只用於讓 processQueue 排空隊列；定時器是假的，不會自行輪詢
+  const drain = async (ms = 60 * 1000) => {
+    service.start();
+    const processing = service.processQueue();
+    await vi.advanceTimersByTimeAsync(ms);
+    await processing;
+    service.stop();
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+    store.clear();
+    lists.clear();
+  });
+
+  afterEach(() => {
+    service.stop();
+    vi.useRealTimers();
+  });
+
+  it('queues a job for its owner and returns it before extracting', async () => {
+    const job = await service.enqueue([SOURCE], { language: 'auto' }, 'single', 'user-1');
+
+    expect(job).toMatchObject({ kind: 'single', ownerId: 'user-1', status: 'queued', progress: 0 });
+    expect(lists.get('extraction:jobs:queue')).toEqual([job.id]);
+    expect(storedJob(job.id).items).toEqual([{ source: SOURCE, status: 'pending', attempts: 0 }]);
+    expect(extract).not.toHaveBeenCalled();
+  });
+
+  it('runs a queued job to completion', async () => {
+    extract.mockResolvedValue(succeeded());
+    const job = await service.enqueue([SOURCE], { language: 'auto' }, 'single', 'user-1');
+
+    await drain();
+
+    const finished = storedJob(job.id);
+    expect(finished.status).toBe('completed');
+    expect(finished.progress).toBe(100);
+    expect(finished.items[0]).toMatchObject({ status: 'completed', attempts: 1 });
+    expect(finished.items[0]?.result?.success).toBe(true);
+    expect(lists.get('extraction:jobs:processing')).toEqual([]);
+  });
+
+  it('retries network errors with backoff until the source succeeds', async () => {
+    extract
+      .mockResolvedValueOnce(failed('NETWORK_ERROR'))
+      .mockResolvedValueOnce(failed('NETWORK_ERROR'))
+      .mockResolvedValueOnce(succeeded());
+    const job = await service.enqueue([SOURCE], { language: 'auto' }, 'single', 'user-1');
+
+    await drain();
+
+    expect(extract).toHaveBeenCalledTimes(3);
+    const finished = storedJob(job.id);
+    expect(finished.status).toBe('completed');
+    expect(finished.items[0]).toMatchObject({ status: 'completed', attempts: 3 });
+    expect(finished.items[0]?.error).toBeUndefined();
+  });
+
+  it('does not retry errors that cannot succeed on a second attempt', async () => {
+    extract.mockResolvedValue(failed('PARSE_ERROR'));
+    const job = await service.enqueue([SOURCE], { language: 'auto' }, 'single', 'user-1');
+
+    await drain();
+
+    expect(extract).toHaveBeenCalledTimes(1);
+    const finished = storedJob(job.id);
+    expect(finished.status).toBe('failed');
+    expect(finished.error).toBe('PARSE_ERROR happened');
+  });
+
+  it('gives up after the last attempt and keeps the other sources of a batch', async () => {
+    const other: ExtractionSource = { type: 'url', source: 'https://bo.io.gov.mo/bo/i/2024/01/lei-2.asp' };
+    extract.mockImplementation(async (source: ExtractionSource) =>
+      source.source === SOURCE.source ? failed('NETWORK_ERROR') : succeeded());
+    const job = await service.enqueue([SOURCE, other], { language: 'auto' }, 'batch', 'user-1');
+
+    await drain();
+
+    const finished = storedJob(job.id);
+    expect(finished.status).toBe('completed');
+    expect(finished.items.map(item => [item.status, item.attempts])).toEqual([['failed', 3], ['completed', 1]]);
+  });
+
+  it('cancels a job that is still queued without running it', async () => {
+    const job = await service.enqueue([SOURCE], { language: 'auto' }, 'single', 'user-1', ['/uploads/a.pdf']);
+
+    const cancelled = await service.cancel(job.id, 'user-1');
+    await drain();
+
+    expect(cancelled.status).toBe('cancelled');
+    expect(cancelled.items[0]?.status).toBe('cancelled');
+    expect(lists.get('extraction:jobs:queue')).toEqual([]);
+    expect(extract).not.toHaveBeenCalled();
+    expect(remove).toHaveBeenCalledWith('/uploads/a.pdf');
+  });
+
+  it('stops a running job before its next attempt once cancelled', async () => {
+    let job: ExtractionJob | undefined;
+    extract.mockImplementation(async () => {
+      await service.cancel(job!.id, 'user-1');
+      return failed('NETWORK_ERROR');
+    });
+    job = await service.enqueue([SOURCE], { language: 'auto' }, 'single', 'user-1');
+
+    await drain();
+
+    expect(extract).toHaveBeenCalledTimes(1);
+    const finished = storedJob(job.id);
+    expect(finished.status).toBe('cancelled');
+    expect(finished.items[0]).toMatchObject({ status: 'cancelled', attempts: 1 });
+  });
+
+  it('hides and refuses to cancel jobs of other users', async () => {
+    const job = await service.enqueue([SOURCE], { language: 'auto' }, 'single', 'user-1');
+
+    await expect(service.getOwned(job.id, 'user-2')).rejects.toMatchObject({ code: 'JOB_NOT_FOUND' });
+    await expect(service.cancel(job.id, 'user-2')).rejects.toMatchObject({ code: 'JOB_NOT_FOUND' });
+    expect(lists.get('extraction:jobs:queue')).toEqual([job.id]);
+  });
+
+  it('refuses to cancel a finished job', async () => {
+    extract.mockResolvedValue(succeeded());
+    const job = await service.enqueue([SOURCE], { language: 'auto' }, 'single', 'user-1');
+    await drain();
+
+    await expect(service.cancel(job.id, 'user-1')).rejects.toMatchObject({ code: 'JOB_FINISHED' });
+  });
+
+  it('removes uploaded files once the job has finished', async () => {
+    extract.mockResolvedValue(succeeded());
+    const job = await service.enqueue([SOURCE], { language: 'auto' }, 'single', 'user-1', ['/uploads/a.pdf']);
+
+    await drain();
+
+    expect(storedJob(job.id).status).toBe('completed');
+    expect(remove).toHaveBeenCalledWith('/uploads/a.pdf');
+  });
+
+  it('fails the job and removes its uploads when running it throws', async () => {
+    extract.mockRejectedValue(new Error('connection reset'));
+    const job = await service.enqueue([SOURCE], { language: 'auto' }, 'single', 'user-1', ['/uploads/a.pdf']);
+
+    await drain();
+
+    const finished = storedJob(job.id);
+    expect(finished.status).toBe('failed');
+    expect(finished.items[0]).toMatchObject({ status: 'failed', error: 'connection reset' });
+    expect(remove).toHaveBeenCalledWith('/uploads/a.pdf');
+    expect(lists.get('extraction:jobs:processing')).toEqual([]);
+  });
+
+  it('keeps the job in the processing list for recovery when it cannot be closed', async () => {
+    extract.mockRejectedValue(new Error('connection reset'));
+    const job = await service.enqueue([SOURCE], { language: 'auto' }, 'single', 'user-1', ['/uploads/a.pdf']);
+    const set = vi.spyOn(redis, 'set').mockRejectedValue(new Error('redis unavailable'));
+
+    service.start();
+    const processing = service.processQueue().catch((error: Error) => error);
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(processing).resolves.toMatchObject({ message: 'redis unavailable' });
+    set.mockRestore();
+
+    expect(lists.get('extraction:jobs:processing')).toEqual([job.id]);
+    expect(remove).not.toHaveBeenCalled();
+  });
+
+  it('re-queues and resumes a job whose worker stopped updating it', async () => {
+    extract.mockResolvedValue(succeeded());
+    const job = await service.enqueue([SOURCE], { language: 'auto' }, 'single', 'user-1');
+    // 模擬另一實例取出任務後退出
+    await redis.rpoplpush('extraction:jobs:queue', 'extraction:jobs:processing');
+    const abandoned = { ...storedJob(job.id), status: 'running', heartbeatAt: new Date(Date.now() - 6 * 60 * 1000).toISOString() };
+    abandoned.items[0] = { ...abandoned.items[0]!, status: 'running', attempts: 1 };
+    store.set(`extraction:job:${job.id}`, JSON.stringify(abandoned));
+
+    await drain();
+
+    const finished = storedJob(job.id);
+    expect(finished.status).toBe('completed');
+    expect(finished.items[0]).toMatchObject({ status: 'completed', attempts: 2 });
+  });
+
+  it('leaves a job alone while its worker keeps the heartbeat fresh', async () => {
+    const job = await service.enqueue([SOURCE], { language: 'auto' }, 'single', 'user-1');
+    await redis.rpoplpush('extraction:jobs:queue', 'extraction:jobs:processing');
+    store.set(`extraction:job:${job.id}`, JSON.stringify({ ...storedJob(job.id), status: 'running', heartbeatAt: new Date().toISOString() }));
+
+    await drain();
+
+    expect(lists.get('extraction:jobs:processing')).toEqual([job.id]);
+    expect(extract).not.toHaveBeenCalled();
+  });
+
+  it('refreshes the heartbeat while a single extraction outlasts the stall timeout', async () => {
+    extract.mockImplementation(() => new Promise(resolve => setTimeout(() => resolve(succeeded()), 12 * 60 * 1000)));
+    const job = await service.enqueue([SOURCE], { language: 'auto' }, 'single', 'user-1');
+
+    service.start();
+    const processing = service.processQueue();
+    await vi.advanceTimersByTimeAsync(8 * 60 * 1000);
+
+    const running = storedJob(job.id);
+    expect(running.status).toBe('running');
+    expect(Date.now() - Date.parse(running.heartbeatAt!)).toBeLessThan(2 * 60 * 1000);
+
+    await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+    await processing;
+    service.stop();
+    expect(storedJob(job.id).status).toBe('completed');
+  });
+});
@@ -0,0 +1,337 @@
+import { randomUUID } from 'crypto';
+import { redis } from '../../../config/database';
+import {
+  ExtractionSource,
+  ExtractionOptions,
+  ExtractionResult,
+  ExtractionJob,
+  ExtractionJobItem,
+  ExtractionError
+} from '../../../shared/types/extraction.types';
+import { TextExtractionService } from './TextExtractionService';
+import { UploadStorageService } from './UploadStorageService';
+
+const QUEUE_KEY = 'extraction:jobs:queue';
+const PROCESSING_KEY = 'extraction:jobs:processing';
+const JOB_KEY_PREFIX = 'extraction:job:';
+const CANCEL_KEY_PREFIX = 'extraction:cancel:';
+
+const FINISHED_STATUSES = new Set(['completed', 'failed', 'cancelled']);
+
+/**
+ * 以 Redis 列表為隊列的擷取任務。請求只負責入列並返回任務 ID，
+ * 各實例的 worker 輪詢取出任務，逐個來源擷取並把進度、部分結果和錯誤寫回任務記錄。
+ */
+export class ExtractionJobService {
+  private readonly MAX_ATTEMPTS = 3;
+  private readonly RETRY_BASE_DELAY_MS = 2000;
+  private readonly CONCURRENCY = 3;
+  private readonly POLL_INTERVAL_MS = 1000;
+  // 執行期間按心跳間隔寫回任務，超過這個時間未更新視為 worker 已退出
+  private readonly STALL_TIMEOUT_MS = 5 * 60 * 1000;
+  private readonly HEARTBEAT_INTERVAL_MS = 60 * 1000;
+  private readonly JOB_TTL_SECONDS = 24 * 60 * 60;
+  // 只有網絡錯誤值得重試，解析失敗、不支持的來源重試也不會成功
+  private readonly RETRYABLE_CODES = new Set(['NETWORK_ERROR']);
+
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private active = new Set<string>();
+
+  constructor(
+    private extractionService: TextExtractionService = new TextExtractionService(),
+    private uploadStorage: UploadStorageService = new UploadStorageService()
+  ) {}
+
+  start(): void {
+    if (this.pollTimer) {
+      return;
+    }
+
+    this.pollTimer = setInterval(() => {
+      this.processQueue().catch(() => {});
+    }, this.POLL_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  async enqueue(
+    sources: ExtractionSource[],
+    options: ExtractionOptions,
+    kind: ExtractionJob['kind'],
+    ownerId: string,
+    uploads: string[] = []
+  ): Promise<ExtractionJob> {
+    const job: ExtractionJob = {
+      id: randomUUID(),
+      kind,
+      ownerId,
+      status: 'queued',
+      progress: 0,
+      items: sources.map(source => ({ source, status: 'pending', attempts: 0 })),
+      options,
+      createdAt: new Date().toISOString(),
+      ...(uploads.length > 0 ? { uploads } : {})
+    };
+
+    await redis.multi()
+      .set(this.jobKey(job.id), JSON.stringify(job), 'EX', this.JOB_TTL_SECONDS)
+      .lpush(QUEUE_KEY, job.id)
+      .exec();
+
+    return job;
+  }
+
+  async get(id: string): Promise<ExtractionJob | null> {
+    const [stored, cancelRequested] = await Promise.all([
+      redis.get(this.jobKey(id)),
+      redis.exists(this.cancelKey(id))
+    ]);
+    if (!stored) return null;
+
+    const job = JSON.parse(stored) as ExtractionJob;
+    if (cancelRequested && !FINISHED_STATUSES.has(job.status)) {
+      job.cancelRequested = true;
+    }
+    return job;
+  }
+
+  // 只返回該用戶提交的任務；他人的任務與不存在的任務一樣返回 JOB_NOT_FOUND，不透露任務是否存在
+  async getOwned(id: string, ownerId: string): Promise<ExtractionJob> {
+    const job = await this.get(id);
+    if (!job || job.ownerId !== ownerId) {
+      throw new ExtractionError(`Extraction job not found: ${id}`, 'JOB_NOT_FOUND');
+    }
+    return job;
+  }
+
+  /**
+   * 取消標記單獨存放，避免與 worker 寫回的任務記錄互相覆蓋。
+   * 仍在隊列中的任務直接取消；執行中的任務由 worker 在下一個來源或重試前停止。
+   */
+  async cancel(id: string, ownerId: string): Promise<ExtractionJob> {
+    const job = await this.getOwned(id, ownerId);
+    if (FINISHED_STATUSES.has(job.status)) {
+      throw new ExtractionError(`Extraction job already ${job.status}`, 'JOB_FINISHED');
+    }
+
+    await redis.set(this.cancelKey(id), '1', 'EX', this.JOB_TTL_SECONDS);
+
+    // LREM 成功表示 worker 尚未取出，由這裡完成取消
+    if (job.status === 'queued' && await redis.lrem(QUEUE_KEY, 1, id)) {
+      await this.close(job, true);
+      return job;
+    }
+
+    job.cancelRequested = true;
+    return job;
+  }
+
+  // 排空隊列；RPOPLPUSH 把任務移入處理中列表，worker 退出後可被找回
+  async processQueue(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      await this.recoverStalled();
+
+      while (this.pollTimer) {
+        const id = await redis.rpoplpush(QUEUE_KEY, PROCESSING_KEY);
+        if (!id) break;
+
+        this.active.add(id);
+        try {
+          await this.run(id).catch(error => this.fail(id, error));
+          // 任務結束後才移出處理中列表；連標記失敗也出錯時留給 recoverStalled 重新入列
+          await redis.lrem(PROCESSING_KEY, 1, id);
+        } finally {
+          this.active.delete(id);
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async run(id: string): Promise<void> {
+    const job = await this.get(id);
+    if (!job || FINISHED_STATUSES.has(job.status)) return;
+
+    if (job.cancelRequested) {
+      await this.close(job, true);
+      return;
+    }
+
+    // 從中斷的任務恢復時，未完成的來源重新執行
+    const pending = job.items.filter(item => item.status === 'pending' || item.status === 'running');
+    for (const item of pending) {
+      item.status = 'pending';
+    }
+
+    job.status = 'running';
+    job.startedAt = job.startedAt || new Date().toISOString();
+    await this.save(job);
+
+    // 單次擷取可能超過停滯時限，執行期間定期寫回任務，避免被其他實例當作停滯任務重新入列
+    const heartbeat = setInterval(() => {
+      this.save(job).catch(() => {});
+    }, this.HEARTBEAT_INTERVAL_MS);
+
+    try {
+      const queue = [...pending];
+      const workers = Array.from({ length: Math.min(this.CONCURRENCY, queue.length) }, async () => {
+        for (let item = queue.shift(); item; item = queue.shift()) {
+          await this.runItem(job, item);
+        }
+      });
+      await Promise.all(workers);
+    } finally {
+      clearInterval(heartbeat);
+    }
+
+    // 取消請求到達時所有來源已結束，則按正常完成處理
+    await this.close(job, job.items.some(item => item.status === 'cancelled'));
+  }
+
+  private async runItem(job: ExtractionJob, item: ExtractionJobItem): Promise<void> {
+    while (item.attempts < this.MAX_ATTEMPTS) {
+      if (await this.isCancelRequested(job.id)) {
+        item.status = 'cancelled';
+        return;
+      }
+
+      item.status = 'running';
+      item.attempts += 1;
+      await this.save(job);
+
+      // extract 會改寫來源（URL 正規化），傳入副本以保留原始請求
+      const result = await this.extractionService.extract({ ...item.source }, job.options);
+
+      if (result.success || !this.isRetryable(result) || item.attempts >= this.MAX_ATTEMPTS) {
+        this.settle(job, item, result);
+        await this.save(job);
+        return;
+      }
+
+      if (result.error) item.error = result.error;
+      await this.save(job);
+      await this.delay(this.RETRY_BASE_DELAY_MS * 2 ** (item.attempts - 1));
+    }
+  }
+
+  private settle(job: ExtractionJob, item: ExtractionJobItem, result: ExtractionResult): void {
+    item.status = result.success ? 'completed' : 'failed';
+    item.result = result;
+    if (result.error) {
+      item.error = result.error;
+    } else {
+      delete item.error;
+    }
+
+    const done = job.items.filter(candidate => candidate.status === 'completed' || candidate.status === 'failed').length;
+    job.progress = Math.round((done / job.items.length) * 100);
+  }
+
+  // 執行中拋出的異常（例如 Redis 暫時不可用）不會留下懸而未決的任務：未完成的來源記錄錯誤後結束任務
+  private async fail(id: string, error: unknown): Promise<void> {
+    const job = await this.get(id);
+    if (!job || FINISHED_STATUSES.has(job.status)) return;
+
+    const message = error instanceof Error ? error.message : 'Unknown extraction error';
+    for (const item of job.items) {
+      if (item.status === 'pending' || item.status === 'running') {
+        item.status = 'failed';
+        item.error = message;
+      }
+    }
+
+    await this.close(job, false);
+  }
+
+  // 結束任務並刪除其上傳的臨時文件；刪除失敗不影響任務結果
+  private async close(job: ExtractionJob, cancelled: boolean): Promise<void> {
+    this.finish(job, cancelled);
+    await this.save(job);
+
+    for (const upload of job.uploads || []) {
+      await this.uploadStorage.remove(upload).catch(() => undefined);
+    }
+  }
+
+  // 部分來源失敗的批量任務仍算完成，失敗原因記錄在各來源上
+  private finish(job: ExtractionJob, cancelled: boolean): void {
+    job.finishedAt = new Date().toISOString();
+    delete job.cancelRequested;
+
+    if (cancelled) {
+      job.status = 'cancelled';
+      for (const item of job.items) {
+        if (item.status === 'pending' || item.status === 'running') item.status = 'cancelled';
+      }
+      return;
+    }
+
+    job.progress = 100;
+    if (job.items.every(item => item.status === 'failed')) {
+      job.status = 'failed';
+      job.error = job.kind === 'single' && job.items[0]?.error ? job.items[0].error : 'All sources failed';
+    } else {
+      job.status = 'completed';
+    }
+  }
+
+  // 處理中列表裡長時間未更新的任務重新入列；LREM 成功者才入列，避免多實例重複恢復
+  private async recoverStalled(): Promise<void> {
+    const ids = await redis.lrange(PROCESSING_KEY, 0, -1);
+
+    for (const id of ids) {
+      if (this.active.has(id)) continue;
+
+      const job = await this.get(id);
+      if (!job) {
+        await redis.lrem(PROCESSING_KEY, 1, id);
+        continue;
+      }
+
+      const lastSeen = Date.parse(job.heartbeatAt || job.createdAt);
+      if (Date.now() - lastSeen < this.STALL_TIMEOUT_MS) continue;
+
+      if (await redis.lrem(PROCESSING_KEY, 1, id)) {
+        await redis.rpush(QUEUE_KEY, id);
+      }
+    }
+  }
+
+  private async save(job: ExtractionJob): Promise<void> {
+    job.heartbeatAt = new Date().toISOString();
+    const { cancelRequested, ...stored } = job;
+    await redis.set(this.jobKey(job.id), JSON.stringify(stored), 'EX', this.JOB_TTL_SECONDS);
+  }
+
+  private async isCancelRequested(id: string): Promise<boolean> {
+    return (await redis.exists(this.cancelKey(id))) === 1;
+  }
+
+  private isRetryable(result: ExtractionResult): boolean {
+    return !!result.errorCode && this.RETRYABLE_CODES.has(result.errorCode);
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  private jobKey(id: string): string {
+    return `${JOB_KEY_PREFIX}${id}`;
+  }
+
+  private cancelKey(id: string): string {
+    return `${CANCEL_KEY_PREFIX}${id}`;
+  }
+}
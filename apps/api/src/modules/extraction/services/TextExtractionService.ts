@@ -11,15 +11,20 @@ import { PDFExtractionStrategy } from '../strategies/PDFExtractionStrategy';
 import { DOCXExtractionStrategy } from '../strategies/DOCXExtractionStrategy';
 import { ContentProcessor } from '../processors/ContentProcessor';
 import { LanguageProcessor } from '../processors/LanguageProcessor';
+import { StructureProcessor } from '../processors/StructureProcessor';
+import { UploadStorageService } from './UploadStorageService';
+import { markPages, takePages, stripPageMarkers } from '../utils/pageMap';
 
 export class TextExtractionService {
   private strategies = new Map<string, ExtractionStrategy>();
   private contentProcessor: ContentProcessor;
   private languageProcessor: LanguageProcessor;
+  private structureProcessor: StructureProcessor;
 
-  constructor() {
+  constructor(private uploadStorage: UploadStorageService = new UploadStorageService()) {
     this.contentProcessor = new ContentProcessor();
     this.languageProcessor = new LanguageProcessor();
+    this.structureProcessor = new StructureProcessor();
     this.initializeStrategies();
   }
 
@@ -60,6 +65,7 @@ export class TextExtractionService {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown extraction error',
+        ...(error instanceof ExtractionError && { errorCode: error.code }),
         metadata: {
           extractedAt: new Date(),
           extractor: 'TextExtractionService',
@@ -91,7 +97,10 @@ export class TextExtractionService {
         break;
       case 'pdf':
       case 'docx':
-        // 對於文件路徑，可以在這裡添加更多驗證
+        // 只接受經上傳接口存入存儲區的文件，不能讀取服務器上的任意路徑
+        if (!this.uploadStorage.contains(source.source)) {
+          throw new ExtractionError('File sources must be uploaded through /api/extraction/upload', 'INVALID_SOURCE');
+        }
         break;
       default:
         throw new UnsupportedSourceError(source.type);
@@ -118,6 +127,11 @@ export class TextExtractionService {
       source.source = this.normalizeUrl(source.source);
     }
 
+    // 上傳的文件可能由其他實例接收，擷取前在本實例取得工作副本
+    if (source.type === 'pdf' || source.type === 'docx') {
+      await this.uploadStorage.fetch(source.source);
+    }
+
     return source;
   }
 
@@ -138,7 +152,16 @@ export class TextExtractionService {
       return result;
     }
 
+    // 處理前保存，失敗時返回原始正文
+    const original = {
+      content: { ...result.data.content },
+      pages: result.metadata.pages
+    };
+
     try {
+      // 0. 標記頁碼位置，處理後按標記重建頁碼範圍
+      this.markPages(result);
+
       // 1. 內容處理
       result.data = await this.contentProcessor.process(result.data, options);
       
@@ -146,17 +169,54 @@ export class TextExtractionService {
       if (options.language === 'auto' || !options.language) {
         result.data = await this.languageProcessor.detectAndProcess(result.data);
       }
+
+      this.takePages(result);
+
+      // 3. 章節條結構，偏移量對應處理後的正文
+      result.data = await this.structureProcessor.process(result.data, result.metadata.headings);
       
-      // 3. 計算信心度
+      // 4. 計算信心度
       result.metadata.confidence = this.calculateConfidence(result.data);
       
       return result;
     } catch (error) {
       // 記錄後處理失敗，但不阻斷流程
+      result.data.content = original.content;
+      if (original.pages) result.metadata.pages = original.pages;
       return result; // 返回原始結果，不阻斷流程
     }
   }
 
+  private markPages(result: ExtractionResult): void {
+    const pages = result.metadata.pages;
+    if (!pages || !result.data) return;
+
+    for (const language of ['zh', 'pt'] as const) {
+      const body = result.data.content[language];
+      const offsets = pages[language];
+      if (body && offsets?.length) {
+        result.data.content[language] = { ...body, text: markPages(body.text, offsets) };
+      }
+    }
+  }
+
+  private takePages(result: ExtractionResult): void {
+    if (!result.metadata.pages || !result.data) return;
+
+    const pages: NonNullable<ExtractionResult['metadata']['pages']> = {};
+    for (const language of ['zh', 'pt'] as const) {
+      const body = result.data.content[language];
+      if (!body) continue;
+
+      const taken = takePages(body.text);
+      body.text = taken.text;
+      body.html = stripPageMarkers(body.html);
+      if (taken.pages.length > 0) pages[language] = taken.pages;
+    }
+
+    result.metadata.pages = pages;
+  }
+
   private calculateConfidence(data: any): number {
     let confidence = 0;
     
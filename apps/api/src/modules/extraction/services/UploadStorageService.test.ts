@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+
+const { blobs } = vi.hoisted(() => ({ blobs: new Map<string, Buffer>() }));
+vi.mock('../../../config/database', () => ({
+  redis: {
+    set: async (key: string, value: Buffer) => blobs.set(key, value),
+    getBuffer: async (key: string) => blobs.get(key) ?? null,
+    del: async (key: string) => Number(blobs.delete(key))
+  }
+}));
+
+import { UploadStorageService } from './UploadStorageService';
+
+const PDF = Buffer.from('%PDF-1.7\n第一條 本法規範租賃關係。');
+
+describe('UploadStorageService', () => {
+  let root: string;
+  let receiving: UploadStorageService;
+  let worker: UploadStorageService;
+
+  // 各實例配置相同的目錄但只共享 Redis；接收上傳的實例不保留本地文件
+  beforeEach(async () => {
+    blobs.clear();
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'upload-storage-'));
+    receiving = new UploadStorageService(root);
+    worker = new UploadStorageService(root);
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('lets another instance fetch an upload and removes it everywhere once done', async () => {
+    const upload = await receiving.save(Readable.from([PDF]), 'lei.pdf');
+    await expect(fs.access(upload.path)).rejects.toThrow();
+
+    await worker.fetch(upload.path);
+    await expect(fs.readFile(upload.path)).resolves.toEqual(PDF);
+
+    await worker.remove(upload.path);
+    await expect(fs.access(upload.path)).rejects.toThrow();
+    await expect(worker.fetch(upload.path)).rejects.toMatchObject({ code: 'UPLOAD_NOT_FOUND' });
+  });
+
+  it('refuses paths outside the storage directory', async () => {
+    await expect(worker.fetch('/etc/passwd')).rejects.toMatchObject({ code: 'INVALID_SOURCE' });
+  });
+
+  it('rejects content that is neither PDF nor DOCX without storing it', async () => {
+    await expect(receiving.save(Readable.from([Buffer.from('<html></html>')]), 'lei.html')).rejects.toMatchObject({
+      code: 'UNSUPPORTED_FILE_TYPE'
+    });
+    expect(blobs.size).toBe(0);
+  });
+});
@@ -0,0 +1,139 @@
+import { createWriteStream, promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { redis } from '../../../config/database';
+import { ExtractionError } from '../../../shared/types/extraction.types';
+import { sniffFileType, UploadFileType } from '../utils/fileType';
+
+export interface StoredUpload {
+  id: string;
+  path: string;
+  type: UploadFileType;
+  mimeType: string;
+  size: number;
+  originalName: string;
+}
+
+// 上傳文件的存儲名稱：隨機 ID 加上按內容判斷的擴展名
+const STORED_NAME = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\.(pdf|docx)$/;
+
+const UPLOAD_KEY_PREFIX = 'extraction:upload:';
+
+/**
+ * 待擷取文件的臨時存儲區。PDF、DOCX 擷取只接受存放在這裡的文件，
+ * 客戶端不能再指定服務器上的任意路徑。
+ * 文件內容存於 Redis，任何實例的 worker 都能取得；本地目錄只保存執行擷取時的工作副本。
+ */
+export class UploadStorageService {
+  // 與擷取任務記錄的保留時間一致
+  private readonly TTL_SECONDS = 24 * 60 * 60;
+  private directory: string;
+
+  constructor(directory: string = process.env.UPLOAD_DIR || path.join(os.tmpdir(), 'legal-codex-uploads')) {
+    this.directory = path.resolve(directory);
+  }
+
+  /**
+   * 把上傳流寫入存儲區並按內容判斷類型。超過大小限制（multipart 的 fileSize）、
+   * 不是 PDF 或 DOCX 的文件會被刪除並拋出錯誤。返回的路徑在本實例上不一定存在，擷取前經 fetch 取得。
+   */
+  async save(stream: Readable & { truncated?: boolean }, originalName: string): Promise<StoredUpload> {
+    await fs.mkdir(this.directory, { recursive: true, mode: 0o700 });
+
+    const id = randomUUID();
+    const partial = path.join(this.directory, `${id}.part`);
+
+    try {
+      await pipeline(stream, createWriteStream(partial, { flags: 'wx', mode: 0o600 }));
+    } catch (error) {
+      await this.discard(partial);
+      if ((error as { code?: string }).code === 'FST_REQ_FILE_TOO_LARGE') {
+        throw new ExtractionError('File exceeds the upload size limit', 'FILE_TOO_LARGE');
+      }
+      throw error;
+    }
+
+    // 未啟用 throwFileSizeLimit 時超限的流只會被截斷
+    if (stream.truncated) {
+      await this.discard(partial);
+      throw new ExtractionError('File exceeds the upload size limit', 'FILE_TOO_LARGE');
+    }
+
+    const data = await fs.readFile(partial);
+    const detected = sniffFileType(data);
+    if (!detected) {
+      await this.discard(partial);
+      throw new ExtractionError('Only PDF and DOCX files are supported', 'UNSUPPORTED_FILE_TYPE');
+    }
+
+    const stored = path.join(this.directory, `${id}.${detected.type}`);
+    try {
+      await redis.set(this.uploadKey(stored), data, 'EX', this.TTL_SECONDS);
+    } finally {
+      await this.discard(partial);
+    }
+
+    return {
+      id,
+      path: stored,
+      type: detected.type,
+      mimeType: detected.mimeType,
+      size: data.length,
+      originalName: path.basename(originalName || `upload.${detected.type}`)
+    };
+  }
+
+  // 路徑是否指向存儲區內由 save 產生的文件；先解析再比較，含 ../ 的穿越路徑不會通過
+  contains(filePath: string): boolean {
+    const resolved = path.resolve(filePath);
+    return path.dirname(resolved) === this.directory && STORED_NAME.test(path.basename(resolved));
+  }
+
+  // 確保本實例有文件的工作副本；先寫入臨時文件再改名，並發取得同一文件時不會讀到半個文件
+  async fetch(filePath: string): Promise<void> {
+    if (!this.contains(filePath)) {
+      throw new ExtractionError('File sources must be uploaded through /api/extraction/upload', 'INVALID_SOURCE');
+    }
+
+    const resolved = path.resolve(filePath);
+    try {
+      await fs.access(resolved);
+      return;
+    } catch {
+      // 本實例尚無副本
+    }
+
+    const data = await redis.getBuffer(this.uploadKey(resolved));
+    if (!data) {
+      throw new ExtractionError('Uploaded file has expired or was removed', 'UPLOAD_NOT_FOUND', { filePath });
+    }
+
+    await fs.mkdir(this.directory, { recursive: true, mode: 0o700 });
+    const partial = path.join(this.directory, `${randomUUID()}.part`);
+    await fs.writeFile(partial, data, { flag: 'wx', mode: 0o600 });
+    await fs.rename(partial, resolved);
+  }
+
+  // 刪除共享內容和本實例的工作副本；其他實例上殘留的副本在系統臨時目錄中清理
+  async remove(filePath: string): Promise<void> {
+    if (this.contains(filePath)) {
+      await redis.del(this.uploadKey(filePath));
+      await this.discard(path.resolve(filePath));
+    }
+  }
+
+  private uploadKey(filePath: string): string {
+    return `${UPLOAD_KEY_PREFIX}${path.basename(filePath)}`;
+  }
+
+  private async discard(filePath: string): Promise<void> {
+    try {
+      await fs.unlink(filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { DOCXExtractionStrategy } from './DOCXExtractionStrategy';
+import { buildZip } from '../utils/__fixtures__/buildZip';
+
+const NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+function paragraph(text: string, properties = ''): string {
+  return `<w:p><w:pPr>${properties}</w:pPr><w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+}
+
+describe('DOCXExtractionStrategy', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'docx-strategy-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('passes the heading style levels on for structure parsing', async () => {
+    const body = paragraph('租賃法', '<w:pStyle w:val="Title"/>') +
+      paragraph('總則', '<w:outlineLvl w:val="0"/>') +
+      paragraph('定義', '<w:outlineLvl w:val="1"/>') +
+      paragraph('第一條 本法律規定租賃制度。');
+    const filePath = path.join(directory, 'lei.docx');
+    await fs.writeFile(filePath, buildZip([
+      { name: 'word/document.xml', content: `<w:document ${NS}><w:body>${body}</w:body></w:document>` }
+    ]));
+
+    const result = await new DOCXExtractionStrategy().extract({ type: 'docx', source: filePath }, {});
+
+    expect(result.metadata.headings).toEqual([{ text: '總則', level: 1 }, { text: '定義', level: 2 }]);
+  });
+});
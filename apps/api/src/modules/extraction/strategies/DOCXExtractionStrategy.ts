@@ -1,11 +1,24 @@
+import { promises as fs } from 'fs';
 import {
   ExtractionSource,
   ExtractionOptions,
   ExtractionResult,
   ExtractionStrategy,
   ExtractedContent,
+  DocumentProperties,
+  HeadingHint,
+  ExtractionError,
   ParseError
 } from '../../../shared/types/extraction.types';
+import { parseDocx, renderBlocksHtml, DocxBlock } from '../utils/docxDocument';
+import { ContentLanguage, languageOf } from '../utils/textLanguage';
+
+// 標題塊在正文中的位置
+interface PlacedBlock {
+  block: DocxBlock;
+  start: number;
+  end: number;
+}
 
 export class DOCXExtractionStrategy implements ExtractionStrategy {
   supports(source: ExtractionSource): boolean {
@@ -22,42 +35,45 @@ export class DOCXExtractionStrategy implements ExtractionStrategy {
 
     try {
       // 1. 讀取DOCX文件
-      const docxContent = await this.readDocxFile(filePath);
-      
-      // 2. 擷取文本內容
-      const textContent = await this.extractTextFromDocx(docxContent);
+      const docxData = await this.readDocxFile(filePath);
       
-      // 3. 處理和清理文本
-      const cleanedText = this.cleanText(textContent);
+      // 2. 解析 OOXML：標題、編號、表格、腳註和修訂
+      const document = parseDocx(docxData);
       
-      // 4. 檢測語言
-      const language = this.detectLanguage(cleanedText);
-      
-      // 5. 構建結果
+      // 3. 按語言分開各塊，構建正文和 HTML
       const extractedContent: ExtractedContent = {
         content: {}
       };
+      const placed: Partial<Record<ContentLanguage, PlacedBlock[]>> = {};
 
-      if (language === 'zh') {
-        extractedContent.content.zh = {
-          text: cleanedText,
-          html: this.textToHtml(cleanedText),
-          wordCount: this.countWords(cleanedText)
-        };
-      } else {
-        extractedContent.content.pt = {
-          text: cleanedText,
-          html: this.textToHtml(cleanedText),
-          wordCount: this.countWords(cleanedText)
+      for (const [language, blocks] of Object.entries(this.splitLanguages(document.blocks)) as Array<[ContentLanguage, DocxBlock[]]>) {
+        if (blocks.length === 0) continue;
+
+        const joined = this.joinBlocks(blocks);
+        extractedContent.content[language] = {
+          text: joined.text,
+          html: renderBlocksHtml(blocks, document.footnotes),
+          wordCount: this.countWords(joined.text)
         };
+        placed[language] = joined.placed;
+      }
+
+      const zh = extractedContent.content.zh;
+      const pt = extractedContent.content.pt;
+      if (!zh && !pt) {
+        throw new ExtractionError('DOCX document contains no text', 'NO_TEXT');
       }
 
-      // 6. 嘗試提取元數據
-      const metadata = await this.extractMetadata(docxContent);
-      if (metadata.title) {
-        extractedContent.title = language === 'zh' 
-          ? { zh: metadata.title }
-          : { pt: metadata.title };
+      // 章節條結構由 TextExtractionService 在正文處理後統一解析，以便偏移量對應最終正文；
+      // 標題樣式級別一併傳遞，文字不含「第一章」等編號的標題仍可按級別歸類
+      const headings = this.headingHints(document.blocks);
+      const language = zh && pt ? 'mixed' : zh ? 'zh' : this.detectLanguage(pt?.text ?? '');
+
+      // 4. 標題：文件中的「標題」樣式段落優先，其次為核心屬性
+      const metadata = this.extractMetadata(docxData, document.properties);
+      const title = this.documentTitle(placed, metadata.title);
+      if (title) {
+        extractedContent.title = title;
       }
 
       return {
@@ -69,13 +85,16 @@ export class DOCXExtractionStrategy implements ExtractionStrategy {
           confidence: this.calculateConfidence(extractedContent),
           processingTime: Date.now() - startTime,
           language,
-          fileSize: metadata.fileSize
+          fileSize: metadata.fileSize,
+          properties: metadata.properties,
+          ...(headings.length > 0 ? { headings } : {})
         }
       };
     } catch (error) {
-      throw new ParseError(
-        `DOCX extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+      if (error instanceof ExtractionError) {
+        throw error;
+      }
+      throw new ParseError(filePath, error instanceof Error ? error : undefined);
     }
   }
 
@@ -83,36 +102,65 @@ export class DOCXExtractionStrategy implements ExtractionStrategy {
     return filePath.toLowerCase().endsWith('.docx');
   }
 
-  private async readDocxFile(filePath: string): Promise<ArrayBuffer> {
-    // 在實際實現中，這裡應該使用fs模組讀取文件
-    // 現在只是模擬實現
-    return new ArrayBuffer(1024);
+  private async readDocxFile(filePath: string): Promise<Buffer> {
+    const data = await fs.readFile(filePath);
+    // DOCX 是 ZIP 文件包
+    if (data.length < 4 || data.readUInt32LE(0) !== 0x04034b50) {
+      throw new ExtractionError('File is not a valid DOCX document', 'INVALID_FILE', { filePath });
+    }
+    return data;
   }
 
-  private async extractTextFromDocx(docxData: ArrayBuffer): Promise<string> {
-    // 在實際實現中，這裡應該使用mammoth或docx-parser等庫
-    // 現在只是模擬實現
-    return `
-      模擬DOCX文本內容
-      這是從Word文檔中擷取的文本
-      支持格式化文本的處理
-      包含標題、段落、列表等元素
-      支持中文和葡文文本擷取
-    `.trim();
+  // 沒有文字的塊（如單獨的編號）跟隨上一塊的語言
+  private splitLanguages(blocks: DocxBlock[]): Record<ContentLanguage, DocxBlock[]> {
+    const result: Record<ContentLanguage, DocxBlock[]> = { zh: [], pt: [] };
+    let last: ContentLanguage = 'zh';
+
+    for (const block of blocks) {
+      last = languageOf(block.text) ?? last;
+      result[last].push(block);
+    }
+
+    return result;
   }
 
-  private cleanText(text: string): string {
-    return text
-      // 移除多餘的空白
-      .replace(/\s+/g, ' ')
-      // 移除特殊字符
-      .replace(/[\u0000-\u001F\u007F-\u009F]/g, '')
-      // 正規化換行
-      .replace(/\r\n/g, '\n')
-      .replace(/\r/g, '\n')
-      // 移除多餘的換行
-      .replace(/\n{3,}/g, '\n\n')
-      .trim();
+  // 每塊一段，以換行相接；表格每行一段
+  private joinBlocks(blocks: DocxBlock[]): { text: string; placed: PlacedBlock[] } {
+    let text = '';
+    const placed: PlacedBlock[] = [];
+
+    for (const block of blocks) {
+      if (text) text += '\n';
+      placed.push({ block, start: text.length, end: text.length + block.text.length });
+      text += block.text;
+    }
+
+    return { text, placed };
+  }
+
+  // 文件標題（0 級）不屬於章節結構
+  private headingHints(blocks: DocxBlock[]): HeadingHint[] {
+    return blocks.flatMap(block =>
+      block.kind === 'heading' && block.level >= 1 && block.text.trim() ? [{ text: block.text, level: block.level }] : []
+    );
+  }
+
+  private documentTitle(
+    placed: Partial<Record<ContentLanguage, PlacedBlock[]>>,
+    propertyTitle?: string
+  ): ExtractedContent['title'] | null {
+    const title: NonNullable<ExtractedContent['title']> = {};
+
+    for (const language of ['zh', 'pt'] as const) {
+      const heading = placed[language]?.find(({ block }) => block.kind === 'heading' && block.level === 0);
+      if (heading) title[language] = heading.block.text;
+    }
+
+    if (!title.zh && !title.pt && propertyTitle) {
+      title[languageOf(propertyTitle) ?? 'zh'] = propertyTitle;
+    }
+
+    return title.zh || title.pt ? title : null;
   }
 
   private detectLanguage(text: string): 'zh' | 'pt' | 'en' {
@@ -132,33 +180,6 @@ export class DOCXExtractionStrategy implements ExtractionStrategy {
     return 'en';
   }
 
-  private textToHtml(text: string): string {
-    return text
-      .split('\n')
-      .map(line => line.trim())
-      .filter(line => line.length > 0)
-      .map(line => {
-        // 簡單的格式識別
-        if (line.match(/^#+\s/)) {
-          return `<h3>${this.escapeHtml(line.replace(/^#+\s/, ''))}</h3>`;
-        }
-        if (line.match(/^\*\s/)) {
-          return `<li>${this.escapeHtml(line.replace(/^\*\s/, ''))}</li>`;
-        }
-        return `<p>${this.escapeHtml(line)}</p>`;
-      })
-      .join('\n');
-  }
-
-  private escapeHtml(text: string): string {
-    return text
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&#39;');
-  }
-
   private countWords(text: string): number {
     if (!text) return 0;
     
@@ -174,14 +195,15 @@ export class DOCXExtractionStrategy implements ExtractionStrategy {
     return chineseChars + westernWords;
   }
 
-  private async extractMetadata(docxData: ArrayBuffer): Promise<{
+  private extractMetadata(docxData: Buffer, properties: DocumentProperties): {
     title?: string;
     fileSize: number;
-  }> {
-    // 在實際實現中，這裡應該從DOCX metadata中提取信息
+    properties: DocumentProperties;
+  } {
     return {
-      title: '模擬DOCX標題',
-      fileSize: docxData.byteLength
+      ...(properties.title ? { title: properties.title } : {}),
+      fileSize: docxData.length,
+      properties
     };
   }
 
@@ -1,18 +1,34 @@
+import { promises as fs } from 'fs';
+import pdf from 'pdf-parse';
 import {
   ExtractionSource,
   ExtractionOptions,
   ExtractionResult,
   ExtractionStrategy,
   ExtractedContent,
+  ExtractionError,
   ParseError
 } from '../../../shared/types/extraction.types';
+import { layoutPdfPages, PdfPage, PdfTextItem } from '../utils/pdfLayout';
 
-// 簡單的Buffer類型聲明
-declare global {
-  class Buffer {
-    static from(data: string): Buffer;
-    length: number;
-  }
+// 掃描件或純圖片的 PDF 沒有可擷取的文字層
+const MIN_TEXT_LENGTH = 20;
+
+// pdf-parse 未聲明 pagerender 參數的類型，這裡只描述用到的 pdf.js 字段
+interface PdfJsTextItem {
+  str?: string;
+  transform?: number[];
+  width?: number;
+  height?: number;
+}
+
+interface PdfJsPage {
+  pageNumber: number;
+  view?: number[];
+  getTextContent(options: {
+    normalizeWhitespace: boolean;
+    disableCombineTextItems: boolean;
+  }): Promise<{ items?: PdfJsTextItem[] }>;
 }
 
 export class PDFExtractionStrategy implements ExtractionStrategy {
@@ -32,38 +48,46 @@ export class PDFExtractionStrategy implements ExtractionStrategy {
       // 1. 讀取PDF文件
       const pdfData = await this.readPdfFile(filePath);
       
-      // 2. 擷取文本內容
-      const textContent = await this.extractTextFromPdf(pdfData);
+      // 2. 擷取各頁文字片段
+      const { pages, info } = await this.extractPages(pdfData);
       
-      // 3. 處理和清理文本
-      const cleanedText = this.cleanText(textContent);
+      // 3. 還原版面：分欄、去頁首頁尾和頁碼、恢復段落，並按語言分開
+      const texts = layoutPdfPages(pages);
       
-      // 4. 檢測語言
-      const language = this.detectLanguage(cleanedText);
-      
-      // 5. 構建結果
+      // 4. 構建結果
       const extractedContent: ExtractedContent = {
         content: {}
       };
+      const pageOffsets: NonNullable<ExtractionResult['metadata']['pages']> = {};
 
-      if (language === 'zh') {
-        extractedContent.content.zh = {
-          text: cleanedText,
-          html: this.textToHtml(cleanedText),
-          wordCount: this.countWords(cleanedText)
-        };
-      } else {
-        extractedContent.content.pt = {
-          text: cleanedText,
-          html: this.textToHtml(cleanedText),
-          wordCount: this.countWords(cleanedText)
+      for (const language of ['zh', 'pt'] as const) {
+        const { text, pages: offsets } = texts[language];
+        if (!text.trim()) continue;
+
+        extractedContent.content[language] = {
+          text,
+          html: this.textToHtml(text),
+          wordCount: this.countWords(text)
         };
+        pageOffsets[language] = offsets;
+      }
+
+      const totalLength = texts.zh.text.length + texts.pt.text.length;
+      if (totalLength < MIN_TEXT_LENGTH) {
+        throw new ExtractionError('PDF has no extractable text layer', 'NO_TEXT_LAYER', {
+          pageCount: pages.length
+        });
       }
 
-      // 6. 嘗試提取元數據
-      const metadata = await this.extractMetadata(pdfData);
+      // 單語文件只有一種語言的內容
+      const language = extractedContent.content.zh && extractedContent.content.pt
+        ? 'mixed'
+        : extractedContent.content.zh ? 'zh' : this.detectLanguage(texts.pt.text);
+
+      // 5. 嘗試提取元數據
+      const metadata = this.extractMetadata(pdfData, info, pages.length);
       if (metadata.title) {
-        extractedContent.title = language === 'zh' 
+        extractedContent.title = this.detectLanguage(metadata.title) === 'zh'
           ? { zh: metadata.title }
           : { pt: metadata.title };
       }
@@ -78,13 +102,15 @@ export class PDFExtractionStrategy implements ExtractionStrategy {
           processingTime: Date.now() - startTime,
           language,
           fileSize: metadata.fileSize,
-          pageCount: metadata.pageCount
+          pageCount: metadata.pageCount,
+          pages: pageOffsets
         }
       };
     } catch (error) {
-      throw new ParseError(
-        `PDF extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+      if (error instanceof ExtractionError) {
+        throw error;
+      }
+      throw new ParseError(filePath, error instanceof Error ? error : undefined);
     }
   }
 
@@ -93,34 +119,48 @@ export class PDFExtractionStrategy implements ExtractionStrategy {
   }
 
   private async readPdfFile(filePath: string): Promise<Buffer> {
-    // 在實際實現中，這裡應該使用fs模組讀取文件
-    // 現在只是模擬實現
-    return Buffer.from('PDF content placeholder');
+    const data = await fs.readFile(filePath);
+    // 文件頭前可能有少量垃圾字節，pdf.js 能夠容忍
+    if (data.subarray(0, 1024).indexOf('%PDF-', 0, 'latin1') === -1) {
+      throw new ExtractionError('File is not a valid PDF document', 'INVALID_FILE', { filePath });
+    }
+    return data;
   }
 
-  private async extractTextFromPdf(pdfData: Buffer): Promise<string> {
-    // 在實際實現中，這裡應該使用pdf-parse或類似的庫
-    // 現在只是模擬實現
-    return `
-      模擬PDF文本內容
-      這是從PDF文件中擷取的文本
-      包含多行內容
-      支持中文和葡文文本擷取
-    `.trim();
-  }
+  /**
+   * 逐頁讀取 pdf.js 的文字片段和坐標。pdf-parse 只返回拼接好的純文字，
+   * 版面分析需要坐標，因此在 pagerender 中收集片段。
+   */
+  private async extractPages(pdfData: Buffer): Promise<{ pages: PdfPage[]; info: Record<string, unknown> }> {
+    const pages: PdfPage[] = [];
+
+    const result = await pdf(pdfData, {
+      pagerender: async (pageData: PdfJsPage) => {
+        const textContent = await pageData.getTextContent({
+          normalizeWhitespace: false,
+          disableCombineTextItems: false
+        });
+        const [x0 = 0, y0 = 0, x1 = 0, y1 = 0] = pageData.view || [];
+
+        const items: PdfTextItem[] = (textContent.items || []).map(item => {
+          const [, , c = 0, d = 0, x = 0, y = 0] = item.transform || [];
+          return {
+            text: String(item.str ?? ''),
+            x: x - x0,
+            y: y - y0,
+            width: item.width || 0,
+            fontSize: Math.hypot(c, d) || item.height || 0
+          };
+        });
+
+        pages.push({ pageNumber: pageData.pageNumber, width: x1 - x0, height: y1 - y0, items });
+        return '';
+      }
+    });
 
-  private cleanText(text: string): string {
-    return text
-      // 移除多餘的空白
-      .replace(/\s+/g, ' ')
-      // 移除特殊字符
-      .replace(/[\u0000-\u001F\u007F-\u009F]/g, '')
-      // 正規化換行
-      .replace(/\r\n/g, '\n')
-      .replace(/\r/g, '\n')
-      // 移除多餘的換行
-      .replace(/\n{3,}/g, '\n\n')
-      .trim();
+    // pdf-parse 按順序渲染各頁，這裡仍按頁碼排序以防萬一
+    pages.sort((a, b) => a.pageNumber - b.pageNumber);
+    return { pages, info: result.info || {} };
   }
 
   private detectLanguage(text: string): 'zh' | 'pt' | 'en' {
@@ -173,16 +213,20 @@ export class PDFExtractionStrategy implements ExtractionStrategy {
     return chineseChars + westernWords;
   }
 
-  private async extractMetadata(pdfData: Buffer): Promise<{
+  private extractMetadata(pdfData: Buffer, info: Record<string, unknown>, pageCount: number): {
     title?: string;
     fileSize: number;
     pageCount: number;
-  }> {
-    // 在實際實現中，這裡應該從PDF metadata中提取信息
+  } {
+    // Word 轉換的 PDF 標題常帶有程式名稱前綴
+    const title = typeof info.Title === 'string'
+      ? info.Title.replace(/^Microsoft Word\s*-\s*/i, '').trim()
+      : '';
+
     return {
-      title: '模擬PDF標題',
+      ...(title ? { title } : {}),
       fileSize: pdfData.length,
-      pageCount: 10
+      pageCount
     };
   }
 
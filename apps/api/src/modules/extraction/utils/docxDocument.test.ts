@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { parseDocx, renderBlocksHtml } from './docxDocument';
+import { ExtractionError } from '../../../shared/types/extraction.types';
+import { buildZip } from './__fixtures__/buildZip';
+
+const NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+function docx(body: string, parts: Record<string, string> = {}): Buffer {
+  return buildZip([
+    { name: 'word/document.xml', content: `<w:document ${NS}><w:body>${body}</w:body></w:document>` },
+    ...Object.entries(parts).map(([name, content]) => ({ name, content }))
+  ]);
+}
+
+function paragraph(text: string, properties = ''): string {
+  return `<w:p><w:pPr>${properties}</w:pPr><w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+}
+
+const STYLES = `<w:styles ${NS}>
+  <w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/></w:style>
+  <w:style w:type="paragraph" w:styleId="Artigo"><w:name w:val="Artigo"/><w:basedOn w:val="Heading1"/>
+    <w:pPr><w:numPr><w:numId w:val="1"/></w:numPr></w:pPr></w:style>
+</w:styles>`;
+
+const NUMBERING = `<w:numbering ${NS}>
+  <w:abstractNum w:abstractNumId="0">
+    <w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="chineseCounting"/><w:lvlText w:val="第%1條"/><w:suff w:val="space"/></w:lvl>
+  </w:abstractNum>
+  <w:abstractNum w:abstractNumId="1">
+    <w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="decimal"/><w:lvlText w:val="%1."/></w:lvl>
+    <w:lvl w:ilvl="1"><w:start w:val="1"/><w:numFmt w:val="lowerLetter"/><w:lvlText w:val="%2)"/></w:lvl>
+  </w:abstractNum>
+  <w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>
+  <w:num w:numId="2"><w:abstractNumId w:val="1"/></w:num>
+</w:numbering>`;
+
+function listItem(text: string, level: number): string {
+  return paragraph(text, `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="2"/></w:numPr>`);
+}
+
+describe('parseDocx', () => {
+  it('detects headings from outline levels and styles and numbers them', () => {
+    const document = parseDocx(docx(
+      paragraph('第一章 一般規定', '<w:outlineLvl w:val="0"/>') +
+      paragraph('標的', '<w:pStyle w:val="Artigo"/>') +
+      paragraph('範圍', '<w:pStyle w:val="Artigo"/>'),
+      { 'word/styles.xml': STYLES, 'word/numbering.xml': NUMBERING }
+    ));
+
+    expect(document.blocks.map(block => [block.kind, block.text])).toEqual([
+      ['heading', '第一章 一般規定'],
+      ['heading', '第一條 標的'],
+      ['heading', '第二條 範圍']
+    ]);
+    expect(document.blocks[1]).toMatchObject({ level: 1, html: '<h1>第一條 標的</h1>' });
+  });
+
+  it('restores nested list numbering and renders nested lists', () => {
+    const { blocks } = parseDocx(docx(
+      listItem('Primeiro', 0) + listItem('alínea', 1) + listItem('outra', 1) + listItem('Segundo', 0) + listItem('nova', 1),
+      { 'word/numbering.xml': NUMBERING }
+    ));
+
+    expect(blocks.map(block => block.text)).toEqual(['1. Primeiro', 'a) alínea', 'b) outra', '2. Segundo', 'a) nova']);
+    expect(renderBlocksHtml(blocks).match(/<\/?ol>/g)).toEqual(['<ol>', '<ol>', '</ol>', '<ol>', '</ol>', '</ol>']);
+  });
+
+  it('keeps accepted text for tracked changes and marks them in HTML', () => {
+    const { blocks } = parseDocx(docx(
+      '<w:p><w:r><w:t xml:space="preserve">prazo de </w:t></w:r>' +
+      '<w:del w:author="DSAJ"><w:r><w:delText>um</w:delText></w:r></w:del>' +
+      '<w:ins w:author="DSAJ"><w:r><w:t>dois</w:t></w:r></w:ins>' +
+      '<w:r><w:t xml:space="preserve"> anos</w:t></w:r></w:p>'
+    ));
+
+    expect(blocks[0]?.text).toBe('prazo de dois anos');
+    expect(blocks[0]?.html).toBe('<p>prazo de <del data-author="DSAJ">um</del><ins data-author="DSAJ">dois</ins> anos</p>');
+  });
+
+  it('links referenced footnotes and skips separator footnotes', () => {
+    const document = parseDocx(docx(
+      '<w:p><w:r><w:t>Lei n.º 8/2005</w:t></w:r><w:r><w:footnoteReference w:id="2"/></w:r></w:p>',
+      {
+        'word/footnotes.xml': `<w:footnotes ${NS}>
+          <w:footnote w:type="separator" w:id="-1"><w:p><w:r><w:separator/></w:r></w:p></w:footnote>
+          <w:footnote w:id="2"><w:p><w:r><w:t>Publicada no BO n.º 34.</w:t></w:r></w:p></w:footnote>
+        </w:footnotes>`
+      }
+    ));
+
+    expect(document.blocks[0]?.footnotes).toEqual(['2']);
+    expect([...document.footnotes.values()]).toEqual([{ id: '2', number: 1, text: 'Publicada no BO n.º 34.', html: 'Publicada no BO n.º 34.' }]);
+    expect(renderBlocksHtml(document.blocks, document.footnotes)).toContain('<li id="fn-1" value="1">Publicada no BO n.º 34.');
+  });
+
+  it('preserves merged table cells', () => {
+    const cell = (text: string, properties = '') => `<w:tc><w:tcPr>${properties}</w:tcPr>${paragraph(text)}</w:tc>`;
+    const { blocks } = parseDocx(docx(
+      '<w:tbl>' +
+      `<w:tr><w:trPr><w:tblHeader/></w:trPr>${cell('Tipo', '<w:gridSpan w:val="2"/>')}</w:tr>` +
+      `<w:tr>${cell('A', '<w:vMerge w:val="restart"/>')}${cell('1')}</w:tr>` +
+      `<w:tr>${cell('', '<w:vMerge/>')}${cell('2')}</w:tr>` +
+      '</w:tbl>'
+    ));
+
+    expect(blocks[0]).toMatchObject({ kind: 'table', text: 'Tipo\nA 1\n2' });
+    expect(blocks[0]?.html).toBe(
+      '<table><thead><tr><th colspan="2"><p>Tipo</p></th></tr></thead>' +
+      '<tbody><tr><td rowspan="2"><p>A</p></td><td><p>1</p></td></tr><tr><td><p>2</p></td></tr></tbody></table>'
+    );
+  });
+
+  it('reads core document properties', () => {
+    const { properties } = parseDocx(docx(paragraph('texto'), {
+      'docProps/core.xml': `<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties"
+        xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/">
+        <dc:title>Lei n.º 8/2005</dc:title><dc:creator>DSAJ</dc:creator>
+        <dcterms:created>2005-08-22T00:00:00Z</dcterms:created></cp:coreProperties>`
+    }));
+
+    expect(properties).toEqual({ title: 'Lei n.º 8/2005', author: 'DSAJ', createdAt: new Date('2005-08-22T00:00:00Z') });
+  });
+
+  it('rejects packages without a main document part', () => {
+    expect(() => parseDocx(buildZip([{ name: 'word/styles.xml', content: STYLES }]))).toThrow(ExtractionError);
+  });
+});
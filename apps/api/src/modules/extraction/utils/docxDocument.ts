@@ -0,0 +1,701 @@
+import * as cheerio from 'cheerio';
+import { ZipArchive } from './zipArchive';
+import { languageOf } from './textLanguage';
+import { toChineseNumeral } from '../../search/utils/chineseNumerals';
+import { DocumentProperties, ExtractionError } from '../../../shared/types/extraction.types';
+
+type XmlElement = ReturnType<ReturnType<cheerio.CheerioAPI['root']>['children']>[number];
+
+export type DocxBlock =
+  | { kind: 'heading'; level: number; text: string; html: string; footnotes: string[] }
+  | { kind: 'paragraph'; text: string; html: string; footnotes: string[] }
+  | { kind: 'listItem'; level: number; ordered: boolean; text: string; html: string; footnotes: string[] }
+  | { kind: 'table'; text: string; html: string; footnotes: string[] };
+
+export interface DocxFootnote {
+  id: string;
+  number: number;
+  text: string;
+  html: string;
+}
+
+export interface DocxDocument {
+  blocks: DocxBlock[];
+  footnotes: Map<string, DocxFootnote>;
+  properties: DocumentProperties;
+}
+
+interface ParagraphStyle {
+  name: string;
+  basedOn?: string;
+  outlineLevel?: number;
+  numbering?: { numId: string; level: number };
+}
+
+interface NumberingLevel {
+  format: string;
+  text: string;
+  start: number;
+  suffix: string;
+}
+
+interface NumberingInstance {
+  abstractId: string;
+  startOverrides: Map<number, number>;
+}
+
+interface Inline {
+  text: string;
+  html: string;
+}
+
+// 天干編號（ideographTraditional）
+const HEAVENLY_STEMS = ['甲', '乙', '丙', '丁', '戊', '己', '庚', '辛', '壬', '癸'];
+
+// 修訂標記、超鏈接、內容控件等只是包裹運行（w:r）的容器
+const TRANSPARENT = new Set(['w:hyperlink', 'w:smartTag', 'w:fldSimple', 'w:customXml', 'w:sdt', 'w:sdtContent', 'w:dir', 'w:bdo']);
+
+// docProps/core.xml 中的文字屬性
+const CORE_TEXT_PROPERTIES = {
+  title: 'dc\\:title',
+  subject: 'dc\\:subject',
+  author: 'dc\\:creator',
+  lastModifiedBy: 'cp\\:lastModifiedBy',
+  keywords: 'cp\\:keywords'
+} as const;
+
+/**
+ * 解析 DOCX（OOXML）文件包：按段落樣式的大綱級別識別標題，按 numbering.xml 還原自動編號，
+ * 表格保留合併單元格，腳註以編號引用，修訂以 <ins>/<del> 標出（正文只保留接受修訂後的文字），
+ * 並讀取 docProps/core.xml 中的核心屬性。
+ */
+export function parseDocx(data: Buffer): DocxDocument {
+  const archive = new ZipArchive(data);
+  const documentXml = archive.readText('word/document.xml');
+  if (documentXml === null) {
+    throw new ExtractionError('DOCX package has no main document part', 'INVALID_FILE');
+  }
+
+  return new DocxParser(archive).parse(documentXml);
+}
+
+class DocxParser {
+  private styles = new Map<string, ParagraphStyle>();
+  private defaultStyle: string | null = null;
+  private abstractNumbering = new Map<string, Map<number, NumberingLevel>>();
+  private numberingInstances = new Map<string, NumberingInstance>();
+  private counters = new Map<string, number[]>();
+  private footnoteNumbers = new Map<string, number>();
+  private referencedFootnotes: string[] = [];
+
+  constructor(private archive: ZipArchive) {}
+
+  parse(documentXml: string): DocxDocument {
+    this.readStyles();
+    this.readNumbering();
+
+    const $ = cheerio.load(documentXml, { xml: true });
+    const body = $('w\\:body').first();
+    const blocks = body.length > 0 ? this.readBlocks($, body.children().toArray()) : [];
+
+    return {
+      blocks,
+      footnotes: this.readFootnotes(),
+      properties: this.readCoreProperties()
+    };
+  }
+
+  private readBlocks($: cheerio.CheerioAPI, elements: XmlElement[]): DocxBlock[] {
+    const blocks: DocxBlock[] = [];
+
+    for (const element of elements) {
+      if (element.name === 'w:p') {
+        const block = this.readParagraph($, element);
+        if (block) blocks.push(block);
+      } else if (element.name === 'w:tbl') {
+        const block = this.readTable($, element);
+        if (block) blocks.push(block);
+      } else if (element.name === 'w:sdt' || element.name === 'w:customXml' || element.name === 'w:sdtContent') {
+        blocks.push(...this.readBlocks($, $(element).children().toArray()));
+      }
+    }
+
+    return blocks;
+  }
+
+  // ---- 段落 ----
+
+  private readParagraph($: cheerio.CheerioAPI, paragraph: XmlElement): DocxBlock | null {
+    this.referencedFootnotes = [];
+    const content = this.readInline($, paragraph);
+    const footnotes = this.referencedFootnotes;
+
+    const properties = $(paragraph).children('w\\:pPr').first();
+    const styleId = properties.children('w\\:pStyle').attr('w:val') ?? this.defaultStyle;
+    const style = styleId ? this.styles.get(styleId) : undefined;
+
+    const outline = properties.children('w\\:outlineLvl').attr('w:val');
+    const headingLevel = outline !== undefined ? this.outlineToLevel(Number(outline)) : this.headingLevel(styleId);
+
+    const numPr = properties.children('w\\:numPr').first();
+    const numbering = numPr.length > 0
+      ? { numId: numPr.children('w\\:numId').attr('w:val') ?? '0', level: Number(numPr.children('w\\:ilvl').attr('w:val') ?? 0) }
+      : this.styleNumbering(styleId);
+    const label = numbering && numbering.numId !== '0' ? this.nextLabel(numbering.numId, numbering.level) : null;
+
+    const text = content.text.trim();
+    if (!text) {
+      return null;
+    }
+
+    if (style?.name.toLowerCase() === 'title') {
+      return { kind: 'heading', level: 0, text, html: `<h1 class="document-title">${content.html.trim()}</h1>`, footnotes };
+    }
+
+    if (headingLevel !== null) {
+      // 中葡共用同一標題樣式時，編號格式只適用於其中一種語言
+      const mismatched = label && languageOf(label.text) !== null && languageOf(label.text) !== languageOf(text);
+      const prefix = label && !label.bullet && !mismatched ? label.text + label.separator : '';
+      const tag = `h${Math.min(headingLevel, 6)}`;
+      return {
+        kind: 'heading',
+        level: headingLevel,
+        text: prefix + text,
+        html: `<${tag}>${escapeHtml(prefix)}${content.html.trim()}</${tag}>`,
+        footnotes
+      };
+    }
+
+    if (label && numbering) {
+      const prefix = label.bullet ? '' : label.text + label.separator;
+      return {
+        kind: 'listItem',
+        level: numbering.level,
+        ordered: !label.bullet,
+        text: prefix + text,
+        html: label.bullet
+          ? content.html.trim()
+          : `<span class="list-label">${escapeHtml(label.text)}</span>${escapeHtml(label.separator)}${content.html.trim()}`,
+        footnotes
+      };
+    }
+
+    return { kind: 'paragraph', text, html: `<p>${content.html.trim()}</p>`, footnotes };
+  }
+
+  // 段落內的運行和容器；刪除的修訂只出現在 HTML 中
+  private readInline($: cheerio.CheerioAPI, parent: XmlElement, deleted = false): Inline {
+    let text = '';
+    let html = '';
+
+    for (const child of $(parent).children().toArray()) {
+      const name = child.name;
+
+      if (name === 'w:r') {
+        const run = this.readRun($, child, deleted);
+        text += run.text;
+        html += run.html;
+      } else if (name === 'w:ins' || name === 'w:moveTo') {
+        const inner = this.readInline($, child, deleted);
+        text += inner.text;
+        html += `<ins${this.revisionAttributes(child)}>${inner.html}</ins>`;
+      } else if (name === 'w:del' || name === 'w:moveFrom') {
+        const inner = this.readInline($, child, true);
+        html += `<del${this.revisionAttributes(child)}>${inner.html}</del>`;
+      } else if (TRANSPARENT.has(name)) {
+        const inner = this.readInline($, child, deleted);
+        text += inner.text;
+        html += inner.html;
+      }
+    }
+
+    return { text, html };
+  }
+
+  private readRun($: cheerio.CheerioAPI, run: XmlElement, deleted: boolean): Inline {
+    let text = '';
+    let html = '';
+
+    for (const child of $(run).children().toArray()) {
+      switch (child.name) {
+        case 'w:t':
+        case 'w:delText': {
+          const value = $(child).text();
+          text += value;
+          html += escapeHtml(value);
+          break;
+        }
+        case 'w:tab':
+        case 'w:ptab':
+          text += ' ';
+          html += ' ';
+          break;
+        case 'w:br':
+        case 'w:cr':
+          // 分頁符不影響正文
+          if (child.attribs['w:type'] !== 'page') {
+            text += ' ';
+            html += '<br>';
+          }
+          break;
+        case 'w:noBreakHyphen':
+          text += '-';
+          html += '-';
+          break;
+        case 'w:footnoteReference': {
+          const id = child.attribs['w:id'];
+          if (id !== undefined && !deleted) {
+            const number = this.footnoteNumber(id);
+            this.referencedFootnotes.push(id);
+            html += `<sup class="footnote-ref"><a href="#fn-${number}" id="fnref-${number}">${number}</a></sup>`;
+          }
+          break;
+        }
+      }
+    }
+
+    if (deleted) {
+      return { text: '', html: this.applyFormatting($, run, html) };
+    }
+    return { text, html: this.applyFormatting($, run, html) };
+  }
+
+  private applyFormatting($: cheerio.CheerioAPI, run: XmlElement, html: string): string {
+    const properties = $(run).children('w\\:rPr').first();
+    if (properties.length === 0 || !html) return html;
+
+    const enabled = (tag: string) => {
+      const element = properties.children(`w\\:${tag}`).first();
+      if (element.length === 0) return false;
+      const value = element.attr('w:val');
+      return value === undefined || !['0', 'false', 'none'].includes(value);
+    };
+
+    let result = html;
+    if (enabled('b')) result = `<strong>${result}</strong>`;
+    if (enabled('i')) result = `<em>${result}</em>`;
+    if (enabled('u')) result = `<u>${result}</u>`;
+    if (enabled('strike') || enabled('dstrike')) result = `<s>${result}</s>`;
+
+    const verticalAlign = properties.children('w\\:vertAlign').attr('w:val');
+    if (verticalAlign === 'superscript') result = `<sup>${result}</sup>`;
+    if (verticalAlign === 'subscript') result = `<sub>${result}</sub>`;
+
+    return result;
+  }
+
+  private revisionAttributes(element: XmlElement): string {
+    const author = element.attribs['w:author'];
+    const date = element.attribs['w:date'];
+    return (author ? ` data-author="${escapeHtml(author)}"` : '') + (date ? ` data-date="${escapeHtml(date)}"` : '');
+  }
+
+  // ---- 表格 ----
+
+  /**
+   * 表格按網格列計算合併：gridSpan 為橫向合併，vMerge 以 restart 開始、之後各行同一列的
+   * 空 vMerge 單元格併入其中。單元格內的段落和嵌套表格保留為 HTML，正文中每行一段。
+   */
+  private readTable($: cheerio.CheerioAPI, table: XmlElement): DocxBlock | null {
+    const rows = $(table).children('w\\:tr').toArray().map(row => ({
+      header: $(row).children('w\\:trPr').children('w\\:tblHeader').length > 0,
+      cells: this.tableCells($, row)
+    }));
+
+    const footnotes: string[] = [];
+    const lines: string[] = [];
+    const headerRows: string[] = [];
+    const bodyRows: string[] = [];
+
+    rows.forEach((row, rowIndex) => {
+      const cellTexts: string[] = [];
+      let cellsHtml = '';
+
+      for (const cell of row.cells) {
+        if (cell.merge === 'continue') continue;
+
+        const blocks = this.readBlocks($, $(cell.element).children().toArray());
+        for (const block of blocks) footnotes.push(...block.footnotes);
+
+        const text = blocks.map(block => block.text).join(' ').trim();
+        if (text) cellTexts.push(text);
+
+        const rowSpan = cell.merge === 'restart' ? this.rowSpan(rows, rowIndex, cell.column) : 1;
+        const tag = row.header ? 'th' : 'td';
+        const attributes = (cell.span > 1 ? ` colspan="${cell.span}"` : '') + (rowSpan > 1 ? ` rowspan="${rowSpan}"` : '');
+        cellsHtml += `<${tag}${attributes}>${renderBlocksHtml(blocks)}</${tag}>`;
+      }
+
+      if (cellTexts.length > 0) lines.push(cellTexts.join(' '));
+      (row.header ? headerRows : bodyRows).push(`<tr>${cellsHtml}</tr>`);
+    });
+
+    if (lines.length === 0) {
+      return null;
+    }
+
+    const head = headerRows.length > 0 ? `<thead>${headerRows.join('')}</thead>` : '';
+    return {
+      kind: 'table',
+      text: lines.join('\n'),
+      html: `<table>${head}<tbody>${bodyRows.join('')}</tbody></table>`,
+      footnotes
+    };
+  }
+
+  private tableCells($: cheerio.CheerioAPI, row: XmlElement) {
+    const cells: Array<{ element: XmlElement; column: number; span: number; merge: 'restart' | 'continue' | null }> = [];
+    let column = 0;
+
+    // 行級內容控件中也可能包着單元格
+    const elements = $(row).children().toArray().flatMap(child =>
+      child.name === 'w:sdt' ? $(child).children('w\\:sdtContent').children('w\\:tc').toArray() : [child]
+    );
+
+    for (const element of elements) {
+      if (element.name !== 'w:tc') continue;
+
+      const properties = $(element).children('w\\:tcPr');
+      const span = Math.max(1, Number(properties.children('w\\:gridSpan').attr('w:val') ?? 1));
+      const vMerge = properties.children('w\\:vMerge');
+      const merge = vMerge.length === 0 ? null : vMerge.attr('w:val') === 'restart' ? 'restart' : 'continue';
+
+      cells.push({ element, column, span, merge });
+      column += span;
+    }
+
+    return cells;
+  }
+
+  private rowSpan(rows: Array<{ cells: Array<{ column: number; merge: string | null }> }>, rowIndex: number, column: number): number {
+    let span = 1;
+    for (let index = rowIndex + 1; index < rows.length; index++) {
+      const cell = rows[index]?.cells.find(candidate => candidate.column === column);
+      if (cell?.merge !== 'continue') break;
+      span++;
+    }
+    return span;
+  }
+
+  // ---- 樣式 ----
+
+  private readStyles(): void {
+    const xml = this.archive.readText('word/styles.xml');
+    if (!xml) return;
+
+    const $ = cheerio.load(xml, { xml: true });
+    $('w\\:style').each((_, element) => {
+      const style = $(element);
+      if (style.attr('w:type') !== 'paragraph') return;
+
+      const id = style.attr('w:styleId');
+      if (!id) return;
+
+      const entry: ParagraphStyle = { name: style.children('w\\:name').attr('w:val') ?? id };
+      const basedOn = style.children('w\\:basedOn').attr('w:val');
+      if (basedOn) entry.basedOn = basedOn;
+
+      const properties = style.children('w\\:pPr');
+      const outline = properties.children('w\\:outlineLvl').attr('w:val');
+      if (outline !== undefined) entry.outlineLevel = Number(outline);
+
+      const numId = properties.children('w\\:numPr').children('w\\:numId').attr('w:val');
+      if (numId !== undefined) {
+        entry.numbering = { numId, level: Number(properties.children('w\\:numPr').children('w\\:ilvl').attr('w:val') ?? 0) };
+      }
+
+      this.styles.set(id, entry);
+      if (style.attr('w:default') === '1' || style.attr('w:default') === 'true') this.defaultStyle = id;
+    });
+  }
+
+  // 標題級別（1 起）：樣式鏈上的大綱級別，或內建的「heading N」樣式名稱
+  private headingLevel(styleId: string | null): number | null {
+    const visited = new Set<string>();
+    let current = styleId;
+
+    while (current && !visited.has(current)) {
+      visited.add(current);
+      const style = this.styles.get(current);
+      if (!style) break;
+
+      if (style.outlineLevel !== undefined) return this.outlineToLevel(style.outlineLevel);
+      const named = style.name.match(/^heading\s*(\d)$/i);
+      if (named?.[1]) return Number(named[1]);
+
+      current = style.basedOn ?? null;
+    }
+
+    return null;
+  }
+
+  // 大綱級別 0-8 對應標題 1-9，9 為正文
+  private outlineToLevel(outline: number): number | null {
+    return Number.isInteger(outline) && outline >= 0 && outline < 9 ? outline + 1 : null;
+  }
+
+  private styleNumbering(styleId: string | null): { numId: string; level: number } | null {
+    const visited = new Set<string>();
+    let current = styleId;
+
+    while (current && !visited.has(current)) {
+      visited.add(current);
+      const style = this.styles.get(current);
+      if (!style) break;
+      if (style.numbering) return style.numbering;
+      current = style.basedOn ?? null;
+    }
+
+    return null;
+  }
+
+  // ---- 自動編號 ----
+
+  private readNumbering(): void {
+    const xml = this.archive.readText('word/numbering.xml');
+    if (!xml) return;
+
+    const $ = cheerio.load(xml, { xml: true });
+    $('w\\:abstractNum').each((_, element) => {
+      const id = $(element).attr('w:abstractNumId');
+      if (id === undefined) return;
+
+      const levels = new Map<number, NumberingLevel>();
+      $(element).children('w\\:lvl').each((__, level) => {
+        const lvl = $(level);
+        levels.set(Number(lvl.attr('w:ilvl') ?? 0), {
+          format: lvl.children('w\\:numFmt').attr('w:val') ?? 'decimal',
+          text: lvl.children('w\\:lvlText').attr('w:val') ?? '',
+          start: Number(lvl.children('w\\:start').attr('w:val') ?? 1),
+          suffix: lvl.children('w\\:suff').attr('w:val') ?? 'tab'
+        });
+      });
+      this.abstractNumbering.set(id, levels);
+    });
+
+    $('w\\:num').each((_, element) => {
+      const id = $(element).attr('w:numId');
+      const abstractId = $(element).children('w\\:abstractNumId').attr('w:val');
+      if (id === undefined || abstractId === undefined) return;
+
+      const startOverrides = new Map<number, number>();
+      $(element).children('w\\:lvlOverride').each((__, override) => {
+        const start = $(override).children('w\\:startOverride').attr('w:val');
+        if (start !== undefined) startOverrides.set(Number($(override).attr('w:ilvl') ?? 0), Number(start));
+      });
+      this.numberingInstances.set(id, { abstractId, startOverrides });
+    });
+  }
+
+  /**
+   * 下一個編號標籤。同一抽象編號的各實例共用計數（Word 的默認行為），
+   * 帶 startOverride 的實例重新計數；進入某一級時重置所有更深的級別。
+   */
+  private nextLabel(numId: string, level: number): { text: string; separator: string; bullet: boolean } | null {
+    const instance = this.numberingInstances.get(numId);
+    const levels = instance && this.abstractNumbering.get(instance.abstractId);
+    const definition = levels?.get(level);
+    if (!instance || !levels || !definition) return null;
+
+    const key = instance.startOverrides.size > 0 ? `num:${numId}` : `abstract:${instance.abstractId}`;
+    const counters = this.counters.get(key) ?? [];
+    this.counters.set(key, counters);
+
+    const start = (index: number) => instance.startOverrides.get(index) ?? levels.get(index)?.start ?? 1;
+    counters[level] = counters[level] === undefined ? start(level) : (counters[level] as number) + 1;
+    counters.length = level + 1;
+
+    const separator = definition.suffix === 'nothing' ? '' : ' ';
+    if (definition.format === 'bullet') {
+      return { text: definition.text, separator, bullet: true };
+    }
+    if (definition.format === 'none') {
+      return { text: '', separator: '', bullet: false };
+    }
+
+    const text = definition.text.replace(/%(\d)/g, (_, digit: string) => {
+      const index = Number(digit) - 1;
+      const value = counters[index] ?? start(index);
+      return formatNumber(value, levels.get(index)?.format ?? 'decimal');
+    });
+
+    return { text, separator: text ? separator : '', bullet: false };
+  }
+
+  // ---- 腳註和核心屬性 ----
+
+  private footnoteNumber(id: string): number {
+    let number = this.footnoteNumbers.get(id);
+    if (number === undefined) {
+      number = this.footnoteNumbers.size + 1;
+      this.footnoteNumbers.set(id, number);
+    }
+    return number;
+  }
+
+  private readFootnotes(): Map<string, DocxFootnote> {
+    const footnotes = new Map<string, DocxFootnote>();
+    const xml = this.archive.readText('word/footnotes.xml');
+    if (!xml || this.footnoteNumbers.size === 0) return footnotes;
+
+    const $ = cheerio.load(xml, { xml: true });
+    $('w\\:footnote').each((_, element) => {
+      const id = $(element).attr('w:id');
+      const number = id !== undefined ? this.footnoteNumbers.get(id) : undefined;
+      // 分隔線等特殊腳註不會被正文引用
+      if (id === undefined || number === undefined) return;
+
+      const paragraphs = $(element).children('w\\:p').toArray().map(paragraph => this.readInline($, paragraph));
+      footnotes.set(id, {
+        id,
+        number,
+        text: paragraphs.map(paragraph => paragraph.text.trim()).filter(Boolean).join(' '),
+        html: paragraphs.map(paragraph => paragraph.html.trim()).filter(Boolean).join('<br>')
+      });
+    });
+
+    return footnotes;
+  }
+
+  private readCoreProperties(): DocumentProperties {
+    const xml = this.archive.readText('docProps/core.xml');
+    if (!xml) return {};
+
+    const $ = cheerio.load(xml, { xml: true });
+    const properties: DocumentProperties = {};
+
+    for (const [key, selector] of Object.entries(CORE_TEXT_PROPERTIES) as Array<[keyof typeof CORE_TEXT_PROPERTIES, string]>) {
+      const text = $(selector).first().text().trim();
+      if (text) properties[key] = text;
+    }
+
+    const date = (selector: string) => {
+      const text = $(selector).first().text().trim();
+      const parsed = text ? new Date(text) : null;
+      return parsed && !Number.isNaN(parsed.getTime()) ? parsed : undefined;
+    };
+    const createdAt = date('dcterms\\:created');
+    const modifiedAt = date('dcterms\\:modified');
+    if (createdAt) properties.createdAt = createdAt;
+    if (modifiedAt) properties.modifiedAt = modifiedAt;
+
+    return properties;
+  }
+}
+
+/**
+ * 把塊序列轉為 HTML：相鄰的列表項按級別嵌套為 <ol>/<ul>，
+ * 傳入腳註時在末尾附上被引用腳註的列表。
+ */
+export function renderBlocksHtml(blocks: DocxBlock[], footnotes?: Map<string, DocxFootnote>): string {
+  const parts: string[] = [];
+  const open: Array<'ol' | 'ul'> = [];
+  let list = '';
+
+  const closeTo = (depth: number) => {
+    while (open.length > depth) list += `</li></${open.pop()}>`;
+    if (depth === 0 && list) {
+      parts.push(list);
+      list = '';
+    }
+  };
+
+  for (const block of blocks) {
+    if (block.kind !== 'listItem') {
+      closeTo(0);
+      parts.push(block.html);
+      continue;
+    }
+
+    const depth = block.level + 1;
+    const tag = block.ordered ? 'ol' : 'ul';
+
+    closeTo(depth);
+    if (open.length === depth && open[depth - 1] !== tag) closeTo(depth - 1);
+
+    if (open.length === depth) {
+      list += `</li><li>${block.html}`;
+    } else {
+      while (open.length < depth) {
+        open.push(tag);
+        list += `<${tag}><li>`;
+      }
+      list += block.html;
+    }
+  }
+  closeTo(0);
+
+  if (footnotes) {
+    const referenced = [...new Set(blocks.flatMap(block => block.footnotes))]
+      .map(id => footnotes.get(id))
+      .filter((note): note is DocxFootnote => note !== undefined)
+      .sort((a, b) => a.number - b.number);
+
+    if (referenced.length > 0) {
+      parts.push(`<section class="footnotes"><ol>${referenced
+        .map(note => `<li id="fn-${note.number}" value="${note.number}">${note.html} <a href="#fnref-${note.number}">↩</a></li>`)
+        .join('')}</ol></section>`);
+    }
+  }
+
+  return parts.join('\n');
+}
+
+function formatNumber(value: number, format: string): string {
+  switch (format) {
+    case 'lowerLetter':
+      return letters(value).toLowerCase();
+    case 'upperLetter':
+      return letters(value);
+    case 'lowerRoman':
+      return roman(value).toLowerCase();
+    case 'upperRoman':
+      return roman(value);
+    case 'decimalZero':
+      return String(value).padStart(2, '0');
+    case 'chineseCounting':
+    case 'chineseCountingThousand':
+    case 'taiwaneseCounting':
+    case 'taiwaneseCountingThousand':
+    case 'ideographDigital':
+      return value > 0 && value <= 9999 ? toChineseNumeral(value) : String(value);
+    case 'ideographTraditional':
+      return HEAVENLY_STEMS[(value - 1) % HEAVENLY_STEMS.length] ?? String(value);
+    default:
+      return String(value);
+  }
+}
+
+// 1 → A、26 → Z、27 → AA（Word 的字母編號重複字母而非進位）
+function letters(value: number): string {
+  if (value < 1) return String(value);
+  const letter = String.fromCharCode(65 + ((value - 1) % 26));
+  return letter.repeat(Math.floor((value - 1) / 26) + 1);
+}
+
+function roman(value: number): string {
+  if (value < 1 || value > 3999) return String(value);
+
+  const numerals: Array<[number, string]> = [
+    [1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'], [100, 'C'], [90, 'XC'],
+    [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I']
+  ];
+  let remainder = value;
+  let result = '';
+  for (const [amount, numeral] of numerals) {
+    while (remainder >= amount) {
+      result += numeral;
+      remainder -= amount;
+    }
+  }
+  return result;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
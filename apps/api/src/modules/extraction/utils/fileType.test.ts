@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { sniffFileType, FILE_MIME_TYPES } from './fileType';
+import { buildZip } from './__fixtures__/buildZip';
+
+describe('sniffFileType', () => {
+  it('detects PDFs, allowing a few leading junk bytes', () => {
+    expect(sniffFileType(Buffer.from('%PDF-1.7\n...'))).toEqual({ type: 'pdf', mimeType: FILE_MIME_TYPES.pdf });
+    expect(sniffFileType(Buffer.from('\r\n\xEF\xBB\xBF%PDF-1.4', 'latin1'))?.type).toBe('pdf');
+  });
+
+  it('detects DOCX packages by their main document part', () => {
+    const docx = buildZip([{ name: 'word/document.xml', content: '<w:document/>' }]);
+    expect(sniffFileType(docx)).toEqual({ type: 'docx', mimeType: FILE_MIME_TYPES.docx });
+  });
+
+  it('rejects other ZIP archives, corrupted archives and unknown content', () => {
+    expect(sniffFileType(buildZip([{ name: 'content.xml', content: '<office:document/>' }]))).toBeNull();
+    expect(sniffFileType(Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x00, 0x00]))).toBeNull();
+    expect(sniffFileType(Buffer.from('<html><body>%PDF-</body></html>'.padStart(2000, ' ')))).toBeNull();
+    expect(sniffFileType(Buffer.alloc(0))).toBeNull();
+  });
+});
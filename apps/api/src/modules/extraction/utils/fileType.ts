@@ -0,0 +1,39 @@
+import { ZipArchive } from './zipArchive';
+
+export type UploadFileType = 'pdf' | 'docx';
+
+export interface DetectedFileType {
+  type: UploadFileType;
+  mimeType: string;
+}
+
+export const FILE_MIME_TYPES: Record<UploadFileType, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+};
+
+const PDF_MAGIC = Buffer.from('%PDF-', 'latin1');
+const ZIP_MAGIC = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+
+/**
+ * 按文件內容判斷類型，不信任客戶端提供的文件名和 Content-Type：
+ * PDF 以 %PDF- 開頭（允許前面有少量垃圾字節）；DOCX 是包含 word/document.xml 的 ZIP 文件包。
+ */
+export function sniffFileType(data: Buffer): DetectedFileType | null {
+  const pdfOffset = data.subarray(0, 1024).indexOf(PDF_MAGIC);
+  if (pdfOffset !== -1) {
+    return { type: 'pdf', mimeType: FILE_MIME_TYPES.pdf };
+  }
+
+  if (data.subarray(0, ZIP_MAGIC.length).equals(ZIP_MAGIC)) {
+    try {
+      if (new ZipArchive(data).has('word/document.xml')) {
+        return { type: 'docx', mimeType: FILE_MIME_TYPES.docx };
+      }
+    } catch {
+      // 損壞的 ZIP 文件包視為不支持的類型
+    }
+  }
+
+  return null;
+}
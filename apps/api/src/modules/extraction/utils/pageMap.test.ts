@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { markPages, takePages, stripPageMarkers } from './pageMap';
+
+describe('pageMap', () => {
+  it('round-trips page ranges through the markers', () => {
+    const text = 'primeira página\nsegunda página';
+    const pages = [
+      { page: 1, startOffset: 0, endOffset: 16 },
+      { page: 2, startOffset: 16, endOffset: text.length }
+    ];
+
+    expect(takePages(markPages(text, pages))).toEqual({ text, pages });
+  });
+
+  it('moves page ranges with edits made to the marked text', () => {
+    const marked = markPages('a  b\n\nc  d', [
+      { page: 1, startOffset: 0, endOffset: 6 },
+      { page: 2, startOffset: 6, endOffset: 10 }
+    ]);
+
+    // 後處理壓縮空白後，第二頁的起點隨之前移
+    const { text, pages } = takePages(marked.replace(/ {2,}/g, ' ').replace(/\n{2,}/g, '\n'));
+
+    expect(text).toBe('a b\nc d');
+    expect(pages).toEqual([
+      { page: 1, startOffset: 0, endOffset: 4 },
+      { page: 2, startOffset: 4, endOffset: 7 }
+    ]);
+  });
+
+  it('returns no pages for unmarked text and strips markers on request', () => {
+    expect(takePages('sem páginas')).toEqual({ text: 'sem páginas', pages: [] });
+    expect(stripPageMarkers(markPages('abc', [{ page: 3, startOffset: 1, endOffset: 3 }]))).toBe('abc');
+  });
+});
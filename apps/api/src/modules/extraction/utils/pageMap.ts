@@ -0,0 +1,44 @@
+import { PageOffset } from '../../../shared/types/extraction.types';
+
+// 頁碼標記使用私用區字符，後處理的空白和標點規則不會改動它們
+const PAGE_MARKER = /\uE000(\d+)\uE001/g;
+
+// 在每頁起點插入頁碼標記，使頁碼範圍能跟隨後處理對正文的改動
+export function markPages(text: string, pages: PageOffset[]): string {
+  let marked = '';
+  let position = 0;
+
+  for (const page of [...pages].sort((a, b) => a.startOffset - b.startOffset)) {
+    marked += text.slice(position, page.startOffset) + `\uE000${page.page}\uE001`;
+    position = Math.max(position, page.startOffset);
+  }
+
+  return marked + text.slice(position);
+}
+
+// 移除頁碼標記並按標記位置重建每頁的起止偏移量
+export function takePages(marked: string): { text: string; pages: PageOffset[] } {
+  const pages: PageOffset[] = [];
+  let text = '';
+  let position = 0;
+
+  for (const marker of marked.matchAll(PAGE_MARKER)) {
+    text += marked.slice(position, marker.index);
+    position = (marker.index ?? 0) + marker[0].length;
+
+    const previous = pages[pages.length - 1];
+    if (previous) previous.endOffset = text.length;
+    pages.push({ page: Number(marker[1]), startOffset: text.length, endOffset: text.length });
+  }
+
+  text += marked.slice(position);
+
+  const last = pages[pages.length - 1];
+  if (last) last.endOffset = text.length;
+
+  return { text, pages };
+}
+
+export function stripPageMarkers(text: string): string {
+  return text.replace(PAGE_MARKER, '');
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { layoutPdfPages, PdfPage, PdfTextItem } from './pdfLayout';
+
+const LINE_HEIGHT = 14;
+
+// 每行一個片段，從頁面上方第 700 點開始逐行向下
+function column(x: number, lines: Array<[string, number]>): PdfTextItem[] {
+  return lines.map(([text, width], index) => ({ text, x, y: 700 - index * LINE_HEIGHT, width, fontSize: 12 }));
+}
+
+function page(pageNumber: number, items: PdfTextItem[]): PdfPage {
+  return { pageNumber, width: 600, height: 800, items };
+}
+
+describe('layoutPdfPages', () => {
+  it('drops repeated headers and page numbers and joins wrapped lines into paragraphs', () => {
+    const header: PdfTextItem = { text: '澳門特別行政區公報', x: 200, y: 780, width: 200, fontSize: 10 };
+    const pages = [
+      page(1, [
+        header,
+        ...column(50, [['第一條 標的', 100], ['本法律規定租賃合同的一般制度，', 500], ['適用於所有租賃。', 100]]),
+        { text: '- 1 -', x: 290, y: 20, width: 20, fontSize: 10 }
+      ]),
+      page(2, [
+        header,
+        ...column(50, [['第二條 期限', 100], ['租賃期為一年，期滿可續期一次，續期須以書面通知對方。', 500]]),
+        { text: '- 2 -', x: 290, y: 20, width: 20, fontSize: 10 }
+      ])
+    ];
+
+    const { zh, pt } = layoutPdfPages(pages);
+
+    expect(zh.text).toBe('第一條 標的\n本法律規定租賃合同的一般制度，適用於所有租賃。\n第二條 期限\n租賃期為一年，期滿可續期一次，續期須以書面通知對方。');
+    expect(zh.pages).toEqual([
+      { page: 1, startOffset: 0, endOffset: 31 },
+      { page: 2, startOffset: 31, endOffset: zh.text.length }
+    ]);
+    expect(zh.text.slice(zh.pages[1]?.startOffset)).toBe('第二條 期限\n租賃期為一年，期滿可續期一次，續期須以書面通知對方。');
+    expect(pt).toEqual({ text: '', pages: [] });
+  });
+
+  it('splits bilingual two-column pages at the gutter', () => {
+    const items = [
+      ...column(40, [
+        ['第一條（標的）', 80],
+        ['本法律規定租賃合同的', 220],
+        ['一般制度。', 60],
+        ['第二條（期限）', 80],
+        ['租賃期為一年，可續期', 220],
+        ['一次。', 40]
+      ]),
+      ...column(320, [
+        ['Artigo 1.º', 60],
+        ['A presente lei regula o re-', 240],
+        ['gime do arrendamento.', 120],
+        ['Artigo 2.º', 60],
+        ['O prazo do arrendamento é', 240],
+        ['de um ano.', 60]
+      ])
+    ];
+
+    const { zh, pt } = layoutPdfPages([page(1, items)]);
+
+    expect(zh.text).toBe('第一條（標的）\n本法律規定租賃合同的一般制度。\n第二條（期限）\n租賃期為一年，可續期一次。');
+    expect(pt.text).toBe('Artigo 1.º\nA presente lei regula o regime do arrendamento.\nArtigo 2.º\nO prazo do arrendamento é de um ano.');
+    expect(pt.pages).toEqual([{ page: 1, startOffset: 0, endOffset: pt.text.length }]);
+  });
+
+  it('continues a paragraph that runs across a page break', () => {
+    const pages = [
+      page(1, column(50, [['O arrendatário deve pagar a', 500]])),
+      page(2, column(50, [['renda no primeiro dia do mês.', 300]]))
+    ];
+
+    const { pt } = layoutPdfPages(pages);
+
+    expect(pt.text).toBe('O arrendatário deve pagar a renda no primeiro dia do mês.');
+    expect(pt.pages).toEqual([
+      { page: 1, startOffset: 0, endOffset: 28 },
+      { page: 2, startOffset: 28, endOffset: pt.text.length }
+    ]);
+  });
+});
@@ -0,0 +1,295 @@
+import { PageOffset } from '../../../shared/types/extraction.types';
+import { CJK, ContentLanguage, languageOf } from './textLanguage';
+
+// pdf.js 的文字片段，坐標以頁面左下角為原點
+export interface PdfTextItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+}
+
+export interface PdfPage {
+  pageNumber: number;
+  width: number;
+  height: number;
+  items: PdfTextItem[];
+}
+
+interface PdfLine {
+  text: string;
+  left: number;
+  right: number;
+  y: number;
+  fontSize: number;
+}
+
+interface Paragraph {
+  text: string;
+  language: ContentLanguage;
+}
+
+export interface PdfLanguageText {
+  text: string;
+  pages: PageOffset[];
+}
+
+// 頁首頁尾所在的區域（頁高的比例）
+const MARGIN_BAND = 0.08;
+
+// 中縫：頁寬中間這一範圍內尋找沒有文字的垂直空白帶
+const GUTTER_SEARCH = [0.25, 0.75] as const;
+const MIN_GUTTER_WIDTH = 0.015;
+
+// 單獨的頁碼：「12」、「- 12 -」、「12/40」、「Página 12」、「第 12 頁」
+const PAGE_NUMBER = /^(?:[-–—\s]*\d{1,4}[-–—\s]*|\d{1,4}\s*\/\s*\d{1,4}|p[áa]g(?:ina)?\.?\s*\d{1,4}(?:\s*(?:\/|de)\s*\d{1,4})?|第\s*\d{1,4}\s*頁(?:\s*[，,]?\s*共\s*\d{1,4}\s*頁)?)$/i;
+
+// 一定另起一段的行首：條、章、節標題及款項編號
+const PARAGRAPH_START = /^(?:第\s*[0-9零〇一二三四五六七八九十百千兩]+\s*[條章節編部款項]|Artigo\s+\d|CAP[ÍI]TULO\s|SEC[ÇC][ÃA]O\s|Sec[çc][ãa]o\s|T[ÍI]TULO\s|[一二三四五六七八九十]+、|（[一二三四五六七八九十]+）|\(?\d{1,3}[.)]\s|[a-z]\)\s)/;
+
+// 段末標點；行寬明顯不足且以此結尾時視為段落結束
+const SENTENCE_END = /[。；：！？.;:!?]$/;
+
+/**
+ * 把 PDF 各頁的文字片段還原為分語言的正文：識別雙欄排版，去掉重複的頁首頁尾和頁碼，
+ * 按行距和行首標記恢復段落（每段一行），並記錄每頁在正文中的起止偏移量。
+ */
+export function layoutPdfPages(pages: PdfPage[]): Record<ContentLanguage, PdfLanguageText> {
+  const laidOut = pages.map(page => ({
+    page,
+    columns: splitColumns(page).map(groupLines)
+  }));
+
+  const repeated = repeatedMarginLines(laidOut.map(({ page, columns }) => ({ page, lines: columns.flat() })));
+
+  const result: Record<ContentLanguage, PdfLanguageText> = {
+    zh: { text: '', pages: [] },
+    pt: { text: '', pages: [] }
+  };
+
+  for (const { page, columns } of laidOut) {
+    const paragraphs = columns.flatMap(lines => {
+      const body = lines.filter(line => !isMarginLine(line, page, repeated));
+      return assignLanguages(buildParagraphs(body));
+    });
+
+    for (const language of ['zh', 'pt'] as const) {
+      appendPage(result[language], page.pageNumber, paragraphs.filter(paragraph => paragraph.language === language));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 雙欄頁面（如中葡對照的《公報》）在中縫分開，先左欄後右欄。
+ * 中縫為頁面中部最寬的、幾乎沒有文字片段覆蓋的垂直空白帶；跨越中縫的標題歸入中心所在的一欄。
+ */
+function splitColumns(page: PdfPage): PdfTextItem[][] {
+  const items = page.items.filter(item => item.text.trim());
+  if (items.length < 10 || page.width <= 0) {
+    return [items];
+  }
+
+  const bins = 200;
+  const coverage = new Array<number>(bins).fill(0);
+  for (const item of items) {
+    const from = Math.max(0, Math.floor((item.x / page.width) * bins));
+    const to = Math.min(bins - 1, Math.floor(((item.x + item.width) / page.width) * bins));
+    for (let bin = from; bin <= to; bin++) coverage[bin] = (coverage[bin] ?? 0) + 1;
+  }
+
+  // 容許少量跨欄的標題或頁首
+  const tolerance = Math.max(1, Math.floor(items.length * 0.02));
+  let best: { start: number; end: number } | null = null;
+  let runStart = -1;
+
+  for (let bin = Math.floor(bins * GUTTER_SEARCH[0]); bin <= Math.ceil(bins * GUTTER_SEARCH[1]); bin++) {
+    if ((coverage[bin] ?? 0) <= tolerance) {
+      if (runStart === -1) runStart = bin;
+      if (!best || bin - runStart > best.end - best.start) best = { start: runStart, end: bin };
+    } else {
+      runStart = -1;
+    }
+  }
+
+  if (!best || (best.end - best.start + 1) / bins < MIN_GUTTER_WIDTH) {
+    return [items];
+  }
+
+  const gutter = ((best.start + best.end + 1) / 2 / bins) * page.width;
+  const left = items.filter(item => item.x + item.width / 2 < gutter);
+  const right = items.filter(item => item.x + item.width / 2 >= gutter);
+
+  // 一側只有零星片段時不是真正的雙欄
+  if (left.length < items.length * 0.15 || right.length < items.length * 0.15) {
+    return [items];
+  }
+
+  return [left, right];
+}
+
+// 按基線把片段歸為行，行內按 x 排序；片段間距較大且不是中文之間時補空格
+function groupLines(items: PdfTextItem[]): PdfLine[] {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const rows: PdfTextItem[][] = [];
+
+  for (const item of sorted) {
+    const row = rows[rows.length - 1];
+    const first = row?.[0];
+    if (row && first && Math.abs(first.y - item.y) <= Math.max(first.fontSize, item.fontSize) * 0.5) {
+      row.push(item);
+    } else {
+      rows.push([item]);
+    }
+  }
+
+  return rows.map(row => {
+    row.sort((a, b) => a.x - b.x);
+    let text = '';
+    let previous: PdfTextItem | null = null;
+
+    for (const item of row) {
+      if (previous) {
+        const gap = item.x - (previous.x + previous.width);
+        const bothCjk = CJK.test(text.slice(-1)) && CJK.test(item.text.trimStart().charAt(0));
+        if (gap > previous.fontSize * 0.2 && !bothCjk && !/\s$/.test(text) && !/^\s/.test(item.text)) {
+          text += ' ';
+        }
+      }
+      text += item.text;
+      previous = item;
+    }
+
+    const last = row[row.length - 1] as PdfTextItem;
+    return {
+      text: text.replace(/\s+/g, ' ').trim(),
+      left: (row[0] as PdfTextItem).x,
+      right: last.x + last.width,
+      y: (row[0] as PdfTextItem).y,
+      fontSize: Math.max(...row.map(item => item.fontSize))
+    };
+  }).filter(line => line.text);
+}
+
+// 頁首頁尾區域中在至少一半頁面（不少於兩頁）重複出現的行；數字不計，以便匹配帶頁碼的頁首
+function repeatedMarginLines(pages: Array<{ page: PdfPage; lines: PdfLine[] }>): Set<string> {
+  const counts = new Map<string, number>();
+
+  for (const { page, lines } of pages) {
+    const keys = new Set(lines.filter(line => inMargin(line, page)).map(marginKey));
+    for (const key of keys) counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  const threshold = Math.max(2, Math.ceil(pages.length * 0.5));
+  return new Set([...counts].filter(([, count]) => count >= threshold).map(([key]) => key));
+}
+
+function isMarginLine(line: PdfLine, page: PdfPage, repeated: Set<string>): boolean {
+  return inMargin(line, page) && (PAGE_NUMBER.test(line.text) || repeated.has(marginKey(line)));
+}
+
+function inMargin(line: PdfLine, page: PdfPage): boolean {
+  return page.height > 0 && (line.y > page.height * (1 - MARGIN_BAND) || line.y < page.height * MARGIN_BAND);
+}
+
+function marginKey(line: PdfLine): string {
+  return line.text.replace(/\d+/g, '#').replace(/\s+/g, '').toLowerCase();
+}
+
+/**
+ * 按行距恢復段落：行距明顯大於本欄的常見行距、行首為條款標記，
+ * 或上一行在欄寬不足處以句末標點結束時另起一段。
+ */
+function buildParagraphs(lines: PdfLine[]): string[] {
+  if (lines.length === 0) return [];
+
+  const gaps = lines.slice(1)
+    .map((line, index) => (lines[index] as PdfLine).y - line.y)
+    .filter(gap => gap > 0)
+    .sort((a, b) => a - b);
+  const typicalGap = gaps[Math.floor(gaps.length / 2)] ?? 0;
+  const columnLeft = Math.min(...lines.map(line => line.left));
+  const columnRight = Math.max(...lines.map(line => line.right));
+
+  const paragraphs: string[] = [];
+  let current = '';
+  let previous: PdfLine | null = null;
+
+  for (const line of lines) {
+    const short = previous !== null && columnRight - previous.right > previous.fontSize * 2;
+    const breakBefore = previous !== null && (
+      (typicalGap > 0 && previous.y - line.y > typicalGap * 1.4) ||
+      PARAGRAPH_START.test(line.text) ||
+      // 句末標點或單獨成行的條款標題之後；不足半欄寬的行也必然是段末
+      (short && (SENTENCE_END.test(previous.text) || PARAGRAPH_START.test(previous.text))) ||
+      previous.right - previous.left < (columnRight - columnLeft) / 2
+    );
+
+    if (previous === null || breakBefore) {
+      if (current) paragraphs.push(current);
+      current = line.text;
+    } else {
+      current = joinLines(current, line.text);
+    }
+    previous = line;
+  }
+
+  if (current) paragraphs.push(current);
+  return paragraphs;
+}
+
+// 中文換行直接相接；葡文以空格相接，行末連字符斷詞時還原
+function joinLines(before: string, after: string): string {
+  if (CJK.test(before.slice(-1)) || CJK.test(after.charAt(0))) {
+    return before + after;
+  }
+  if (/\p{L}-$/u.test(before) && /^\p{Ll}/u.test(after)) {
+    return before.slice(0, -1) + after;
+  }
+  return `${before} ${after}`;
+}
+
+// 沒有文字的段落（如單獨的編號）跟隨上一段
+function assignLanguages(paragraphs: string[]): Paragraph[] {
+  let last: ContentLanguage | null = null;
+
+  return paragraphs.map(text => {
+    const language = languageOf(text) ?? last;
+    last = language;
+    return { text, language: language ?? 'zh' };
+  });
+}
+
+/**
+ * 把一頁的段落接到該語言正文末尾並記錄頁碼範圍。上一頁最後一段沒有以句末標點結束、
+ * 本頁第一段也不是新條款時，視為跨頁的同一段落。
+ */
+function appendPage(target: PdfLanguageText, pageNumber: number, paragraphs: Paragraph[]): void {
+  const first = paragraphs[0];
+  if (!first) return;
+
+  const continues = target.text !== '' &&
+    !SENTENCE_END.test(target.text) &&
+    !PARAGRAPH_START.test(first.text);
+
+  let separator = target.text === '' ? '' : '\n';
+  if (continues) {
+    if (CJK.test(target.text.slice(-1)) || CJK.test(first.text.charAt(0))) {
+      separator = '';
+    } else if (/\p{L}-$/u.test(target.text) && /^\p{Ll}/u.test(first.text)) {
+      target.text = target.text.slice(0, -1);
+      separator = '';
+    } else {
+      separator = ' ';
+    }
+  }
+
+  const startOffset = target.text.length + separator.length;
+  target.text += separator + paragraphs.map(paragraph => paragraph.text).join('\n');
+
+  const previous = target.pages[target.pages.length - 1];
+  if (previous) previous.endOffset = startOffset;
+  target.pages.push({ page: pageNumber, startOffset, endOffset: target.text.length });
+}
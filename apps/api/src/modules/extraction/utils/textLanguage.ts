@@ -0,0 +1,13 @@
+export type ContentLanguage = 'zh' | 'pt';
+
+export const CJK = /[\u3400-\u9fff\uf900-\ufaff]/;
+const CJK_GLOBAL = /[\u3400-\u9fff\uf900-\ufaff]/g;
+
+// 中文字符超過字母的三成為中文；沒有文字（如單獨的編號）時返回 null，由調用方決定歸屬
+export function languageOf(text: string): ContentLanguage | null {
+  const letters = text.match(/\p{L}/gu)?.length ?? 0;
+  if (letters === 0) return null;
+
+  const cjk = text.match(CJK_GLOBAL)?.length ?? 0;
+  return cjk > letters * 0.3 ? 'zh' : 'pt';
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { ZipArchive } from './zipArchive';
+import { ExtractionError } from '../../../shared/types/extraction.types';
+import { buildZip } from './__fixtures__/buildZip';
+
+function errorCode(action: () => unknown): string | undefined {
+  try {
+    action();
+  } catch (error) {
+    return error instanceof ExtractionError ? error.code : 'UNEXPECTED';
+  }
+  return undefined;
+}
+
+describe('ZipArchive', () => {
+  it('reads stored and deflated entries', () => {
+    const archive = new ZipArchive(buildZip([
+      { name: 'mimetype', content: 'application/zip', stored: true },
+      { name: 'word/document.xml', content: '<w:document>條文</w:document>' }
+    ]));
+
+    expect(archive.has('word/document.xml')).toBe(true);
+    expect(archive.readText('word/document.xml')).toBe('<w:document>條文</w:document>');
+    expect(archive.readText('mimetype')).toBe('application/zip');
+    expect(archive.read('word/missing.xml')).toBeNull();
+  });
+
+  it('rejects data that is not a ZIP archive', () => {
+    expect(errorCode(() => new ZipArchive(Buffer.from('not a zip file at all, just text')))).toBe('INVALID_FILE');
+  });
+
+  it('stops inflating at the size declared in the central directory', () => {
+    const archive = new ZipArchive(buildZip([
+      { name: 'word/document.xml', content: Buffer.alloc(1024 * 1024), declaredSize: 1024 }
+    ]));
+
+    expect(errorCode(() => archive.read('word/document.xml'))).toBe('INVALID_FILE');
+  });
+
+  it('rejects entries declared larger than the per-entry limit', () => {
+    const archive = new ZipArchive(
+      buildZip([{ name: 'word/document.xml', content: Buffer.alloc(4096) }]),
+      { entrySize: 1024, totalSize: 8192 }
+    );
+
+    expect(errorCode(() => archive.read('word/document.xml'))).toBe('INVALID_FILE');
+  });
+
+  it('enforces a total limit across all extracted entries', () => {
+    const archive = new ZipArchive(
+      buildZip([
+        { name: 'word/document.xml', content: Buffer.alloc(3000) },
+        { name: 'word/styles.xml', content: Buffer.alloc(3000) },
+        { name: 'word/numbering.xml', content: Buffer.alloc(3000) }
+      ]),
+      { entrySize: 4096, totalSize: 8192 }
+    );
+
+    expect(archive.read('word/document.xml')?.length).toBe(3000);
+    expect(archive.read('word/styles.xml')?.length).toBe(3000);
+    expect(errorCode(() => archive.read('word/numbering.xml'))).toBe('INVALID_FILE');
+  });
+});
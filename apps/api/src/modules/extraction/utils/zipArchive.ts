@@ -0,0 +1,137 @@
+import { inflateRawSync } from 'zlib';
+import { ExtractionError } from '../../../shared/types/extraction.types';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// 中央目錄結尾記錄後最多帶 65535 字節的註釋
+const MAX_EOCD_SEARCH = 22 + 0xffff;
+
+// 解壓上限，防止壓縮炸彈：單個條目不超過其聲明大小和固定上限，整個文件包另有總量上限
+const MAX_ENTRY_SIZE = 64 * 1024 * 1024;
+const MAX_TOTAL_SIZE = 128 * 1024 * 1024;
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * 最小的 ZIP 讀取器，供解析 OOXML 文件包使用：經中央目錄定位條目，
+ * 只支持存儲和 deflate 兩種壓縮方式，不支持加密和 ZIP64。
+ */
+export class ZipArchive {
+  private entries = new Map<string, ZipEntry>();
+  private totalRead = 0;
+
+  constructor(
+    private data: Buffer,
+    private limits: { entrySize: number; totalSize: number } = { entrySize: MAX_ENTRY_SIZE, totalSize: MAX_TOTAL_SIZE }
+  ) {
+    this.readCentralDirectory();
+  }
+
+  has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  read(name: string): Buffer | null {
+    const entry = this.entries.get(name);
+    if (!entry) return null;
+
+    const offset = entry.localHeaderOffset;
+    if (this.data.readUInt32LE(offset) !== LOCAL_FILE_HEADER) {
+      throw this.invalid(`Corrupted local header for ${name}`);
+    }
+
+    // 本地文件頭的擴展字段長度可能與中央目錄不同，以本地的為準
+    const start = offset + 30 + this.data.readUInt16LE(offset + 26) + this.data.readUInt16LE(offset + 28);
+    const compressed = this.data.subarray(start, start + entry.compressedSize);
+
+    const maxOutputLength = Math.min(entry.uncompressedSize, this.limits.entrySize, this.limits.totalSize - this.totalRead);
+    if (entry.uncompressedSize > maxOutputLength) {
+      throw this.invalid(`${name} is too large to extract`);
+    }
+
+    let content: Buffer;
+    switch (entry.method) {
+      case 0:
+        content = compressed;
+        break;
+      case 8:
+        content = this.inflate(compressed, maxOutputLength, name);
+        break;
+      default:
+        throw this.invalid(`Unsupported compression method ${entry.method} for ${name}`);
+    }
+
+    // 實際大小與聲明不符，條目已損壞或被篡改
+    if (content.length !== entry.uncompressedSize) {
+      throw this.invalid(`Size mismatch for ${name}`);
+    }
+
+    this.totalRead += content.length;
+    return content;
+  }
+
+  readText(name: string): string | null {
+    return this.read(name)?.toString('utf8') ?? null;
+  }
+
+  // 輸出超過 maxOutputLength 時 zlib 拋出 RangeError，與數據損壞一樣視為無效文件
+  private inflate(compressed: Buffer, maxOutputLength: number, name: string): Buffer {
+    try {
+      return inflateRawSync(compressed, { maxOutputLength: Math.max(1, maxOutputLength) });
+    } catch {
+      throw this.invalid(`Cannot decompress ${name}`);
+    }
+  }
+
+  private readCentralDirectory(): void {
+    const end = this.findEndOfCentralDirectory();
+    const count = this.data.readUInt16LE(end + 10);
+    let offset = this.data.readUInt32LE(end + 16);
+
+    for (let index = 0; index < count; index++) {
+      if (offset + 46 > this.data.length || this.data.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+        throw this.invalid('Corrupted central directory');
+      }
+
+      const flags = this.data.readUInt16LE(offset + 8);
+      const nameLength = this.data.readUInt16LE(offset + 28);
+      const extraLength = this.data.readUInt16LE(offset + 30);
+      const commentLength = this.data.readUInt16LE(offset + 32);
+      const name = this.data.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+      if (flags & 0x1) {
+        throw this.invalid('Encrypted archives are not supported');
+      }
+
+      this.entries.set(name, {
+        method: this.data.readUInt16LE(offset + 10),
+        compressedSize: this.data.readUInt32LE(offset + 20),
+        uncompressedSize: this.data.readUInt32LE(offset + 24),
+        localHeaderOffset: this.data.readUInt32LE(offset + 42)
+      });
+
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+  }
+
+  private findEndOfCentralDirectory(): number {
+    const stop = Math.max(0, this.data.length - MAX_EOCD_SEARCH);
+    for (let offset = this.data.length - 22; offset >= stop; offset--) {
+      if (this.data.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+        return offset;
+      }
+    }
+    throw this.invalid('End of central directory not found');
+  }
+
+  private invalid(reason: string): ExtractionError {
+    return new ExtractionError(`Invalid ZIP archive: ${reason}`, 'INVALID_FILE');
+  }
+}
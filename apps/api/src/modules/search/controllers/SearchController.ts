@@ -0,0 +1,414 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { SearchService } from '../services/SearchService';
+import { ScoringConfigService, ScoringConfigUpdate } from '../services/ScoringConfigService';
+import { IndexingService } from '../services/IndexingService';
+import { PRIVILEGED_ROLES } from '../utils/indexDocumentBuilder';
+import {
+  SearchQuery,
+  SearchOptions,
+  SearchFilters,
+  SearchEngineType,
+  SortOption,
+  SearchResultType,
+  SearchError,
+  QueryError,
+  IndexError
+} from '../../../shared/types/search.types';
+
+interface FiltersBody {
+  category?: string;
+  language?: 'zh' | 'pt' | 'en';
+  publicationDate?: {
+    start?: string;
+    end?: string;
+  };
+  lawNumber?: string;
+  isPublic?: boolean;
+  hasAnnotations?: boolean;
+  textLength?: {
+    min?: number;
+    max?: number;
+  };
+  resultTypes?: SearchResultType[];
+}
+
+interface OptionsBody {
+  limit?: number;
+  offset?: number;
+  sortBy?: SortOption[];
+  highlightMatches?: boolean;
+  includeSnippets?: boolean;
+  engines?: SearchEngineType[];
+  facets?: string[];
+}
+
+interface QueryBody {
+  query: string;
+  language?: 'zh' | 'pt' | 'en' | 'auto';
+  filters?: FiltersBody;
+}
+
+export interface SearchRequest {
+  Body: QueryBody & {
+    options?: OptionsBody;
+  };
+}
+
+export interface SearchBatchRequest {
+  Body: {
+    queries: QueryBody[];
+    options?: OptionsBody;
+  };
+}
+
+export interface SuggestRequest {
+  Querystring: {
+    q: string;
+    limit?: number;
+  };
+}
+
+export interface StatsRequest {
+  Querystring: {
+    days?: number;
+  };
+}
+
+export interface FacetsRequest {
+  Body: {
+    query?: string;
+    fields: string[];
+    filters?: FiltersBody;
+  };
+}
+
+export interface UpdateScoringRequest {
+  Body: ScoringConfigUpdate;
+}
+
+export class SearchController {
+  constructor(
+    private searchService: SearchService,
+    private scoringConfigService: ScoringConfigService,
+    private indexingService: IndexingService
+  ) {}
+
+  // 單一搜索
+  async search(
+    request: FastifyRequest<SearchRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const { options = {} } = request.body;
+
+      const query = this.buildQuery(request.body, request);
+      const result = await this.searchService.search(query, this.buildOptions(options));
+
+      reply.send({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      reply.code(error instanceof QueryError ? 400 : 500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Search failed'
+      });
+    }
+  }
+
+  // 批量搜索
+  async searchBatch(
+    request: FastifyRequest<SearchBatchRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const { queries, options = {} } = request.body;
+
+      if (!queries || queries.length === 0) {
+        reply.code(400).send({
+          success: false,
+          error: 'Queries array is required and cannot be empty'
+        });
+        return;
+      }
+
+      const searchQueries = queries.map(query => this.buildQuery(query, request));
+      const results = await this.searchService.searchMultiple(searchQueries, this.buildOptions(options));
+
+      reply.send({
+        success: true,
+        data: results
+      });
+    } catch (error) {
+      reply.code(error instanceof QueryError ? 400 : 500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Batch search failed'
+      });
+    }
+  }
+
+  // 自動完成建議
+  async suggest(
+    request: FastifyRequest<SuggestRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const { q, limit = 5 } = request.query;
+      const { access } = this.applyAccessControl({}, request);
+      const suggestions = await this.searchService.getSuggestions(q, limit, access);
+
+      reply.send({
+        success: true,
+        data: { query: q, suggestions }
+      });
+    } catch (error) {
+      reply.code(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get suggestions'
+      });
+    }
+  }
+
+  // 分面列表
+  async getFacets(
+    request: FastifyRequest<FacetsRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const { query = '', fields, filters } = request.body;
+
+      const searchQuery = this.buildQuery(filters ? { query, filters } : { query }, request);
+      const facets = await this.searchService.getFacets(searchQuery, fields);
+
+      reply.send({
+        success: true,
+        data: { facets }
+      });
+    } catch (error) {
+      reply.code(error instanceof QueryError ? 400 : 500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get facets'
+      });
+    }
+  }
+
+  // 引擎統計
+  async getStats(
+    request: FastifyRequest<StatsRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const stats = await this.searchService.getSearchStats(request.query.days);
+
+      reply.send({
+        success: true,
+        data: stats
+      });
+    } catch (error) {
+      reply.code(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get search stats'
+      });
+    }
+  }
+
+  // 相關性評分配置
+  async getScoringConfig(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const config = await this.scoringConfigService.getConfig();
+
+      reply.send({
+        success: true,
+        data: config
+      });
+    } catch (error) {
+      reply.code(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get scoring config'
+      });
+    }
+  }
+
+  async updateScoringConfig(
+    request: FastifyRequest<UpdateScoringRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const user = (request as any).user as { id: string };
+      const config = await this.scoringConfigService.updateConfig(request.body, user.id);
+
+      reply.send({
+        success: true,
+        data: config
+      });
+    } catch (error) {
+      if (error instanceof SearchError && error.code === 'INVALID_SCORING_CONFIG') {
+        reply.code(400).send({
+          success: false,
+          error: error.message
+        });
+        return;
+      }
+
+      reply.code(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update scoring config'
+      });
+    }
+  }
+
+  async resetScoringConfig(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const config = await this.scoringConfigService.resetConfig();
+
+      reply.send({
+        success: true,
+        data: config
+      });
+    } catch (error) {
+      reply.code(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to reset scoring config'
+      });
+    }
+  }
+
+  // 全量重建索引（後台執行）
+  async rebuildIndex(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const status = this.indexingService.startReindex();
+
+      reply.code(202).send({
+        success: true,
+        data: status
+      });
+    } catch (error) {
+      reply.code(error instanceof IndexError ? 409 : 500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to start reindex'
+      });
+    }
+  }
+
+  // 索引同步狀態及各引擎的文檔差異
+  async getIndexStatus(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const report = await this.indexingService.getDriftReport();
+
+      reply.send({
+        success: true,
+        data: report
+      });
+    } catch (error) {
+      reply.code(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get index status'
+      });
+    }
+  }
+
+  // 引擎健康檢查
+  async healthCheck(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const engines = await this.searchService.checkEngineHealth();
+      const healthy = Object.values(engines).some(status => status);
+
+      reply.code(healthy ? 200 : 503).send({
+        success: healthy,
+        data: {
+          service: 'SearchService',
+          status: healthy ? 'healthy' : 'unhealthy',
+          engines,
+          timestamp: new Date().toISOString()
+        }
+      });
+    } catch (error) {
+      reply.code(503).send({
+        success: false,
+        error: 'Service unhealthy'
+      });
+    }
+  }
+
+  private buildQuery(body: QueryBody, request: FastifyRequest): SearchQuery {
+    const query: SearchQuery = {
+      text: body.query,
+      filters: this.applyAccessControl(this.buildFilters(body.filters), request)
+    };
+
+    if (body.language) query.language = body.language;
+
+    const user = (request as any).user as { id: string } | undefined;
+    if (user) query.userId = user.id;
+
+    return query;
+  }
+
+  private buildFilters(body?: FiltersBody): SearchFilters {
+    const filters: SearchFilters = {};
+    if (!body) return filters;
+
+    if (body.category) filters.category = body.category;
+    if (body.language) filters.language = body.language;
+    if (body.lawNumber) filters.lawNumber = body.lawNumber;
+    if (body.isPublic !== undefined) filters.isPublic = body.isPublic;
+    if (body.hasAnnotations !== undefined) filters.hasAnnotations = body.hasAnnotations;
+    if (body.resultTypes) filters.resultTypes = body.resultTypes;
+
+    if (body.publicationDate) {
+      filters.publicationDate = {};
+      if (body.publicationDate.start) filters.publicationDate.start = new Date(body.publicationDate.start);
+      if (body.publicationDate.end) filters.publicationDate.end = new Date(body.publicationDate.end);
+    }
+
+    if (body.textLength) {
+      filters.textLength = {};
+      if (body.textLength.min !== undefined) filters.textLength.min = body.textLength.min;
+      if (body.textLength.max !== undefined) filters.textLength.max = body.textLength.max;
+    }
+
+    return filters;
+  }
+
+  private buildOptions(body: OptionsBody): SearchOptions {
+    const options: SearchOptions = {
+      limit: body.limit || 20,
+      offset: body.offset || 0
+    };
+
+    if (body.sortBy) options.sortBy = body.sortBy;
+    if (body.highlightMatches !== undefined) options.highlightMatches = body.highlightMatches;
+    if (body.includeSnippets !== undefined) options.includeSnippets = body.includeSnippets;
+    if (body.engines) options.engines = body.engines;
+    if (body.facets) options.facets = body.facets;
+
+    return options;
+  }
+
+  // 匿名用戶和普通用戶只能搜索公開文本，以及 ACL 授權給自己的非公開文本
+  private applyAccessControl(filters: SearchFilters, request: FastifyRequest): SearchFilters {
+    const user = (request as any).user as { id: string; roles: string[] } | undefined;
+    const isPrivileged = user?.roles.some(role => PRIVILEGED_ROLES.includes(role)) ?? false;
+
+    if (!isPrivileged) {
+      filters.access = user ? { userId: user.id, roles: user.roles } : { roles: [] };
+    }
+
+    return filters;
+  }
+}
@@ -0,0 +1,129 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { SynonymService } from '../services/SynonymService';
+import {
+  SearchError,
+  SynonymInput,
+  SynonymListFilters
+} from '../../../shared/types/search.types';
+
+export interface ListSynonymsRequest {
+  Querystring: SynonymListFilters;
+}
+
+export interface SynonymIdRequest {
+  Params: {
+    id: string;
+  };
+}
+
+export interface CreateSynonymRequest {
+  Body: SynonymInput;
+}
+
+export interface UpdateSynonymRequest {
+  Params: {
+    id: string;
+  };
+  Body: Partial<SynonymInput>;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  INVALID_SYNONYM: 400,
+  SYNONYM_NOT_FOUND: 404,
+  SYNONYM_EXISTS: 409
+};
+
+export class SynonymController {
+  constructor(private synonymService: SynonymService) {}
+
+  // 同義詞列表
+  async list(
+    request: FastifyRequest<ListSynonymsRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const result = await this.synonymService.list(request.query);
+
+      reply.send({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to list synonyms');
+    }
+  }
+
+  async get(
+    request: FastifyRequest<SynonymIdRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const synonym = await this.synonymService.get(request.params.id);
+
+      reply.send({
+        success: true,
+        data: synonym
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to get synonym');
+    }
+  }
+
+  async create(
+    request: FastifyRequest<CreateSynonymRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const user = (request as any).user as { id: string };
+      const synonym = await this.synonymService.create(request.body, user.id);
+
+      reply.code(201).send({
+        success: true,
+        data: synonym
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to create synonym');
+    }
+  }
+
+  async update(
+    request: FastifyRequest<UpdateSynonymRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const synonym = await this.synonymService.update(request.params.id, request.body);
+
+      reply.send({
+        success: true,
+        data: synonym
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to update synonym');
+    }
+  }
+
+  async delete(
+    request: FastifyRequest<SynonymIdRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      await this.synonymService.delete(request.params.id);
+
+      reply.send({
+        success: true,
+        message: 'Synonym deleted'
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to delete synonym');
+    }
+  }
+
+  private sendError(reply: FastifyReply, error: unknown, fallback: string): void {
+    const status = error instanceof SearchError ? ERROR_STATUS[error.code] || 500 : 500;
+
+    reply.code(status).send({
+      success: false,
+      error: error instanceof Error ? error.message : fallback
+    });
+  }
+}
@@ -0,0 +1,118 @@
+import {
+  SearchEngine,
+  SearchEngineType,
+  SearchContext,
+  SearchOptions,
+  SearchResultItem,
+  SearchFacet,
+  SearchFilters,
+  EngineRanking,
+  IndexDocument,
+  SearchEngineStats,
+  QueryError
+} from '../../../shared/types/search.types';
+import { RankFusion } from '../utils/RankFusion';
+
+export class HybridSearchEngine implements SearchEngine {
+  private searchTimes: number[] = [];
+
+  constructor(
+    private engines: Map<SearchEngineType, SearchEngine>,
+    private fusion: RankFusion = RankFusion.fromEnv()
+  ) {}
+
+  async search(context: SearchContext, options?: SearchOptions): Promise<SearchResultItem[]> {
+    const startTime = Date.now();
+
+    const rankings = await Promise.all(
+      this.enginesFor(context.filters).map(async ([engine, instance]) => {
+        const engineStartTime = Date.now();
+        const results = await instance.search(context, options).catch(error => {
+          if (error instanceof QueryError) throw error;
+          return [] as SearchResultItem[];
+        });
+        return { engine, results, duration: Date.now() - engineStartTime };
+      })
+    );
+
+    const { results, contributions } = this.fusion.fuse(
+      rankings.map(({ engine, results }): EngineRanking => ({ engine, results }))
+    );
+
+    // 記錄每個引擎的貢獻，便於排查排名原因
+    for (const { engine, results: engineResults, duration } of rankings) {
+      context.processingSteps.push({
+        name: `HybridSearchEngine:${engine}`,
+        duration,
+        results: engineResults.length,
+        engine,
+        contributions: contributions.get(engine) || []
+      });
+    }
+
+    this.recordSearchTime(Date.now() - startTime);
+
+    return results;
+  }
+
+  supportsFilters(filters: SearchFilters): boolean {
+    return Array.from(this.engines.values()).some(engine => engine.supportsFilters?.(filters) ?? true);
+  }
+
+  async getFacets(context: SearchContext, options: SearchOptions): Promise<SearchFacet[]> {
+    for (const [, engine] of this.enginesFor(context.filters)) {
+      if (engine.getFacets) {
+        return engine.getFacets(context, options);
+      }
+    }
+
+    return [];
+  }
+
+  // 底層引擎的索引由 SearchService 直接維護，避免重複寫入
+  async index(documents: IndexDocument[]): Promise<void> {}
+
+  async updateIndex(documents: IndexDocument[]): Promise<void> {}
+
+  async deleteFromIndex(documentIds: string[]): Promise<void> {}
+
+  async getStats(): Promise<SearchEngineStats> {
+    const settled = await Promise.allSettled(
+      Array.from(this.engines.values()).map(engine => engine.getStats())
+    );
+    const stats = settled
+      .filter((result): result is PromiseFulfilledResult<SearchEngineStats> => result.status === 'fulfilled')
+      .map(result => result.value);
+
+    if (stats.length === 0) {
+      throw new Error('No underlying search engine is available');
+    }
+
+    return {
+      documentCount: Math.max(...stats.map(stat => stat.documentCount)),
+      indexSize: stats.reduce((sum, stat) => sum + stat.indexSize, 0),
+      lastIndexUpdate: new Date(Math.max(...stats.map(stat => stat.lastIndexUpdate.getTime()))),
+      averageSearchTime: this.getAverageSearchTime(),
+      popularQueries: []
+    };
+  }
+
+  // 與 SearchService 一致：跳過不支持過濾條件的引擎，都不支持時全部保留
+  private enginesFor(filters: SearchFilters): Array<[SearchEngineType, SearchEngine]> {
+    const entries = Array.from(this.engines.entries());
+    const supported = entries.filter(([, engine]) => engine.supportsFilters?.(filters) ?? true);
+    return supported.length > 0 ? supported : entries;
+  }
+
+  private recordSearchTime(duration: number): void {
+    this.searchTimes.push(duration);
+    if (this.searchTimes.length > 100) {
+      this.searchTimes.shift();
+    }
+  }
+
+  private getAverageSearchTime(): number {
+    if (this.searchTimes.length === 0) return 0;
+    return this.searchTimes.reduce((sum, time) => sum + time, 0) / this.searchTimes.length;
+  }
+}
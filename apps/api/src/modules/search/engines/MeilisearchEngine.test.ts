@@ -0,0 +1,283 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { MeiliSearch } from 'meilisearch';
+import { MeilisearchEngine } from './MeilisearchEngine';
+import { QueryParser } from '../utils/QueryParser';
+import { IndexDocument, SearchContext, IndexError, QueryError } from '../../../shared/types/search.types';
+
+type StoredDocument = Record<string, unknown> & { id: string };
+
+interface FakeTask {
+  uid: number;
+  apply: () => void;
+  payload: unknown;
+  status: 'enqueued' | 'succeeded' | 'failed';
+}
+
+interface FakeQuery {
+  q?: string;
+  filter?: string[];
+  attributesToSearchOn?: string[];
+  facets?: string[];
+}
+
+const SEARCHABLE = ['titleZh', 'titlePt', 'contentZh', 'contentPt'];
+
+// 記憶體中的 Meilisearch 替身：任務入列後不立即生效，按順序在 waitForTask 時執行，
+// 只支持引擎用到的 `欄位 = 值`、`欄位 != 值`、`欄位 IN [...]` 過濾；
+// 查詢詞按子字串匹配，`-詞` 表示排除
+class FakeMeiliSearch {
+  documents = new Map<string, StoredDocument>();
+  tasks: FakeTask[] = [];
+  waited: number[] = [];
+  failWhen: (payload: unknown) => boolean = () => false;
+
+  index() {
+    return {
+      updateSettings: async (settings: unknown) => this.enqueue(settings, () => {}),
+      addDocuments: async (documents: StoredDocument[]) => this.enqueue(documents, () => {
+        for (const document of documents) this.documents.set(document.id, document);
+      }),
+      deleteDocuments: async (params: string[] | { filter: string }) => this.enqueue(params, () => {
+        for (const document of [...this.documents.values()]) {
+          const matches = Array.isArray(params) ? params.includes(document.id) : this.matches(document, params.filter);
+          if (matches) this.documents.delete(document.id);
+        }
+      }),
+      search: async (q: string, params: FakeQuery) => {
+        const hits = this.search({ ...params, q });
+        const facetDistribution: Record<string, Record<string, number>> = {};
+        for (const facet of params.facets || []) {
+          const counts: Record<string, number> = {};
+          for (const hit of hits) counts[String(hit[facet])] = (counts[String(hit[facet])] || 0) + 1;
+          facetDistribution[facet] = counts;
+        }
+        return { hits: [], facetDistribution };
+      }
+    };
+  }
+
+  async multiSearch({ queries }: { queries: FakeQuery[] }) {
+    return { results: queries.map(query => ({ hits: this.search(query) })) };
+  }
+
+  private search({ q = '', filter = [], attributesToSearchOn = SEARCHABLE }: FakeQuery): StoredDocument[] {
+    const words = q.split(' ').filter(Boolean).map(word => word.replace(/"/g, ''));
+
+    return [...this.documents.values()].filter(document => {
+      const text = attributesToSearchOn.map(attribute => document[attribute] ?? '').join(' ');
+      return words.every(word => (word.startsWith('-') ? !text.includes(word.slice(1)) : text.includes(word))) &&
+        filter.every(condition => this.matches(document, condition));
+    });
+  }
+
+  async waitForTask(taskUid: number) {
+    this.waited.push(taskUid);
+    for (const task of this.tasks) {
+      if (task.uid > taskUid) break;
+      if (task.status !== 'enqueued') continue;
+      if (this.failWhen(task.payload)) {
+        task.status = 'failed';
+      } else {
+        task.apply();
+        task.status = 'succeeded';
+      }
+    }
+
+    const task = this.tasks[taskUid];
+    return {
+      uid: taskUid,
+      status: task?.status,
+      error: task?.status === 'failed' ? { message: 'injected failure' } : null
+    };
+  }
+
+  private enqueue(payload: unknown, apply: () => void) {
+    const task: FakeTask = { uid: this.tasks.length, apply, payload, status: 'enqueued' };
+    this.tasks.push(task);
+    return { taskUid: task.uid };
+  }
+
+  private matches(document: StoredDocument, filter: string): boolean {
+    const list = filter.match(/^(\w+) IN \[(.*)\]$/);
+    if (list?.[1]) {
+      const values = JSON.parse(`[${list[2]}]`) as string[];
+      return values.includes(String(document[list[1]]));
+    }
+
+    const equals = filter.match(/^(\w+) (!?=) (.*)$/);
+    if (equals?.[1] && equals[3]) {
+      const same = document[equals[1]] === JSON.parse(equals[3]);
+      return equals[2] === '=' ? same : !same;
+    }
+
+    throw new Error(`Unsupported filter: ${filter}`);
+  }
+}
+
+function legalText(id: string): IndexDocument {
+  return {
+    id,
+    type: 'legal_text',
+    title: { zh: `文本 ${id}` },
+    content: { zh: { text: '第一條 標的', html: '' } },
+    metadata: { isPublic: true },
+    searchableText: '第一條 標的',
+    lastUpdated: new Date('2026-01-01')
+  };
+}
+
+function article(textId: string, number: string): IndexDocument {
+  return {
+    id: `${textId}:article-${number}`,
+    type: 'article',
+    title: { zh: `第${number}條` },
+    content: { zh: { text: '標的', html: '' } },
+    metadata: { isPublic: true },
+    searchableText: '標的',
+    location: {
+      textId,
+      title: `第${number}條`,
+      chapterPath: [],
+      startOffset: 0,
+      endOffset: 6,
+      language: 'zh',
+      articleNumber: number
+    },
+    lastUpdated: new Date('2026-01-01')
+  };
+}
+
+function categorized(id: string, title: string, text: string, category: string): IndexDocument {
+  return {
+    ...legalText(id),
+    title: { zh: title },
+    content: { zh: { text, html: '' } },
+    metadata: { isPublic: true, category },
+    searchableText: text
+  };
+}
+
+function context(filters: SearchContext['filters'], query = '標的'): SearchContext {
+  const queryAst = new QueryParser().parse(query);
+  return {
+    originalQuery: query,
+    normalizedQuery: query,
+    ...(queryAst ? { queryAst } : {}),
+    language: 'zh',
+    filters,
+    engines: ['meilisearch'],
+    results: [],
+    startTime: Date.now(),
+    processingSteps: []
+  };
+}
+
+describe('MeilisearchEngine', () => {
+  let client: FakeMeiliSearch;
+  let engine: MeilisearchEngine;
+
+  beforeEach(() => {
+    client = new FakeMeiliSearch();
+    engine = new MeilisearchEngine(client as unknown as MeiliSearch, 'test_texts');
+  });
+
+  it('replaces the structural units of a reindexed legal text', async () => {
+    await engine.index([legalText('t1'), article('t1', '1'), article('t1', '2')]);
+    await engine.index([legalText('t1'), article('t1', '1')]);
+
+    expect([...client.documents.keys()].sort()).toEqual(['t1', 't1:article-1']);
+  });
+
+  it('deletes a legal text together with its units and waits for both tasks', async () => {
+    await engine.index([legalText('t1'), article('t1', '1'), legalText('t2'), article('t2', '1')]);
+    const pending = client.tasks.length;
+
+    await engine.deleteFromIndex(['t1']);
+
+    expect(client.waited).toEqual(expect.arrayContaining([pending, pending + 1]));
+    expect([...client.documents.keys()].sort()).toEqual(['t2', 't2:article-1']);
+  });
+
+  it('fails the deletion when the document task fails', async () => {
+    await engine.index([legalText('t1'), article('t1', '1')]);
+    client.failWhen = payload => Array.isArray(payload) && payload.includes('t1');
+
+    await expect(engine.deleteFromIndex(['t1'])).rejects.toBeInstanceOf(IndexError);
+  });
+
+  it('fails the indexing when replacing the old units fails', async () => {
+    await engine.index([legalText('t1'), article('t1', '1')]);
+    client.failWhen = payload => !Array.isArray(payload) && typeof payload === 'object' && payload !== null && 'filter' in payload;
+
+    await expect(engine.index([legalText('t1')])).rejects.toBeInstanceOf(IndexError);
+  });
+
+  it('rejects the hasAnnotations filter instead of ignoring it', async () => {
+    await expect(engine.search(context({ hasAnnotations: true }))).rejects.toBeInstanceOf(QueryError);
+    expect(client.tasks).toHaveLength(1); // 只有設定任務，未發出查詢
+  });
+
+  it('leaves annotation filters to other engines', () => {
+    expect(engine.supportsFilters({ hasAnnotations: true })).toBe(false);
+    expect(engine.supportsFilters({ category: '民法' })).toBe(true);
+  });
+
+  describe('synonym expansion', () => {
+    const expansions = [{ originalTerm: '租賃', expandedTerms: ['出租'], method: 'synonym' as const, confidence: 0.9 }];
+
+    beforeEach(async () => {
+      await engine.index([
+        categorized('t1', '租賃法', '租賃 合同', '民法'),
+        categorized('t2', '出租條例', '出租 房屋', '民法'),
+        categorized('t3', '商法典', '公司 章程', '商法')
+      ]);
+    });
+
+    it('searches the managed synonyms of a term as extra branches', async () => {
+      const results = await engine.search({ ...context({}, '租賃'), expansions });
+
+      expect(results.map(result => result.id).sort()).toEqual(['t1', 't2']);
+    });
+
+    it('excludes the synonyms of an excluded term as well', async () => {
+      const results = await engine.search({ ...context({}, '-租賃'), expansions });
+
+      expect(results.map(result => result.id)).toEqual(['t3']);
+    });
+
+    it('does not expand prefix terms', async () => {
+      const results = await engine.search({ ...context({}, '租賃*'), expansions });
+
+      expect(results.map(result => result.id)).toEqual(['t1']);
+    });
+  });
+
+  describe('getFacets', () => {
+    beforeEach(async () => {
+      await engine.index([
+        categorized('t1', '租賃法', '租賃 合同', '民法'),
+        categorized('t2', '商法典', '租賃 條款', '商法')
+      ]);
+    });
+
+    async function categoryCounts(query: string) {
+      const facets = await engine.getFacets(context({}, query), { facets: ['category'] });
+      return Object.fromEntries(facets[0]?.values.map(({ value, count }) => [value, count]) || []);
+    }
+
+    it('counts only the texts that match the field-scoped query', async () => {
+      const results = await engine.search(context({}, 'title:租賃'));
+
+      expect(results.map(result => result.id)).toEqual(['t1']);
+      expect(await categoryCounts('title:租賃')).toEqual({ 民法: 1 });
+    });
+
+    it('applies excluded terms to the facet counts', async () => {
+      expect(await categoryCounts('租賃 -條款')).toEqual({ 民法: 1 });
+    });
+
+    it('counts each text once across OR branches', async () => {
+      expect(await categoryCounts('合同 OR 租賃')).toEqual({ 民法: 1, 商法: 1 });
+    });
+  });
+});
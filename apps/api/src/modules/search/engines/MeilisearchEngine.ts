@@ -1,66 +1,734 @@
+import { MeiliSearch, Index, Hit, SearchParams, MultiSearchQuery, FacetDistribution } from 'meilisearch';
+import { meilisearch } from '../../../config/database';
 import {
   SearchEngine,
   SearchContext,
   SearchOptions,
   SearchResultItem,
+  SearchFilters,
+  SearchFacet,
+  SortOption,
+  Highlight,
   IndexDocument,
-  SearchEngineStats
+  SearchEngineStats,
+  SearchResultType,
+  StructuralLocation,
+  QueryLiteral,
+  QueryExpansion,
+  QueryError,
+  IndexError
 } from '../../../shared/types/search.types';
+import { toDisjunctiveNormalForm, buildArticlePattern, expandTermValue } from '../utils/queryAst';
+import { buildLocationUrl } from '../utils/structuralUnits';
+
+// Meilisearch 中的扁平化文檔結構
+interface MeiliDocument {
+  id: string;
+  type: IndexDocument['type'];
+  titleZh?: string;
+  titlePt?: string;
+  contentZh?: string;
+  contentPt?: string;
+  lawNumber?: string;
+  category?: string;
+  publicationDate?: number; // Unix 秒，便於範圍過濾
+  languages: string[];
+  tags: string[];
+  wordCount: number;
+  authorId?: string;
+  isPublic: boolean;
+  aclUserIds: string[];
+  aclRoles: string[];
+  searchableText: string;
+  lastUpdated: number;
+  // 條文和章節單元
+  parentId?: string;
+  unitTitle?: string;
+  articleNumber?: string;
+  chapterPath?: string[];
+  startOffset?: number;
+  endOffset?: number;
+  unitLanguage?: 'zh' | 'pt';
+}
+
+// 對外的 facet 名稱與索引欄位的對應
+const FACET_FIELDS: Record<string, keyof MeiliDocument> = {
+  category: 'category',
+  lawNumber: 'lawNumber',
+  language: 'languages',
+  tags: 'tags',
+  type: 'type',
+  isPublic: 'isPublic'
+};
+
+const SORT_FIELDS: Partial<Record<SortOption['field'], keyof MeiliDocument>> = {
+  date: 'publicationDate',
+  title: 'titleZh',
+  wordCount: 'wordCount',
+  category: 'category'
+};
+
+const HIGHLIGHT_FIELDS: Array<{ attribute: keyof MeiliDocument; field: string }> = [
+  { attribute: 'titleZh', field: 'title.zh' },
+  { attribute: 'titlePt', field: 'title.pt' },
+  { attribute: 'contentZh', field: 'content.zh' },
+  { attribute: 'contentPt', field: 'content.pt' }
+];
+
+// 語法樹中一個 AND 分支對應的 Meilisearch 查詢
+interface ClauseQuery {
+  q: string;
+  filter: string[];
+  attributesToSearchOn?: string[];
+  postFilters: QueryLiteral[];
+}
+
+const TITLE_ATTRIBUTES = ['titleZh', 'titlePt'];
 
 export class MeilisearchEngine implements SearchEngine {
+  private readonly MAX_CANDIDATES = 200;
+  private readonly MAX_CLAUSES = 8;
+  private readonly TASK_TIMEOUT = 30000;
+  private readonly LIST_PAGE_SIZE = 1000;
+
+  private settingsReady: Promise<void> | null = null;
+  private searchTimes: number[] = [];
+
+  // 可注入客戶端，便於連接本地容器或使用記憶體替身測試
+  constructor(
+    private client: MeiliSearch = meilisearch,
+    private indexName: string = process.env.MEILI_INDEX || 'legal_texts'
+  ) {}
+
   async search(context: SearchContext, options?: SearchOptions): Promise<SearchResultItem[]> {
-    // 模擬Meilisearch搜索
-    const mockResults: SearchResultItem[] = [
-      {
-        id: 'meili_result_1',
-        type: 'legal_text',
-        title: { zh: `Meilisearch結果：${context.normalizedQuery}` },
-        snippet: { zh: `高效搜索包含 "${context.normalizedQuery}" 的內容...` },
-        score: 0.92,
-        metadata: {
-          category: '行政法規',
-          publicationDate: new Date('2023-06-01'),
-          wordCount: 2000,
-          language: 'zh'
-        },
-        highlights: [
-          {
-            field: 'content',
-            text: `...包含<mark>${context.normalizedQuery}</mark>的重要內容...`,
-            start: 10,
-            end: 30
-          }
-        ]
-      }
-    ];
+    const startTime = Date.now();
+    await this.ensureSettings();
+
+    const limit = Math.min((options?.offset || 0) + (options?.limit || 20), this.MAX_CANDIDATES);
+    const baseFilter = this.buildFilter(context);
+    const clauses = this.buildClauseQueries(context);
+
+    const params: SearchParams = {
+      attributesToHighlight: HIGHLIGHT_FIELDS.map(({ attribute }) => attribute),
+      highlightPreTag: '<mark>',
+      highlightPostTag: '</mark>',
+      attributesToCrop: ['contentZh', 'contentPt'],
+      cropLength: 40,
+      showMatchesPosition: true,
+      showRankingScore: true
+    };
+
+    const sort = this.buildSort(options?.sortBy);
+    if (sort.length > 0) {
+      params.sort = sort;
+    }
+
+    const merged = await this.searchClauses(clauses, baseFilter, params, limit);
+    this.recordSearchTime(Date.now() - startTime);
+
+    if (sort.length === 0 || clauses.length > 1) {
+      merged.sort((a, b) => (b._rankingScore ?? 0) - (a._rankingScore ?? 0));
+    }
+
+    return merged.slice(0, limit).map(hit => this.toResultItem(hit, options));
+  }
 
-    return mockResults;
+  // 批註存於業務數據庫，索引中沒有對應欄位
+  supportsFilters(filters: SearchFilters): boolean {
+    return filters.hasAnnotations === undefined;
+  }
+
+  async getFacets(context: SearchContext, options: SearchOptions): Promise<SearchFacet[]> {
+    const requested = (options.facets || []).filter(facet => FACET_FIELDS[facet]);
+    if (requested.length === 0) {
+      return [];
+    }
+
+    await this.ensureSettings();
+
+    // 與 search 使用相同的分支轉換，分面計數才與結果列表一致
+    const baseFilter = this.buildFilter(context);
+    const clauses = this.buildClauseQueries(context);
+    const attributes = requested.map(facet => FACET_FIELDS[facet] as string);
+
+    const [clause] = clauses;
+    if (clauses.length === 1 && clause && clause.postFilters.length === 0) {
+      const params: SearchParams = { limit: 0, filter: [...baseFilter, ...clause.filter], facets: attributes };
+      if (clause.attributesToSearchOn) params.attributesToSearchOn = clause.attributesToSearchOn;
+
+      const response = await this.getIndex().search<MeiliDocument>(clause.q, params);
+      return this.toFacets(requested, response.facetDistribution || {}, context.filters);
+    }
+
+    // OR 分支的結果會重疊，欄位後過濾也無法交給索引統計，改為在合併後的候選結果上計數
+    const hits = await this.searchClauses(clauses, baseFilter, {}, this.MAX_CANDIDATES);
+    return this.toFacets(requested, this.countFacets(hits, attributes), context.filters);
   }
 
   async index(documents: IndexDocument[]): Promise<void> {
-    // 模擬Meilisearch索引
-    await new Promise(resolve => (globalThis as any).setTimeout(resolve, 200));
+    if (documents.length === 0) {
+      return;
+    }
+
+    await this.ensureSettings();
+
+    // 重新索引法律文本時替換其全部結構單元
+    const textIds = documents.filter(document => document.type === 'legal_text').map(document => document.id);
+    if (textIds.length > 0) {
+      const task = await this.getIndex().deleteDocuments({ filter: this.parentFilter(textIds) });
+      await this.waitForTask(task.taskUid, 'indexing', documents[0]?.id);
+    }
+
+    const task = await this.getIndex().addDocuments(
+      documents.map(document => this.toMeiliDocument(document)),
+      { primaryKey: 'id' }
+    );
+    await this.waitForTask(task.taskUid, 'indexing', documents[0]?.id);
   }
 
   async updateIndex(documents: IndexDocument[]): Promise<void> {
+    // addDocuments 依主鍵整份替換
     await this.index(documents);
   }
 
   async deleteFromIndex(documentIds: string[]): Promise<void> {
-    // 模擬文檔刪除
-    await new Promise(resolve => (globalThis as any).setTimeout(resolve, 100));
+    if (documentIds.length === 0) {
+      return;
+    }
+
+    // 刪除法律文本時一併刪除其條文和章節，兩個任務都須成功
+    const documentsTask = await this.getIndex().deleteDocuments(documentIds);
+    const unitsTask = await this.getIndex().deleteDocuments({ filter: this.parentFilter(documentIds) });
+
+    await this.waitForTask(documentsTask.taskUid, 'deletion', documentIds[0]);
+    await this.waitForTask(unitsTask.taskUid, 'deletion', documentIds[0]);
+  }
+
+  async listDocumentIds(type: SearchResultType): Promise<string[]> {
+    await this.ensureSettings();
+
+    const ids: string[] = [];
+    for (let offset = 0; ; offset += this.LIST_PAGE_SIZE) {
+      const page = await this.getIndex().getDocuments({
+        fields: ['id'],
+        filter: `type = ${this.quote(type)}`,
+        limit: this.LIST_PAGE_SIZE,
+        offset
+      });
+
+      ids.push(...page.results.map(document => document.id));
+      if (page.results.length < this.LIST_PAGE_SIZE) {
+        return ids;
+      }
+    }
   }
 
   async getStats(): Promise<SearchEngineStats> {
+    const [indexStats, globalStats] = await Promise.all([
+      this.getIndex().getStats(),
+      this.client.getStats()
+    ]);
+
     return {
-      documentCount: 800,
-      indexSize: 30000000, // 30MB
-      lastIndexUpdate: new Date(),
-      averageSearchTime: 50,
-      popularQueries: [
-        { query: '法規', count: 120, avgResultCount: 30 },
-        { query: '條文', count: 95, avgResultCount: 20 }
-      ]
+      documentCount: indexStats.numberOfDocuments,
+      indexSize: globalStats.databaseSize,
+      lastIndexUpdate: globalStats.lastUpdate ? new Date(globalStats.lastUpdate) : new Date(0),
+      averageSearchTime: this.getAverageSearchTime(),
+      popularQueries: []
     };
   }
-} 
\ No newline at end of file
+
+  private async waitForTask(taskUid: number, operation: string, documentId?: string): Promise<void> {
+    const result = await this.client.waitForTask(taskUid, { timeOutMs: this.TASK_TIMEOUT });
+
+    if (result.status !== 'succeeded') {
+      throw new IndexError(
+        `Meilisearch ${operation} failed: ${result.error?.message || `task ${result.status}`}`,
+        documentId
+      );
+    }
+  }
+
+  private parentFilter(textIds: string[]): string {
+    return `parentId IN [${textIds.map(id => this.quote(id)).join(', ')}]`;
+  }
+
+  private getIndex(): Index<MeiliDocument> {
+    return this.client.index<MeiliDocument>(this.indexName);
+  }
+
+  // 更新設定時 Meilisearch 會自動建立索引
+  private ensureSettings(): Promise<void> {
+    if (!this.settingsReady) {
+      this.settingsReady = (async () => {
+        const task = await this.getIndex().updateSettings({
+          searchableAttributes: ['titleZh', 'titlePt', 'unitTitle', 'lawNumber', 'category', 'contentZh', 'contentPt'],
+          filterableAttributes: [
+            'type',
+            'category',
+            'lawNumber',
+            'publicationDate',
+            'isPublic',
+            'wordCount',
+            'languages',
+            'tags',
+            'authorId',
+            'parentId',
+            'aclUserIds',
+            'aclRoles'
+          ],
+          sortableAttributes: ['publicationDate', 'wordCount', 'titleZh', 'category'],
+          displayedAttributes: ['*']
+        });
+        await this.client.waitForTask(task.taskUid, { timeOutMs: this.TASK_TIMEOUT });
+      })().catch(error => {
+        this.settingsReady = null;
+        throw error;
+      });
+    }
+
+    return this.settingsReady;
+  }
+
+  // 語法樹轉為析取範式，每個 AND 分支一個查詢：
+  // 普通詞和短語進入 q（排除詞用 -詞），category 轉為過濾條件，
+  // 其他欄位無法在 q 中表達，由結果後過濾保證
+  private buildClauseQueries(context: SearchContext): ClauseQuery[] {
+    if (!context.queryAst) {
+      return [{ q: '', filter: [], postFilters: [] }];
+    }
+
+    const clauses = toDisjunctiveNormalForm(context.queryAst, this.MAX_CLAUSES);
+    if (!clauses) {
+      throw new QueryError(
+        `Query expands to more than ${this.MAX_CLAUSES} alternatives; simplify the OR groups`,
+        context.originalQuery
+      );
+    }
+
+    return this.expandSynonyms(clauses, context.expansions).map(literals => {
+      const words: string[] = [];
+      const prefixWords: string[] = [];
+      const filter: string[] = [];
+      const postFilters: QueryLiteral[] = [];
+      let titleOnly = true;
+      let hasText = false;
+
+      for (const literal of literals) {
+        const { node, negated } = literal;
+        const token = node.type === 'phrase' ? `"${node.value.replace(/"/g, '')}"` : node.value;
+
+        if (node.field === 'category' && !(node.type === 'term' && node.prefix)) {
+          filter.push(`category ${negated ? '!=' : '='} ${this.quote(node.value)}`);
+          continue;
+        }
+
+        if (node.field && node.field !== 'title') {
+          // 法律編號同時放入 q 以縮小候選範圍
+          if (node.field === 'lawNumber' && !negated) {
+            words.push(`"${node.value.replace(/"/g, '')}"`);
+            titleOnly = false;
+            hasText = true;
+          }
+          postFilters.push(literal);
+          continue;
+        }
+
+        if (negated) {
+          if (node.field === 'title') {
+            postFilters.push(literal);
+          } else {
+            words.push(`-${token}`);
+          }
+          continue;
+        }
+
+        hasText = true;
+        if (node.field === 'title') {
+          postFilters.push(literal);
+        } else {
+          titleOnly = false;
+        }
+
+        // Meilisearch 只對最後一個詞做前綴匹配
+        if (node.type === 'term' && node.prefix) {
+          prefixWords.push(token);
+        } else {
+          words.push(token);
+        }
+      }
+
+      const clause: ClauseQuery = { q: [...words, ...prefixWords].join(' '), filter, postFilters };
+      if (hasText && titleOnly) {
+        clause.attributesToSearchOn = TITLE_ATTRIBUTES;
+      }
+
+      return clause;
+    });
+  }
+
+  /**
+   * q 不支持 OR，同義詞擴展為額外的分支：檢索詞的每個擴展詞生成一個分支，
+   * 排除詞則連同擴展詞一併排除。前綴詞和其他欄位不擴展，與 PostgreSQL 引擎一致。
+   * 原分支優先，擴展後超過分支上限時捨棄多出的擴展分支。
+   */
+  private expandSynonyms(clauses: QueryLiteral[][], expansions: QueryExpansion[] = []): QueryLiteral[][] {
+    if (expansions.length === 0) {
+      return clauses;
+    }
+
+    const extraClauses: QueryLiteral[][] = [];
+    const expandedClauses = clauses.map(clause => {
+      let variants: QueryLiteral[][] = [[]];
+
+      for (const literal of clause) {
+        const { node, negated } = literal;
+        const expandable = (!node.field || node.field === 'title') && !(node.type === 'term' && node.prefix);
+        const alternatives = (expandable ? expandTermValue(node.value, expansions) : [node.value])
+          .map(value => (value === node.value ? literal : { node: { ...node, value }, negated }));
+
+        variants = negated
+          ? variants.map(variant => [...variant, ...alternatives])
+          : variants.flatMap(variant => alternatives.map(alternative => [...variant, alternative]));
+      }
+
+      extraClauses.push(...variants.slice(1));
+      return variants[0] ?? clause;
+    });
+
+    return [...expandedClauses, ...extraClauses].slice(0, Math.max(clauses.length, this.MAX_CLAUSES));
+  }
+
+  // 每個分支一個查詢，套用欄位後過濾後合併：同一文檔取最高分
+  private async searchClauses(
+    clauses: ClauseQuery[],
+    baseFilter: string[],
+    params: SearchParams,
+    limit: number
+  ): Promise<Array<Hit<MeiliDocument>>> {
+    // 欄位後過濾需要更多候選結果
+    const queries: MultiSearchQuery[] = clauses.map(clause => {
+      const query: MultiSearchQuery = {
+        ...params,
+        indexUid: this.indexName,
+        q: clause.q,
+        filter: [...baseFilter, ...clause.filter],
+        limit: clause.postFilters.length > 0 ? this.MAX_CANDIDATES : limit,
+        offset: 0
+      };
+      if (clause.attributesToSearchOn) query.attributesToSearchOn = clause.attributesToSearchOn;
+      return query;
+    });
+
+    const response = await this.client.multiSearch<MeiliDocument>({ queries });
+
+    const hits = new Map<string, Hit<MeiliDocument>>();
+    response.results.forEach((result, index) => {
+      const postFilters = clauses[index]?.postFilters || [];
+
+      for (const hit of result.hits as Hit<MeiliDocument>[]) {
+        if (!postFilters.every(literal => this.matchesLiteral(hit, literal))) continue;
+
+        const existing = hits.get(hit.id);
+        if (!existing || (hit._rankingScore ?? 0) > (existing._rankingScore ?? 0)) {
+          hits.set(hit.id, hit);
+        }
+      }
+    });
+
+    return Array.from(hits.values());
+  }
+
+  private countFacets(hits: Array<Hit<MeiliDocument>>, attributes: string[]): FacetDistribution {
+    const distribution: FacetDistribution = {};
+
+    for (const attribute of attributes) {
+      const counts: Record<string, number> = {};
+      for (const hit of hits) {
+        const value = hit[attribute as keyof MeiliDocument];
+        const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+        for (const item of new Set(values.map(String))) {
+          counts[item] = (counts[item] || 0) + 1;
+        }
+      }
+      distribution[attribute] = counts;
+    }
+
+    return distribution;
+  }
+
+  private matchesLiteral(hit: Hit<MeiliDocument>, literal: QueryLiteral): boolean {
+    const { node, negated } = literal;
+    const value = node.value.toLowerCase();
+    const prefix = node.type === 'term' && node.prefix === true;
+    let matches: boolean;
+
+    switch (node.field) {
+      case 'title':
+        matches = [hit.titleZh, hit.titlePt].some(title => title?.toLowerCase().includes(value));
+        break;
+      case 'lawNumber':
+        matches = prefix
+          ? hit.lawNumber?.toLowerCase().startsWith(value) ?? false
+          : hit.lawNumber?.toLowerCase().includes(value) ?? false;
+        break;
+      case 'category':
+        matches = prefix
+          ? hit.category?.toLowerCase().startsWith(value) ?? false
+          : hit.category?.toLowerCase() === value;
+        break;
+      case 'article': {
+        const pattern = new RegExp(buildArticlePattern(node.value), 'i');
+        matches = [hit.contentZh, hit.contentPt].some(content => content !== undefined && pattern.test(content));
+        break;
+      }
+      default:
+        matches = true;
+    }
+
+    return negated ? !matches : matches;
+  }
+
+  private buildFilter(context: SearchContext): string[] {
+    const { filters } = context;
+    const conditions: string[] = [];
+
+    // 只指定本引擎時不能靜默忽略批註過濾
+    if (filters.hasAnnotations !== undefined) {
+      throw new QueryError(
+        'The hasAnnotations filter is not supported by the Meilisearch engine',
+        context.originalQuery
+      );
+    }
+
+    if (filters.resultTypes && filters.resultTypes.length > 0) {
+      conditions.push(`type IN [${filters.resultTypes.map(type => this.quote(type)).join(', ')}]`);
+    }
+
+    if (filters.category) {
+      conditions.push(`category = ${this.quote(filters.category)}`);
+    }
+
+    if (filters.lawNumber) {
+      conditions.push(`lawNumber = ${this.quote(filters.lawNumber)}`);
+    }
+
+    if (filters.isPublic !== undefined) {
+      conditions.push(`isPublic = ${filters.isPublic}`);
+    }
+
+    // 公開文本，或 ACL 包含當前用戶/角色的非公開文本
+    if (filters.access) {
+      const grants = ['isPublic = true'];
+      if (filters.access.userId) grants.push(`aclUserIds = ${this.quote(filters.access.userId)}`);
+      if (filters.access.roles.length > 0) {
+        grants.push(`aclRoles IN [${filters.access.roles.map(role => this.quote(role)).join(', ')}]`);
+      }
+      conditions.push(`(${grants.join(' OR ')})`);
+    }
+
+    if (filters.language && filters.language !== 'en') {
+      conditions.push(`languages = ${this.quote(filters.language)}`);
+    }
+
+    if (filters.publicationDate?.start) {
+      conditions.push(`publicationDate >= ${this.toTimestamp(filters.publicationDate.start)}`);
+    }
+
+    if (filters.publicationDate?.end) {
+      conditions.push(`publicationDate <= ${this.toTimestamp(filters.publicationDate.end)}`);
+    }
+
+    if (filters.textLength?.min !== undefined) {
+      conditions.push(`wordCount >= ${filters.textLength.min}`);
+    }
+
+    if (filters.textLength?.max !== undefined) {
+      conditions.push(`wordCount <= ${filters.textLength.max}`);
+    }
+
+    return conditions;
+  }
+
+  private buildSort(sortBy?: SortOption[]): string[] {
+    return (sortBy || [])
+      .filter(sort => SORT_FIELDS[sort.field])
+      .map(sort => `${SORT_FIELDS[sort.field]}:${sort.direction}`);
+  }
+
+  private toFacets(
+    requested: string[],
+    distribution: FacetDistribution,
+    filters: SearchFilters
+  ): SearchFacet[] {
+    const selectedValues: Record<string, string | undefined> = {
+      category: filters.category,
+      lawNumber: filters.lawNumber,
+      language: filters.language,
+      isPublic: filters.isPublic === undefined ? undefined : String(filters.isPublic)
+    };
+
+    return requested.map(facet => {
+      const counts = distribution[FACET_FIELDS[facet] as string] || {};
+
+      return {
+        field: facet,
+        values: Object.entries(counts)
+          .map(([value, count]) => ({
+            value,
+            count,
+            selected: selectedValues[facet] === value
+          }))
+          .sort((a, b) => b.count - a.count)
+      };
+    });
+  }
+
+  private toMeiliDocument(document: IndexDocument): MeiliDocument {
+    const meiliDocument: MeiliDocument = {
+      id: document.id,
+      type: document.type,
+      languages: Object.keys(document.content).filter(
+        language => document.content[language as 'zh' | 'pt']
+      ),
+      tags: document.metadata.tags || [],
+      wordCount: document.metadata.wordCount || 0,
+      isPublic: document.metadata.isPublic ?? false,
+      aclUserIds: document.metadata.acl?.userIds || [],
+      aclRoles: document.metadata.acl?.roles || [],
+      searchableText: document.searchableText,
+      lastUpdated: this.toTimestamp(document.lastUpdated)
+    };
+
+    if (document.title.zh) meiliDocument.titleZh = document.title.zh;
+    if (document.title.pt) meiliDocument.titlePt = document.title.pt;
+    if (document.content.zh) meiliDocument.contentZh = document.content.zh.text;
+    if (document.content.pt) meiliDocument.contentPt = document.content.pt.text;
+    if (document.metadata.lawNumber) meiliDocument.lawNumber = document.metadata.lawNumber;
+    if (document.metadata.category) meiliDocument.category = document.metadata.category;
+    if (document.metadata.authorId) meiliDocument.authorId = document.metadata.authorId;
+    if (document.metadata.publicationDate) {
+      meiliDocument.publicationDate = this.toTimestamp(document.metadata.publicationDate);
+    }
+    if (document.location) {
+      meiliDocument.parentId = document.location.textId;
+      meiliDocument.unitTitle = document.location.title;
+      meiliDocument.chapterPath = document.location.chapterPath;
+      meiliDocument.startOffset = document.location.startOffset;
+      meiliDocument.endOffset = document.location.endOffset;
+      meiliDocument.unitLanguage = document.location.language;
+      if (document.location.articleNumber) meiliDocument.articleNumber = document.location.articleNumber;
+    }
+
+    return meiliDocument;
+  }
+
+  private toResultItem(hit: Hit<MeiliDocument>, options?: SearchOptions): SearchResultItem {
+    const formatted = hit._formatted || {};
+    const item: SearchResultItem = {
+      id: hit.id,
+      type: hit.type,
+      title: {},
+      snippet: {},
+      score: hit._rankingScore ?? 0,
+      metadata: {
+        wordCount: hit.wordCount,
+        tags: hit.tags,
+        isPublic: hit.isPublic
+      },
+      url: `/texts/${hit.id}`
+    };
+
+    if (hit.titleZh) item.title.zh = hit.titleZh;
+    if (hit.titlePt) item.title.pt = hit.titlePt;
+    if (hit.category) item.metadata.category = hit.category;
+    if (hit.lawNumber) item.metadata.lawNumber = hit.lawNumber;
+    if (hit.authorId) item.metadata.author = hit.authorId;
+    if (hit.languages[0]) item.metadata.language = hit.languages[0];
+    if (hit.publicationDate !== undefined) {
+      item.metadata.publicationDate = new Date(hit.publicationDate * 1000);
+    }
+
+    const location = this.toLocation(hit);
+    if (location && (hit.type === 'article' || hit.type === 'chapter')) {
+      item.location = location;
+      item.url = buildLocationUrl(location, hit.type, hit.id.split(':').pop() || hit.id);
+    }
+
+    if (options?.includeSnippets !== false) {
+      if (formatted.contentZh) item.snippet.zh = String(formatted.contentZh);
+      if (formatted.contentPt) item.snippet.pt = String(formatted.contentPt);
+    }
+
+    if (options?.highlightMatches !== false) {
+      const highlights = this.toHighlights(hit, location);
+      if (highlights.length > 0) {
+        item.highlights = highlights;
+      }
+    }
+
+    return item;
+  }
+
+  // _matchesPosition 以 UTF-8 位元組計算，需轉換為字符偏移量
+  // 結構單元的正文高亮換算為父文本中的偏移量
+  private toHighlights(hit: Hit<MeiliDocument>, location: StructuralLocation | null): Highlight[] {
+    const highlights: Highlight[] = [];
+    const positions = hit._matchesPosition || {};
+
+    for (const { attribute, field } of HIGHLIGHT_FIELDS) {
+      const value = hit[attribute];
+      const matches = positions[attribute];
+      if (typeof value !== 'string' || !matches) continue;
+
+      const baseOffset = location && field === `content.${location.language}` ? location.startOffset : 0;
+
+      const bytes = Buffer.from(value, 'utf8');
+      for (const match of matches) {
+        const start = bytes.subarray(0, match.start).toString('utf8').length;
+        const text = bytes.subarray(match.start, match.start + match.length).toString('utf8');
+        highlights.push({ field, text, start: baseOffset + start, end: baseOffset + start + text.length });
+      }
+    }
+
+    return highlights;
+  }
+
+  private toLocation(hit: Hit<MeiliDocument>): StructuralLocation | null {
+    if (!hit.parentId || hit.startOffset === undefined || hit.endOffset === undefined) {
+      return null;
+    }
+
+    const location: StructuralLocation = {
+      textId: hit.parentId,
+      title: hit.unitTitle || '',
+      chapterPath: hit.chapterPath || [],
+      startOffset: hit.startOffset,
+      endOffset: hit.endOffset,
+      language: hit.unitLanguage || 'zh'
+    };
+    if (hit.articleNumber) location.articleNumber = hit.articleNumber;
+
+    return location;
+  }
+
+  private quote(value: string): string {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  }
+
+  private toTimestamp(date: Date): number {
+    return Math.floor(new Date(date).getTime() / 1000);
+  }
+
+  private recordSearchTime(duration: number): void {
+    this.searchTimes.push(duration);
+    if (this.searchTimes.length > 100) {
+      this.searchTimes.shift();
+    }
+  }
+
+  private getAverageSearchTime(): number {
+    if (this.searchTimes.length === 0) return 0;
+    return this.searchTimes.reduce((sum, time) => sum + time, 0) / this.searchTimes.length;
+  }
+}
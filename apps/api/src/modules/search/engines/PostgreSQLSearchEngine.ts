@@ -1,40 +1,163 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../../config/database';
 import {
   SearchEngine,
   SearchContext,
   SearchOptions,
   SearchResultItem,
+  SearchFilters,
+  Highlight,
   IndexDocument,
-  SearchEngineStats
+  SearchEngineStats,
+  SearchResultType,
+  StructuralLocation,
+  QueryNode,
+  TermNode,
+  PhraseNode,
+  IndexError
 } from '../../../shared/types/search.types';
+import {
+  collectPositiveTerms,
+  expandTermValue,
+  buildArticlePattern,
+  escapeRegex
+} from '../utils/queryAst';
+import { buildLocationUrl } from '../utils/structuralUnits';
+import { legalTextMetadataExpression, bodyVectorExpression } from '../utils/searchIndexes';
+
+interface SearchRow {
+  id: string;
+  type: string;
+  parent_id: string | null;
+  unit_title: string | null;
+  article_number: string | null;
+  chapter_path: string[] | null;
+  start_offset: number | null;
+  end_offset: number | null;
+  unit_language: string | null;
+  title_zh: string;
+  title_pt: string | null;
+  law_number: string | null;
+  category: string | null;
+  publication_date: Date | null;
+  is_public: boolean;
+  content_zh: string | null;
+  content_pt: string | null;
+  word_count: number;
+  score: number;
+}
+
+interface TranslatedNode {
+  condition: Prisma.Sql;
+  score: Prisma.Sql;
+}
+
+// 表達式與遷移中的索引共用同一定義；條文、章節標題在 search_documents 上單獨匹配
+const LEGAL_TEXT_METADATA = Prisma.raw(legalTextMetadataExpression('lt'));
+const UNIT_TITLE = Prisma.sql`sd.title`;
+const BODY_VECTOR = Prisma.raw(bodyVectorExpression('sd'));
+const HAN_PATTERN = /\p{Script=Han}/u;
 
 export class PostgreSQLSearchEngine implements SearchEngine {
+  private readonly MAX_CANDIDATES = 200;
+  private readonly SNIPPET_BEFORE = 60;
+  private readonly SNIPPET_AFTER = 140;
+  private readonly MAX_HIGHLIGHTS = 10;
+
+  private searchTimes: number[] = [];
+
   async search(context: SearchContext, options?: SearchOptions): Promise<SearchResultItem[]> {
-    // 模擬PostgreSQL全文搜索
-    const mockResults: SearchResultItem[] = [
-      {
-        id: 'pg_result_1',
-        type: 'legal_text',
-        title: { zh: `搜索結果：${context.normalizedQuery}` },
-        snippet: { zh: `包含 "${context.normalizedQuery}" 的法律條文內容...` },
-        score: 0.85,
-        metadata: {
-          category: '法律',
-          publicationDate: new Date('2023-01-01'),
-          wordCount: 1500,
-          language: 'zh'
-        }
-      }
-    ];
+    const startTime = Date.now();
 
-    return mockResults.filter(result => 
-      result.title.zh?.includes(context.normalizedQuery) ||
-      result.snippet.zh?.includes(context.normalizedQuery)
-    );
+    if (!context.queryAst) {
+      return [];
+    }
+
+    const limit = Math.min((options?.offset || 0) + (options?.limit || 20), this.MAX_CANDIDATES);
+    const { condition, score } = this.translate(context.queryAst, context);
+
+    const rows = await prisma.$queryRaw<SearchRow[]>`
+      SELECT
+        sd.id,
+        sd.type,
+        sd.parent_id,
+        sd.title AS unit_title,
+        sd.article_number,
+        sd.chapter_path,
+        sd.start_offset,
+        sd.end_offset,
+        sd.language AS unit_language,
+        lt.title_zh,
+        lt.title_pt,
+        lt.law_number,
+        lt.category,
+        lt.publication_date,
+        lt.is_public,
+        sd.content_zh,
+        sd.content_pt,
+        sd.word_count,
+        (${score})::float AS score
+      FROM search_documents sd
+      JOIN legal_texts lt ON lt.id = coalesce(sd.parent_id, sd.id)
+      WHERE (${condition})
+        ${this.buildFilterClause(context.filters)}
+      ORDER BY score DESC, lt.publication_date DESC NULLS LAST
+      LIMIT ${limit}
+    `;
+
+    this.recordSearchTime(Date.now() - startTime);
+
+    const terms = this.collectTerms(context);
+    const maxScore = rows.reduce((max, row) => Math.max(max, Number(row.score)), 0);
+
+    return rows.map(row => this.toResultItem(row, terms, maxScore, options));
   }
 
   async index(documents: IndexDocument[]): Promise<void> {
-    // 模擬索引更新
-    await new Promise(resolve => (globalThis as any).setTimeout(resolve, 100));
+    if (documents.length === 0) {
+      return;
+    }
+
+    // 重新索引法律文本時，先移除本批次未包含的舊結構單元
+    const textIds = documents.filter(document => document.type === 'legal_text').map(document => document.id);
+    const unitIds = documents.filter(document => document.location).map(document => document.id);
+
+    try {
+      await prisma.$transaction([
+        ...(textIds.length > 0
+          ? [prisma.searchDocument.deleteMany({ where: { parentId: { in: textIds }, id: { notIn: unitIds } } })]
+          : []),
+        ...documents.map(document => {
+          const data = {
+            type: document.type,
+            parentId: document.location?.textId ?? null,
+            title: document.location?.title ?? null,
+            articleNumber: document.location?.articleNumber ?? null,
+            chapterPath: document.location?.chapterPath ?? [],
+            startOffset: document.location?.startOffset ?? null,
+            endOffset: document.location?.endOffset ?? null,
+            language: document.location?.language ?? null,
+            aclUserIds: document.metadata.acl?.userIds ?? [],
+            aclRoles: document.metadata.acl?.roles ?? [],
+            contentZh: document.content.zh?.text ?? null,
+            contentPt: document.content.pt?.text ?? null,
+            searchableText: document.searchableText,
+            wordCount: document.metadata.wordCount || 0
+          };
+
+          return prisma.searchDocument.upsert({
+            where: { id: document.id },
+            create: { id: document.id, ...data },
+            update: data
+          });
+        })
+      ]);
+    } catch (error) {
+      throw new IndexError(
+        `PostgreSQL indexing failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        documents[0]?.id
+      );
+    }
   }
 
   async updateIndex(documents: IndexDocument[]): Promise<void> {
@@ -42,20 +165,365 @@ export class PostgreSQLSearchEngine implements SearchEngine {
   }
 
   async deleteFromIndex(documentIds: string[]): Promise<void> {
-    // 模擬索引刪除
-    await new Promise(resolve => (globalThis as any).setTimeout(resolve, 50));
+    if (documentIds.length === 0) {
+      return;
+    }
+
+    // 刪除法律文本時一併刪除其條文和章節
+    await prisma.searchDocument.deleteMany({
+      where: {
+        OR: [
+          { id: { in: documentIds } },
+          { parentId: { in: documentIds } }
+        ]
+      }
+    });
+  }
+
+  async listDocumentIds(type: SearchResultType): Promise<string[]> {
+    const documents = await prisma.searchDocument.findMany({
+      where: { type },
+      select: { id: true }
+    });
+
+    return documents.map(document => document.id);
   }
 
   async getStats(): Promise<SearchEngineStats> {
+    const [documentCount, sizeRows, latest] = await Promise.all([
+      prisma.searchDocument.count(),
+      prisma.$queryRaw<Array<{ size: bigint }>>`SELECT pg_total_relation_size('search_documents') AS size`,
+      prisma.searchDocument.aggregate({ _max: { updatedAt: true } })
+    ]);
+
+    return {
+      documentCount,
+      indexSize: Number(sizeRows[0]?.size ?? 0),
+      lastIndexUpdate: latest._max.updatedAt || new Date(0),
+      averageSearchTime: this.getAverageSearchTime(),
+      popularQueries: []
+    };
+  }
+
+  // 語法樹轉為 WHERE 條件及評分表達式；AND 累加分數，OR 取最大值，NOT 不計分
+  private translate(node: QueryNode, context: SearchContext): TranslatedNode {
+    switch (node.type) {
+      case 'term':
+      case 'phrase':
+        return node.field ? this.translateField(node) : this.translateText(node, context);
+
+      case 'not':
+        return {
+          condition: Prisma.sql`NOT (${this.translate(node.child, context).condition})`,
+          score: Prisma.sql`0`
+        };
+
+      default: {
+        const children = node.children.map(child => this.translate(child, context));
+        const conditions = children.map(child => Prisma.sql`(${child.condition})`);
+        const scores = children.map(child => child.score);
+
+        return node.type === 'and'
+          ? { condition: Prisma.join(conditions, ' AND '), score: Prisma.sql`(${Prisma.join(scores, ' + ')})` }
+          : { condition: Prisma.join(conditions, ' OR '), score: Prisma.sql`GREATEST(${Prisma.join(scores, ', ')})` };
+      }
+    }
+  }
+
+  // 葡文走 tsvector，中文依賴 pg_trgm 的 ILIKE / word_similarity
+  private translateText(node: TermNode | PhraseNode, context: SearchContext): TranslatedNode {
+    const values = node.type === 'term' && node.prefix
+      ? [node.value]
+      : expandTermValue(node.value, context.expansions);
+
+    const translated = values.map(value => {
+      const tsQuery = this.buildTsQuery(node, value);
+      const textCondition = this.buildTextMatch(node, value, Prisma.sql`sd.searchable_text`);
+      const metadataCondition = Prisma.sql`(${this.buildTextMatch(node, value, LEGAL_TEXT_METADATA)} OR ${this.buildTextMatch(node, value, UNIT_TITLE)})`;
+
+      return {
+        condition: Prisma.sql`(${BODY_VECTOR} @@ ${tsQuery} OR ${textCondition} OR ${metadataCondition})`,
+        score: Prisma.sql`(
+          ts_rank_cd(${BODY_VECTOR}, ${tsQuery})
+          + word_similarity(${value}, sd.searchable_text)
+          + CASE WHEN ${metadataCondition} THEN 0.5 ELSE 0 END
+        )`
+      };
+    });
+
+    if (translated.length === 1) {
+      return translated[0] as TranslatedNode;
+    }
+
     return {
-      documentCount: 1000,
-      indexSize: 50000000, // 50MB
-      lastIndexUpdate: new Date(),
-      averageSearchTime: 120,
-      popularQueries: [
-        { query: '法律', count: 100, avgResultCount: 25 },
-        { query: '規定', count: 80, avgResultCount: 15 }
-      ]
+      condition: Prisma.join(translated.map(item => item.condition), ' OR '),
+      score: Prisma.sql`GREATEST(${Prisma.join(translated.map(item => item.score), ', ')})`
     };
   }
-} 
\ No newline at end of file
+
+  private translateField(node: TermNode | PhraseNode): TranslatedNode {
+    switch (node.field) {
+      case 'title':
+        return {
+          condition: this.buildTextMatch(node, node.value, Prisma.sql`(coalesce(lt.title_zh, '') || ' ' || coalesce(lt.title_pt, ''))`),
+          score: Prisma.sql`1`
+        };
+
+      case 'lawNumber':
+        return {
+          condition: node.type === 'term' && node.prefix
+            ? Prisma.sql`lt.law_number ILIKE ${this.escapeLike(node.value) + '%'}`
+            : Prisma.sql`lt.law_number ILIKE ${this.toLikePattern(node.value)}`,
+          score: Prisma.sql`1`
+        };
+
+      case 'category':
+        return {
+          condition: Prisma.sql`lt.category ILIKE ${this.escapeLike(node.value) + (node.type === 'term' && node.prefix ? '%' : '')}`,
+          score: Prisma.sql`0.5`
+        };
+
+      default:
+        return {
+          condition: Prisma.sql`sd.searchable_text ~* ${buildArticlePattern(node.value)}`,
+          score: Prisma.sql`1`
+        };
+    }
+  }
+
+  // 前綴詞：葡文按詞首匹配，中文無詞界按子串匹配；短語和普通詞按子串匹配
+  private buildTextMatch(node: TermNode | PhraseNode, value: string, column: Prisma.Sql): Prisma.Sql {
+    if (node.type === 'term' && node.prefix && !HAN_PATTERN.test(value)) {
+      return Prisma.sql`${column} ~* ${'\\m' + escapeRegex(value)}`;
+    }
+
+    return Prisma.sql`${column} ILIKE ${this.toLikePattern(value)}`;
+  }
+
+  private buildTsQuery(node: TermNode | PhraseNode, value: string): Prisma.Sql {
+    if (node.type === 'phrase') {
+      return Prisma.sql`phraseto_tsquery('portuguese', ${value})`;
+    }
+
+    if (node.prefix) {
+      const lexeme = value.replace(/[^\p{L}\p{N}]/gu, '');
+      return lexeme
+        ? Prisma.sql`to_tsquery('portuguese', ${lexeme + ':*'})`
+        : Prisma.sql`''::tsquery`;
+    }
+
+    return Prisma.sql`plainto_tsquery('portuguese', ${value})`;
+  }
+
+  // 高亮和片段使用的詞：非排除詞及其同義詞擴展
+  private collectTerms(context: SearchContext): string[] {
+    const terms = collectPositiveTerms(context.queryAst)
+      .flatMap(term => expandTermValue(term, context.expansions))
+      .map(term => term.trim())
+      .filter(term => term.length > 0);
+
+    return [...new Set(terms)];
+  }
+
+  private buildFilterClause(filters: SearchFilters): Prisma.Sql {
+    const conditions: Prisma.Sql[] = [];
+
+    if (filters.resultTypes && filters.resultTypes.length > 0) {
+      conditions.push(Prisma.sql`sd.type IN (${Prisma.join(filters.resultTypes)})`);
+    }
+
+    if (filters.category) {
+      conditions.push(Prisma.sql`lt.category = ${filters.category}`);
+    }
+
+    if (filters.publicationDate?.start) {
+      conditions.push(Prisma.sql`lt.publication_date >= ${filters.publicationDate.start}`);
+    }
+
+    if (filters.publicationDate?.end) {
+      conditions.push(Prisma.sql`lt.publication_date <= ${filters.publicationDate.end}`);
+    }
+
+    if (filters.lawNumber) {
+      conditions.push(Prisma.sql`lt.law_number ILIKE ${this.toLikePattern(filters.lawNumber)}`);
+    }
+
+    if (filters.isPublic !== undefined) {
+      conditions.push(Prisma.sql`lt.is_public = ${filters.isPublic}`);
+    }
+
+    // 公開文本，或 ACL 包含當前用戶/角色的非公開文本
+    if (filters.access) {
+      const roles = filters.access.roles.length > 0
+        ? Prisma.sql`sd.acl_roles && ARRAY[${Prisma.join(filters.access.roles)}]::text[]`
+        : Prisma.sql`false`;
+      const user = filters.access.userId
+        ? Prisma.sql`${filters.access.userId} = ANY(sd.acl_user_ids)`
+        : Prisma.sql`false`;
+      conditions.push(Prisma.sql`(lt.is_public OR ${user} OR ${roles})`);
+    }
+
+    if (filters.textLength?.min !== undefined) {
+      conditions.push(Prisma.sql`sd.word_count >= ${filters.textLength.min}`);
+    }
+
+    if (filters.textLength?.max !== undefined) {
+      conditions.push(Prisma.sql`sd.word_count <= ${filters.textLength.max}`);
+    }
+
+    if (filters.language === 'zh') {
+      conditions.push(Prisma.sql`sd.content_zh IS NOT NULL`);
+    } else if (filters.language === 'pt') {
+      conditions.push(Prisma.sql`sd.content_pt IS NOT NULL`);
+    }
+
+    if (filters.hasAnnotations !== undefined) {
+      const exists = Prisma.sql`EXISTS (SELECT 1 FROM annotations a WHERE a.text_id = lt.id)`;
+      conditions.push(filters.hasAnnotations ? exists : Prisma.sql`NOT ${exists}`);
+    }
+
+    if (conditions.length === 0) {
+      return Prisma.empty;
+    }
+
+    return Prisma.sql`AND ${Prisma.join(conditions, ' AND ')}`;
+  }
+
+  private toResultItem(
+    row: SearchRow,
+    terms: string[],
+    maxScore: number,
+    options?: SearchOptions
+  ): SearchResultItem {
+    const item: SearchResultItem = {
+      id: row.id,
+      type: 'legal_text',
+      title: { zh: row.title_zh },
+      snippet: {},
+      score: maxScore > 0 ? Number(row.score) / maxScore : 0,
+      metadata: {
+        wordCount: row.word_count,
+        language: row.content_zh ? 'zh' : 'pt',
+        isPublic: row.is_public
+      },
+      url: `/texts/${row.id}`
+    };
+
+    const location = this.toLocation(row);
+    if (location) {
+      item.type = row.type as 'article' | 'chapter';
+      item.location = location;
+      item.url = buildLocationUrl(location, item.type, row.id.split(':').pop() || row.id);
+    }
+
+    if (row.title_pt) item.title.pt = row.title_pt;
+    if (row.category) item.metadata.category = row.category;
+    if (row.law_number) item.metadata.lawNumber = row.law_number;
+    if (row.publication_date) item.metadata.publicationDate = row.publication_date;
+
+    const highlights: Highlight[] = [];
+
+    if (options?.includeSnippets !== false) {
+      if (row.content_zh) {
+        item.snippet.zh = this.buildSnippet(row.content_zh, terms);
+      }
+      if (row.content_pt) {
+        item.snippet.pt = this.buildSnippet(row.content_pt, terms);
+      }
+    }
+
+    if (options?.highlightMatches !== false) {
+      highlights.push(...this.findHighlights('title.zh', row.title_zh, terms));
+      if (row.title_pt) highlights.push(...this.findHighlights('title.pt', row.title_pt, terms));
+      // 結構單元的正文高亮換算為父文本中的偏移量
+      const zhBase = location?.language === 'zh' ? location.startOffset : 0;
+      const ptBase = location?.language === 'pt' ? location.startOffset : 0;
+      if (row.content_zh) highlights.push(...this.findHighlights('content.zh', row.content_zh, terms, zhBase));
+      if (row.content_pt) highlights.push(...this.findHighlights('content.pt', row.content_pt, terms, ptBase));
+
+      if (highlights.length > 0) {
+        item.highlights = highlights.slice(0, this.MAX_HIGHLIGHTS);
+      }
+    }
+
+    return item;
+  }
+
+  private toLocation(row: SearchRow): StructuralLocation | null {
+    if (!row.parent_id || row.start_offset === null || row.end_offset === null) {
+      return null;
+    }
+
+    const location: StructuralLocation = {
+      textId: row.parent_id,
+      title: row.unit_title || '',
+      chapterPath: row.chapter_path || [],
+      startOffset: row.start_offset,
+      endOffset: row.end_offset,
+      language: row.unit_language === 'pt' ? 'pt' : 'zh'
+    };
+    if (row.article_number) location.articleNumber = row.article_number;
+
+    return location;
+  }
+
+  private buildSnippet(content: string, terms: string[]): string {
+    const lowerContent = content.toLowerCase();
+    let matchIndex = -1;
+
+    for (const term of terms) {
+      const index = lowerContent.indexOf(term.toLowerCase());
+      if (index !== -1 && (matchIndex === -1 || index < matchIndex)) {
+        matchIndex = index;
+      }
+    }
+
+    const start = matchIndex === -1 ? 0 : Math.max(0, matchIndex - this.SNIPPET_BEFORE);
+    const end = Math.min(content.length, (matchIndex === -1 ? 0 : matchIndex) + this.SNIPPET_AFTER);
+
+    return `${start > 0 ? '...' : ''}${content.slice(start, end).trim()}${end < content.length ? '...' : ''}`;
+  }
+
+  // 偏移量相對於對應欄位的完整文本
+  private findHighlights(field: string, content: string, terms: string[], baseOffset = 0): Highlight[] {
+    const highlights: Highlight[] = [];
+    const lowerContent = content.toLowerCase();
+
+    for (const term of terms) {
+      const lowerTerm = term.toLowerCase();
+      let index = lowerContent.indexOf(lowerTerm);
+
+      while (index !== -1 && highlights.length < this.MAX_HIGHLIGHTS) {
+        highlights.push({
+          field,
+          text: content.slice(index, index + term.length),
+          start: baseOffset + index,
+          end: baseOffset + index + term.length
+        });
+        index = lowerContent.indexOf(lowerTerm, index + term.length);
+      }
+    }
+
+    return highlights.sort((a, b) => a.start - b.start);
+  }
+
+  private toLikePattern(term: string): string {
+    return `%${this.escapeLike(term)}%`;
+  }
+
+  private escapeLike(term: string): string {
+    return term.replace(/[\\%_]/g, '\\$&');
+  }
+
+  private recordSearchTime(duration: number): void {
+    this.searchTimes.push(duration);
+    if (this.searchTimes.length > 100) {
+      this.searchTimes.shift();
+    }
+  }
+
+  private getAverageSearchTime(): number {
+    if (this.searchTimes.length === 0) return 0;
+    return this.searchTimes.reduce((sum, time) => sum + time, 0) / this.searchTimes.length;
+  }
+}
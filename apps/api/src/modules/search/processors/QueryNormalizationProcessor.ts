@@ -1,18 +1,25 @@
 import { SearchProcessor, SearchContext } from '../../../shared/types/search.types';
+import { QueryParser } from '../utils/QueryParser';
+import { collectPositiveTerms } from '../utils/queryAst';
 
 export class QueryNormalizationProcessor implements SearchProcessor {
+  private parser = new QueryParser();
+
   async process(context: SearchContext): Promise<SearchContext> {
-    // 標準化查詢文本
-    context.normalizedQuery = this.normalizeQuery(context.originalQuery);
-    
+    // 解析查詢語法，語法錯誤時拋出 QueryError
+    context.queryAst = this.parser.parse(this.normalizeQuery(context.originalQuery));
+
+    // 純文本形式供語言檢測、同義詞擴展和評分使用
+    context.normalizedQuery = collectPositiveTerms(context.queryAst).join(' ').toLowerCase();
+
     return context;
   }
 
+  // 全形字符轉半形（如「：」「（」），保留引號、減號和法律編號中的標點
   private normalizeQuery(query: string): string {
     return query
+      .normalize('NFKC')
       .trim()
-      .toLowerCase()
-      .replace(/\s+/g, ' ')
-      .replace(/[^\w\u4e00-\u9fff\s]/g, '');
+      .replace(/\s+/g, ' ');
   }
-} 
\ No newline at end of file
+}
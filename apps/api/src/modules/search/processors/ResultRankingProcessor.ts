@@ -1,38 +1,151 @@
-import { SearchProcessor, SearchContext } from '../../../shared/types/search.types';
+import { prisma } from '../../../config/database';
+import {
+  SearchProcessor,
+  SearchContext,
+  SearchResultItem,
+  ScoringConfig,
+  RelevanceScore
+} from '../../../shared/types/search.types';
+import { ScoringConfigService } from '../services/ScoringConfigService';
 
+// 在引擎檢索之後執行：依 ScoringConfig 重新計算相關性
 export class ResultRankingProcessor implements SearchProcessor {
+  private readonly DATE_DECAY_YEARS = 5;
+  private readonly RECENT_DAYS = 365;
+
+  constructor(private scoringConfigService: ScoringConfigService = new ScoringConfigService()) {}
+
   async process(context: SearchContext): Promise<SearchContext> {
-    // 對結果進行重新排序和評分
-    if (context.results.length > 0) {
-      context.results = this.reRankResults(context.results, context);
+    if (context.results.length === 0) {
+      return context;
     }
+
+    const config = await this.scoringConfigService.getConfig();
+    const popularity = await this.loadPopularity(context.results);
+
+    context.results = context.results
+      .map(result => {
+        const textId = result.location?.textId ?? result.id;
+        const relevance = this.calculateRelevanceScore(result, context, config, popularity.get(textId) || 0);
+        return { ...result, score: relevance.finalScore, relevance };
+      })
+      .sort((a, b) => b.score - a.score);
+
     return context;
   }
 
-  private reRankResults(results: any[], context: SearchContext): any[] {
-    return results.map(result => ({
-      ...result,
-      score: this.calculateRelevanceScore(result, context)
-    })).sort((a, b) => b.score - a.score);
+  private calculateRelevanceScore(
+    result: SearchResultItem,
+    context: SearchContext,
+    config: ScoringConfig,
+    popularityBoost: number
+  ): RelevanceScore {
+    const components = {
+      textMatch: this.clamp(result.score),
+      titleMatch: this.calculateTitleMatch(result, context),
+      categoryMatch: this.calculateCategoryMatch(result, context),
+      dateRelevance: this.calculateDateRelevance(result),
+      popularityBoost
+    };
+
+    const { weights, boosts } = config;
+    const totalWeight = Object.values(weights).reduce((sum, weight) => sum + weight, 0) || 1;
+    const weightedScore = (
+      components.textMatch * weights.textMatch +
+      components.titleMatch * weights.titleMatch +
+      components.categoryMatch * weights.categoryMatch +
+      components.dateRelevance * weights.dateRelevance +
+      components.popularityBoost * weights.popularityBoost
+    ) / totalWeight;
+
+    let boost = 0;
+    if (this.isExactTitleMatch(result, context)) boost += boosts.exactMatch;
+    if (components.titleMatch === 1) boost += boosts.titleMatch;
+    if (this.isRecent(result)) boost += boosts.recentContent;
+
+    return {
+      ...components,
+      finalScore: weightedScore + boost
+    };
+  }
+
+  // 查詢詞在標題中出現的比例
+  private calculateTitleMatch(result: SearchResultItem, context: SearchContext): number {
+    const terms = this.getQueryTerms(context);
+    if (terms.length === 0) return 0;
+
+    const title = `${result.title.zh || ''} ${result.title.pt || ''}`.toLowerCase();
+    const matched = terms.filter(term => title.includes(term)).length;
+
+    return matched / terms.length;
   }
 
-  private calculateRelevanceScore(result: any, context: SearchContext): number {
-    let score = result.score || 0;
-    
-    // 標題匹配加分
-    const titleText = result.title?.zh || result.title?.pt || '';
-    if (titleText.includes(context.normalizedQuery)) {
-      score += 0.2;
+  private calculateCategoryMatch(result: SearchResultItem, context: SearchContext): number {
+    const category = result.metadata.category;
+    if (!category) return 0;
+
+    if (context.filters.category) {
+      return context.filters.category === category ? 1 : 0;
     }
-    
-    // 最近發布加分
-    if (result.metadata?.publicationDate) {
-      const daysSincePublication = (Date.now() - new Date(result.metadata.publicationDate).getTime()) / (1000 * 60 * 60 * 24);
-      if (daysSincePublication < 365) {
-        score += 0.1;
+
+    return context.normalizedQuery.toLowerCase().includes(category.toLowerCase()) ? 1 : 0;
+  }
+
+  // 按發布年份指數衰減
+  private calculateDateRelevance(result: SearchResultItem): number {
+    const publicationDate = result.metadata.publicationDate;
+    if (!publicationDate) return 0;
+
+    const ageYears = Math.max(0, (Date.now() - new Date(publicationDate).getTime()) / (1000 * 60 * 60 * 24 * 365));
+    return Math.exp(-ageYears / this.DATE_DECAY_YEARS);
+  }
+
+  private isExactTitleMatch(result: SearchResultItem, context: SearchContext): boolean {
+    const query = context.normalizedQuery.trim().toLowerCase();
+    if (!query) return false;
+
+    return [result.title.zh, result.title.pt].some(title => title?.trim().toLowerCase() === query);
+  }
+
+  private isRecent(result: SearchResultItem): boolean {
+    const publicationDate = result.metadata.publicationDate;
+    if (!publicationDate) return false;
+
+    const days = (Date.now() - new Date(publicationDate).getTime()) / (1000 * 60 * 60 * 24);
+    return days >= 0 && days < this.RECENT_DAYS;
+  }
+
+  // 以註解數量衡量熱門程度，對數歸一化到 0-1
+  private async loadPopularity(results: SearchResultItem[]): Promise<Map<string, number>> {
+    const popularity = new Map<string, number>();
+    const textIds = [...new Set(results.map(result => result.location?.textId ?? result.id))];
+
+    try {
+      const counts = await prisma.annotation.groupBy({
+        by: ['textId'],
+        where: { textId: { in: textIds } },
+        _count: { _all: true }
+      });
+
+      const maxCount = Math.max(0, ...counts.map(count => count._count._all));
+      for (const count of counts) {
+        popularity.set(count.textId, maxCount > 0 ? Math.log1p(count._count._all) / Math.log1p(maxCount) : 0);
       }
+    } catch (error) {
+      // 熱門度不可用時不影響其他評分因子
     }
-    
-    return Math.min(score, 1.0);
+
+    return popularity;
+  }
+
+  private getQueryTerms(context: SearchContext): string[] {
+    return context.normalizedQuery
+      .toLowerCase()
+      .split(/\s+/)
+      .filter(term => term.length > 0);
+  }
+
+  private clamp(value: number): number {
+    return Math.min(Math.max(value, 0), 1);
   }
-} 
\ No newline at end of file
+}
@@ -1,18 +1,33 @@
-import { SearchProcessor, SearchContext } from '../../../shared/types/search.types';
+import { SearchProcessor, SearchContext, QueryExpansion } from '../../../shared/types/search.types';
+import { SynonymService } from '../services/SynonymService';
 
 export class SynonymExpansionProcessor implements SearchProcessor {
+  private readonly MAX_EXPANDED_TERMS = 10;
+
+  constructor(private synonymService: SynonymService = new SynonymService()) {}
+
   async process(context: SearchContext): Promise<SearchContext> {
-    context.expandedTerms = this.expandSynonyms(context.normalizedQuery);
+    const expansions = await this.synonymService.findExpansions(context.normalizedQuery);
+
+    context.expansions = expansions;
+    context.synonyms = [...new Set(expansions.flatMap(expansion => expansion.expandedTerms))];
+    context.expandedTerms = this.buildExpandedQueries(context.normalizedQuery, expansions);
+
     return context;
   }
 
-  private expandSynonyms(query: string): string[] {
-    const synonyms = [
-      query,
-      query.replace('法律', '法規'),
-      query.replace('規定', '條文'),
-      query.replace('辦法', '規則')
-    ];
-    return [...new Set(synonyms)];
+  // 同語言同義詞替換原查詢中的詞；跨語言對照詞單獨作為查詢，避免中葡混雜
+  private buildExpandedQueries(query: string, expansions: QueryExpansion[]): string[] {
+    const queries: string[] = [];
+
+    for (const expansion of expansions) {
+      for (const term of expansion.expandedTerms) {
+        queries.push(expansion.method === 'translation' ? term : query.replace(expansion.originalTerm, term));
+      }
+    }
+
+    return [...new Set(queries)]
+      .filter(expanded => expanded !== query)
+      .slice(0, this.MAX_EXPANDED_TERMS);
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,235 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+
+const { service } = vi.hoisted(() => ({
+  service: {
+    search: vi.fn(),
+    searchMultiple: vi.fn(),
+    getSuggestions: vi.fn(),
+    getFacets: vi.fn(),
+    getSearchStats: vi.fn(),
+    checkEngineHealth: vi.fn()
+  }
+}));
+vi.mock('../../../config/database', () => ({ prisma: {}, redis: {}, meilisearch: {} }));
+vi.mock('../services/SearchService', () => ({
+  SearchService: class {
+    constructor() {
+      return service;
+    }
+  }
+}));
+// 以 x-roles 標頭模擬已登入用戶，略過令牌校驗
+vi.mock('../../auth/middleware/authMiddleware', () => {
+  const authenticate = (request: FastifyRequest) => {
+    const roles = request.headers['x-roles'];
+    if (typeof roles === 'string') (request as any).user = { id: 'user-1', roles: roles.split(',') };
+  };
+
+  return {
+    AuthMiddleware: class {
+      optionalAuth = () => async (request: FastifyRequest) => authenticate(request);
+      requireAuth = () => async (request: FastifyRequest, reply: FastifyReply) => {
+        authenticate(request);
+        if (!(request as any).user) return reply.code(401).send({ success: false, error: 'Authentication required' });
+      };
+      requireRole = (role: string) => this.requireAnyRole([role]);
+      requireAnyRole = (roles: string[]) => async (request: FastifyRequest, reply: FastifyReply) => {
+        if (!roles.some(role => (request as any).user.roles.includes(role))) {
+          return reply.code(403).send({ success: false, error: 'Forbidden' });
+        }
+      };
+    }
+  };
+});
+
+import { searchRoutes } from './searchRoutes';
+import { SearchResult, QueryError } from '../../../shared/types/search.types';
+
+const RESULT: SearchResult = {
+  query: '租賃',
+  results: [
+    {
+      id: 'text-1',
+      type: 'legal_text',
+      title: { zh: '租賃法' },
+      snippet: { zh: '<mark>租賃</mark>合同' },
+      score: 0.8,
+      metadata: { category: '民法', publicationDate: new Date('2020-01-01T00:00:00Z') },
+      url: '/texts/text-1'
+    }
+  ],
+  metadata: {
+    totalResults: 1,
+    searchTime: 3,
+    engines: ['postgresql'],
+    language: 'zh',
+    page: 1,
+    limit: 20,
+    processingSteps: []
+  }
+};
+
+describe('searchRoutes', () => {
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    app = Fastify();
+    await app.register(searchRoutes, { prefix: '/api/search' });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('passes the query, filters and options to the search service', async () => {
+    service.search.mockResolvedValue(RESULT);
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/search',
+      payload: {
+        query: '租賃',
+        language: 'zh',
+        filters: { category: '民法', publicationDate: { start: '2019-01-01T00:00:00Z' } },
+        options: { limit: 5, engines: ['postgresql'] }
+      }
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(service.search).toHaveBeenCalledWith(
+      {
+        text: '租賃',
+        language: 'zh',
+        filters: {
+          category: '民法',
+          publicationDate: { start: new Date('2019-01-01T00:00:00Z') },
+          access: { roles: [] }
+        }
+      },
+      { limit: 5, offset: 0, engines: ['postgresql'] }
+    );
+    expect(response.json().data.results[0]).toMatchObject({
+      id: 'text-1',
+      snippet: { zh: '<mark>租賃</mark>合同' },
+      metadata: { category: '民法', publicationDate: '2020-01-01T00:00:00.000Z' }
+    });
+  });
+
+  it('returns the location of a matched article', async () => {
+    const location = {
+      textId: 'text-1',
+      title: '第五條',
+      articleNumber: '5',
+      chapterPath: ['第一章'],
+      startOffset: 120,
+      endOffset: 180,
+      language: 'zh' as const
+    };
+    service.search.mockResolvedValue({
+      ...RESULT,
+      results: [{ ...RESULT.results[0]!, id: 'text-1:article-5', type: 'article', location }]
+    });
+
+    const response = await app.inject({ method: 'POST', url: '/api/search', payload: { query: '租賃' } });
+
+    expect(response.json().data.results[0]).toMatchObject({ type: 'article', location });
+  });
+
+  it('returns the spelling correction for an empty result', async () => {
+    service.search.mockResolvedValue({ ...RESULT, results: [], suggestions: ['租賃法'], didYouMean: '租賃法' });
+
+    const response = await app.inject({ method: 'POST', url: '/api/search', payload: { query: '粗賃法' } });
+
+    expect(response.json().data).toMatchObject({ suggestions: ['租賃法'], didYouMean: '租賃法' });
+  });
+
+  it('lets editors search non-public texts', async () => {
+    service.search.mockResolvedValue(RESULT);
+
+    await app.inject({
+      method: 'POST',
+      url: '/api/search',
+      headers: { 'x-roles': 'EDITOR' },
+      payload: { query: '租賃' }
+    });
+
+    expect(service.search.mock.calls[0]?.[0].filters).toEqual({});
+  });
+
+  it('rejects an unknown engine before searching', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/search',
+      payload: { query: '租賃', options: { engines: ['elasticsearch'] } }
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(service.search).not.toHaveBeenCalled();
+  });
+
+  it('runs each query of a batch with the viewer restrictions', async () => {
+    service.searchMultiple.mockResolvedValue([RESULT, { ...RESULT, query: '商法', results: [] }]);
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/search/batch',
+      payload: { queries: [{ query: '租賃' }, { query: '商法' }] }
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(service.searchMultiple.mock.calls[0]?.[0]).toEqual([
+      { text: '租賃', filters: { access: { roles: [] } } },
+      { text: '商法', filters: { access: { roles: [] } } }
+    ]);
+    expect(response.json().data.map((result: SearchResult) => result.query)).toEqual(['租賃', '商法']);
+  });
+
+  it('scopes suggestions to what the viewer may see', async () => {
+    service.getSuggestions.mockResolvedValue(['租賃法']);
+
+    const response = await app.inject({ method: 'GET', url: '/api/search/suggest?q=租賃', headers: { 'x-roles': 'USER' } });
+
+    expect(response.json().data.suggestions).toEqual(['租賃法']);
+    expect(service.getSuggestions).toHaveBeenCalledWith('租賃', 5, { userId: 'user-1', roles: ['USER'] });
+  });
+
+  it('reports a malformed query as a bad request', async () => {
+    service.search.mockRejectedValue(new QueryError('Unbalanced quote at position 3', '租賃 "法'));
+
+    const response = await app.inject({ method: 'POST', url: '/api/search', payload: { query: '租賃 "法' } });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().error).toBe('Unbalanced quote at position 3');
+  });
+
+  it('reports a failed search as a server error', async () => {
+    service.search.mockRejectedValue(new Error('Search failed: engine down'));
+
+    const response = await app.inject({ method: 'POST', url: '/api/search', payload: { query: '租賃' } });
+
+    expect(response.statusCode).toBe(500);
+    expect(response.json()).toEqual({ success: false, error: 'Search failed: engine down' });
+  });
+
+  it('only lets moderators and admins change the scoring config', async () => {
+    const response = await app.inject({
+      method: 'PUT',
+      url: '/api/search/scoring',
+      headers: { 'x-roles': 'EDITOR' },
+      payload: { weights: { textMatch: 0.5 } }
+    });
+
+    expect(response.statusCode).toBe(403);
+  });
+
+  it('reports unhealthy engines with 503', async () => {
+    service.checkEngineHealth.mockResolvedValue({ postgresql: false, meilisearch: false });
+
+    const response = await app.inject({ method: 'GET', url: '/api/search/health' });
+
+    expect(response.statusCode).toBe(503);
+    expect(response.json().data.status).toBe('unhealthy');
+  });
+});
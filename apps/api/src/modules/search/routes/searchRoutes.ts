@@ -0,0 +1,759 @@
+import { FastifyInstance } from 'fastify';
+import {
+  SearchController,
+  SearchRequest,
+  SearchBatchRequest,
+  SuggestRequest,
+  FacetsRequest,
+  StatsRequest,
+  UpdateScoringRequest
+} from '../controllers/SearchController';
+import {
+  SynonymController,
+  ListSynonymsRequest,
+  SynonymIdRequest,
+  CreateSynonymRequest,
+  UpdateSynonymRequest
+} from '../controllers/SynonymController';
+import { SearchService } from '../services/SearchService';
+import { ScoringConfigService } from '../services/ScoringConfigService';
+import { SynonymService } from '../services/SynonymService';
+import { IndexingService } from '../services/IndexingService';
+import { AuthMiddleware } from '../../auth/middleware/authMiddleware';
+
+const filtersSchema = {
+  type: 'object',
+  properties: {
+    category: { type: 'string' },
+    language: { type: 'string', enum: ['zh', 'pt', 'en'] },
+    publicationDate: {
+      type: 'object',
+      properties: {
+        start: { type: 'string', format: 'date-time' },
+        end: { type: 'string', format: 'date-time' }
+      }
+    },
+    lawNumber: { type: 'string' },
+    isPublic: { type: 'boolean' },
+    hasAnnotations: { type: 'boolean' },
+    textLength: {
+      type: 'object',
+      properties: {
+        min: { type: 'integer', minimum: 0 },
+        max: { type: 'integer', minimum: 0 }
+      }
+    },
+    resultTypes: {
+      type: 'array',
+      items: { type: 'string', enum: ['legal_text', 'article', 'chapter'] }
+    }
+  }
+};
+
+const engineTypeSchema = { type: 'string', enum: ['postgresql', 'meilisearch', 'hybrid'] };
+
+const optionsSchema = {
+  type: 'object',
+  properties: {
+    limit: { type: 'integer', minimum: 1, maximum: 100 },
+    offset: { type: 'integer', minimum: 0 },
+    sortBy: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['field', 'direction'],
+        properties: {
+          field: {
+            type: 'string',
+            enum: ['relevance', 'date', 'title', 'wordCount', 'category', 'popularity']
+          },
+          direction: { type: 'string', enum: ['asc', 'desc'] },
+          weight: { type: 'number' }
+        }
+      }
+    },
+    highlightMatches: { type: 'boolean' },
+    includeSnippets: { type: 'boolean' },
+    engines: {
+      type: 'array',
+      items: engineTypeSchema
+    },
+    facets: {
+      type: 'array',
+      items: { type: 'string' }
+    }
+  }
+};
+
+const queryProperties = {
+  query: { type: 'string', maxLength: 500, description: '支持 "短語"、AND/OR/NOT、-排除、前綴* 及 title:/lawNumber:/category:/article: 欄位' },
+  language: { type: 'string', enum: ['zh', 'pt', 'en', 'auto'] },
+  filters: filtersSchema
+};
+
+const localizedTextSchema = {
+  type: 'object',
+  properties: {
+    zh: { type: 'string' },
+    pt: { type: 'string' }
+  }
+};
+
+const searchResultItemSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    type: { type: 'string', enum: ['legal_text', 'article', 'chapter', 'annotation'] },
+    title: localizedTextSchema,
+    snippet: localizedTextSchema,
+    highlights: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          field: { type: 'string' },
+          text: { type: 'string' },
+          start: { type: 'integer' },
+          end: { type: 'integer' }
+        }
+      }
+    },
+    score: { type: 'number' },
+    relevance: {
+      type: 'object',
+      properties: {
+        textMatch: { type: 'number' },
+        titleMatch: { type: 'number' },
+        categoryMatch: { type: 'number' },
+        dateRelevance: { type: 'number' },
+        popularityBoost: { type: 'number' },
+        finalScore: { type: 'number' }
+      }
+    },
+    metadata: {
+      type: 'object',
+      properties: {
+        category: { type: 'string' },
+        lawNumber: { type: 'string' },
+        publicationDate: { type: 'string', format: 'date-time' },
+        wordCount: { type: 'integer' },
+        language: { type: 'string' },
+        author: { type: 'string' },
+        tags: { type: 'array', items: { type: 'string' } },
+        isPublic: { type: 'boolean' }
+      }
+    },
+    location: {
+      type: 'object',
+      properties: {
+        textId: { type: 'string' },
+        title: { type: 'string' },
+        articleNumber: { type: 'string' },
+        chapterPath: { type: 'array', items: { type: 'string' } },
+        startOffset: { type: 'integer' },
+        endOffset: { type: 'integer' },
+        language: { type: 'string', enum: ['zh', 'pt'] }
+      }
+    },
+    url: { type: 'string' }
+  }
+};
+
+const facetSchema = {
+  type: 'object',
+  properties: {
+    field: { type: 'string' },
+    values: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          value: { type: 'string' },
+          count: { type: 'number' },
+          selected: { type: 'boolean' }
+        }
+      }
+    }
+  }
+};
+
+const searchResultSchema = {
+  type: 'object',
+  properties: {
+    query: { type: 'string' },
+    results: { type: 'array', items: searchResultItemSchema },
+    metadata: {
+      type: 'object',
+      properties: {
+        totalResults: { type: 'integer' },
+        searchTime: { type: 'number' },
+        engines: { type: 'array', items: engineTypeSchema },
+        language: { type: 'string' },
+        page: { type: 'integer' },
+        limit: { type: 'integer' },
+        processingSteps: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              duration: { type: 'number' },
+              results: { type: 'integer' },
+              engine: engineTypeSchema,
+              contributions: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    engine: engineTypeSchema,
+                    rank: { type: 'integer' },
+                    rawScore: { type: 'number' },
+                    normalizedScore: { type: 'number' },
+                    weight: { type: 'number' },
+                    fusedScore: { type: 'number' }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    },
+    facets: { type: 'array', items: facetSchema },
+    suggestions: { type: 'array', items: { type: 'string' } },
+    didYouMean: { type: 'string' }
+  }
+};
+
+const healthResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    data: {
+      type: 'object',
+      properties: {
+        service: { type: 'string' },
+        status: { type: 'string' },
+        engines: {
+          type: 'object',
+          additionalProperties: { type: 'boolean' }
+        },
+        timestamp: { type: 'string' }
+      }
+    },
+    error: { type: 'string' }
+  }
+};
+
+const weightValue = { type: 'number', minimum: 0 };
+
+const scoringConfigSchema = {
+  type: 'object',
+  properties: {
+    weights: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        textMatch: weightValue,
+        titleMatch: weightValue,
+        categoryMatch: weightValue,
+        dateRelevance: weightValue,
+        popularityBoost: weightValue
+      }
+    },
+    boosts: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        exactMatch: weightValue,
+        titleMatch: weightValue,
+        recentContent: weightValue
+      }
+    }
+  }
+};
+
+const scoringResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    data: scoringConfigSchema
+  }
+};
+
+const synonymProperties = {
+  term: { type: 'string', minLength: 1, maxLength: 200 },
+  termLanguage: { type: 'string', enum: ['zh', 'pt'] },
+  synonym: { type: 'string', minLength: 1, maxLength: 200 },
+  synonymLanguage: { type: 'string', enum: ['zh', 'pt'] },
+  bidirectional: { type: 'boolean' },
+  confidence: { type: 'number', minimum: 0, maximum: 1 }
+};
+
+const synonymSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    ...synonymProperties,
+    createdById: { type: 'string', nullable: true },
+    createdAt: { type: 'string' },
+    updatedAt: { type: 'string' }
+  }
+};
+
+const synonymResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    data: synonymSchema
+  }
+};
+
+const synonymIdParams = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string', format: 'uuid' }
+  }
+};
+
+const errorResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    error: { type: 'string' }
+  }
+};
+
+export async function searchRoutes(fastify: FastifyInstance) {
+  // 初始化服務和控制器
+  const scoringConfigService = new ScoringConfigService();
+  const synonymService = new SynonymService();
+  const searchService = new SearchService(scoringConfigService, synonymService);
+  const indexingService = new IndexingService(searchService);
+  const searchController = new SearchController(searchService, scoringConfigService, indexingService);
+  const synonymController = new SynonymController(synonymService);
+  const authMiddleware = new AuthMiddleware();
+
+  // 訂閱法律文本生命週期事件並處理重試隊列
+  indexingService.start();
+  fastify.addHook('onClose', async () => {
+    indexingService.stop();
+  });
+  const requireSynonymManager = [authMiddleware.requireAuth(), authMiddleware.requireAnyRole(['ADMIN', 'MODERATOR'])];
+
+  // 單一搜索
+  fastify.post<SearchRequest>('/', {
+    schema: {
+      description: '搜索法律文本',
+      tags: ['Search'],
+      body: {
+        type: 'object',
+        required: ['query'],
+        properties: {
+          ...queryProperties,
+          options: optionsSchema
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: searchResultSchema
+          }
+        },
+        400: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: authMiddleware.optionalAuth(),
+    handler: searchController.search.bind(searchController)
+  });
+
+  // 批量搜索
+  fastify.post<SearchBatchRequest>('/batch', {
+    schema: {
+      description: '批量搜索多個查詢',
+      tags: ['Search'],
+      body: {
+        type: 'object',
+        required: ['queries'],
+        properties: {
+          queries: {
+            type: 'array',
+            minItems: 1,
+            maxItems: 10,
+            items: {
+              type: 'object',
+              required: ['query'],
+              properties: queryProperties
+            }
+          },
+          options: optionsSchema
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'array',
+              items: searchResultSchema
+            }
+          }
+        },
+        400: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: authMiddleware.optionalAuth(),
+    handler: searchController.searchBatch.bind(searchController)
+  });
+
+  // 自動完成建議
+  fastify.get<SuggestRequest>('/suggest', {
+    schema: {
+      description: '獲取搜索建議',
+      tags: ['Search'],
+      querystring: {
+        type: 'object',
+        required: ['q'],
+        properties: {
+          q: { type: 'string', minLength: 1, maxLength: 100 },
+          limit: { type: 'integer', minimum: 1, maximum: 20 }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                query: { type: 'string' },
+                suggestions: {
+                  type: 'array',
+                  items: { type: 'string' }
+                }
+              }
+            }
+          }
+        },
+        500: errorResponseSchema
+      }
+    },
+    // 建議來自查詢日誌和文本標題，與搜索一樣按用戶可見範圍過濾
+    preHandler: authMiddleware.optionalAuth(),
+    handler: searchController.suggest.bind(searchController)
+  });
+
+  // 分面列表
+  fastify.post<FacetsRequest>('/facets', {
+    schema: {
+      description: '獲取搜索分面統計',
+      tags: ['Search'],
+      body: {
+        type: 'object',
+        required: ['fields'],
+        properties: {
+          query: { type: 'string', maxLength: 500 },
+          fields: {
+            type: 'array',
+            minItems: 1,
+            items: {
+              type: 'string',
+              enum: ['category', 'lawNumber', 'language', 'tags', 'type', 'isPublic']
+            }
+          },
+          filters: filtersSchema
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                facets: { type: 'array', items: facetSchema }
+              }
+            }
+          }
+        },
+        400: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: authMiddleware.optionalAuth(),
+    handler: searchController.getFacets.bind(searchController)
+  });
+
+  // 引擎統計（僅管理員）
+  fastify.get<StatsRequest>('/stats', {
+    schema: {
+      description: '獲取搜索引擎統計及查詢日誌分析',
+      tags: ['Search'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          days: { type: 'integer', minimum: 1, maximum: 365 }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              additionalProperties: true,
+              description: 'Engine statistics'
+            }
+          }
+        }
+      }
+    },
+    preHandler: [authMiddleware.requireAuth(), authMiddleware.requireRole('ADMIN')],
+    handler: searchController.getStats.bind(searchController)
+  });
+
+  // 索引同步管理（僅管理員）
+  fastify.post('/index/rebuild', {
+    schema: {
+      description: '從數據庫全量重建各引擎索引（後台執行）',
+      tags: ['Search'],
+      security: [{ bearerAuth: [] }],
+      response: {
+        202: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              additionalProperties: true,
+              description: 'Reindex status'
+            }
+          }
+        },
+        409: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: [authMiddleware.requireAuth(), authMiddleware.requireRole('ADMIN')],
+    handler: searchController.rebuildIndex.bind(searchController)
+  });
+
+  fastify.get('/index/status', {
+    schema: {
+      description: '獲取索引同步狀態及數據庫與各引擎的文檔差異',
+      tags: ['Search'],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              additionalProperties: true,
+              description: 'Index drift report'
+            }
+          }
+        },
+        500: errorResponseSchema
+      }
+    },
+    preHandler: [authMiddleware.requireAuth(), authMiddleware.requireRole('ADMIN')],
+    handler: searchController.getIndexStatus.bind(searchController)
+  });
+
+  // 相關性評分配置（編輯可查看，審核員和管理員可調整）
+  fastify.get('/scoring', {
+    schema: {
+      description: '獲取相關性評分配置',
+      tags: ['Search'],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: scoringResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: [authMiddleware.requireAuth(), authMiddleware.requireAnyRole(['ADMIN', 'MODERATOR', 'EDITOR'])],
+    handler: searchController.getScoringConfig.bind(searchController)
+  });
+
+  fastify.put<UpdateScoringRequest>('/scoring', {
+    schema: {
+      description: '更新相關性評分權重和加成',
+      tags: ['Search'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        ...scoringConfigSchema,
+        additionalProperties: false,
+        minProperties: 1
+      },
+      response: {
+        200: scoringResponseSchema,
+        400: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: [authMiddleware.requireAuth(), authMiddleware.requireAnyRole(['ADMIN', 'MODERATOR'])],
+    handler: searchController.updateScoringConfig.bind(searchController)
+  });
+
+  fastify.delete('/scoring', {
+    schema: {
+      description: '恢復默認相關性評分配置',
+      tags: ['Search'],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: scoringResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: [authMiddleware.requireAuth(), authMiddleware.requireAnyRole(['ADMIN', 'MODERATOR'])],
+    handler: searchController.resetScoringConfig.bind(searchController)
+  });
+
+  // 同義詞詞庫管理（僅審核員和管理員）
+  fastify.get<ListSynonymsRequest>('/synonyms', {
+    schema: {
+      description: '獲取同義詞詞庫',
+      tags: ['Search'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          search: { type: 'string', maxLength: 200 },
+          language: { type: 'string', enum: ['zh', 'pt'] },
+          page: { type: 'integer', minimum: 1 },
+          limit: { type: 'integer', minimum: 1, maximum: 100 }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                items: { type: 'array', items: synonymSchema },
+                total: { type: 'number' },
+                page: { type: 'number' },
+                limit: { type: 'number' }
+              }
+            }
+          }
+        },
+        500: errorResponseSchema
+      }
+    },
+    preHandler: requireSynonymManager,
+    handler: synonymController.list.bind(synonymController)
+  });
+
+  fastify.get<SynonymIdRequest>('/synonyms/:id', {
+    schema: {
+      description: '獲取同義詞條目',
+      tags: ['Search'],
+      security: [{ bearerAuth: [] }],
+      params: synonymIdParams,
+      response: {
+        200: synonymResponseSchema,
+        404: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: requireSynonymManager,
+    handler: synonymController.get.bind(synonymController)
+  });
+
+  fastify.post<CreateSynonymRequest>('/synonyms', {
+    schema: {
+      description: '新增同義詞條目',
+      tags: ['Search'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['term', 'termLanguage', 'synonym', 'synonymLanguage'],
+        additionalProperties: false,
+        properties: synonymProperties
+      },
+      response: {
+        201: synonymResponseSchema,
+        400: errorResponseSchema,
+        409: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: requireSynonymManager,
+    handler: synonymController.create.bind(synonymController)
+  });
+
+  fastify.put<UpdateSynonymRequest>('/synonyms/:id', {
+    schema: {
+      description: '更新同義詞條目',
+      tags: ['Search'],
+      security: [{ bearerAuth: [] }],
+      params: synonymIdParams,
+      body: {
+        type: 'object',
+        additionalProperties: false,
+        minProperties: 1,
+        properties: synonymProperties
+      },
+      response: {
+        200: synonymResponseSchema,
+        400: errorResponseSchema,
+        404: errorResponseSchema,
+        409: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: requireSynonymManager,
+    handler: synonymController.update.bind(synonymController)
+  });
+
+  fastify.delete<SynonymIdRequest>('/synonyms/:id', {
+    schema: {
+      description: '刪除同義詞條目',
+      tags: ['Search'],
+      security: [{ bearerAuth: [] }],
+      params: synonymIdParams,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' }
+          }
+        },
+        404: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: requireSynonymManager,
+    handler: synonymController.delete.bind(synonymController)
+  });
+
+  // 引擎健康檢查
+  fastify.get('/health', {
+    schema: {
+      description: '搜索引擎健康檢查',
+      tags: ['Search'],
+      response: {
+        200: healthResponseSchema,
+        503: healthResponseSchema
+      }
+    },
+    handler: searchController.healthCheck.bind(searchController)
+  });
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { findUnique, findContent, retries, retryJobs } = vi.hoisted(() => ({
+  findUnique: vi.fn(),
+  findContent: vi.fn(),
+  retries: new Map<string, number>(),
+  retryJobs: new Map<string, string>()
+}));
+vi.mock('../../../config/database', () => {
+  const redis = {
+    zadd: async (_key: string, score: number, member: string) => retries.set(member, score),
+    zrem: async (_key: string, member: string) => Number(retries.delete(member)),
+    zrangebyscore: async (_key: string, _min: number, max: number) =>
+      [...retries].filter(([, score]) => score <= max).map(([member]) => member),
+    hset: async (_key: string, field: string, value: string) => retryJobs.set(field, value),
+    hget: async (_key: string, field: string) => retryJobs.get(field) ?? null,
+    hdel: async (_key: string, field: string) => Number(retryJobs.delete(field)),
+    multi: () => {
+      const queued: Array<() => Promise<unknown>> = [];
+      const chain = {
+        zadd: (...args: [string, number, string]) => (queued.push(() => redis.zadd(...args)), chain),
+        zrem: (...args: [string, string]) => (queued.push(() => redis.zrem(...args)), chain),
+        hset: (...args: [string, string, string]) => (queued.push(() => redis.hset(...args)), chain),
+        hdel: (...args: [string, string]) => (queued.push(() => redis.hdel(...args)), chain),
+        lpush: () => chain,
+        ltrim: () => chain,
+        exec: async () => {
+          for (const command of queued) await command();
+        }
+      };
+      return chain;
+    }
+  };
+  return { prisma: { legalText: { findUnique } }, redis };
+});
+vi.mock('../../../shared/schemas/mongodb', () => ({ LegalTextContent: { findOne: findContent } }));
+
+import { IndexingService } from './IndexingService';
+import { SearchService } from './SearchService';
+import { legalTextEvents } from '../../../shared/events/legalTextEvents';
+
+const TEXT = { id: 'text-1', titleZh: '租賃法', status: 'PUBLISHED', isPublic: true, authorId: 'author-1' };
+
+describe('IndexingService', () => {
+  const searchService = {
+    getIndexEngineTypes: () => ['postgresql', 'meilisearch'],
+    indexOn: vi.fn(async (_engine: string) => {}),
+    deleteOn: vi.fn(async () => {})
+  };
+  const service = new IndexingService(searchService as unknown as SearchService);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    retries.clear();
+    retryJobs.clear();
+    findContent.mockResolvedValue(null);
+    service.start();
+  });
+
+  afterEach(() => {
+    service.stop();
+  });
+
+  it('indexes a text when it is published', async () => {
+    findUnique.mockResolvedValue(TEXT);
+
+    legalTextEvents.emit('statusChanged', { textId: 'text-1', from: 'PENDING_REVIEW', to: 'PUBLISHED' });
+
+    await vi.waitFor(() => expect(searchService.indexOn).toHaveBeenCalledTimes(2));
+    expect(searchService.deleteOn).not.toHaveBeenCalled();
+  });
+
+  it('removes an archived text from every engine', async () => {
+    findUnique.mockResolvedValue({ ...TEXT, status: 'ARCHIVED' });
+
+    legalTextEvents.emit('statusChanged', { textId: 'text-1', from: 'PUBLISHED', to: 'ARCHIVED' });
+
+    await vi.waitFor(() => expect(searchService.deleteOn).toHaveBeenCalledTimes(2));
+    expect(searchService.deleteOn).toHaveBeenCalledWith('postgresql', ['text-1']);
+    expect(searchService.deleteOn).toHaveBeenCalledWith('meilisearch', ['text-1']);
+    expect(searchService.indexOn).not.toHaveBeenCalled();
+  });
+
+  it('removes a text that no longer exists', async () => {
+    findUnique.mockResolvedValue(null);
+
+    await service.sync('text-1');
+
+    expect(searchService.deleteOn).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps a single pending retry per text and engine across repeated failures', async () => {
+    findUnique.mockResolvedValue(TEXT);
+    searchService.indexOn.mockImplementation(async (engine: string) => {
+      if (engine === 'meilisearch') throw new Error('unavailable');
+    });
+
+    await expect(service.sync('text-1')).rejects.toThrow('meilisearch: unavailable');
+    await expect(service.sync('text-1')).rejects.toThrow('meilisearch: unavailable');
+
+    expect([...retries.keys()]).toEqual(['text-1:meilisearch']);
+
+    // 到期後重試再次失敗，仍只保留一個任務並累計次數
+    retries.set('text-1:meilisearch', 0);
+    await service.processRetries();
+
+    expect([...retries.keys()]).toEqual(['text-1:meilisearch']);
+    expect(JSON.parse(retryJobs.get('text-1:meilisearch')!)).toMatchObject({ attempt: 2, lastError: 'unavailable' });
+
+    searchService.indexOn.mockImplementation(async () => {});
+    retries.set('text-1:meilisearch', 0);
+    await service.processRetries();
+
+    expect(retries.size).toBe(0);
+    expect(retryJobs.size).toBe(0);
+  });
+});
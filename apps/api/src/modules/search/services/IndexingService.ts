@@ -0,0 +1,291 @@
+import { prisma, redis } from '../../../config/database';
+import { LegalTextContent } from '../../../shared/schemas/mongodb';
+import { legalTextEvents } from '../../../shared/events/legalTextEvents';
+import {
+  SearchEngineType,
+  IndexRetryJob,
+  IndexDriftReport,
+  ReindexStatus,
+  IndexError
+} from '../../../shared/types/search.types';
+import { buildIndexDocument, isIndexable } from '../utils/indexDocumentBuilder';
+import { SearchService } from './SearchService';
+
+const RETRY_KEY = 'search:index:retry';
+const RETRY_JOBS_KEY = 'search:index:retry:jobs';
+const DEAD_LETTER_KEY = 'search:index:dead';
+
+/**
+ * 把法律文本的生命週期同步到各搜索引擎。
+ * 每個引擎獨立同步，失敗的引擎按指數退避重試，超過次數後進入死信列表。
+ * 重試隊列以 textId:engine 為成員，每對文本與引擎最多只有一個待重試任務，任務內容存於哈希表。
+ */
+export class IndexingService {
+  private readonly MAX_ATTEMPTS = 8;
+  private readonly BASE_DELAY_MS = 5000;
+  private readonly MAX_DELAY_MS = 30 * 60 * 1000;
+  private readonly POLL_INTERVAL_MS = 5000;
+  private readonly REINDEX_BATCH_SIZE = 50;
+  private readonly DEAD_LETTER_LIMIT = 500;
+  private readonly DRIFT_SAMPLE_SIZE = 20;
+
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private reindexStatus: ReindexStatus = { running: false, total: 0, processed: 0, failed: 0, removed: 0 };
+
+  private readonly onChange = ({ textId }: { textId: string }) => {
+    this.enqueue(textId);
+  };
+
+  constructor(private searchService: SearchService = new SearchService()) {}
+
+  start(): void {
+    if (this.pollTimer) {
+      return;
+    }
+
+    legalTextEvents.on('created', this.onChange);
+    legalTextEvents.on('updated', this.onChange);
+    // 文本不做物理刪除，歸檔等離開 PUBLISHED 的流轉經 statusChanged 從索引移除
+    legalTextEvents.on('statusChanged', this.onChange);
+
+    this.pollTimer = setInterval(() => {
+      this.processRetries().catch(() => {});
+    }, this.POLL_INTERVAL_MS);
+  }
+
+  stop(): void {
+    legalTextEvents.off('created', this.onChange);
+    legalTextEvents.off('updated', this.onChange);
+    legalTextEvents.off('statusChanged', this.onChange);
+
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  // 事件處理不等待結果，失敗由重試隊列接手
+  enqueue(textId: string): void {
+    this.sync(textId).catch(() => {});
+  }
+
+  // 依文本當前狀態同步到所有引擎：可索引則寫入，否則從索引中移除
+  async sync(textId: string): Promise<void> {
+    const engines = this.searchService.getIndexEngineTypes();
+    const outcomes = await Promise.allSettled(engines.map(engine => this.syncEngine(textId, engine)));
+
+    const failures: string[] = [];
+    for (const [index, outcome] of outcomes.entries()) {
+      const engine = engines[index];
+      if (outcome.status === 'fulfilled' || !engine) continue;
+
+      const message = this.errorMessage(outcome.reason);
+      failures.push(`${engine}: ${message}`);
+      await this.scheduleRetry({
+        textId,
+        engine,
+        attempt: 1,
+        lastError: message,
+        failedAt: new Date().toISOString()
+      });
+    }
+
+    if (failures.length > 0) {
+      throw new IndexError(`Index sync failed on ${failures.join('; ')}`, textId);
+    }
+  }
+
+  // 到期的重試任務；ZREM 成功者才執行，避免多實例重複處理
+  async processRetries(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      const due = await redis.zrangebyscore(RETRY_KEY, 0, Date.now(), 'LIMIT', 0, this.REINDEX_BATCH_SIZE);
+
+      for (const member of due) {
+        const claimed = await redis.zrem(RETRY_KEY, member);
+        if (!claimed) continue;
+
+        const job = await this.loadRetryJob(member);
+        try {
+          await this.syncEngine(job.textId, job.engine);
+          await redis.hdel(RETRY_JOBS_KEY, member);
+        } catch (error) {
+          await this.scheduleRetry({
+            ...job,
+            attempt: job.attempt + 1,
+            lastError: this.errorMessage(error),
+            failedAt: new Date().toISOString()
+          });
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  // 全量重建在後台分批執行，進度通過 getDriftReport 查詢
+  startReindex(): ReindexStatus {
+    if (this.reindexStatus.running) {
+      throw new IndexError('A reindex is already running');
+    }
+
+    this.reindexStatus = { running: true, startedAt: new Date(), total: 0, processed: 0, failed: 0, removed: 0 };
+    this.runReindex()
+      .catch(() => {})
+      .finally(() => {
+        this.reindexStatus.running = false;
+        this.reindexStatus.finishedAt = new Date();
+      });
+
+    return { ...this.reindexStatus };
+  }
+
+  getReindexStatus(): ReindexStatus {
+    return { ...this.reindexStatus };
+  }
+
+  // 比較應索引的文本與各引擎實際持有的文檔
+  async getDriftReport(): Promise<IndexDriftReport> {
+    const [expectedIds, pendingRetries, deadLetters] = await Promise.all([
+      this.getIndexableIds(),
+      redis.zcard(RETRY_KEY),
+      redis.lrange(DEAD_LETTER_KEY, 0, this.DRIFT_SAMPLE_SIZE - 1)
+    ]);
+    const expected = new Set(expectedIds);
+
+    const engines = await Promise.all(
+      this.searchService.getIndexEngineTypes().map(async engine => {
+        try {
+          const indexedIds = await this.searchService.listDocumentIdsOn(engine);
+          const indexed = new Set(indexedIds);
+
+          return {
+            engine,
+            documentCount: indexedIds.length,
+            drift: indexedIds.length - expectedIds.length,
+            missing: expectedIds.filter(id => !indexed.has(id)).slice(0, this.DRIFT_SAMPLE_SIZE),
+            stale: indexedIds.filter(id => !expected.has(id)).slice(0, this.DRIFT_SAMPLE_SIZE)
+          };
+        } catch (error) {
+          return {
+            engine,
+            documentCount: 0,
+            drift: -expectedIds.length,
+            missing: [],
+            stale: [],
+            error: this.errorMessage(error)
+          };
+        }
+      })
+    );
+
+    return {
+      expectedCount: expectedIds.length,
+      engines,
+      pendingRetries,
+      deadLetters: deadLetters.map(member => JSON.parse(member) as IndexRetryJob),
+      reindex: this.getReindexStatus()
+    };
+  }
+
+  private async runReindex(): Promise<void> {
+    const textIds = (await prisma.legalText.findMany({ select: { id: true }, orderBy: { createdAt: 'asc' } }))
+      .map(text => text.id);
+    this.reindexStatus.total = textIds.length;
+
+    for (let offset = 0; offset < textIds.length; offset += this.REINDEX_BATCH_SIZE) {
+      const batch = textIds.slice(offset, offset + this.REINDEX_BATCH_SIZE);
+      const outcomes = await Promise.allSettled(batch.map(textId => this.sync(textId)));
+
+      this.reindexStatus.processed += batch.length;
+      this.reindexStatus.failed += outcomes.filter(outcome => outcome.status === 'rejected').length;
+    }
+
+    // 清除索引中已不存在於數據庫的文本
+    const known = new Set(textIds);
+    for (const engine of this.searchService.getIndexEngineTypes()) {
+      try {
+        const stale = (await this.searchService.listDocumentIdsOn(engine)).filter(id => !known.has(id));
+        if (stale.length > 0) {
+          await this.searchService.deleteOn(engine, stale);
+          this.reindexStatus.removed += stale.length;
+        }
+      } catch (error) {
+        this.reindexStatus.failed += 1;
+      }
+    }
+  }
+
+  private async syncEngine(textId: string, engine: SearchEngineType): Promise<void> {
+    const text = await prisma.legalText.findUnique({ where: { id: textId } });
+
+    if (!text || !isIndexable(text)) {
+      await this.searchService.deleteOn(engine, [textId]);
+      return;
+    }
+
+    const content = await LegalTextContent.findOne({ textId });
+    await this.searchService.indexOn(engine, buildIndexDocument(text, content), content?.structure);
+  }
+
+  // 同一文本與引擎的新失敗覆蓋待重試任務，而不是另增一條
+  private async scheduleRetry(job: IndexRetryJob): Promise<void> {
+    const member = this.retryMember(job.textId, job.engine);
+
+    if (job.attempt > this.MAX_ATTEMPTS) {
+      await redis.multi()
+        .zrem(RETRY_KEY, member)
+        .hdel(RETRY_JOBS_KEY, member)
+        .lpush(DEAD_LETTER_KEY, JSON.stringify(job))
+        .ltrim(DEAD_LETTER_KEY, 0, this.DEAD_LETTER_LIMIT - 1)
+        .exec();
+      return;
+    }
+
+    const delay = Math.min(this.BASE_DELAY_MS * 2 ** (job.attempt - 1), this.MAX_DELAY_MS);
+    await redis.multi()
+      .hset(RETRY_JOBS_KEY, member, JSON.stringify(job))
+      .zadd(RETRY_KEY, Date.now() + delay, member)
+      .exec();
+  }
+
+  // 任務內容缺失時（例如並發下已被清理）按成員重建為首次重試
+  private async loadRetryJob(member: string): Promise<IndexRetryJob> {
+    const payload = await redis.hget(RETRY_JOBS_KEY, member);
+    if (payload) {
+      return JSON.parse(payload) as IndexRetryJob;
+    }
+
+    const separator = member.lastIndexOf(':');
+    return {
+      textId: member.slice(0, separator),
+      engine: member.slice(separator + 1) as SearchEngineType,
+      attempt: 1,
+      lastError: 'Unknown error',
+      failedAt: new Date().toISOString()
+    };
+  }
+
+  private retryMember(textId: string, engine: SearchEngineType): string {
+    return `${textId}:${engine}`;
+  }
+
+  // 條件與 isIndexable 保持一致
+  private async getIndexableIds(): Promise<string[]> {
+    const texts = await prisma.legalText.findMany({
+      where: { status: 'PUBLISHED' },
+      select: { id: true }
+    });
+
+    return texts.map(text => text.id);
+  }
+
+  private errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+}
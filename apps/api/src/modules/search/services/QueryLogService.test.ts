@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { queryLog, legalText } = vi.hoisted(() => ({
+  queryLog: { create: vi.fn(), groupBy: vi.fn() },
+  legalText: { findMany: vi.fn() }
+}));
+vi.mock('../../../config/database', () => ({ prisma: { queryLog, legalText } }));
+
+import { QueryLogService } from './QueryLogService';
+import { QueryLogEntry } from '../../../shared/types/search.types';
+
+const ENTRY: QueryLogEntry = {
+  query: ' 租賃  合同 ',
+  normalizedQuery: '租賃 合同',
+  language: 'zh',
+  filters: {},
+  resultCount: 3,
+  publicResultCount: 1,
+  latencyMs: 12.6,
+  engines: ['postgresql']
+};
+
+describe('QueryLogService', () => {
+  const service = new QueryLogService();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    queryLog.groupBy.mockResolvedValue([]);
+    legalText.findMany.mockResolvedValue([]);
+  });
+
+  describe('record', () => {
+    it('stores the public hit count alongside the total', async () => {
+      await service.record({ ...ENTRY, userId: 'user-1' });
+
+      expect(queryLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ resultCount: 3, publicResultCount: 1, latencyMs: 13, userId: 'user-1' })
+      });
+    });
+
+    it('skips filter-only browsing without a query', async () => {
+      await service.record({ ...ENTRY, query: '', normalizedQuery: '' });
+
+      expect(queryLog.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getCompletions', () => {
+    it('only offers other users\' queries that hit public texts', async () => {
+      await service.getCompletions('租賃', 5, { userId: 'user-1', roles: ['USER'] });
+
+      expect(queryLog.groupBy.mock.calls[0]?.[0].where).toMatchObject({
+        normalizedQuery: { startsWith: '租賃' },
+        OR: [{ publicResultCount: { gt: 0 } }, { userId: 'user-1', resultCount: { gt: 0 } }]
+      });
+    });
+
+    it('gives anonymous viewers public queries and public published titles only', async () => {
+      await service.getCompletions('租賃', 5, { roles: [] });
+
+      expect(queryLog.groupBy.mock.calls[0]?.[0].where).toMatchObject({ publicResultCount: { gt: 0 } });
+      expect(legalText.findMany.mock.calls[0]?.[0].where.AND).toEqual(
+        expect.arrayContaining([{ status: 'PUBLISHED' }, { isPublic: true }])
+      );
+    });
+
+    it('lets privileged viewers see every query with results', async () => {
+      await service.getCompletions('租賃');
+
+      const where = queryLog.groupBy.mock.calls[0]?.[0].where;
+      expect(where).toMatchObject({ resultCount: { gt: 0 } });
+      expect(where).not.toHaveProperty('publicResultCount');
+    });
+
+    it('ranks popular queries before titles and drops duplicates', async () => {
+      queryLog.groupBy.mockResolvedValue([
+        { normalizedQuery: '租賃合同', _count: { _all: 4 } },
+        { normalizedQuery: '租賃法', _count: { _all: 2 } }
+      ]);
+      legalText.findMany.mockResolvedValue([
+        { titleZh: '租賃法', titlePt: null },
+        { titleZh: '關於租賃的規定', titlePt: null }
+      ]);
+
+      const suggestions = await service.getCompletions(' 租賃 ');
+
+      expect(suggestions.map(suggestion => suggestion.text)).toEqual(['租賃合同', '租賃法', '關於租賃的規定']);
+    });
+
+    it('returns nothing for a blank prefix', async () => {
+      expect(await service.getCompletions('   ')).toEqual([]);
+      expect(queryLog.groupBy).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,249 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../../config/database';
+import {
+  QueryLogEntry,
+  QueryLogAnalytics,
+  PopularQuery,
+  SearchSuggestion,
+  SearchAccess
+} from '../../../shared/types/search.types';
+
+interface CorrectionRow {
+  text: string;
+  similarity: number;
+  hits: bigint;
+}
+
+export class QueryLogService {
+  private readonly POPULARITY_WINDOW_DAYS = 90;
+  private readonly MIN_QUERY_SIMILARITY = 0.3;
+  private readonly MIN_TITLE_SIMILARITY = 0.4;
+
+  // 記錄一次搜索；空查詢（純過濾瀏覽）不記錄
+  async record(entry: QueryLogEntry): Promise<void> {
+    if (!entry.normalizedQuery) {
+      return;
+    }
+
+    await prisma.queryLog.create({
+      data: {
+        query: entry.query,
+        normalizedQuery: entry.normalizedQuery,
+        language: entry.language,
+        filters: entry.filters as unknown as Prisma.InputJsonValue,
+        resultCount: entry.resultCount,
+        publicResultCount: entry.publicResultCount,
+        latencyMs: Math.round(entry.latencyMs),
+        engines: entry.engines,
+        userId: entry.userId ?? null
+      }
+    });
+  }
+
+  // 前綴自動完成：命中公開文本的熱門查詢（及用戶自己的查詢）優先，其次是用戶可見文本的標題
+  async getCompletions(prefix: string, limit: number = 5, access?: SearchAccess): Promise<SearchSuggestion[]> {
+    const normalized = this.normalize(prefix);
+    if (!normalized) {
+      return [];
+    }
+
+    const [queries, titles] = await Promise.all([
+      prisma.queryLog.groupBy({
+        by: ['normalizedQuery'],
+        where: {
+          normalizedQuery: { startsWith: normalized },
+          ...this.queryVisibility(access),
+          createdAt: { gte: this.daysAgo(this.POPULARITY_WINDOW_DAYS) }
+        },
+        _count: { _all: true },
+        orderBy: { _count: { normalizedQuery: 'desc' } },
+        take: limit
+      }),
+      prisma.legalText.findMany({
+        where: {
+          AND: [
+            { status: 'PUBLISHED' },
+            this.titleVisibility(access),
+            {
+              OR: [
+                { titleZh: { contains: normalized, mode: 'insensitive' } },
+                { titlePt: { contains: normalized, mode: 'insensitive' } }
+              ]
+            }
+          ]
+        },
+        select: { titleZh: true, titlePt: true },
+        orderBy: { publicationDate: 'desc' },
+        take: limit * 2
+      })
+    ]);
+
+    const maxCount = Math.max(1, ...queries.map(query => query._count._all));
+    const suggestions: SearchSuggestion[] = queries.map(query => ({
+      type: 'completion',
+      text: query.normalizedQuery,
+      score: 0.5 + 0.5 * (query._count._all / maxCount),
+      metadata: { source: 'query_log', count: query._count._all }
+    }));
+
+    for (const title of titles) {
+      for (const text of [title.titleZh, title.titlePt]) {
+        if (!text || !text.toLowerCase().includes(normalized)) continue;
+
+        suggestions.push({
+          type: 'completion',
+          text,
+          // 標題以輸入開頭時排在中間匹配之前
+          score: text.toLowerCase().startsWith(normalized) ? 0.45 : 0.3,
+          metadata: { source: 'title' }
+        });
+      }
+    }
+
+    return this.dedupe(suggestions).slice(0, limit);
+  }
+
+  // 「您是不是要找」：從用戶可見的歷史查詢和標題中找最相近的候選
+  async getCorrection(query: string, access?: SearchAccess): Promise<SearchSuggestion | null> {
+    const normalized = this.normalize(query);
+    if (!normalized) {
+      return null;
+    }
+
+    const rows = await prisma.$queryRaw<CorrectionRow[]>`
+      SELECT candidate AS text, MAX(sim)::float AS similarity, COUNT(*) AS hits
+      FROM (
+        SELECT normalized_query AS candidate, similarity(normalized_query, ${normalized}) AS sim
+        FROM query_logs
+        WHERE ${this.queryVisibilitySql(access)}
+          AND normalized_query <> ${normalized}
+          AND created_at >= ${this.daysAgo(this.POPULARITY_WINDOW_DAYS)}
+          AND similarity(normalized_query, ${normalized}) >= ${this.MIN_QUERY_SIMILARITY}
+        UNION ALL
+        SELECT t.title AS candidate, word_similarity(${normalized}, lower(t.title)) AS sim
+        FROM legal_texts lt
+        CROSS JOIN LATERAL (VALUES (lt.title_zh), (lt.title_pt)) AS t(title)
+        WHERE lt.status = 'PUBLISHED'
+          AND ${this.titleVisibilitySql(access)}
+          AND t.title IS NOT NULL
+          AND lower(t.title) <> ${normalized}
+          AND word_similarity(${normalized}, lower(t.title)) >= ${this.MIN_TITLE_SIMILARITY}
+      ) candidates
+      GROUP BY candidate
+      ORDER BY similarity DESC, hits DESC
+      LIMIT 1
+    `;
+
+    const best = rows[0];
+    if (!best) {
+      return null;
+    }
+
+    return {
+      type: 'correction',
+      text: best.text,
+      score: Number(best.similarity),
+      metadata: { hits: Number(best.hits) }
+    };
+  }
+
+  async getPopularQueries(limit: number = 10, days: number = 30): Promise<PopularQuery[]> {
+    return this.groupQueries({ createdAt: { gte: this.daysAgo(days) } }, limit);
+  }
+
+  async getAnalytics(days: number = 30, limit: number = 10): Promise<QueryLogAnalytics> {
+    const since = this.daysAgo(days);
+    const where: Prisma.QueryLogWhereInput = { createdAt: { gte: since } };
+
+    const [aggregate, zeroResults, unique, popularQueries, zeroResultQueries] = await Promise.all([
+      prisma.queryLog.aggregate({
+        where,
+        _count: { _all: true },
+        _avg: { latencyMs: true }
+      }),
+      prisma.queryLog.count({ where: { ...where, resultCount: 0 } }),
+      prisma.$queryRaw<Array<{ count: bigint }>>`
+        SELECT COUNT(DISTINCT normalized_query) AS count FROM query_logs WHERE created_at >= ${since}
+      `,
+      this.groupQueries(where, limit),
+      this.groupQueries({ ...where, resultCount: 0 }, limit)
+    ]);
+
+    const totalQueries = aggregate._count._all;
+
+    return {
+      periodDays: days,
+      totalQueries,
+      uniqueQueries: Number(unique[0]?.count ?? 0),
+      zeroResultRate: totalQueries > 0 ? zeroResults / totalQueries : 0,
+      averageLatency: aggregate._avg.latencyMs ?? 0,
+      popularQueries,
+      zeroResultQueries
+    };
+  }
+
+  private async groupQueries(where: Prisma.QueryLogWhereInput, limit: number): Promise<PopularQuery[]> {
+    const groups = await prisma.queryLog.groupBy({
+      by: ['normalizedQuery'],
+      where,
+      _count: { _all: true },
+      _avg: { resultCount: true },
+      orderBy: { _count: { normalizedQuery: 'desc' } },
+      take: limit
+    });
+
+    return groups.map(group => ({
+      query: group.normalizedQuery,
+      count: group._count._all,
+      avgResultCount: group._avg.resultCount ?? 0
+    }));
+  }
+
+  // 其他用戶的查詢只在命中過公開文本時提供，避免從查詢記錄洩露非公開文本的內容
+  private queryVisibility(access?: SearchAccess): Prisma.QueryLogWhereInput {
+    if (!access) return { resultCount: { gt: 0 } };
+    const shared: Prisma.QueryLogWhereInput = { publicResultCount: { gt: 0 } };
+    return access.userId
+      ? { OR: [shared, { userId: access.userId, resultCount: { gt: 0 } }] }
+      : shared;
+  }
+
+  private queryVisibilitySql(access?: SearchAccess): Prisma.Sql {
+    if (!access) return Prisma.sql`result_count > 0`;
+    return access.userId
+      ? Prisma.sql`(public_result_count > 0 OR (user_id = ${access.userId} AND result_count > 0))`
+      : Prisma.sql`public_result_count > 0`;
+  }
+
+  // 與搜索的可見範圍一致：非公開文本的 ACL 為作者加特權角色，access 為空時不限制
+  private titleVisibility(access?: SearchAccess): Prisma.LegalTextWhereInput {
+    if (!access) return {};
+    return access.userId ? { OR: [{ isPublic: true }, { authorId: access.userId }] } : { isPublic: true };
+  }
+
+  private titleVisibilitySql(access?: SearchAccess): Prisma.Sql {
+    if (!access) return Prisma.sql`true`;
+    return access.userId ? Prisma.sql`(lt.is_public OR lt.author_id = ${access.userId})` : Prisma.sql`lt.is_public`;
+  }
+
+  private dedupe(suggestions: SearchSuggestion[]): SearchSuggestion[] {
+    const seen = new Set<string>();
+
+    return suggestions
+      .sort((a, b) => b.score - a.score)
+      .filter(suggestion => {
+        const key = suggestion.text.toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+  }
+
+  private normalize(query: string): string {
+    return query.normalize('NFKC').trim().replace(/\s+/g, ' ').toLowerCase();
+  }
+
+  private daysAgo(days: number): Date {
+    return new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  }
+}
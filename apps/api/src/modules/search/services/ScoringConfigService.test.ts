@@ -0,0 +1,43 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { findUnique } = vi.hoisted(() => ({ findUnique: vi.fn() }));
+vi.mock('../../../config/database', () => ({ prisma: { searchSetting: { findUnique } } }));
+
+import { ScoringConfigService, DEFAULT_SCORING_CONFIG } from './ScoringConfigService';
+
+describe('ScoringConfigService.getConfig', () => {
+  beforeEach(() => {
+    findUnique.mockReset();
+    delete process.env.SEARCH_SCORING_CONFIG;
+  });
+
+  it('merges a valid stored setting with the defaults', async () => {
+    findUnique.mockResolvedValue({ value: { weights: { textMatch: 0.7 } } });
+
+    const config = await new ScoringConfigService().getConfig();
+
+    expect(config.weights).toEqual({ ...DEFAULT_SCORING_CONFIG.weights, textMatch: 0.7 });
+    expect(config.boosts).toEqual(DEFAULT_SCORING_CONFIG.boosts);
+  });
+
+  it.each([
+    ['a non-object value', 'scoring'],
+    ['an unknown weight', { weights: { textMatch: 0.5, clicks: 1 } }],
+    ['a negative boost', { boosts: { exactMatch: -1 } }],
+    ['a non-numeric weight', { weights: { textMatch: '0.5' } }],
+    ['all weights at zero', { weights: { textMatch: 0, titleMatch: 0, categoryMatch: 0, dateRelevance: 0, popularityBoost: 0 } }]
+  ])('falls back to the defaults for %s', async (_, value) => {
+    findUnique.mockResolvedValue({ value });
+
+    expect(await new ScoringConfigService().getConfig()).toEqual(DEFAULT_SCORING_CONFIG);
+  });
+
+  it('falls back to the environment config when the stored setting is invalid', async () => {
+    process.env.SEARCH_SCORING_CONFIG = JSON.stringify({ boosts: { recentContent: 0.4 } });
+    findUnique.mockResolvedValue({ value: { weights: null } });
+
+    const config = await new ScoringConfigService().getConfig();
+
+    expect(config.boosts.recentContent).toBe(0.4);
+  });
+});
@@ -0,0 +1,149 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../../config/database';
+import { ScoringConfig, SearchError } from '../../../shared/types/search.types';
+
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  weights: {
+    textMatch: 0.5,
+    titleMatch: 0.2,
+    categoryMatch: 0.1,
+    dateRelevance: 0.1,
+    popularityBoost: 0.1
+  },
+  boosts: {
+    exactMatch: 0.3,
+    titleMatch: 0.2,
+    recentContent: 0.1
+  }
+};
+
+export interface ScoringConfigUpdate {
+  weights?: Partial<ScoringConfig['weights']>;
+  boosts?: Partial<ScoringConfig['boosts']>;
+}
+
+const SCORING_SETTING_KEY = 'scoring';
+
+const WEIGHT_KEYS = Object.keys(DEFAULT_SCORING_CONFIG.weights);
+const BOOST_KEYS = Object.keys(DEFAULT_SCORING_CONFIG.boosts);
+
+export class ScoringConfigService {
+  private readonly CACHE_TTL = 60 * 1000; // 1 minute
+
+  private cached: { config: ScoringConfig; loadedAt: number } | null = null;
+
+  // 優先讀取數據庫，其次 SEARCH_SCORING_CONFIG 環境變數（JSON），最後使用默認值
+  async getConfig(): Promise<ScoringConfig> {
+    if (this.cached && Date.now() - this.cached.loadedAt < this.CACHE_TTL) {
+      return this.cached.config;
+    }
+
+    let config = this.loadFromEnv();
+
+    try {
+      const setting = await prisma.searchSetting.findUnique({
+        where: { key: SCORING_SETTING_KEY }
+      });
+
+      // 存儲值不合法（手動改動或舊版本寫入）時忽略，沿用環境變數或默認配置
+      const stored = setting ? this.parseConfig(setting.value) : null;
+      if (stored) {
+        config = stored;
+      }
+    } catch (error) {
+      // 數據庫不可用時沿用環境變數或默認配置
+    }
+
+    this.cached = { config, loadedAt: Date.now() };
+    return config;
+  }
+
+  async updateConfig(update: ScoringConfigUpdate, userId: string): Promise<ScoringConfig> {
+    const current = await this.getConfig();
+    const config: ScoringConfig = {
+      weights: { ...current.weights, ...update.weights },
+      boosts: { ...current.boosts, ...update.boosts }
+    };
+
+    this.validateConfig(config);
+
+    const value = config as unknown as Prisma.InputJsonValue;
+    await prisma.searchSetting.upsert({
+      where: { key: SCORING_SETTING_KEY },
+      create: { key: SCORING_SETTING_KEY, value, updatedById: userId },
+      update: { value, updatedById: userId }
+    });
+
+    this.cached = { config, loadedAt: Date.now() };
+    return config;
+  }
+
+  async resetConfig(): Promise<ScoringConfig> {
+    await prisma.searchSetting.deleteMany({
+      where: { key: SCORING_SETTING_KEY }
+    });
+
+    this.cached = null;
+    return this.getConfig();
+  }
+
+  private loadFromEnv(): ScoringConfig {
+    const raw = process.env.SEARCH_SCORING_CONFIG;
+    if (!raw) {
+      return DEFAULT_SCORING_CONFIG;
+    }
+
+    try {
+      return this.parseConfig(JSON.parse(raw)) ?? DEFAULT_SCORING_CONFIG;
+    } catch {
+      return DEFAULT_SCORING_CONFIG;
+    }
+  }
+
+  /**
+   * 按 PUT /scoring 的規則檢查存儲或配置的值：只允許 weights、boosts 兩組已知欄位，
+   * 缺少的欄位取默認值；不合法時返回 null。
+   */
+  private parseConfig(value: unknown): ScoringConfig | null {
+    if (!this.isRecord(value) || !Object.keys(value).every(key => key === 'weights' || key === 'boosts')) {
+      return null;
+    }
+
+    const { weights = {}, boosts = {} } = value;
+    if (!this.hasOnlyKeys(weights, WEIGHT_KEYS) || !this.hasOnlyKeys(boosts, BOOST_KEYS)) {
+      return null;
+    }
+
+    const config: ScoringConfig = {
+      weights: { ...DEFAULT_SCORING_CONFIG.weights, ...(weights as ScoringConfigUpdate['weights']) },
+      boosts: { ...DEFAULT_SCORING_CONFIG.boosts, ...(boosts as ScoringConfigUpdate['boosts']) }
+    };
+
+    try {
+      this.validateConfig(config);
+    } catch {
+      return null;
+    }
+    return config;
+  }
+
+  private hasOnlyKeys(value: unknown, keys: string[]): boolean {
+    return this.isRecord(value) && Object.keys(value).every(key => keys.includes(key));
+  }
+
+  private isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private validateConfig(config: ScoringConfig): void {
+    const values = [...Object.values(config.weights), ...Object.values(config.boosts)];
+
+    if (values.some(value => typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      throw new SearchError('Scoring weights and boosts must be non-negative numbers', 'INVALID_SCORING_CONFIG');
+    }
+
+    if (Object.values(config.weights).every(weight => weight === 0)) {
+      throw new SearchError('At least one scoring weight must be positive', 'INVALID_SCORING_CONFIG');
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { meiliSearch, postgresSearch } = vi.hoisted(() => ({ meiliSearch: vi.fn(), postgresSearch: vi.fn() }));
+vi.mock('../../../config/database', () => ({
+  prisma: {},
+  meilisearch: { index: vi.fn(() => ({ search: meiliSearch })) }
+}));
+vi.mock('../engines/PostgreSQLSearchEngine', () => ({
+  PostgreSQLSearchEngine: class {
+    search = postgresSearch;
+    getStats = vi.fn();
+  }
+}));
+
+import { SearchService } from './SearchService';
+import { ScoringConfigService, DEFAULT_SCORING_CONFIG } from './ScoringConfigService';
+import { SynonymService } from './SynonymService';
+import { QueryLogService } from './QueryLogService';
+import { SearchResultItem } from '../../../shared/types/search.types';
+
+const ANNOTATED: SearchResultItem = {
+  id: 'text-1',
+  type: 'legal_text',
+  title: { zh: '租賃法' },
+  snippet: {},
+  score: 0.8,
+  metadata: { isPublic: true },
+  url: '/texts/text-1'
+};
+
+const record = vi.fn(async () => {});
+
+describe('SearchService engine selection', () => {
+  const service = new SearchService(
+    { getConfig: async () => DEFAULT_SCORING_CONFIG } as unknown as ScoringConfigService,
+    { findExpansions: async () => [] } as unknown as SynonymService,
+    {
+      record,
+      getCompletions: async () => [],
+      getCorrection: async () => null
+    } as unknown as QueryLogService
+  );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    postgresSearch.mockResolvedValue([ANNOTATED]);
+  });
+
+  it('serves a hasAnnotations search from PostgreSQL alone by default', async () => {
+    const result = await service.search({ text: '租賃', filters: { hasAnnotations: true } });
+
+    expect(result.metadata.engines).toEqual(['postgresql']);
+    expect(result.results.map(item => item.id)).toEqual(['text-1']);
+    expect(meiliSearch).not.toHaveBeenCalled();
+  });
+
+  it('serves a hasAnnotations search through the hybrid engine without Meilisearch', async () => {
+    const result = await service.search(
+      { text: '租賃', filters: { hasAnnotations: false } },
+      { engines: ['hybrid'] }
+    );
+
+    expect(result.results.map(item => item.id)).toEqual(['text-1']);
+    expect(meiliSearch).not.toHaveBeenCalled();
+  });
+
+  it('keeps both engines when no filter rules one out', async () => {
+    const result = await service.search({ text: '租賃', filters: { category: '民法' } });
+
+    expect(result.metadata.engines).toEqual(['meilisearch', 'postgresql']);
+  });
+
+  it('logs how many of the results are public texts', async () => {
+    postgresSearch.mockResolvedValue([ANNOTATED, { ...ANNOTATED, id: 'text-2', metadata: { isPublic: false } }]);
+
+    await service.search({ text: '租賃', filters: { hasAnnotations: true }, userId: 'user-1' });
+
+    expect(record).toHaveBeenCalledWith(
+      expect.objectContaining({ normalizedQuery: '租賃', resultCount: 2, publicResultCount: 1, userId: 'user-1' })
+    );
+  });
+});
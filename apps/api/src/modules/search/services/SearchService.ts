@@ -6,7 +6,18 @@ import {
   SearchProcessor,
   SearchEngine,
   SearchEngineType,
-  ProcessingStep
+  SearchFacet,
+  SearchFilters,
+  SearchResultItem,
+  SearchResultType,
+  IndexDocument,
+  EngineRanking,
+  ProcessingStep,
+  QueryLogEntry,
+  SearchAccess,
+  SearchError,
+  QueryError,
+  IndexError
 } from '../../../shared/types/search.types';
 import { QueryNormalizationProcessor } from '../processors/QueryNormalizationProcessor';
 import { LanguageDetectionProcessor } from '../processors/LanguageDetectionProcessor';
@@ -14,12 +25,26 @@ import { SynonymExpansionProcessor } from '../processors/SynonymExpansionProcess
 import { ResultRankingProcessor } from '../processors/ResultRankingProcessor';
 import { PostgreSQLSearchEngine } from '../engines/PostgreSQLSearchEngine';
 import { MeilisearchEngine } from '../engines/MeilisearchEngine';
+import { HybridSearchEngine } from '../engines/HybridSearchEngine';
+import { RankFusion } from '../utils/RankFusion';
+import { buildStructuralUnits, LegalTextStructure } from '../utils/structuralUnits';
+import { ScoringConfigService } from './ScoringConfigService';
+import { SynonymService } from './SynonymService';
+import { QueryLogService } from './QueryLogService';
 
 export class SearchService {
   private processors: SearchProcessor[] = [];
+  private resultProcessors: SearchProcessor[] = [];
   private engines: Map<SearchEngineType, SearchEngine> = new Map();
+  // 實際持有索引的引擎（混合引擎只做檢索融合）
+  private indexEngines: Map<SearchEngineType, SearchEngine> = new Map();
+  private rankFusion: RankFusion = RankFusion.fromEnv();
 
-  constructor() {
+  constructor(
+    private scoringConfigService: ScoringConfigService = new ScoringConfigService(),
+    private synonymService: SynonymService = new SynonymService(),
+    private queryLogService: QueryLogService = new QueryLogService()
+  ) {
     this.initializeProcessors();
     this.initializeEngines();
   }
@@ -28,114 +53,191 @@ export class SearchService {
     this.processors = [
       new QueryNormalizationProcessor(),
       new LanguageDetectionProcessor(),
-      new SynonymExpansionProcessor(),
-      new ResultRankingProcessor()
+      new SynonymExpansionProcessor(this.synonymService)
+    ];
+
+    // 檢索完成後才執行，需要引擎返回的結果
+    this.resultProcessors = [
+      new ResultRankingProcessor(this.scoringConfigService)
     ];
   }
 
   private initializeEngines(): void {
-    this.engines = new Map([
+    const baseEngines = new Map<SearchEngineType, SearchEngine>([
       ['postgresql', new PostgreSQLSearchEngine()],
       ['meilisearch', new MeilisearchEngine()]
     ]);
+
+    this.indexEngines = baseEngines;
+    this.engines = new Map(baseEngines);
+    this.engines.set('hybrid', new HybridSearchEngine(baseEngines, this.rankFusion));
   }
 
   async search(query: SearchQuery, options: SearchOptions = {}): Promise<SearchResult> {
     const startTime = Date.now();
 
-    // 1. 初始化搜索上下文
-    let context: SearchContext = {
-      originalQuery: query.text,
-      normalizedQuery: query.text,
-      language: query.language || 'auto',
-      filters: query.filters || {},
-      engines: options.engines || ['meilisearch', 'postgresql'],
-      results: [],
-      startTime,
-      processingSteps: []
-    };
-
     try {
-      // 2. 責任鏈處理
-      for (const processor of this.processors) {
-        const stepStartTime = Date.now();
-        context = await processor.process(context);
-        
-        context.processingSteps.push({
-          name: processor.constructor.name,
-          duration: Date.now() - stepStartTime,
-          results: context.results.length
-        });
-      }
+      // 1-2. 初始化搜索上下文並經責任鏈處理
+      const context = await this.buildContext(query, options, startTime);
 
       // 3. 多引擎搜索
       const engineResults = await this.executeMultiEngineSearch(context, options);
       
-      // 4. 結果合併和排序
-      const mergedResults = this.mergeResults(engineResults);
-      const rankedResults = await this.rankResults(mergedResults, context, options);
+      // 4. 結果合併、相關性評分和排序
+      context.results = this.mergeResults(engineResults, context);
+      await this.applyResultProcessors(context);
+      const rankedResults = await this.rankResults(context.results, context, options);
 
       // 5. 分頁處理
       const paginatedResults = this.applyPagination(rankedResults, options);
 
-      return {
+      const searchTime = Date.now() - startTime;
+      const result: SearchResult = {
         query: context.originalQuery,
         results: paginatedResults,
         metadata: {
           totalResults: rankedResults.length,
-          searchTime: Date.now() - startTime,
+          searchTime,
           engines: context.engines,
           language: context.language,
           page: Math.floor((options.offset || 0) / (options.limit || 20)) + 1,
           limit: options.limit || 20,
           processingSteps: context.processingSteps
         },
-        suggestions: await this.generateSuggestions(context)
+        suggestions: []
+      };
+
+      await this.applySuggestions(result, context);
+
+      // 查詢日誌寫入失敗不影響搜索結果
+      const logEntry: QueryLogEntry = {
+        query: context.originalQuery,
+        normalizedQuery: context.normalizedQuery,
+        language: context.language,
+        filters: context.filters,
+        resultCount: rankedResults.length,
+        publicResultCount: rankedResults.filter(item => item.metadata.isPublic).length,
+        latencyMs: searchTime,
+        engines: context.engines
       };
+      if (query.userId) logEntry.userId = query.userId;
+      this.queryLogService.record(logEntry).catch(() => {});
+
+      // 6. 分面統計
+      if (options.facets && options.facets.length > 0) {
+        result.facets = await this.collectFacets(context, options);
+      }
+
+      return result;
     } catch (error) {
+      // 查詢語法等業務錯誤原樣拋出，由控制器轉換為 4xx
+      if (error instanceof SearchError) {
+        throw error;
+      }
       throw new Error(`Search failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  private async buildContext(
+    query: SearchQuery,
+    options: SearchOptions,
+    startTime: number = Date.now()
+  ): Promise<SearchContext> {
+    let context: SearchContext = {
+      originalQuery: query.text,
+      normalizedQuery: query.text,
+      language: query.language || 'auto',
+      filters: query.filters || {},
+      engines: this.selectEngines(options.engines || ['meilisearch', 'postgresql'], query.filters || {}),
+      results: [],
+      startTime,
+      processingSteps: []
+    };
+
+    for (const processor of this.processors) {
+      const stepStartTime = Date.now();
+      context = await processor.process(context);
+
+      context.processingSteps.push({
+        name: processor.constructor.name,
+        duration: Date.now() - stepStartTime,
+        results: context.results.length
+      });
+    }
+
+    return context;
+  }
+
+  // 跳過不支持當前過濾條件的引擎；都不支持時保留原列表，由引擎報告錯誤
+  private selectEngines(requested: SearchEngineType[], filters: SearchFilters): SearchEngineType[] {
+    const supported = requested.filter(type => this.engines.get(type)?.supportsFilters?.(filters) ?? true);
+    return supported.length > 0 ? supported : requested;
+  }
+
+  private async applyResultProcessors(context: SearchContext): Promise<void> {
+    for (const processor of this.resultProcessors) {
+      const stepStartTime = Date.now();
+      await processor.process(context);
+
+      context.processingSteps.push({
+        name: processor.constructor.name,
+        duration: Date.now() - stepStartTime,
+        results: context.results.length
+      });
+    }
+  }
+
   private async executeMultiEngineSearch(
     context: SearchContext, 
     options: SearchOptions
-  ): Promise<Array<any[]>> {
-    const searchPromises = context.engines.map(engineType => {
+  ): Promise<EngineRanking[]> {
+    const searchPromises = context.engines.map(async (engineType): Promise<EngineRanking> => {
       const engine = this.engines.get(engineType);
       if (!engine) {
-        return Promise.resolve([]);
+        return { engine: engineType, results: [] };
       }
-      return engine.search(context, options).catch(error => {
-        // 記錄引擎錯誤但不阻斷其他引擎
-        return [];
+      const results = await engine.search(context, options).catch(error => {
+        // 查詢無法執行時直接報錯，其他引擎錯誤只記錄不阻斷
+        if (error instanceof QueryError) throw error;
+        return [] as SearchResultItem[];
       });
+      return { engine: engineType, results };
     });
 
     return Promise.all(searchPromises);
   }
 
-  private mergeResults(engineResults: Array<any[]>): any[] {
-    const mergedResults = [];
-    const seenIds = new Set<string>();
-
-    // 合併所有引擎的結果，避免重複
-    for (const results of engineResults) {
-      for (const result of results) {
-        if (!seenIds.has(result.id)) {
-          seenIds.add(result.id);
-          mergedResults.push(result);
-        } else {
-          // 如果已存在，取更高的分數
-          const existingIndex = mergedResults.findIndex(r => r.id === result.id);
-          if (existingIndex !== -1 && result.score > mergedResults[existingIndex].score) {
-            mergedResults[existingIndex] = result;
-          }
-        }
+  private async collectFacets(context: SearchContext, options: SearchOptions): Promise<SearchFacet[]> {
+    // 使用第一個支持分面的引擎
+    for (const engineType of context.engines) {
+      const engine = this.engines.get(engineType);
+      if (engine?.getFacets) {
+        return engine.getFacets(context, options).catch(() => []);
       }
     }
 
-    return mergedResults;
+    return [];
+  }
+
+  private mergeResults(engineResults: EngineRanking[], context: SearchContext): SearchResultItem[] {
+    if (engineResults.length === 1) {
+      return engineResults[0]?.results || [];
+    }
+
+    // 各引擎分數尺度不同，以排名融合代替直接比較原始分數
+    const { results, contributions } = this.rankFusion.fuse(engineResults);
+
+    for (const { engine, results: engineItems } of engineResults) {
+      context.processingSteps.push({
+        name: `RankFusion:${engine}`,
+        duration: 0,
+        results: engineItems.length,
+        engine,
+        contributions: contributions.get(engine) || []
+      });
+    }
+
+    return results;
   }
 
   private async rankResults(results: any[], context: SearchContext, options: SearchOptions): Promise<any[]> {
@@ -183,18 +285,35 @@ export class SearchService {
     return results.slice(offset, offset + limit);
   }
 
-  private async generateSuggestions(context: SearchContext): Promise<string[]> {
-    // 簡化的建議生成
-    const suggestions: string[] = [];
-    
-    // 基於查詢歷史的建議（模擬）
-    if (context.originalQuery.length > 2) {
-      suggestions.push(context.originalQuery + ' 法律');
-      suggestions.push(context.originalQuery + ' 規定');
-      suggestions.push(context.originalQuery + ' 條文');
+  // 無結果時給出拼寫更正，否則以熱門查詢補全當前查詢
+  private async applySuggestions(result: SearchResult, context: SearchContext): Promise<void> {
+    try {
+      if (result.metadata.totalResults === 0) {
+        const correction = await this.queryLogService.getCorrection(context.normalizedQuery, context.filters.access);
+        if (correction) {
+          result.didYouMean = correction.text;
+          result.suggestions = [correction.text];
+        }
+        return;
+      }
+
+      const completions = await this.queryLogService.getCompletions(context.normalizedQuery, 6, context.filters.access);
+      result.suggestions = completions
+        .map(suggestion => suggestion.text)
+        .filter(text => text.toLowerCase() !== context.normalizedQuery)
+        .slice(0, 5);
+    } catch (error) {
+      // 建議不可用時返回空列表
     }
-    
-    return suggestions.slice(0, 5);
+  }
+
+  // 分面列表（不返回結果本身）
+  async getFacets(query: SearchQuery, fields: string[], engines?: SearchEngineType[]): Promise<SearchFacet[]> {
+    const options: SearchOptions = { facets: fields };
+    if (engines) options.engines = engines;
+
+    const context = await this.buildContext(query, options);
+    return this.collectFacets(context, options);
   }
 
   // 批量搜索方法
@@ -203,39 +322,73 @@ export class SearchService {
     return Promise.all(promises);
   }
 
-  // 索引管理方法
-  async indexDocument(document: any): Promise<void> {
-    const indexPromises = Array.from(this.engines.values()).map(engine => 
-      engine.index([document]).catch(error => {
-        // 記錄錯誤但不阻斷其他引擎
-      })
-    );
-    
-    await Promise.all(indexPromises);
+  // 索引管理方法；提供結構時同時索引條文和章節
+  async indexDocument(document: IndexDocument, structure?: LegalTextStructure): Promise<void> {
+    const documents = structure ? [document, ...buildStructuralUnits(document, structure)] : [document];
+    await this.runOnIndexEngines(engine => engine.index(documents), document.id);
   }
 
-  async updateIndex(documents: any[]): Promise<void> {
-    const updatePromises = Array.from(this.engines.values()).map(engine => 
-      engine.updateIndex(documents).catch(error => {
-        // 記錄錯誤但不阻斷其他引擎
-      })
-    );
-    
-    await Promise.all(updatePromises);
+  async updateIndex(documents: IndexDocument[]): Promise<void> {
+    await this.runOnIndexEngines(engine => engine.updateIndex(documents), documents[0]?.id);
   }
 
   async deleteFromIndex(documentIds: string[]): Promise<void> {
-    const deletePromises = Array.from(this.engines.values()).map(engine => 
-      engine.deleteFromIndex(documentIds).catch(error => {
-        // 記錄錯誤但不阻斷其他引擎
-      })
+    await this.runOnIndexEngines(engine => engine.deleteFromIndex(documentIds), documentIds[0]);
+  }
+
+  // 單引擎操作，供索引同步按引擎重試
+  getIndexEngineTypes(): SearchEngineType[] {
+    return Array.from(this.indexEngines.keys());
+  }
+
+  async indexOn(engineType: SearchEngineType, document: IndexDocument, structure?: LegalTextStructure): Promise<void> {
+    const documents = structure ? [document, ...buildStructuralUnits(document, structure)] : [document];
+    await this.getIndexEngine(engineType).index(documents);
+  }
+
+  async deleteOn(engineType: SearchEngineType, documentIds: string[]): Promise<void> {
+    await this.getIndexEngine(engineType).deleteFromIndex(documentIds);
+  }
+
+  async listDocumentIdsOn(engineType: SearchEngineType, type: SearchResultType = 'legal_text'): Promise<string[]> {
+    const engine = this.getIndexEngine(engineType);
+    if (!engine.listDocumentIds) {
+      throw new IndexError(`Engine ${engineType} cannot list indexed documents`);
+    }
+
+    return engine.listDocumentIds(type);
+  }
+
+  private getIndexEngine(engineType: SearchEngineType): SearchEngine {
+    const engine = this.indexEngines.get(engineType);
+    if (!engine) {
+      throw new IndexError(`Unknown index engine: ${engineType}`);
+    }
+
+    return engine;
+  }
+
+  // 各引擎互不阻斷，全部完成後再報告失敗的引擎
+  private async runOnIndexEngines(
+    operation: (engine: SearchEngine) => Promise<void>,
+    documentId?: string
+  ): Promise<void> {
+    const entries = Array.from(this.indexEngines.entries());
+    const outcomes = await Promise.allSettled(entries.map(([, engine]) => operation(engine)));
+
+    const failures = outcomes.flatMap((outcome, index) =>
+      outcome.status === 'rejected'
+        ? [`${entries[index]?.[0]}: ${outcome.reason instanceof Error ? outcome.reason.message : 'Unknown error'}`]
+        : []
     );
-    
-    await Promise.all(deletePromises);
+
+    if (failures.length > 0) {
+      throw new IndexError(`Index operation failed on ${failures.join('; ')}`, documentId);
+    }
   }
 
   // 獲取搜索統計
-  async getSearchStats(): Promise<any> {
+  async getSearchStats(days: number = 30): Promise<any> {
     const engineStats = await Promise.all(
       Array.from(this.engines.entries()).map(async ([type, engine]) => ({
         engine: type,
@@ -243,9 +396,18 @@ export class SearchService {
       }))
     );
 
+    const queryLog = await this.queryLogService.getAnalytics(days).catch(() => null);
+
+    // 熱門查詢來自共用的查詢日誌，而非各引擎自身
     return {
-      engines: engineStats.filter(stat => stat.stats !== null),
+      engines: engineStats
+        .filter(stat => stat.stats !== null)
+        .map(stat => ({
+          ...stat,
+          stats: { ...stat.stats, popularQueries: queryLog?.popularQueries || [] }
+        })),
       totalEngines: this.engines.size,
+      queryLog,
       lastUpdate: new Date()
     };
   }
@@ -271,17 +433,9 @@ export class SearchService {
     return Object.fromEntries(healthChecks) as Record<SearchEngineType, boolean>;
   }
 
-  // 查詢建議
-  async getSuggestions(query: string, limit: number = 5): Promise<string[]> {
-    // 簡化的建議實現
-    const suggestions = [
-      query + ' 法律',
-      query + ' 條文',
-      query + ' 規定',
-      query + ' 辦法',
-      query + ' 實施'
-    ];
-
-    return suggestions.slice(0, limit);
+  // 查詢建議；access 為空表示可見全部文本的特權用戶
+  async getSuggestions(query: string, limit: number = 5, access?: SearchAccess): Promise<string[]> {
+    const suggestions = await this.queryLogService.getCompletions(query, limit, access);
+    return suggestions.map(suggestion => suggestion.text);
   }
-} 
\ No newline at end of file
+}
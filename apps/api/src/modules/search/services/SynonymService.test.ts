@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Prisma } from '@prisma/client';
+
+const { synonym } = vi.hoisted(() => ({
+  synonym: { findMany: vi.fn(), create: vi.fn() }
+}));
+vi.mock('../../../config/database', () => ({ prisma: { synonym } }));
+
+import { SynonymService } from './SynonymService';
+
+function row(term: string, termLanguage: 'zh' | 'pt', synonym: string, synonymLanguage: 'zh' | 'pt', bidirectional = true) {
+  return { id: `${term}-${synonym}`, term, termLanguage, synonym, synonymLanguage, bidirectional, confidence: 0.8 };
+}
+
+describe('SynonymService', () => {
+  let service: SynonymService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new SynonymService();
+  });
+
+  describe('findExpansions', () => {
+    it('prefers the longest term and skips overlapping shorter ones', async () => {
+      synonym.findMany.mockResolvedValue([
+        row('行政法規', 'zh', 'Regulamento Administrativo', 'pt'),
+        row('法規', 'zh', '法律', 'zh')
+      ]);
+
+      const expansions = await service.findExpansions('行政法規 公布');
+
+      expect(expansions).toEqual([
+        { originalTerm: '行政法規', expandedTerms: ['Regulamento Administrativo'], method: 'translation', confidence: 0.8 }
+      ]);
+    });
+
+    it('expands bidirectional entries from either side', async () => {
+      synonym.findMany.mockResolvedValue([row('法令', 'zh', 'Decreto-Lei', 'pt')]);
+
+      const expansions = await service.findExpansions('decreto-lei n.º 5/2020');
+
+      expect(expansions[0]).toMatchObject({ originalTerm: 'decreto-lei', expandedTerms: ['法令'] });
+    });
+
+    it('does not reverse one-way entries', async () => {
+      synonym.findMany.mockResolvedValue([row('Decreto-Lei', 'pt', 'DL', 'pt', false)]);
+
+      expect(await service.findExpansions('DL 5/2020')).toEqual([]);
+    });
+
+    it('only matches Portuguese terms on word boundaries', async () => {
+      synonym.findMany.mockResolvedValue([row('Lei', 'pt', '法律', 'zh')]);
+
+      expect(await service.findExpansions('leitura')).toEqual([]);
+      expect(await service.findExpansions('a lei básica')).toHaveLength(1);
+    });
+
+    it('does not expand when the dictionary cannot be loaded', async () => {
+      synonym.findMany.mockRejectedValue(new Error('connection refused'));
+
+      expect(await service.findExpansions('法律')).toEqual([]);
+    });
+  });
+
+  describe('create', () => {
+    it('rejects a synonym identical to its term', async () => {
+      await expect(
+        service.create({ term: 'Lei', termLanguage: 'pt', synonym: 'lei', synonymLanguage: 'pt' }, 'user-1')
+      ).rejects.toMatchObject({ code: 'INVALID_SYNONYM' });
+      expect(synonym.create).not.toHaveBeenCalled();
+    });
+
+    it('reports a duplicate entry', async () => {
+      synonym.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' })
+      );
+
+      await expect(
+        service.create({ term: '批示', termLanguage: 'zh', synonym: 'Despacho', synonymLanguage: 'pt' }, 'user-1')
+      ).rejects.toMatchObject({ code: 'SYNONYM_EXISTS' });
+    });
+
+    it('reloads the dictionary after a change', async () => {
+      synonym.findMany.mockResolvedValue([]);
+      await service.findExpansions('公報');
+
+      synonym.create.mockResolvedValue(row('公報', 'zh', 'Boletim Oficial', 'pt'));
+      synonym.findMany.mockResolvedValue([row('公報', 'zh', 'Boletim Oficial', 'pt')]);
+      await service.create({ term: '公報', termLanguage: 'zh', synonym: 'Boletim Oficial', synonymLanguage: 'pt' }, 'user-1');
+
+      expect(await service.findExpansions('公報')).toHaveLength(1);
+      expect(synonym.findMany).toHaveBeenCalledTimes(2);
+    });
+  });
+});
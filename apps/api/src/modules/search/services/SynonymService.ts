@@ -0,0 +1,282 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../../config/database';
+import {
+  SearchError,
+  QueryExpansion,
+  ExpansionMethod,
+  SynonymEntry,
+  SynonymInput,
+  SynonymLanguage,
+  SynonymListFilters
+} from '../../../shared/types/search.types';
+
+interface DictionaryEntry {
+  synonym: string;
+  method: ExpansionMethod;
+  confidence: number;
+}
+
+// 初始詞庫，僅在同義詞表為空時寫入
+const DEFAULT_SYNONYMS: SynonymInput[] = [
+  { term: '法律', termLanguage: 'zh', synonym: '法規', synonymLanguage: 'zh', confidence: 0.8 },
+  { term: '規定', termLanguage: 'zh', synonym: '條文', synonymLanguage: 'zh', confidence: 0.8 },
+  { term: '辦法', termLanguage: 'zh', synonym: '規則', synonymLanguage: 'zh', confidence: 0.8 },
+  { term: '法律', termLanguage: 'zh', synonym: 'Lei', synonymLanguage: 'pt' },
+  { term: '法令', termLanguage: 'zh', synonym: 'Decreto-Lei', synonymLanguage: 'pt' },
+  { term: '行政法規', termLanguage: 'zh', synonym: 'Regulamento Administrativo', synonymLanguage: 'pt' },
+  { term: '批示', termLanguage: 'zh', synonym: 'Despacho', synonymLanguage: 'pt' },
+  { term: '行政長官', termLanguage: 'zh', synonym: 'Chefe do Executivo', synonymLanguage: 'pt' },
+  { term: '立法會', termLanguage: 'zh', synonym: 'Assembleia Legislativa', synonymLanguage: 'pt' },
+  { term: '終審法院', termLanguage: 'zh', synonym: 'Tribunal de Última Instância', synonymLanguage: 'pt' },
+  { term: '基本法', termLanguage: 'zh', synonym: 'Lei Básica', synonymLanguage: 'pt' },
+  { term: '民法典', termLanguage: 'zh', synonym: 'Código Civil', synonymLanguage: 'pt' },
+  { term: '刑法典', termLanguage: 'zh', synonym: 'Código Penal', synonymLanguage: 'pt' },
+  { term: '公報', termLanguage: 'zh', synonym: 'Boletim Oficial', synonymLanguage: 'pt' },
+  { term: 'Decreto-Lei', termLanguage: 'pt', synonym: 'DL', synonymLanguage: 'pt', confidence: 0.7 },
+  { term: 'Região Administrativa Especial de Macau', termLanguage: 'pt', synonym: 'RAEM', synonymLanguage: 'pt', confidence: 0.9 }
+];
+
+const SYNONYM_LANGUAGES: SynonymLanguage[] = ['zh', 'pt'];
+
+export class SynonymService {
+  private readonly CACHE_TTL = 60 * 1000; // 1 minute
+  private readonly MAX_LIMIT = 100;
+
+  private dictionary: { entries: Map<string, DictionaryEntry[]>; loadedAt: number } | null = null;
+
+  async initializeSynonyms(): Promise<void> {
+    const count = await prisma.synonym.count();
+    if (count > 0) return;
+
+    await prisma.synonym.createMany({
+      data: DEFAULT_SYNONYMS.map(entry => this.toData(entry)),
+      skipDuplicates: true
+    });
+  }
+
+  async list(filters: SynonymListFilters = {}): Promise<{ items: SynonymEntry[]; total: number; page: number; limit: number }> {
+    const page = Math.max(filters.page || 1, 1);
+    const limit = Math.min(Math.max(filters.limit || 20, 1), this.MAX_LIMIT);
+
+    const where: Prisma.SynonymWhereInput = {};
+    if (filters.search) {
+      where.OR = [
+        { term: { contains: filters.search, mode: 'insensitive' } },
+        { synonym: { contains: filters.search, mode: 'insensitive' } }
+      ];
+    }
+    if (filters.language) {
+      where.AND = [{ OR: [{ termLanguage: filters.language }, { synonymLanguage: filters.language }] }];
+    }
+
+    const [items, total] = await Promise.all([
+      prisma.synonym.findMany({
+        where,
+        orderBy: [{ term: 'asc' }, { synonym: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.synonym.count({ where })
+    ]);
+
+    return { items: items as SynonymEntry[], total, page, limit };
+  }
+
+  async get(id: string): Promise<SynonymEntry> {
+    const synonym = await prisma.synonym.findUnique({ where: { id } });
+    if (!synonym) {
+      throw new SearchError('Synonym not found', 'SYNONYM_NOT_FOUND', { id });
+    }
+
+    return synonym as SynonymEntry;
+  }
+
+  async create(input: SynonymInput, userId: string): Promise<SynonymEntry> {
+    this.validateInput(input);
+
+    try {
+      const synonym = await prisma.synonym.create({
+        data: { ...this.toData(input), createdById: userId }
+      });
+
+      this.invalidateCache();
+      return synonym as SynonymEntry;
+    } catch (error) {
+      throw this.translateError(error, input);
+    }
+  }
+
+  async update(id: string, update: Partial<SynonymInput>): Promise<SynonymEntry> {
+    const existing = await this.get(id);
+    const merged: SynonymInput = {
+      term: update.term ?? existing.term,
+      termLanguage: update.termLanguage ?? existing.termLanguage,
+      synonym: update.synonym ?? existing.synonym,
+      synonymLanguage: update.synonymLanguage ?? existing.synonymLanguage,
+      bidirectional: update.bidirectional ?? existing.bidirectional,
+      confidence: update.confidence ?? existing.confidence
+    };
+
+    this.validateInput(merged);
+
+    try {
+      const synonym = await prisma.synonym.update({
+        where: { id },
+        data: this.toData(merged)
+      });
+
+      this.invalidateCache();
+      return synonym as SynonymEntry;
+    } catch (error) {
+      throw this.translateError(error, merged);
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    const { count } = await prisma.synonym.deleteMany({ where: { id } });
+    if (count === 0) {
+      throw new SearchError('Synonym not found', 'SYNONYM_NOT_FOUND', { id });
+    }
+
+    this.invalidateCache();
+  }
+
+  // 在查詢中查找詞庫術語，長詞優先且不重疊匹配
+  async findExpansions(query: string): Promise<QueryExpansion[]> {
+    const entries = await this.loadDictionary();
+    const lowerQuery = query.toLowerCase();
+    const matchedSpans: Array<[number, number]> = [];
+    const expansions: QueryExpansion[] = [];
+
+    const terms = Array.from(entries.keys()).sort((a, b) => b.length - a.length);
+
+    for (const term of terms) {
+      const index = this.findTerm(lowerQuery, term);
+      if (index === -1) continue;
+
+      const span: [number, number] = [index, index + term.length];
+      if (matchedSpans.some(([start, end]) => span[0] < end && start < span[1])) continue;
+      matchedSpans.push(span);
+
+      const originalTerm = query.slice(span[0], span[1]);
+      const grouped = new Map<ExpansionMethod, DictionaryEntry[]>();
+      for (const entry of entries.get(term) || []) {
+        grouped.set(entry.method, [...(grouped.get(entry.method) || []), entry]);
+      }
+
+      for (const [method, group] of grouped) {
+        expansions.push({
+          originalTerm,
+          expandedTerms: group.map(entry => entry.synonym),
+          method,
+          confidence: group.reduce((sum, entry) => sum + entry.confidence, 0) / group.length
+        });
+      }
+    }
+
+    return expansions.sort((a, b) => b.confidence - a.confidence);
+  }
+
+  invalidateCache(): void {
+    this.dictionary = null;
+  }
+
+  private async loadDictionary(): Promise<Map<string, DictionaryEntry[]>> {
+    if (this.dictionary && Date.now() - this.dictionary.loadedAt < this.CACHE_TTL) {
+      return this.dictionary.entries;
+    }
+
+    const entries = new Map<string, DictionaryEntry[]>();
+    const add = (term: string, entry: DictionaryEntry) => {
+      const key = term.toLowerCase();
+      const existing = entries.get(key) || [];
+      if (!existing.some(item => item.synonym.toLowerCase() === entry.synonym.toLowerCase())) {
+        entries.set(key, [...existing, entry]);
+      }
+    };
+
+    try {
+      const synonyms = await prisma.synonym.findMany();
+
+      for (const synonym of synonyms) {
+        const method: ExpansionMethod = synonym.termLanguage === synonym.synonymLanguage ? 'synonym' : 'translation';
+
+        add(synonym.term, { synonym: synonym.synonym, method, confidence: synonym.confidence });
+        if (synonym.bidirectional) {
+          add(synonym.synonym, { synonym: synonym.term, method, confidence: synonym.confidence });
+        }
+      }
+    } catch (error) {
+      // 詞庫不可用時不進行擴展
+    }
+
+    this.dictionary = { entries, loadedAt: Date.now() };
+    return entries;
+  }
+
+  // 中文按子串匹配；葡文需要落在詞邊界上，避免 "lei" 命中 "leitura"
+  private findTerm(query: string, term: string): number {
+    if (/\p{Script=Han}/u.test(term)) {
+      return query.indexOf(term);
+    }
+
+    let index = query.indexOf(term);
+    while (index !== -1) {
+      const before = query[index - 1];
+      const after = query[index + term.length];
+      if (!this.isWordChar(before) && !this.isWordChar(after)) {
+        return index;
+      }
+      index = query.indexOf(term, index + 1);
+    }
+
+    return -1;
+  }
+
+  private isWordChar(char: string | undefined): boolean {
+    return char !== undefined && /[\p{L}\p{N}]/u.test(char);
+  }
+
+  private validateInput(input: SynonymInput): void {
+    const term = input.term?.trim();
+    const synonym = input.synonym?.trim();
+
+    if (!term || !synonym) {
+      throw new SearchError('Term and synonym are required', 'INVALID_SYNONYM');
+    }
+
+    if (term.toLowerCase() === synonym.toLowerCase()) {
+      throw new SearchError('Term and synonym must differ', 'INVALID_SYNONYM');
+    }
+
+    if (!SYNONYM_LANGUAGES.includes(input.termLanguage) || !SYNONYM_LANGUAGES.includes(input.synonymLanguage)) {
+      throw new SearchError('Language must be zh or pt', 'INVALID_SYNONYM');
+    }
+
+    if (input.confidence !== undefined && (input.confidence < 0 || input.confidence > 1)) {
+      throw new SearchError('Confidence must be between 0 and 1', 'INVALID_SYNONYM');
+    }
+  }
+
+  private toData(input: SynonymInput): Prisma.SynonymCreateManyInput {
+    return {
+      term: input.term.trim(),
+      termLanguage: input.termLanguage,
+      synonym: input.synonym.trim(),
+      synonymLanguage: input.synonymLanguage,
+      bidirectional: input.bidirectional ?? true,
+      confidence: input.confidence ?? 1.0
+    };
+  }
+
+  private translateError(error: unknown, input: SynonymInput): Error {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return new SearchError('Synonym already exists', 'SYNONYM_EXISTS', {
+        term: input.term,
+        synonym: input.synonym
+      });
+    }
+
+    return error instanceof Error ? error : new Error('Synonym operation failed');
+  }
+}
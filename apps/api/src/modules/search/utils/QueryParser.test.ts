@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { QueryParser } from './QueryParser';
+import { QueryError } from '../../../shared/types/search.types';
+
+function parse(query: string) {
+  return new QueryParser().parse(query);
+}
+
+function parseError(query: string): QueryError {
+  try {
+    parse(query);
+  } catch (error) {
+    if (error instanceof QueryError) return error;
+    throw error;
+  }
+  throw new Error(`Expected '${query}' to be rejected`);
+}
+
+describe('QueryParser', () => {
+  it('returns null for a blank query', () => {
+    expect(parse('   ')).toBeNull();
+  });
+
+  it('joins adjacent terms with AND and flattens nested groups', () => {
+    expect(parse('租賃 (合同 AND 解除)')).toEqual({
+      type: 'and',
+      children: [
+        { type: 'term', value: '租賃' },
+        { type: 'term', value: '合同' },
+        { type: 'term', value: '解除' }
+      ]
+    });
+  });
+
+  it('binds AND tighter than OR', () => {
+    expect(parse('a OR b c')).toEqual({
+      type: 'or',
+      children: [
+        { type: 'term', value: 'a' },
+        { type: 'and', children: [{ type: 'term', value: 'b' }, { type: 'term', value: 'c' }] }
+      ]
+    });
+  });
+
+  it('reads half-width and Chinese quotes as phrases', () => {
+    expect(parse('"direito  civil"')).toEqual({ type: 'phrase', value: 'direito civil' });
+    expect(parse('「行政程序」')).toEqual({ type: 'phrase', value: '行政程序' });
+  });
+
+  it('treats a leading minus as NOT but keeps hyphens inside words', () => {
+    expect(parse('-廢止 Decreto-Lei')).toEqual({
+      type: 'and',
+      children: [
+        { type: 'not', child: { type: 'term', value: '廢止' } },
+        { type: 'term', value: 'Decreto-Lei' }
+      ]
+    });
+  });
+
+  it('parses trailing wildcards as prefix terms', () => {
+    expect(parse('contrat*')).toEqual({ type: 'term', value: 'contrat', prefix: true });
+    expect(parseError('con*trato').metadata?.position).toBe(3);
+    expect(parseError('*').message).toContain('Wildcard requires a prefix');
+  });
+
+  it('applies a field prefix to every term in a group, case-insensitively', () => {
+    expect(parse('LAWNUMBER:(8/2005 OR "9/2006")')).toEqual({
+      type: 'or',
+      children: [
+        { type: 'term', value: '8/2005', field: 'lawNumber' },
+        { type: 'phrase', value: '9/2006', field: 'lawNumber' }
+      ]
+    });
+  });
+
+  it('accepts Arabic and Chinese article numbers only', () => {
+    expect(parse('article:十五')).toEqual({ type: 'term', value: '十五', field: 'article' });
+    expect(parse('article:15')).toEqual({ type: 'term', value: '15', field: 'article' });
+    expect(parseError('article:abc').message).toContain("expects an article number");
+    expect(parseError('article:1*').message).toContain("Wildcards are not supported for 'article'");
+  });
+
+  it('rejects unknown and nested fields', () => {
+    expect(parseError('author:lei').message).toContain("Unknown field 'author'");
+    expect(parseError('title:(category:x)').message).toContain("Cannot nest field 'category' inside 'title'");
+  });
+
+  it('reports the position of syntax errors', () => {
+    expect(parseError('"abc').metadata?.position).toBe(0);
+    expect(parseError('a )').metadata?.position).toBe(2);
+    expect(parseError('(a b').metadata?.position).toBe(0);
+    expect(parseError('a OR').metadata?.position).toBe(2);
+    expect(parseError('()').message).toContain('Empty group');
+  });
+});
@@ -0,0 +1,310 @@
+import { QueryNode, QueryField, QueryError } from '../../../shared/types/search.types';
+import { parseChineseNumeral } from './chineseNumerals';
+
+type Token =
+  | { type: 'word'; value: string; position: number }
+  | { type: 'phrase'; value: string; position: number }
+  | { type: 'field'; value: QueryField; position: number }
+  | { type: 'and' | 'or' | 'not' | 'lparen' | 'rparen'; position: number };
+
+// 欄位前綴不區分大小寫，例如 lawnumber: 與 lawNumber: 等價
+const FIELD_NAMES: Record<string, QueryField> = {
+  title: 'title',
+  lawnumber: 'lawNumber',
+  category: 'category',
+  article: 'article'
+};
+
+const OPERATORS: Record<string, 'and' | 'or' | 'not'> = {
+  AND: 'and',
+  OR: 'or',
+  NOT: 'not'
+};
+
+// 支持半形引號及中文引號
+const QUOTE_PAIRS: Record<string, string> = {
+  '"': '"',
+  '“': '”',
+  '「': '」',
+  '『': '』'
+};
+
+const FIELD_PATTERN = /^([A-Za-z]+):/;
+
+/**
+ * 查詢語法：
+ *   "精確短語"、AND / OR / NOT（或 -詞）、括號分組、前綴通配 詞*
+ *   欄位限定 title: lawNumber: category: article:，可作用於分組 title:(a OR b)
+ * 相鄰詞之間默認為 AND。
+ */
+export class QueryParser {
+  private tokens: Token[] = [];
+  private position = 0;
+  private query = '';
+
+  parse(query: string): QueryNode | null {
+    this.query = query;
+    this.tokens = this.tokenize(query);
+    this.position = 0;
+
+    if (this.tokens.length === 0) {
+      return null;
+    }
+
+    const node = this.parseOr();
+    const remaining = this.peek();
+
+    if (remaining) {
+      throw this.error(
+        remaining.type === 'rparen' ? 'Unexpected closing parenthesis' : 'Unexpected token',
+        remaining.position
+      );
+    }
+
+    return node;
+  }
+
+  private tokenize(query: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < query.length) {
+      const char = query[i] as string;
+
+      if (/\s/.test(char)) {
+        i++;
+        continue;
+      }
+
+      if (char === '(' || char === ')') {
+        tokens.push({ type: char === '(' ? 'lparen' : 'rparen', position: i });
+        i++;
+        continue;
+      }
+
+      const closingQuote = QUOTE_PAIRS[char];
+      if (closingQuote) {
+        const end = query.indexOf(closingQuote, i + 1);
+        if (end === -1) {
+          throw this.error('Unterminated phrase', i);
+        }
+
+        const value = query.slice(i + 1, end).trim().replace(/\s+/g, ' ');
+        if (!value) {
+          throw this.error('Empty phrase', i);
+        }
+
+        tokens.push({ type: 'phrase', value, position: i });
+        i = end + 1;
+        continue;
+      }
+
+      // 只有位於詞首的減號表示排除，Decreto-Lei 中的連字號保持原樣
+      if (char === '-' && i + 1 < query.length && !/[\s)]/.test(query[i + 1] as string)) {
+        tokens.push({ type: 'not', position: i });
+        i++;
+        continue;
+      }
+
+      const fieldMatch = FIELD_PATTERN.exec(query.slice(i));
+      if (fieldMatch) {
+        const name = fieldMatch[1] as string;
+        const field = FIELD_NAMES[name.toLowerCase()];
+        if (!field) {
+          throw this.error(`Unknown field '${name}'`, i);
+        }
+
+        tokens.push({ type: 'field', value: field, position: i });
+        i += fieldMatch[0].length;
+        continue;
+      }
+
+      let end = i;
+      while (end < query.length && !/[\s()]/.test(query[end] as string) && !QUOTE_PAIRS[query[end] as string]) {
+        end++;
+      }
+
+      const word = query.slice(i, end);
+      const operator = OPERATORS[word];
+
+      if (operator) {
+        tokens.push({ type: operator, position: i });
+      } else {
+        tokens.push({ type: 'word', value: word, position: i });
+      }
+
+      i = end;
+    }
+
+    return tokens;
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+
+    while (this.peek()?.type === 'or') {
+      const operator = this.next() as Token;
+      if (!this.startsOperand()) {
+        throw this.error('Expected a term after OR', operator.position);
+      }
+      children.push(this.parseAnd());
+    }
+
+    return this.combine('or', children);
+  }
+
+  private parseAnd(): QueryNode {
+    const children = [this.parseUnary()];
+
+    while (true) {
+      const token = this.peek();
+
+      if (token?.type === 'and') {
+        this.next();
+        if (!this.startsOperand()) {
+          throw this.error('Expected a term after AND', token.position);
+        }
+        children.push(this.parseUnary());
+      } else if (this.startsOperand()) {
+        children.push(this.parseUnary());
+      } else {
+        break;
+      }
+    }
+
+    return this.combine('and', children);
+  }
+
+  private parseUnary(): QueryNode {
+    const token = this.peek();
+
+    if (token?.type === 'not') {
+      this.next();
+      if (!this.startsOperand()) {
+        throw this.error('Expected a term after NOT', token.position);
+      }
+      return { type: 'not', child: this.parseUnary() };
+    }
+
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.next();
+
+    if (!token) {
+      throw this.error('Unexpected end of query', this.query.length);
+    }
+
+    switch (token.type) {
+      case 'lparen': {
+        if (this.peek()?.type === 'rparen') {
+          throw this.error('Empty group', token.position);
+        }
+        const node = this.parseOr();
+        if (this.next()?.type !== 'rparen') {
+          throw this.error('Missing closing parenthesis', token.position);
+        }
+        return node;
+      }
+
+      case 'field': {
+        const value = this.peek();
+        if (!value || !['word', 'phrase', 'lparen'].includes(value.type)) {
+          throw this.error(`Missing value for field '${token.value}'`, token.position);
+        }
+        return this.applyField(this.parsePrimary(), token.value, token.position);
+      }
+
+      case 'phrase':
+        return { type: 'phrase', value: token.value };
+
+      case 'word':
+        return this.buildTerm(token.value, token.position);
+
+      case 'rparen':
+        throw this.error('Unexpected closing parenthesis', token.position);
+
+      default:
+        throw this.error(`Unexpected operator '${token.type.toUpperCase()}'`, token.position);
+    }
+  }
+
+  private buildTerm(word: string, position: number): QueryNode {
+    const wildcard = word.indexOf('*');
+
+    if (wildcard === -1) {
+      return { type: 'term', value: word };
+    }
+
+    if (wildcard !== word.length - 1) {
+      throw this.error('Wildcards are only supported at the end of a term', position + wildcard);
+    }
+
+    if (word.length === 1) {
+      throw this.error('Wildcard requires a prefix', position);
+    }
+
+    return { type: 'term', value: word.slice(0, -1), prefix: true };
+  }
+
+  // 欄位作用於分組內的所有詞，不允許嵌套不同欄位
+  private applyField(node: QueryNode, field: QueryField, position: number): QueryNode {
+    switch (node.type) {
+      case 'term':
+      case 'phrase':
+        if (node.field && node.field !== field) {
+          throw this.error(`Cannot nest field '${node.field}' inside '${field}'`, position);
+        }
+        if (field === 'article') {
+          this.validateArticle(node.value, node.type === 'term' && node.prefix === true, position);
+        }
+        return { ...node, field };
+
+      case 'not':
+        return { type: 'not', child: this.applyField(node.child, field, position) };
+
+      default:
+        return { type: node.type, children: node.children.map(child => this.applyField(child, field, position)) };
+    }
+  }
+
+  private validateArticle(value: string, prefix: boolean, position: number): void {
+    if (prefix) {
+      throw this.error("Wildcards are not supported for 'article'", position);
+    }
+
+    if (!/^\d+$/.test(value) && parseChineseNumeral(value) === null) {
+      throw this.error(`Field 'article' expects an article number, got '${value}'`, position);
+    }
+  }
+
+  private combine(type: 'and' | 'or', children: QueryNode[]): QueryNode {
+    if (children.length === 1) {
+      return children[0] as QueryNode;
+    }
+
+    // 展開同類嵌套，(a AND b) AND c → AND(a, b, c)
+    return {
+      type,
+      children: children.flatMap(child => (child.type === type ? child.children : [child]))
+    };
+  }
+
+  private startsOperand(): boolean {
+    const type = this.peek()?.type;
+    return type === 'word' || type === 'phrase' || type === 'field' || type === 'lparen' || type === 'not';
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.position++];
+  }
+
+  private error(message: string, position: number): QueryError {
+    return new QueryError(`${message} at position ${position}`, this.query, position);
+  }
+}
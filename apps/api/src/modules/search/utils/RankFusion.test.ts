@@ -0,0 +1,95 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { RankFusion } from './RankFusion';
+import { SearchResultItem } from '../../../shared/types/search.types';
+
+function item(id: string, score: number, extra: Partial<SearchResultItem> = {}): SearchResultItem {
+  return {
+    id,
+    type: 'legal_text',
+    title: {},
+    snippet: {},
+    score,
+    metadata: {},
+    url: `/texts/${id}`,
+    ...extra
+  };
+}
+
+describe('RankFusion', () => {
+  afterEach(() => {
+    delete process.env.SEARCH_HYBRID_WEIGHTS;
+    delete process.env.SEARCH_RRF_K;
+  });
+
+  it('ranks documents found by both engines above single-engine hits', () => {
+    const fusion = new RankFusion({ k: 60, weights: { postgresql: 1, meilisearch: 1 } });
+
+    const { results } = fusion.fuse([
+      { engine: 'postgresql', results: [item('a', 0.9), item('b', 0.5)] },
+      { engine: 'meilisearch', results: [item('c', 30), item('b', 10)] }
+    ]);
+
+    expect(results.map(result => result.id)).toEqual(['b', 'a', 'c']);
+  });
+
+  it('normalizes the fused score against every engine ranking first', () => {
+    const fusion = new RankFusion({ k: 60, weights: { postgresql: 1, meilisearch: 1 } });
+
+    const { results } = fusion.fuse([
+      { engine: 'postgresql', results: [item('a', 1)] },
+      { engine: 'meilisearch', results: [item('a', 1)] }
+    ]);
+
+    expect(results[0]?.score).toBeCloseTo(1);
+  });
+
+  it('applies engine weights', () => {
+    const fusion = new RankFusion({ k: 60, weights: { postgresql: 1, meilisearch: 2 } });
+
+    const { results } = fusion.fuse([
+      { engine: 'postgresql', results: [item('a', 1)] },
+      { engine: 'meilisearch', results: [item('b', 1)] }
+    ]);
+
+    expect(results.map(result => result.id)).toEqual(['b', 'a']);
+  });
+
+  it('records each engine contribution', () => {
+    const fusion = new RankFusion({ k: 10, weights: { postgresql: 1, meilisearch: 1 } });
+
+    const { contributions } = fusion.fuse([{ engine: 'postgresql', results: [item('a', 4), item('b', 2)] }]);
+
+    expect(contributions.get('postgresql')).toEqual([
+      { id: 'a', engine: 'postgresql', rank: 1, rawScore: 4, normalizedScore: 1, weight: 1, fusedScore: 1 / 11 },
+      { id: 'b', engine: 'postgresql', rank: 2, rawScore: 2, normalizedScore: 0, weight: 1, fusedScore: 1 / 12 }
+    ]);
+  });
+
+  it('fills missing titles, snippets and highlights from the other engine', () => {
+    const fusion = new RankFusion();
+    const highlights = [{ field: 'content.zh', text: '租賃', start: 0, end: 2 }];
+
+    const { results } = fusion.fuse([
+      { engine: 'postgresql', results: [item('a', 1, { title: { zh: '民法典' } })] },
+      { engine: 'meilisearch', results: [item('a', 1, { title: { pt: 'Código Civil' }, snippet: { zh: '租賃' }, highlights })] }
+    ]);
+
+    expect(results[0]).toMatchObject({
+      title: { zh: '民法典', pt: 'Código Civil' },
+      snippet: { zh: '租賃' },
+      highlights
+    });
+  });
+
+  it('reads weights and k from the environment, ignoring invalid entries', () => {
+    process.env.SEARCH_HYBRID_WEIGHTS = 'postgresql:0.5, meilisearch:-1, bogus';
+    process.env.SEARCH_RRF_K = 'abc';
+
+    const fusion = RankFusion.fromEnv();
+
+    expect(fusion.getWeight('postgresql')).toBe(0.5);
+    expect(fusion.getWeight('meilisearch')).toBe(1);
+    const { contributions } = fusion.fuse([{ engine: 'meilisearch', results: [item('a', 1)] }]);
+    expect(contributions.get('meilisearch')?.[0]?.fusedScore).toBe(1 / 61);
+  });
+});
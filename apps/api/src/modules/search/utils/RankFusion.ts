@@ -0,0 +1,133 @@
+import {
+  SearchResultItem,
+  SearchEngineType,
+  EngineRanking,
+  EngineContribution,
+  HybridSearchConfig
+} from '../../../shared/types/search.types';
+
+export interface FusionResult {
+  results: SearchResultItem[];
+  contributions: Map<SearchEngineType, EngineContribution[]>;
+}
+
+export const DEFAULT_HYBRID_CONFIG: HybridSearchConfig = {
+  k: 60,
+  weights: {
+    postgresql: 1.0,
+    meilisearch: 1.0
+  }
+};
+
+export class RankFusion {
+  constructor(private config: HybridSearchConfig = DEFAULT_HYBRID_CONFIG) {}
+
+  // 從環境變數讀取配置，例如 SEARCH_HYBRID_WEIGHTS="postgresql:0.8,meilisearch:1.2"
+  static fromEnv(): RankFusion {
+    const weights = { ...DEFAULT_HYBRID_CONFIG.weights };
+
+    for (const entry of (process.env.SEARCH_HYBRID_WEIGHTS || '').split(',')) {
+      const [engine, weight] = entry.split(':').map(part => part.trim());
+      const value = Number(weight);
+      if (engine && Number.isFinite(value) && value >= 0) {
+        weights[engine as SearchEngineType] = value;
+      }
+    }
+
+    const k = Number(process.env.SEARCH_RRF_K);
+
+    return new RankFusion({
+      k: Number.isFinite(k) && k > 0 ? k : DEFAULT_HYBRID_CONFIG.k,
+      weights
+    });
+  }
+
+  getWeight(engine: SearchEngineType): number {
+    return this.config.weights[engine] ?? 1.0;
+  }
+
+  // 倒數排名融合（RRF）：score = Σ weight / (k + rank)
+  // 原始分數只做引擎內歸一化，用於同分時的次要排序和除錯
+  fuse(rankings: EngineRanking[]): FusionResult {
+    const fused = new Map<string, { item: SearchResultItem; score: number; normalizedSum: number }>();
+    const contributions = new Map<SearchEngineType, EngineContribution[]>();
+
+    for (const { engine, results } of rankings) {
+      const weight = this.getWeight(engine);
+      const normalizedScores = this.normalizeScores(results);
+      const engineContributions: EngineContribution[] = [];
+
+      results.forEach((item, index) => {
+        const rank = index + 1;
+        const fusedScore = weight / (this.config.k + rank);
+        const normalizedScore = normalizedScores[index] ?? 0;
+
+        engineContributions.push({
+          id: item.id,
+          engine,
+          rank,
+          rawScore: item.score,
+          normalizedScore,
+          weight,
+          fusedScore
+        });
+
+        const existing = fused.get(item.id);
+        if (existing) {
+          existing.score += fusedScore;
+          existing.normalizedSum += normalizedScore * weight;
+          existing.item = this.mergeItems(existing.item, item);
+        } else {
+          fused.set(item.id, { item, score: fusedScore, normalizedSum: normalizedScore * weight });
+        }
+      });
+
+      contributions.set(engine, engineContributions);
+    }
+
+    // 以所有引擎都排第一時的分數作為上限，把融合分數映射到 0-1
+    const maxScore = rankings.reduce(
+      (sum, { engine, results }) => sum + (results.length > 0 ? this.getWeight(engine) / (this.config.k + 1) : 0),
+      0
+    );
+
+    const results = Array.from(fused.values())
+      .sort((a, b) => b.score - a.score || b.normalizedSum - a.normalizedSum)
+      .map(({ item, score }) => ({
+        ...item,
+        score: maxScore > 0 ? score / maxScore : 0
+      }));
+
+    return { results, contributions };
+  }
+
+  private normalizeScores(results: SearchResultItem[]): number[] {
+    if (results.length === 0) return [];
+
+    const scores = results.map(result => result.score);
+    const min = Math.min(...scores);
+    const max = Math.max(...scores);
+
+    if (max === min) {
+      return scores.map(() => 1);
+    }
+
+    return scores.map(score => (score - min) / (max - min));
+  }
+
+  // 同一文檔出現在多個引擎時，補齊缺失的片段和高亮
+  private mergeItems(existing: SearchResultItem, incoming: SearchResultItem): SearchResultItem {
+    const merged: SearchResultItem = {
+      ...existing,
+      title: { ...incoming.title, ...existing.title },
+      snippet: { ...incoming.snippet, ...existing.snippet },
+      metadata: { ...incoming.metadata, ...existing.metadata }
+    };
+
+    if (!existing.highlights && incoming.highlights) {
+      merged.highlights = incoming.highlights;
+    }
+
+    return merged;
+  }
+}
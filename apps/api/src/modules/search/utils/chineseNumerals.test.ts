@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { toChineseNumeral, parseChineseNumeral } from './chineseNumerals';
+
+describe('chineseNumerals', () => {
+  it('writes numerals the way legal texts number articles', () => {
+    expect([0, 7, 10, 15, 20, 105, 110, 1005, 2024, 9999].map(toChineseNumeral)).toEqual([
+      '零', '七', '十', '十五', '二十', '一百零五', '一百一十', '一千零五', '二千零二十四', '九千九百九十九'
+    ]);
+  });
+
+  it('rejects values outside 0-9999', () => {
+    expect(() => toChineseNumeral(10000)).toThrow(RangeError);
+    expect(() => toChineseNumeral(1.5)).toThrow(RangeError);
+  });
+
+  it('parses plain, financial and abbreviated forms', () => {
+    expect(parseChineseNumeral('十五')).toBe(15);
+    expect(parseChineseNumeral('一百零五')).toBe(105);
+    expect(parseChineseNumeral('貳佰參拾')).toBe(230);
+    expect(parseChineseNumeral('兩千')).toBe(2000);
+    expect(parseChineseNumeral('〇')).toBe(0);
+  });
+
+  it('round-trips every article number', () => {
+    for (let value = 1; value <= 9999; value++) {
+      expect(parseChineseNumeral(toChineseNumeral(value))).toBe(value);
+    }
+  });
+
+  it('returns null for text that is not a numeral', () => {
+    expect(parseChineseNumeral('')).toBeNull();
+    expect(parseChineseNumeral('十五A')).toBeNull();
+    expect(parseChineseNumeral('條')).toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+const DIGITS = ['零', '一', '二', '三', '四', '五', '六', '七', '八', '九'];
+const UNITS: Array<[number, string]> = [[1000, '千'], [100, '百'], [10, '十']];
+
+const DIGIT_VALUES: Record<string, number> = {
+  零: 0, 〇: 0, 一: 1, 壹: 1, 二: 2, 貳: 2, 兩: 2, 三: 3, 參: 3, 四: 4, 肆: 4,
+  五: 5, 伍: 5, 六: 6, 陸: 6, 七: 7, 柒: 7, 八: 8, 捌: 8, 九: 9, 玖: 9
+};
+
+const UNIT_VALUES: Record<string, number> = {
+  十: 10, 拾: 10, 百: 100, 佰: 100, 千: 1000, 仟: 1000
+};
+
+// 1-9999 轉中文數字，例如 15 → 十五、105 → 一百零五
+export function toChineseNumeral(value: number): string {
+  if (!Number.isInteger(value) || value < 0 || value > 9999) {
+    throw new RangeError(`Unsupported numeral: ${value}`);
+  }
+
+  if (value === 0) return DIGITS[0] as string;
+  if (value < 10) return DIGITS[value] as string;
+  // 法律條文習慣寫作「十五」而非「一十五」
+  if (value < 20) return `十${value % 10 === 0 ? '' : DIGITS[value % 10]}`;
+
+  let result = '';
+  let remainder = value;
+  let pendingZero = false;
+
+  for (const [unit, symbol] of UNITS) {
+    const digit = Math.floor(remainder / unit);
+    remainder %= unit;
+
+    if (digit > 0) {
+      if (pendingZero) result += DIGITS[0];
+      result += `${DIGITS[digit]}${symbol}`;
+      pendingZero = false;
+    } else if (result) {
+      pendingZero = true;
+    }
+  }
+
+  if (remainder > 0) {
+    if (pendingZero) result += DIGITS[0];
+    result += DIGITS[remainder];
+  }
+
+  return result;
+}
+
+// 中文數字轉阿拉伯數字，無法識別時返回 null
+export function parseChineseNumeral(text: string): number | null {
+  if (!text) return null;
+
+  let total = 0;
+  let current = 0;
+
+  for (const char of text) {
+    const digit = DIGIT_VALUES[char];
+    const unit = UNIT_VALUES[char];
+
+    if (digit !== undefined) {
+      current = digit;
+    } else if (unit !== undefined) {
+      total += (current || 1) * unit;
+      current = 0;
+    } else {
+      return null;
+    }
+  }
+
+  return total + current;
+}
@@ -0,0 +1,63 @@
+import { LegalText } from '@prisma/client';
+import { ILegalTextContent } from '../../../shared/schemas/mongodb';
+import { IndexDocument } from '../../../shared/types/search.types';
+
+// 可查看非公開法律文本的角色
+export const PRIVILEGED_ROLES = ['ADMIN', 'MODERATOR', 'EDITOR'];
+
+// 只有已發佈的文本進入搜索索引
+export function isIndexable(text: Pick<LegalText, 'status'>): boolean {
+  return text.status === 'PUBLISHED';
+}
+
+/**
+ * 由 PostgreSQL 元數據和 MongoDB 正文組裝索引文檔。
+ * 非公開文本附帶 ACL：作者本人和特權角色可見。
+ */
+export function buildIndexDocument(text: LegalText, content: ILegalTextContent | null): IndexDocument {
+  const document: IndexDocument = {
+    id: text.id,
+    type: 'legal_text',
+    title: { zh: text.titleZh },
+    content: {},
+    metadata: {
+      authorId: text.authorId,
+      isPublic: text.isPublic,
+      wordCount: (content?.content.zh?.wordCount || 0) + (content?.content.pt?.wordCount || 0)
+    },
+    searchableText: '',
+    lastUpdated: text.updatedAt
+  };
+
+  if (text.titlePt) document.title.pt = text.titlePt;
+  if (text.category) document.metadata.category = text.category;
+  if (text.lawNumber) document.metadata.lawNumber = text.lawNumber;
+  if (text.publicationDate) document.metadata.publicationDate = text.publicationDate;
+
+  if (content?.content.zh?.text) {
+    document.content.zh = { text: content.content.zh.text, html: content.content.zh.html || '' };
+  }
+  if (content?.content.pt?.text) {
+    document.content.pt = { text: content.content.pt.text, html: content.content.pt.html || '' };
+  }
+
+  const languages = Object.keys(document.content);
+  if (languages.length === 1 && languages[0]) {
+    document.metadata.language = languages[0];
+  }
+
+  if (!text.isPublic) {
+    document.metadata.acl = { userIds: [text.authorId], roles: PRIVILEGED_ROLES };
+  }
+
+  document.searchableText = [
+    text.titleZh,
+    text.titlePt,
+    text.lawNumber,
+    text.category,
+    document.content.zh?.text,
+    document.content.pt?.text
+  ].filter(Boolean).join(' ');
+
+  return document;
+}
@@ -0,0 +1,101 @@
+import {
+  QueryNode,
+  QueryLiteral,
+  QueryExpansion
+} from '../../../shared/types/search.types';
+import { toChineseNumeral, parseChineseNumeral } from './chineseNumerals';
+
+// 這些欄位只用於過濾，不參與高亮和相關性計算
+const FILTER_ONLY_FIELDS = ['category', 'lawNumber', 'article'];
+
+// 收集非排除的檢索詞，用於高亮、片段和相關性評分
+export function collectPositiveTerms(node: QueryNode | null | undefined, negated = false): string[] {
+  if (!node) return [];
+
+  switch (node.type) {
+    case 'term':
+    case 'phrase':
+      return !negated && !(node.field && FILTER_ONLY_FIELDS.includes(node.field)) ? [node.value] : [];
+    case 'not':
+      return collectPositiveTerms(node.child, !negated);
+    default:
+      return [...new Set(node.children.flatMap(child => collectPositiveTerms(child, negated)))];
+  }
+}
+
+// 轉為析取範式（OR of AND），超過上限時返回 null
+export function toDisjunctiveNormalForm(node: QueryNode, maxClauses: number): QueryLiteral[][] | null {
+  const clauses = expand(node, false, maxClauses);
+  return clauses && clauses.length <= maxClauses ? clauses : null;
+}
+
+function expand(node: QueryNode, negated: boolean, maxClauses: number): QueryLiteral[][] | null {
+  switch (node.type) {
+    case 'term':
+    case 'phrase':
+      return [[{ node, negated }]];
+
+    case 'not':
+      return expand(node.child, !negated, maxClauses);
+
+    default: {
+      // 德摩根定律：NOT (a AND b) = NOT a OR NOT b
+      const isOr = (node.type === 'or') !== negated;
+      let clauses: QueryLiteral[][] = isOr ? [] : [[]];
+
+      for (const child of node.children) {
+        const childClauses = expand(child, negated, maxClauses);
+        if (!childClauses) return null;
+
+        clauses = isOr
+          ? [...clauses, ...childClauses]
+          : clauses.flatMap(clause => childClauses.map(childClause => [...clause, ...childClause]));
+
+        if (clauses.length > maxClauses) return null;
+      }
+
+      return clauses;
+    }
+  }
+}
+
+// 以同義詞擴展單個檢索詞：同語言替換詞內片段，跨語言對照詞單獨使用
+export function expandTermValue(value: string, expansions: QueryExpansion[] = []): string[] {
+  const lowerValue = value.toLowerCase();
+  const values = [value];
+
+  for (const expansion of expansions) {
+    const index = lowerValue.indexOf(expansion.originalTerm.toLowerCase());
+    if (index === -1) continue;
+
+    for (const term of expansion.expandedTerms) {
+      values.push(
+        expansion.method === 'translation'
+          ? term
+          : value.slice(0, index) + term + value.slice(index + expansion.originalTerm.length)
+      );
+    }
+  }
+
+  return [...new Set(values)];
+}
+
+// article: 的匹配模式，同時兼容「第十五條」「第15條」和「Artigo 15.º」「art. 15」
+// 僅使用 JavaScript 與 PostgreSQL 正則共同支持的語法
+export function buildArticlePattern(value: string): string {
+  const number = /^\d+$/.test(value) ? Number(value) : parseChineseNumeral(value);
+  if (number === null) {
+    throw new RangeError(`Invalid article number: ${value}`);
+  }
+
+  const zhNumbers = [String(number)];
+  if (number <= 9999) {
+    zhNumbers.push(toChineseNumeral(number));
+  }
+
+  return `(第\\s*(${zhNumbers.join('|')})\\s*條|art(igo|\\.)\\s*${number}(?![0-9]))`;
+}
+
+export function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
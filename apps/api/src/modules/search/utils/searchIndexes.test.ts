@@ -0,0 +1,27 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, it, expect } from 'vitest';
+import { legalTextMetadataExpression, bodyVectorExpression } from './searchIndexes';
+
+const migration = readFileSync(
+  path.resolve(__dirname, '../../../../prisma/migrations/20261019000100_search_documents/migration.sql'),
+  'utf8'
+);
+
+describe('searchIndexes', () => {
+  it('qualifies columns with the table alias', () => {
+    expect(legalTextMetadataExpression('lt')).toBe(
+      "(coalesce(lt.title_zh, '') || ' ' || coalesce(lt.title_pt, '') || ' ' || coalesce(lt.law_number, '') || ' ' || coalesce(lt.category, ''))"
+    );
+    expect(bodyVectorExpression('sd')).toBe("to_tsvector('portuguese', sd.searchable_text)");
+  });
+
+  it('matches the expression indexes created by the migration', () => {
+    expect(migration).toContain(`ON "legal_texts" USING GIN (${legalTextMetadataExpression()} gin_trgm_ops)`);
+    expect(migration).toContain(`ON "search_documents" USING GIN (${bodyVectorExpression()})`);
+  });
+
+  it('creates pg_trgm in the migration rather than at runtime', () => {
+    expect(migration).toContain('CREATE EXTENSION IF NOT EXISTS pg_trgm');
+  });
+});
@@ -0,0 +1,21 @@
+/**
+ * 帶表達式索引的檢索表達式。遷移 search_documents 以同一表達式建立索引，
+ * 查詢中的表達式須與索引完全一致（表別名除外）才能命中，修改時須同時新增遷移。
+ */
+
+const LEGAL_TEXT_METADATA_COLUMNS = ['title_zh', 'title_pt', 'law_number', 'category'];
+
+function qualify(column: string, alias?: string): string {
+  return alias ? `${alias}.${column}` : column;
+}
+
+// 法律文本的標題、法律編號、分類合併成單一檢索文本（legal_texts_metadata_trgm_idx）
+export function legalTextMetadataExpression(alias?: string): string {
+  const columns = LEGAL_TEXT_METADATA_COLUMNS.map(column => `coalesce(${qualify(column, alias)}, '')`);
+  return `(${columns.join(` || ' ' || `)})`;
+}
+
+// 搜索文檔正文的葡文全文檢索向量（search_documents_fts_idx）
+export function bodyVectorExpression(alias?: string): string {
+  return `to_tsvector('portuguese', ${qualify('searchable_text', alias)})`;
+}
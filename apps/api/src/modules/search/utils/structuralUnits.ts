@@ -0,0 +1,125 @@
+import { ILegalTextContent } from '../../../shared/schemas/mongodb';
+import { IndexDocument, StructuralLocation } from '../../../shared/types/search.types';
+
+export type LegalTextStructure = ILegalTextContent['structure'];
+
+interface StructureRange {
+  id: string;
+  title: string;
+  startOffset: number;
+  endOffset: number;
+}
+
+export function articleUnitId(textId: string, articleId: string): string {
+  return `${textId}:article:${articleId}`;
+}
+
+export function chapterUnitId(textId: string, chapterId: string): string {
+  return `${textId}:chapter:${chapterId}`;
+}
+
+// 前端可直接跳轉到條文或章節的位置
+export function buildLocationUrl(location: StructuralLocation, unitType: 'article' | 'chapter', unitId: string): string {
+  const anchor = unitType === 'article' && location.articleNumber
+    ? `article-${encodeURIComponent(location.articleNumber)}`
+    : `${unitType}-${encodeURIComponent(unitId)}`;
+
+  return `/texts/${location.textId}?offset=${location.startOffset}&lang=${location.language}#${anchor}`;
+}
+
+/**
+ * 把法律文本按 LegalTextContent.structure 拆分為條文和章節兩類可檢索單元。
+ * 結構偏移量以主語言正文為準（有中文時為中文，否則為葡文）。
+ */
+export function buildStructuralUnits(document: IndexDocument, structure: LegalTextStructure): IndexDocument[] {
+  const language: 'zh' | 'pt' = document.content.zh ? 'zh' : 'pt';
+  const text = document.content[language]?.text;
+
+  if (!text) {
+    return [];
+  }
+
+  const chapters = [...(structure.chapters || [])].sort((a, b) => a.startOffset - b.startOffset);
+  const sections = [...(structure.sections || [])].sort((a, b) => a.startOffset - b.startOffset);
+  const units: IndexDocument[] = [];
+
+  for (const chapter of chapters) {
+    const unit = buildUnit(document, text, language, 'chapter', chapterUnitId(document.id, chapter.id), chapter, {
+      chapterPath: [chapter.title]
+    });
+    if (unit) units.push(unit);
+  }
+
+  for (const article of structure.articles || []) {
+    const chapterPath = [...chapters, ...sections]
+      .filter(range => containsOffset(range, article.startOffset))
+      .sort((a, b) => a.startOffset - b.startOffset || b.endOffset - a.endOffset)
+      .map(range => range.title);
+
+    const unit = buildUnit(document, text, language, 'article', articleUnitId(document.id, article.id), article, {
+      chapterPath,
+      articleNumber: article.number
+    });
+    if (unit) units.push(unit);
+  }
+
+  return units;
+}
+
+function buildUnit(
+  document: IndexDocument,
+  text: string,
+  language: 'zh' | 'pt',
+  type: 'article' | 'chapter',
+  id: string,
+  range: StructureRange,
+  extra: { chapterPath: string[]; articleNumber?: string }
+): IndexDocument | null {
+  const startOffset = Math.max(0, range.startOffset);
+  const endOffset = Math.min(text.length, range.endOffset);
+  if (endOffset <= startOffset) {
+    return null;
+  }
+
+  const unitText = text.slice(startOffset, endOffset);
+  const location: StructuralLocation = {
+    textId: document.id,
+    title: range.title,
+    chapterPath: extra.chapterPath,
+    startOffset,
+    endOffset,
+    language
+  };
+  if (extra.articleNumber) location.articleNumber = extra.articleNumber;
+
+  return {
+    id,
+    type,
+    title: document.title,
+    content: {
+      [language]: { text: unitText, html: '' }
+    },
+    metadata: {
+      ...document.metadata,
+      wordCount: countWords(unitText)
+    },
+    searchableText: [range.title, unitText].join(' '),
+    location,
+    lastUpdated: document.lastUpdated
+  };
+}
+
+// 中文按字計，其他語言按詞計
+function countWords(text: string): number {
+  const chineseChars = (text.match(/[\u4e00-\u9fff]/g) || []).length;
+  const westernWords = text
+    .replace(/[\u4e00-\u9fff]/g, ' ')
+    .split(/\s+/)
+    .filter(word => /\w/.test(word)).length;
+
+  return chineseChars + westernWords;
+}
+
+function containsOffset(range: StructureRange, offset: number): boolean {
+  return range.startOffset <= offset && offset < range.endOffset;
+}
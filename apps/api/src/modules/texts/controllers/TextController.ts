@@ -0,0 +1,305 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { TextService } from '../services/TextService';
+import { TextWorkflowService } from '../services/TextWorkflowService';
+import {
+  LegalTextInput,
+  LegalTextUpdate,
+  LegalTextListFilters,
+  ReviewQueueFilters,
+  RevisionDiffQuery,
+  TextTransitionAction,
+  TextViewer,
+  TextError
+} from '../../../shared/types/text.types';
+
+export interface ListTextsRequest {
+  Querystring: LegalTextListFilters;
+}
+
+export interface TextIdRequest {
+  Params: {
+    id: string;
+  };
+}
+
+export interface CreateTextRequest {
+  Body: LegalTextInput;
+}
+
+export interface UpdateTextRequest {
+  Params: {
+    id: string;
+  };
+  Body: LegalTextUpdate;
+}
+
+export interface TransitionRequest {
+  Params: {
+    id: string;
+  };
+  Body: {
+    comment?: string;
+  } | undefined;
+}
+
+export interface ReviewQueueRequest {
+  Querystring: ReviewQueueFilters;
+}
+
+export interface RevisionRequest {
+  Params: {
+    id: string;
+    revision: number;
+  };
+}
+
+export interface RestoreRevisionRequest {
+  Params: {
+    id: string;
+    revision: number;
+  };
+  Body: {
+    reason?: string;
+  } | undefined;
+}
+
+export interface RevisionDiffRequest {
+  Params: {
+    id: string;
+  };
+  Querystring: RevisionDiffQuery;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  INVALID_TEXT: 400,
+  COMMENT_REQUIRED: 400,
+  TRANSITION_FORBIDDEN: 403,
+  PUBLISHED_EDIT_FORBIDDEN: 403,
+  TEXT_NOT_FOUND: 404,
+  REVISION_NOT_FOUND: 404,
+  TEXT_EXISTS: 409,
+  TEXT_ARCHIVED: 409,
+  TEXT_UNDER_REVIEW: 409,
+  INVALID_TRANSITION: 409,
+  TRANSITION_CONFLICT: 409,
+  REVISION_CONFLICT: 409
+};
+
+export class TextController {
+  constructor(
+    private textService: TextService,
+    private workflowService: TextWorkflowService
+  ) {}
+
+  // 法律文本列表
+  async list(
+    request: FastifyRequest<ListTextsRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const result = await this.textService.list(request.query, this.getViewer(request));
+
+      reply.send({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to list legal texts');
+    }
+  }
+
+  // 元數據連同雙語正文和結構
+  async get(
+    request: FastifyRequest<TextIdRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const text = await this.textService.get(request.params.id, this.getViewer(request));
+
+      reply.send({
+        success: true,
+        data: text
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to get legal text');
+    }
+  }
+
+  async create(
+    request: FastifyRequest<CreateTextRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const text = await this.textService.create(request.body, this.getViewer(request).id);
+
+      reply.code(201).send({
+        success: true,
+        data: text
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to create legal text');
+    }
+  }
+
+  async update(
+    request: FastifyRequest<UpdateTextRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const text = await this.textService.update(request.params.id, request.body, this.getViewer(request).id);
+
+      reply.send({
+        success: true,
+        data: text
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to update legal text');
+    }
+  }
+
+  // 審核流程中的狀態流轉（提交、批准、駁回、發佈、歸檔）
+  transition(action: TextTransitionAction) {
+    return async (
+      request: FastifyRequest<TransitionRequest>,
+      reply: FastifyReply
+    ): Promise<void> => {
+      try {
+        const text = await this.workflowService.transition(
+          request.params.id,
+          action,
+          this.getViewer(request),
+          request.body?.comment
+        );
+
+        reply.send({
+          success: true,
+          data: text
+        });
+      } catch (error) {
+        this.sendError(reply, error, `Failed to ${action} legal text`);
+      }
+    };
+  }
+
+  async getTransitions(
+    request: FastifyRequest<TextIdRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      // 先確認請求者可查看該文本
+      await this.textService.get(request.params.id, this.getViewer(request));
+      const transitions = await this.workflowService.getHistory(request.params.id);
+
+      reply.send({
+        success: true,
+        data: transitions
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to get transition history');
+    }
+  }
+
+  async getReviewQueue(
+    request: FastifyRequest<ReviewQueueRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const queue = await this.workflowService.getReviewQueue(request.query, this.getViewer(request));
+
+      reply.send({
+        success: true,
+        data: queue
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to get review queue');
+    }
+  }
+
+  async listRevisions(
+    request: FastifyRequest<TextIdRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const revisions = await this.textService.listRevisions(request.params.id, this.getViewer(request));
+
+      reply.send({
+        success: true,
+        data: revisions
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to list revisions');
+    }
+  }
+
+  async getRevision(
+    request: FastifyRequest<RevisionRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const revision = await this.textService.getRevision(
+        request.params.id,
+        request.params.revision,
+        this.getViewer(request)
+      );
+
+      reply.send({
+        success: true,
+        data: revision
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to get revision');
+    }
+  }
+
+  // 兩個版本之間的字符級或條文級差異
+  async diff(
+    request: FastifyRequest<RevisionDiffRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const diff = await this.textService.diffRevisions(request.params.id, request.query, this.getViewer(request));
+
+      reply.send({
+        success: true,
+        data: diff
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to diff revisions');
+    }
+  }
+
+  async restoreRevision(
+    request: FastifyRequest<RestoreRevisionRequest>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const text = await this.textService.restoreRevision(
+        request.params.id,
+        request.params.revision,
+        this.getViewer(request).id,
+        request.body?.reason
+      );
+
+      reply.send({
+        success: true,
+        data: text
+      });
+    } catch (error) {
+      this.sendError(reply, error, 'Failed to restore revision');
+    }
+  }
+
+  private getViewer(request: FastifyRequest): TextViewer {
+    const user = (request as any).user as { id: string; roles: string[] };
+    return { id: user.id, roles: user.roles };
+  }
+
+  private sendError(reply: FastifyReply, error: unknown, fallback: string): void {
+    const status = error instanceof TextError ? ERROR_STATUS[error.code] || 500 : 500;
+
+    reply.code(status).send({
+      success: false,
+      error: error instanceof Error ? error.message : fallback
+    });
+  }
+}
@@ -0,0 +1,577 @@
+import { FastifyInstance } from 'fastify';
+import {
+  TextController,
+  ListTextsRequest,
+  TextIdRequest,
+  CreateTextRequest,
+  UpdateTextRequest,
+  TransitionRequest,
+  ReviewQueueRequest,
+  RevisionRequest,
+  RestoreRevisionRequest,
+  RevisionDiffRequest
+} from '../controllers/TextController';
+import { TextService } from '../services/TextService';
+import { TextWorkflowService } from '../services/TextWorkflowService';
+import { TextTransitionAction } from '../../../shared/types/text.types';
+import { AuthMiddleware } from '../../auth/middleware/authMiddleware';
+
+const bodySchema = {
+  type: 'object',
+  required: ['text'],
+  additionalProperties: false,
+  properties: {
+    text: { type: 'string', minLength: 1 },
+    html: { type: 'string' }
+  }
+};
+
+const nullableBodySchema = {
+  ...bodySchema,
+  nullable: true
+};
+
+const rangeProperties = {
+  id: { type: 'string', minLength: 1 },
+  title: { type: 'string' },
+  startOffset: { type: 'integer', minimum: 0 },
+  endOffset: { type: 'integer', minimum: 0 }
+};
+
+const rangeSchema = {
+  type: 'object',
+  required: ['id', 'title', 'startOffset', 'endOffset'],
+  properties: rangeProperties
+};
+
+const structureSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    chapters: { type: 'array', items: rangeSchema },
+    articles: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'number', 'title', 'startOffset', 'endOffset'],
+        properties: {
+          ...rangeProperties,
+          number: { type: 'string', minLength: 1 }
+        }
+      }
+    },
+    sections: { type: 'array', items: rangeSchema }
+  }
+};
+
+const textSummarySchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    titleZh: { type: 'string' },
+    titlePt: { type: 'string', nullable: true },
+    lawNumber: { type: 'string', nullable: true },
+    category: { type: 'string', nullable: true },
+    publicationDate: { type: 'string', nullable: true },
+    sourceUrl: { type: 'string', nullable: true },
+    status: { type: 'string' },
+    isPublic: { type: 'boolean' },
+    authorId: { type: 'string' },
+    createdAt: { type: 'string' },
+    updatedAt: { type: 'string' }
+  }
+};
+
+const textDetailResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    data: {
+      type: 'object',
+      additionalProperties: true,
+      description: 'Legal text with bilingual content and structure'
+    }
+  }
+};
+
+const textIdParams = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string', format: 'uuid' }
+  }
+};
+
+const revisionParams = {
+  type: 'object',
+  required: ['id', 'revision'],
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+    revision: { type: 'integer', minimum: 1 }
+  }
+};
+
+const revisionSummarySchema = {
+  type: 'object',
+  properties: {
+    revision: { type: 'number' },
+    authorId: { type: 'string' },
+    reason: { type: 'string', nullable: true },
+    restoredFrom: { type: 'number', nullable: true },
+    wordCount: {
+      type: 'object',
+      properties: {
+        zh: { type: 'number' },
+        pt: { type: 'number' }
+      }
+    },
+    createdAt: { type: 'string' }
+  }
+};
+
+const textSummaryResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    data: textSummarySchema
+  }
+};
+
+// 各流轉的說明；駁回必須附理由
+const TRANSITION_ROUTES: Array<{ action: TextTransitionAction; description: string; commentRequired?: boolean }> = [
+  { action: 'submit', description: '提交草稿送審（編輯）' },
+  { action: 'withdraw', description: '撤回送審或已批准的文本為草稿以便修改（編輯）' },
+  { action: 'approve', description: '批准送審文本（審核員）' },
+  { action: 'reject', description: '駁回文本並退回草稿，須附理由（審核員）', commentRequired: true },
+  { action: 'publish', description: '發佈已批准的文本（審核員）' },
+  { action: 'archive', description: '歸檔文本' }
+];
+
+const errorResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    error: { type: 'string' }
+  }
+};
+
+const transitionErrorResponses = {
+  400: errorResponseSchema,
+  403: errorResponseSchema,
+  404: errorResponseSchema,
+  409: errorResponseSchema,
+  500: errorResponseSchema
+};
+
+export async function textRoutes(fastify: FastifyInstance) {
+  // 初始化服務和控制器
+  const textService = new TextService();
+  const workflowService = new TextWorkflowService();
+  const textController = new TextController(textService, workflowService);
+  const authMiddleware = new AuthMiddleware();
+
+  // 法律文本列表（未發佈和非公開文本僅作者及編輯可見）
+  fastify.get<ListTextsRequest>('/', {
+    schema: {
+      description: '分頁列出法律文本',
+      tags: ['Texts'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          page: { type: 'integer', minimum: 1 },
+          limit: { type: 'integer', minimum: 1, maximum: 100 },
+          search: { type: 'string', maxLength: 200 },
+          category: { type: 'string' },
+          lawNumber: { type: 'string' },
+          status: { type: 'string', enum: ['DRAFT', 'PENDING_REVIEW', 'APPROVED', 'PUBLISHED', 'ARCHIVED'] },
+          isPublic: { type: 'boolean' },
+          authorId: { type: 'string', format: 'uuid' },
+          publishedFrom: { type: 'string', format: 'date-time' },
+          publishedTo: { type: 'string', format: 'date-time' },
+          sortBy: { type: 'string', enum: ['publicationDate', 'createdAt', 'updatedAt', 'titleZh'] },
+          sortOrder: { type: 'string', enum: ['asc', 'desc'] }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                items: { type: 'array', items: textSummarySchema },
+                total: { type: 'number' },
+                page: { type: 'number' },
+                limit: { type: 'number' }
+              }
+            }
+          }
+        },
+        500: errorResponseSchema
+      }
+    },
+    preHandler: [authMiddleware.requireAuth(), authMiddleware.requirePermission('texts', 'read')],
+    handler: textController.list.bind(textController)
+  });
+
+  fastify.get<TextIdRequest>('/:id', {
+    schema: {
+      description: '獲取法律文本及其雙語正文和結構',
+      tags: ['Texts'],
+      security: [{ bearerAuth: [] }],
+      params: textIdParams,
+      response: {
+        200: textDetailResponseSchema,
+        404: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: [authMiddleware.requireAuth(), authMiddleware.requirePermission('texts', 'read')],
+    handler: textController.get.bind(textController)
+  });
+
+  fastify.post<CreateTextRequest>('/', {
+    schema: {
+      description: '創建法律文本（元數據存 PostgreSQL，正文和結構存 MongoDB）',
+      tags: ['Texts'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['titleZh', 'content'],
+        additionalProperties: false,
+        properties: {
+          titleZh: { type: 'string', minLength: 1, maxLength: 500 },
+          titlePt: { type: 'string', maxLength: 500 },
+          lawNumber: { type: 'string', maxLength: 100 },
+          category: { type: 'string', maxLength: 100 },
+          publicationDate: { type: 'string', format: 'date-time' },
+          sourceUrl: { type: 'string', format: 'uri' },
+          isPublic: { type: 'boolean' },
+          content: {
+            type: 'object',
+            additionalProperties: false,
+            minProperties: 1,
+            properties: {
+              zh: bodySchema,
+              pt: bodySchema
+            }
+          },
+          structure: structureSchema,
+          extractionMethod: { type: 'string', enum: ['manual', 'url', 'pdf', 'docx'] },
+          revisionReason: { type: 'string', maxLength: 500 }
+        }
+      },
+      response: {
+        201: textDetailResponseSchema,
+        400: errorResponseSchema,
+        409: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: [authMiddleware.requireAuth(), authMiddleware.requirePermission('texts', 'create')],
+    handler: textController.create.bind(textController)
+  });
+
+  fastify.put<UpdateTextRequest>('/:id', {
+    schema: {
+      description: '更新法律文本元數據、正文或結構',
+      tags: ['Texts'],
+      security: [{ bearerAuth: [] }],
+      params: textIdParams,
+      body: {
+        type: 'object',
+        additionalProperties: false,
+        minProperties: 1,
+        properties: {
+          titleZh: { type: 'string', minLength: 1, maxLength: 500 },
+          titlePt: { type: 'string', maxLength: 500, nullable: true },
+          lawNumber: { type: 'string', maxLength: 100, nullable: true },
+          category: { type: 'string', maxLength: 100, nullable: true },
+          publicationDate: { type: 'string', format: 'date-time', nullable: true },
+          sourceUrl: { type: 'string', format: 'uri', nullable: true },
+          isPublic: { type: 'boolean' },
+          content: {
+            type: 'object',
+            additionalProperties: false,
+            minProperties: 1,
+            properties: {
+              zh: nullableBodySchema,
+              pt: nullableBodySchema
+            }
+          },
+          structure: structureSchema,
+          revisionReason: { type: 'string', maxLength: 500 }
+        }
+      },
+      response: {
+        200: textDetailResponseSchema,
+        400: errorResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+        409: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: [authMiddleware.requireAuth(), authMiddleware.requirePermission('texts', 'update')],
+    handler: textController.update.bind(textController)
+  });
+
+  // 審核隊列（審核員）；靜態路徑優先於 /:id
+  fastify.get<ReviewQueueRequest>('/review-queue', {
+    schema: {
+      description: '待審核（或待發佈）的文本隊列',
+      tags: ['Texts'],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: ['PENDING_REVIEW', 'APPROVED'] },
+          category: { type: 'string' },
+          page: { type: 'integer', minimum: 1 },
+          limit: { type: 'integer', minimum: 1, maximum: 100 }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                items: {
+                  type: 'array',
+                  items: {
+                    ...textSummarySchema,
+                    properties: {
+                      ...textSummarySchema.properties,
+                      submittedAt: { type: 'string', nullable: true },
+                      submittedBy: {
+                        type: 'object',
+                        nullable: true,
+                        properties: {
+                          id: { type: 'string' },
+                          username: { type: 'string' }
+                        }
+                      }
+                    }
+                  }
+                },
+                total: { type: 'number' },
+                page: { type: 'number' },
+                limit: { type: 'number' }
+              }
+            }
+          }
+        },
+        403: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: authMiddleware.requireAuth(),
+    handler: textController.getReviewQueue.bind(textController)
+  });
+
+  // 狀態流轉歷史
+  fastify.get<TextIdRequest>('/:id/transitions', {
+    schema: {
+      description: '獲取文本的狀態流轉記錄',
+      tags: ['Texts'],
+      security: [{ bearerAuth: [] }],
+      params: textIdParams,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  textId: { type: 'string' },
+                  fromStatus: { type: 'string' },
+                  toStatus: { type: 'string' },
+                  action: { type: 'string' },
+                  actor: {
+                    type: 'object',
+                    properties: {
+                      id: { type: 'string' },
+                      username: { type: 'string' }
+                    }
+                  },
+                  comment: { type: 'string', nullable: true },
+                  createdAt: { type: 'string' }
+                }
+              }
+            }
+          }
+        },
+        404: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: [authMiddleware.requireAuth(), authMiddleware.requirePermission('texts', 'read')],
+    handler: textController.getTransitions.bind(textController)
+  });
+
+  // 修訂版本列表（不含正文）
+  fastify.get<TextIdRequest>('/:id/revisions', {
+    schema: {
+      description: '列出文本的修訂版本，最新的在前',
+      tags: ['Texts'],
+      security: [{ bearerAuth: [] }],
+      params: textIdParams,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'array', items: revisionSummarySchema }
+          }
+        },
+        404: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: [authMiddleware.requireAuth(), authMiddleware.requirePermission('texts', 'read')],
+    handler: textController.listRevisions.bind(textController)
+  });
+
+  fastify.get<RevisionRequest>('/:id/revisions/:revision', {
+    schema: {
+      description: '獲取指定修訂版本的完整正文和結構',
+      tags: ['Texts'],
+      security: [{ bearerAuth: [] }],
+      params: revisionParams,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              additionalProperties: true,
+              description: 'Revision with bilingual content and structure'
+            }
+          }
+        },
+        404: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: [authMiddleware.requireAuth(), authMiddleware.requirePermission('texts', 'read')],
+    handler: textController.getRevision.bind(textController)
+  });
+
+  // 以舊版本內容新建版本，歷史記錄保持不變
+  fastify.post<RestoreRevisionRequest>('/:id/revisions/:revision/restore', {
+    schema: {
+      description: '還原到指定修訂版本',
+      tags: ['Texts'],
+      security: [{ bearerAuth: [] }],
+      params: revisionParams,
+      body: {
+        type: 'object',
+        nullable: true,
+        additionalProperties: false,
+        properties: {
+          reason: { type: 'string', maxLength: 500 }
+        }
+      },
+      response: {
+        200: textDetailResponseSchema,
+        403: errorResponseSchema,
+        404: errorResponseSchema,
+        409: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: [authMiddleware.requireAuth(), authMiddleware.requirePermission('texts', 'update')],
+    handler: textController.restoreRevision.bind(textController)
+  });
+
+  // 兩個版本的差異：char 為字符級，article 按條文配對比較
+  fastify.get<RevisionDiffRequest>('/:id/diff', {
+    schema: {
+      description: '比較兩個修訂版本',
+      tags: ['Texts'],
+      security: [{ bearerAuth: [] }],
+      params: textIdParams,
+      querystring: {
+        type: 'object',
+        required: ['from', 'to', 'language'],
+        properties: {
+          from: { type: 'integer', minimum: 1 },
+          to: { type: 'integer', minimum: 1 },
+          language: { type: 'string', enum: ['zh', 'pt'] },
+          mode: { type: 'string', enum: ['char', 'article'] }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              additionalProperties: true,
+              description: 'Diff segments (char mode) or per-article diffs (article mode) with stats'
+            }
+          }
+        },
+        400: errorResponseSchema,
+        404: errorResponseSchema,
+        500: errorResponseSchema
+      }
+    },
+    preHandler: [authMiddleware.requireAuth(), authMiddleware.requirePermission('texts', 'read')],
+    handler: textController.diff.bind(textController)
+  });
+
+  // 狀態流轉；權限由流程服務按動作檢查
+  for (const { action, description, commentRequired } of TRANSITION_ROUTES) {
+    fastify.post<TransitionRequest>(`/:id/${action}`, {
+      schema: {
+        description,
+        tags: ['Texts'],
+        security: [{ bearerAuth: [] }],
+        params: textIdParams,
+        body: {
+          type: 'object',
+          nullable: true,
+          ...(commentRequired ? { required: ['comment'] } : {}),
+          additionalProperties: false,
+          properties: {
+            comment: { type: 'string', maxLength: 2000 }
+          }
+        },
+        response: {
+          200: textSummaryResponseSchema,
+          ...transitionErrorResponses
+        }
+      },
+      preHandler: authMiddleware.requireAuth(),
+      handler: textController.transition(action)
+    });
+  }
+
+  // DELETE 等同歸檔（軟刪除），保留 PostgreSQL 和 MongoDB 中的數據
+  fastify.delete<TransitionRequest>('/:id', {
+    schema: {
+      description: '歸檔法律文本',
+      tags: ['Texts'],
+      security: [{ bearerAuth: [] }],
+      params: textIdParams,
+      response: {
+        200: textSummaryResponseSchema,
+        ...transitionErrorResponses
+      }
+    },
+    preHandler: authMiddleware.requireAuth(),
+    handler: textController.transition('archive')
+  });
+}
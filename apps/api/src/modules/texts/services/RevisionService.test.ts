@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from 'vitest';
+
+const { findRevision } = vi.hoisted(() => ({ findRevision: vi.fn() }));
+vi.mock('../../../shared/schemas/mongodb', () => ({
+  LegalTextContent: {},
+  LegalTextRevision: { findOne: (query: { revision: number }) => ({ lean: async () => findRevision(query.revision) }) }
+}));
+
+import { RevisionService } from './RevisionService';
+
+// 結構以中文為準，偏移量不適用於葡文正文
+const revision = (number: number, zh: string, pt: string) => ({
+  textId: 'text-1',
+  revision: number,
+  content: { zh: { text: zh }, pt: { text: pt } },
+  structure: {
+    chapters: [],
+    sections: [],
+    articles: [
+      { id: 'a1', number: '1', title: '第一條', startOffset: 0, endOffset: 7 },
+      { id: 'a2', number: '2', title: '第二條', startOffset: 7, endOffset: zh.length }
+    ]
+  },
+  authorId: 'editor-1',
+  createdAt: new Date('2026-10-01')
+});
+
+describe('RevisionService.diff', () => {
+  const service = new RevisionService();
+
+  it('compares the secondary language article by article using its own headings', async () => {
+    findRevision.mockImplementation(async (number: number) => number === 1
+      ? revision(1, '第一條\n標的\n第二條\n定義\n', 'Artigo 1.º\nObjecto\nArtigo 2.º\nDefinições\n')
+      : revision(2, '第一條\n標的\n第二條\n新定義\n', 'Artigo 1.º\nObjecto\nArtigo 2.º\nNovas definições\n'));
+
+    const diff = await service.diff('text-1', { from: 1, to: 2, language: 'pt', mode: 'article' });
+
+    expect(diff.articles?.map(article => [article.number, article.status])).toEqual([
+      ['1', 'unchanged'],
+      ['2', 'modified']
+    ]);
+    expect(diff.articles?.[1]?.oldRange).toEqual({ startOffset: 19, endOffset: 41 });
+  });
+
+  it('keeps using the stored structure for the primary language', async () => {
+    findRevision.mockImplementation(async (number: number) => number === 1
+      ? revision(1, '第一條\n標的\n第二條\n定義\n', '')
+      : revision(2, '第一條\n標的\n第二條\n新定義\n', ''));
+
+    const diff = await service.diff('text-1', { from: 1, to: 2, language: 'zh', mode: 'article' });
+
+    expect(diff.articles?.map(article => [article.title, article.status])).toEqual([
+      ['第一條', 'unchanged'],
+      ['第二條', 'modified']
+    ]);
+  });
+});
@@ -0,0 +1,176 @@
+import { LegalTextContent, LegalTextRevision, ILegalTextContent, ILegalTextRevision } from '../../../shared/schemas/mongodb';
+import {
+  RevisionSummary,
+  RevisionDetail,
+  RevisionDiff,
+  RevisionDiffQuery,
+  LegalTextStructure,
+  StructureArticle,
+  TextLanguage,
+  TextError
+} from '../../../shared/types/text.types';
+import { diffText, diffArticles, summarizeDiff, detectArticles } from '../utils/textDiff';
+
+type RevisionSource = Pick<ILegalTextContent, 'content' | 'structure'>;
+type StoredRevision = Pick<ILegalTextRevision, 'textId' | 'revision' | 'content' | 'structure' | 'authorId' | 'reason' | 'restoredFrom' | 'createdAt'>;
+
+export interface RevisionMeta {
+  authorId: string;
+  reason?: string;
+  restoredFrom?: number;
+}
+
+export class RevisionService {
+  // 新增一個不可變版本；版本號唯一索引保證並發保存時只有一個成功
+  async record(textId: string, source: RevisionSource, previous: number, meta: RevisionMeta): Promise<number> {
+    const revision = previous + 1;
+
+    try {
+      await LegalTextRevision.create({
+        textId,
+        revision,
+        content: source.content,
+        structure: source.structure,
+        authorId: meta.authorId,
+        reason: meta.reason?.trim() || undefined,
+        restoredFrom: meta.restoredFrom
+      });
+    } catch (error) {
+      if ((error as { code?: number }).code === 11000) {
+        throw new TextError('The text was saved concurrently, please reload and retry', 'REVISION_CONFLICT', {
+          textId,
+          revision
+        });
+      }
+      throw error;
+    }
+
+    return revision;
+  }
+
+  // 撤銷寫入失敗的保存時使用
+  async discard(textId: string, revision: number): Promise<void> {
+    await LegalTextRevision.deleteOne({ textId, revision });
+  }
+
+  // 早於版本功能建立的文本，首次修改前把當前內容存為第 1 版
+  async ensureBaseline(textId: string, current: RevisionSource & { currentRevision?: number }, authorId: string): Promise<number> {
+    if (current.currentRevision) {
+      return current.currentRevision;
+    }
+
+    const revision = await this.record(textId, current, 0, { authorId, reason: 'Baseline' });
+    await LegalTextContent.updateOne({ textId }, { $set: { currentRevision: revision } });
+    return revision;
+  }
+
+  async list(textId: string): Promise<RevisionSummary[]> {
+    const revisions = await LegalTextRevision.find({ textId })
+      .sort({ revision: -1 })
+      .lean<StoredRevision[]>();
+
+    return revisions.map(revision => this.toSummary(revision));
+  }
+
+  async get(textId: string, revision: number): Promise<RevisionDetail> {
+    const stored = await this.load(textId, revision);
+
+    const detail: RevisionDetail = {
+      ...this.toSummary(stored),
+      textId,
+      content: {},
+      structure: this.toStructure(stored.structure)
+    };
+
+    for (const language of ['zh', 'pt'] as TextLanguage[]) {
+      const body = stored.content?.[language];
+      if (body?.text) {
+        detail.content[language] = { text: body.text, html: body.html || '', wordCount: body.wordCount || 0 };
+      }
+    }
+
+    return detail;
+  }
+
+  /**
+   * 比較兩個版本的指定語言正文。
+   * 條文級比較依賴條文偏移量；結構只記錄主語言（有中文時為中文）的偏移量，
+   * 另一語言按正文中的條文標題識別條文。
+   */
+  async diff(textId: string, query: RevisionDiffQuery): Promise<RevisionDiff> {
+    const [from, to] = await Promise.all([this.load(textId, query.from), this.load(textId, query.to)]);
+    const mode = query.mode || 'char';
+    const oldText = from.content?.[query.language]?.text || '';
+    const newText = to.content?.[query.language]?.text || '';
+
+    const result: RevisionDiff = {
+      textId,
+      from: query.from,
+      to: query.to,
+      language: query.language,
+      mode,
+      stats: { insertions: 0, deletions: 0 }
+    };
+
+    if (mode === 'char') {
+      result.segments = diffText(oldText, newText);
+      result.stats = summarizeDiff(result.segments);
+      return result;
+    }
+
+    result.articles = diffArticles(
+      { text: oldText, articles: this.articlesIn(from, query.language, oldText) },
+      { text: newText, articles: this.articlesIn(to, query.language, newText) }
+    );
+    result.stats = result.articles.reduce(
+      (stats, article) => ({
+        insertions: stats.insertions + (article.stats?.insertions || 0),
+        deletions: stats.deletions + (article.stats?.deletions || 0)
+      }),
+      { insertions: 0, deletions: 0 }
+    );
+
+    return result;
+  }
+
+  private async load(textId: string, revision: number): Promise<StoredRevision> {
+    const stored = await LegalTextRevision.findOne({ textId, revision }).lean<StoredRevision>();
+    if (!stored) {
+      throw new TextError(`Revision ${revision} not found`, 'REVISION_NOT_FOUND', { textId, revision });
+    }
+
+    return stored;
+  }
+
+  private primaryLanguage(revision: StoredRevision): TextLanguage {
+    return revision.content?.zh?.text ? 'zh' : 'pt';
+  }
+
+  // 結構的偏移量只適用於主語言；另一語言或沒有結構時按條文標題識別
+  private articlesIn(revision: StoredRevision, language: TextLanguage, text: string): StructureArticle[] {
+    const stored = this.primaryLanguage(revision) === language ? revision.structure?.articles || [] : [];
+    return stored.length > 0 ? stored : detectArticles(text, language);
+  }
+
+  private toStructure(structure?: ILegalTextContent['structure']): LegalTextStructure {
+    return {
+      chapters: structure?.chapters || [],
+      articles: structure?.articles || [],
+      sections: structure?.sections || []
+    };
+  }
+
+  private toSummary(revision: StoredRevision): RevisionSummary {
+    return {
+      revision: revision.revision,
+      authorId: revision.authorId,
+      reason: revision.reason ?? null,
+      restoredFrom: revision.restoredFrom ?? null,
+      wordCount: {
+        zh: revision.content?.zh?.wordCount || 0,
+        pt: revision.content?.pt?.wordCount || 0
+      },
+      createdAt: revision.createdAt
+    };
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { findUnique } = vi.hoisted(() => ({ findUnique: vi.fn() }));
+vi.mock('../../../config/database', () => ({ prisma: { legalText: { findUnique } } }));
+vi.mock('../../../shared/schemas/mongodb', () => ({
+  LegalTextContent: { findOne: () => ({ lean: async () => null }) }
+}));
+vi.mock('../../auth/services/RoleService', () => ({ RoleService: class {} }));
+
+import { TextService } from './TextService';
+import { RoleService } from '../../auth/services/RoleService';
+import { RevisionService } from './RevisionService';
+
+describe('TextService.update', () => {
+  const hasPermission = vi.fn();
+  const service = new TextService({ hasPermission } as unknown as RoleService);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('requires the publish permission to edit a published text', async () => {
+    findUnique.mockResolvedValue({ id: 'text-1', status: 'PUBLISHED' });
+    hasPermission.mockResolvedValue(false);
+
+    await expect(service.update('text-1', { titleZh: '新標題' }, 'editor-1')).rejects.toMatchObject({
+      code: 'PUBLISHED_EDIT_FORBIDDEN'
+    });
+    expect(hasPermission).toHaveBeenCalledWith('editor-1', 'texts', 'publish');
+  });
+
+  it('lets publishers edit published texts', async () => {
+    findUnique.mockResolvedValue({ id: 'text-1', status: 'PUBLISHED' });
+    hasPermission.mockResolvedValue(true);
+
+    // 通過權限檢查後才讀取正文
+    await expect(service.update('text-1', { titleZh: '新標題' }, 'moderator-1')).rejects.toMatchObject({
+      code: 'TEXT_CONTENT_MISSING'
+    });
+  });
+
+  it('does not check the publish permission for drafts', async () => {
+    findUnique.mockResolvedValue({ id: 'text-1', status: 'DRAFT' });
+
+    await expect(service.update('text-1', { titleZh: '新標題' }, 'editor-1')).rejects.toMatchObject({
+      code: 'TEXT_CONTENT_MISSING'
+    });
+    expect(hasPermission).not.toHaveBeenCalled();
+  });
+
+  it.each(['PENDING_REVIEW', 'APPROVED'])('refuses to edit a %s text', async status => {
+    findUnique.mockResolvedValue({ id: 'text-1', status });
+    hasPermission.mockResolvedValue(true);
+
+    await expect(service.update('text-1', { titleZh: '新標題' }, 'editor-1')).rejects.toMatchObject({
+      code: 'TEXT_UNDER_REVIEW'
+    });
+  });
+
+  it('refuses to restore a revision of a text under review', async () => {
+    findUnique.mockResolvedValue({ id: 'text-1', status: 'PENDING_REVIEW' });
+    const service = new TextService(
+      { hasPermission } as unknown as RoleService,
+      { get: async () => ({ content: { zh: { text: '第一條' } }, structure: {} }) } as unknown as RevisionService
+    );
+
+    await expect(service.restoreRevision('text-1', 1, 'editor-1')).rejects.toMatchObject({
+      code: 'TEXT_UNDER_REVIEW'
+    });
+  });
+});
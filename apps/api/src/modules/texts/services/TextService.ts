@@ -0,0 +1,464 @@
+import { createHash, randomUUID } from 'crypto';
+import mongoose from 'mongoose';
+import { Prisma, LegalText } from '@prisma/client';
+import { prisma } from '../../../config/database';
+import { LegalTextContent, ILegalTextContent } from '../../../shared/schemas/mongodb';
+import { legalTextEvents } from '../../../shared/events/legalTextEvents';
+import { RoleService } from '../../auth/services/RoleService';
+import { RevisionService, RevisionMeta } from './RevisionService';
+import { countWords } from '../../annotation/utils/hashUtils';
+import {
+  LegalTextInput,
+  LegalTextUpdate,
+  LegalTextListFilters,
+  LegalTextSummary,
+  LegalTextDetail,
+  LegalTextPage,
+  LegalTextBody,
+  LegalTextStructure,
+  RevisionSummary,
+  RevisionDetail,
+  RevisionDiff,
+  RevisionDiffQuery,
+  TextLanguage,
+  TextViewer,
+  TextError,
+  LegalTextNotFoundError
+} from '../../../shared/types/text.types';
+
+const TEXT_LANGUAGES: TextLanguage[] = ['zh', 'pt'];
+
+export function toTextSummary(text: LegalText): LegalTextSummary {
+  return {
+    id: text.id,
+    titleZh: text.titleZh,
+    titlePt: text.titlePt,
+    lawNumber: text.lawNumber,
+    category: text.category,
+    publicationDate: text.publicationDate,
+    sourceUrl: text.sourceUrl,
+    status: text.status,
+    isPublic: text.isPublic,
+    authorId: text.authorId,
+    createdAt: text.createdAt,
+    updatedAt: text.updatedAt
+  };
+}
+
+// 非公開或未發佈的文本只對作者和可查看全部文本的角色可見
+export function textVisibility(viewerId: string, viewAll: boolean): Prisma.LegalTextWhereInput {
+  return viewAll ? {} : { OR: [{ isPublic: true, status: 'PUBLISHED' }, { authorId: viewerId }] };
+}
+
+type ContentSnapshot = Pick<ILegalTextContent, 'content' | 'structure' | 'metadata'> & { currentRevision?: number };
+
+/**
+ * 法律文本的增刪改查。元數據在 PostgreSQL，正文和結構在 MongoDB，以 contentId 關聯。
+ * 寫入時 MongoDB 操作放在 Prisma 事務內最後一步：失敗則回滾 PostgreSQL，
+ * 事務提交失敗時再補償 MongoDB。每次正文或結構變更都另存一個不可變版本。
+ */
+export class TextService {
+  private readonly MAX_LIMIT = 100;
+
+  constructor(
+    private roleService: RoleService = new RoleService(),
+    private revisionService: RevisionService = new RevisionService()
+  ) {}
+
+  async create(input: LegalTextInput, authorId: string): Promise<LegalTextDetail> {
+    this.validateInput(input);
+
+    const id = randomUUID();
+    const contentId = new mongoose.Types.ObjectId();
+    const content = this.buildContent(input.content);
+    const structure = this.normalizeStructure(input.structure);
+    let contentWritten = false;
+    let revisionWritten = false;
+
+    try {
+      const text = await prisma.$transaction(async tx => {
+        const created = await tx.legalText.create({
+          data: {
+            id,
+            titleZh: input.titleZh.trim(),
+            titlePt: input.titlePt?.trim() || null,
+            lawNumber: input.lawNumber?.trim() || null,
+            category: input.category?.trim() || null,
+            publicationDate: input.publicationDate ? new Date(input.publicationDate) : null,
+            sourceUrl: input.sourceUrl || null,
+            isPublic: input.isPublic ?? false,
+            contentId: contentId.toHexString(),
+            hash: this.hashContent(content),
+            authorId
+          }
+        });
+
+        await LegalTextContent.create({
+          _id: contentId,
+          textId: id,
+          content,
+          structure,
+          currentRevision: 1,
+          metadata: {
+            extractionMethod: input.extractionMethod || 'manual',
+            sourceUrl: input.sourceUrl,
+            lastModified: new Date()
+          }
+        });
+        contentWritten = true;
+
+        const meta: RevisionMeta = { authorId };
+        if (input.revisionReason) meta.reason = input.revisionReason;
+        await this.revisionService.record(id, { content, structure }, 0, meta);
+        revisionWritten = true;
+
+        return created;
+      });
+
+      legalTextEvents.emit('created', { textId: text.id });
+      return this.toDetail(text, await LegalTextContent.findOne({ textId: id }).lean());
+    } catch (error) {
+      if (contentWritten) {
+        await LegalTextContent.deleteOne({ textId: id }).catch(() => {});
+      }
+      if (revisionWritten) {
+        await this.revisionService.discard(id, 1).catch(() => {});
+      }
+      throw this.translateError(error);
+    }
+  }
+
+  async get(id: string, viewer: TextViewer): Promise<LegalTextDetail> {
+    const text = await this.findVisible(id, viewer);
+    const content = await LegalTextContent.findOne({ textId: id }).lean();
+    return this.toDetail(text, content);
+  }
+
+  async list(filters: LegalTextListFilters, viewer: TextViewer): Promise<LegalTextPage> {
+    const page = Math.max(filters.page || 1, 1);
+    const limit = Math.min(Math.max(filters.limit || 20, 1), this.MAX_LIMIT);
+
+    const conditions: Prisma.LegalTextWhereInput[] = [];
+
+    if (filters.search) {
+      conditions.push({
+        OR: [
+          { titleZh: { contains: filters.search, mode: 'insensitive' } },
+          { titlePt: { contains: filters.search, mode: 'insensitive' } },
+          { lawNumber: { contains: filters.search, mode: 'insensitive' } }
+        ]
+      });
+    }
+    if (filters.category) conditions.push({ category: filters.category });
+    if (filters.lawNumber) conditions.push({ lawNumber: filters.lawNumber });
+    if (filters.status) conditions.push({ status: filters.status });
+    if (filters.isPublic !== undefined) conditions.push({ isPublic: filters.isPublic });
+    if (filters.authorId) conditions.push({ authorId: filters.authorId });
+    if (filters.publishedFrom) conditions.push({ publicationDate: { gte: new Date(filters.publishedFrom) } });
+    if (filters.publishedTo) conditions.push({ publicationDate: { lte: new Date(filters.publishedTo) } });
+
+    conditions.push(textVisibility(viewer.id, await this.canViewAll(viewer)));
+
+    const where: Prisma.LegalTextWhereInput = { AND: conditions };
+    const [items, total] = await Promise.all([
+      prisma.legalText.findMany({
+        where,
+        orderBy: { [filters.sortBy || 'updatedAt']: filters.sortOrder || 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.legalText.count({ where })
+    ]);
+
+    return {
+      items: items.map(item => toTextSummary(item)),
+      total,
+      page,
+      limit
+    };
+  }
+
+  async update(id: string, update: LegalTextUpdate, authorId: string): Promise<LegalTextDetail> {
+    const meta: RevisionMeta = { authorId };
+    if (update.revisionReason) meta.reason = update.revisionReason;
+
+    return this.applyUpdate(id, update, meta);
+  }
+
+  // 版本列表不含正文，最新的在前
+  async listRevisions(id: string, viewer: TextViewer): Promise<RevisionSummary[]> {
+    await this.findVisible(id, viewer);
+    return this.revisionService.list(id);
+  }
+
+  async getRevision(id: string, revision: number, viewer: TextViewer): Promise<RevisionDetail> {
+    await this.findVisible(id, viewer);
+    return this.revisionService.get(id, revision);
+  }
+
+  async diffRevisions(id: string, query: RevisionDiffQuery, viewer: TextViewer): Promise<RevisionDiff> {
+    await this.findVisible(id, viewer);
+    return this.revisionService.diff(id, query);
+  }
+
+  // 還原不會改寫歷史，而是以舊版本內容新建一個版本
+  async restoreRevision(id: string, revision: number, authorId: string, reason?: string): Promise<LegalTextDetail> {
+    const source = await this.revisionService.get(id, revision);
+
+    const meta: RevisionMeta = { authorId, restoredFrom: revision };
+    meta.reason = reason?.trim() || `Restored from revision ${revision}`;
+
+    return this.applyUpdate(
+      id,
+      {
+        content: { zh: source.content.zh ?? null, pt: source.content.pt ?? null },
+        structure: source.structure
+      },
+      meta
+    );
+  }
+
+  private async applyUpdate(id: string, update: LegalTextUpdate, meta: RevisionMeta): Promise<LegalTextDetail> {
+    const existing = await prisma.legalText.findUnique({ where: { id } });
+    if (!existing) {
+      throw new LegalTextNotFoundError(id);
+    }
+    if (existing.status === 'ARCHIVED') {
+      throw new TextError('Archived texts cannot be edited', 'TEXT_ARCHIVED', { id });
+    }
+    // 送審或已批准的文本不可修改，否則發佈的是未經審核的內容；須先撤回或駁回為草稿
+    if (existing.status === 'PENDING_REVIEW' || existing.status === 'APPROVED') {
+      throw new TextError('Texts under review cannot be edited, withdraw it to draft first', 'TEXT_UNDER_REVIEW', {
+        id,
+        status: existing.status
+      });
+    }
+    // 已發佈文本的修改直接上線，須具備發佈權限，否則等同繞過審核
+    if (existing.status === 'PUBLISHED' && !(await this.roleService.hasPermission(meta.authorId, 'texts', 'publish'))) {
+      throw new TextError('Editing a published text requires the publish permission', 'PUBLISHED_EDIT_FORBIDDEN', { id });
+    }
+
+    const snapshot = await LegalTextContent.findOne({ textId: id }).lean();
+    if (!snapshot) {
+      throw new TextError('Legal text content is missing', 'TEXT_CONTENT_MISSING', { id });
+    }
+
+    const data: Prisma.LegalTextUpdateInput = {};
+    if (update.titleZh !== undefined) data.titleZh = update.titleZh.trim();
+    if (update.titlePt !== undefined) data.titlePt = update.titlePt?.trim() || null;
+    if (update.lawNumber !== undefined) data.lawNumber = update.lawNumber?.trim() || null;
+    if (update.category !== undefined) data.category = update.category?.trim() || null;
+    if (update.sourceUrl !== undefined) data.sourceUrl = update.sourceUrl || null;
+    if (update.isPublic !== undefined) data.isPublic = update.isPublic;
+    if (update.publicationDate !== undefined) {
+      data.publicationDate = update.publicationDate ? new Date(update.publicationDate) : null;
+    }
+
+    const contentUpdate: Partial<ContentSnapshot> = {};
+    if (update.content) {
+      const merged = this.mergeContent(snapshot.content, update.content);
+      this.validateContent(merged);
+      contentUpdate.content = merged;
+      data.hash = this.hashContent(merged);
+    }
+    if (update.structure) {
+      contentUpdate.structure = this.normalizeStructure(update.structure);
+    }
+    if (data.titleZh === '') {
+      throw new TextError('Chinese title is required', 'INVALID_TEXT');
+    }
+
+    const contentChanged = Object.keys(contentUpdate).length > 0;
+    const previous = contentChanged
+      ? await this.revisionService.ensureBaseline(id, snapshot, existing.authorId)
+      : snapshot.currentRevision || 0;
+    let revision: number | null = null;
+    let contentWritten = false;
+
+    try {
+      const text = await prisma.$transaction(async tx => {
+        const updated = await tx.legalText.update({ where: { id }, data });
+
+        if (contentChanged) {
+          revision = await this.revisionService.record(
+            id,
+            {
+              content: contentUpdate.content ?? snapshot.content,
+              structure: contentUpdate.structure ?? snapshot.structure
+            },
+            previous,
+            meta
+          );
+
+          // 以版本號作為條件，防止並發保存互相覆蓋
+          const { matchedCount } = await LegalTextContent.updateOne(
+            { textId: id, currentRevision: previous },
+            { $set: { ...contentUpdate, currentRevision: revision, 'metadata.lastModified': new Date() } }
+          );
+          if (matchedCount === 0) {
+            throw new TextError('The text was saved concurrently, please reload and retry', 'REVISION_CONFLICT', { id });
+          }
+          contentWritten = true;
+        }
+
+        return updated;
+      });
+
+      legalTextEvents.emit('updated', { textId: id });
+      if (revision !== null) {
+        legalTextEvents.emit('contentChanged', { textId: id, revision });
+      }
+      return this.toDetail(text, await LegalTextContent.findOne({ textId: id }).lean());
+    } catch (error) {
+      if (contentWritten) {
+        await LegalTextContent.updateOne(
+          { textId: id },
+          {
+            $set: {
+              content: snapshot.content,
+              structure: snapshot.structure,
+              metadata: snapshot.metadata,
+              currentRevision: previous
+            }
+          }
+        ).catch(() => {});
+      }
+      if (revision !== null) {
+        await this.revisionService.discard(id, revision).catch(() => {});
+      }
+      throw this.translateError(error);
+    }
+  }
+
+  // 無權查看時與不存在同樣返回 404，避免洩露非公開文本
+  private async findVisible(id: string, viewer: TextViewer): Promise<LegalText> {
+    const text = await prisma.legalText.findUnique({ where: { id } });
+    if (!text || !(await this.canView(text, viewer))) {
+      throw new LegalTextNotFoundError(id);
+    }
+
+    return text;
+  }
+
+  // 擁有更新權限的角色可查看所有狀態的文本
+  async canViewAll(viewer: TextViewer): Promise<boolean> {
+    return this.roleService.hasPermission(viewer.id, 'texts', 'update');
+  }
+
+  private async canView(text: LegalText, viewer: TextViewer): Promise<boolean> {
+    if ((text.isPublic && text.status === 'PUBLISHED') || text.authorId === viewer.id) {
+      return true;
+    }
+
+    return this.canViewAll(viewer);
+  }
+
+  private validateInput(input: LegalTextInput): void {
+    if (!input.titleZh?.trim()) {
+      throw new TextError('Chinese title is required', 'INVALID_TEXT');
+    }
+    if (input.publicationDate && Number.isNaN(Date.parse(input.publicationDate))) {
+      throw new TextError('Invalid publication date', 'INVALID_TEXT');
+    }
+
+    this.validateContent(this.buildContent(input.content));
+  }
+
+  private validateContent(content: ILegalTextContent['content']): void {
+    if (!content.zh && !content.pt) {
+      throw new TextError('At least one of Chinese or Portuguese content is required', 'INVALID_TEXT');
+    }
+  }
+
+  private buildContent(input: LegalTextInput['content']): ILegalTextContent['content'] {
+    const content: ILegalTextContent['content'] = {};
+
+    for (const language of TEXT_LANGUAGES) {
+      const body = input[language];
+      if (body?.text?.trim()) {
+        content[language] = this.toStoredBody(body);
+      }
+    }
+
+    return content;
+  }
+
+  // 只替換請求中出現的語言，null 表示刪除該語言版本
+  private mergeContent(
+    current: ILegalTextContent['content'],
+    update: NonNullable<LegalTextUpdate['content']>
+  ): ILegalTextContent['content'] {
+    const content: ILegalTextContent['content'] = {};
+
+    for (const language of TEXT_LANGUAGES) {
+      const body = update[language];
+      const existing = current[language];
+
+      if (body === undefined) {
+        if (existing?.text) content[language] = existing;
+      } else if (body !== null && body.text.trim()) {
+        content[language] = this.toStoredBody(body);
+      }
+    }
+
+    return content;
+  }
+
+  private toStoredBody(body: LegalTextBody): { text: string; html: string; wordCount: number } {
+    return {
+      text: body.text,
+      html: body.html || '',
+      wordCount: countWords(body.text)
+    };
+  }
+
+  private normalizeStructure(structure?: Partial<LegalTextStructure>): LegalTextStructure {
+    return {
+      chapters: structure?.chapters || [],
+      articles: structure?.articles || [],
+      sections: structure?.sections || []
+    };
+  }
+
+  // 以正文計算防重複哈希，同一份正文不能重複建立
+  private hashContent(content: ILegalTextContent['content']): string {
+    const normalized = TEXT_LANGUAGES
+      .map(language => (content[language]?.text || '').replace(/\s+/g, ' ').trim())
+      .join('\u0000');
+
+    return createHash('sha256').update(normalized).digest('hex');
+  }
+
+  private translateError(error: unknown): Error {
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      if (error.code === 'P2002') {
+        return new TextError('A legal text with identical content already exists', 'TEXT_EXISTS');
+      }
+      if (error.code === 'P2025') {
+        return new TextError('Legal text not found', 'TEXT_NOT_FOUND');
+      }
+    }
+
+    return error instanceof Error ? error : new Error('Unknown error');
+  }
+
+  private toDetail(text: LegalText, content: ContentSnapshot | null): LegalTextDetail {
+    const detail: LegalTextDetail = {
+      ...toTextSummary(text),
+      contentId: text.contentId,
+      content: {},
+      structure: this.normalizeStructure(content?.structure),
+      currentRevision: content?.currentRevision ?? 0,
+      extractionMethod: content?.metadata.extractionMethod ?? null
+    };
+
+    for (const language of TEXT_LANGUAGES) {
+      const body = content?.content[language];
+      if (body?.text) {
+        detail.content[language] = { text: body.text, html: body.html || '', wordCount: body.wordCount || 0 };
+      }
+    }
+
+    return detail;
+  }
+}
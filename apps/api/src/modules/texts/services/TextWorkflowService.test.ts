@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { findUnique, updateMany, createTransition, findUniqueOrThrow } = vi.hoisted(() => ({
+  findUnique: vi.fn(),
+  updateMany: vi.fn(),
+  createTransition: vi.fn(),
+  findUniqueOrThrow: vi.fn()
+}));
+vi.mock('../../../config/database', () => {
+  const tx = { legalText: { updateMany, findUniqueOrThrow }, textTransition: { create: createTransition } };
+  return {
+    prisma: {
+      legalText: { findUnique },
+      $transaction: async (run: (client: typeof tx) => Promise<unknown>) => run(tx)
+    }
+  };
+});
+vi.mock('../../auth/services/RoleService', () => ({ RoleService: class {} }));
+
+import { TextWorkflowService, TEXT_TRANSITIONS } from './TextWorkflowService';
+import { RoleService } from '../../auth/services/RoleService';
+import { legalTextEvents } from '../../../shared/events/legalTextEvents';
+import { LegalTextStatus, TextTransitionAction, InvalidTransitionError } from '../../../shared/types/text.types';
+
+const EDITOR = { id: 'editor-1', roles: ['EDITOR'] };
+
+function text(status: LegalTextStatus) {
+  return { id: 'text-1', titleZh: '租賃法', status, isPublic: true, authorId: 'author-1' };
+}
+
+describe('TextWorkflowService.transition', () => {
+  const hasPermission = vi.fn();
+  const service = new TextWorkflowService({ hasPermission } as unknown as RoleService);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    hasPermission.mockResolvedValue(true);
+    updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it.each<[TextTransitionAction, LegalTextStatus, LegalTextStatus]>([
+    ['submit', 'DRAFT', 'PENDING_REVIEW'],
+    ['withdraw', 'PENDING_REVIEW', 'DRAFT'],
+    ['withdraw', 'APPROVED', 'DRAFT'],
+    ['approve', 'PENDING_REVIEW', 'APPROVED'],
+    ['reject', 'APPROVED', 'DRAFT'],
+    ['publish', 'APPROVED', 'PUBLISHED'],
+    ['archive', 'PUBLISHED', 'ARCHIVED']
+  ])('%s moves a %s text to %s and records the transition', async (action, from, to) => {
+    findUnique.mockResolvedValue(text(from));
+    findUniqueOrThrow.mockResolvedValue(text(to));
+    const statusChanged = vi.fn();
+    legalTextEvents.on('statusChanged', statusChanged);
+
+    const summary = await service.transition('text-1', action, EDITOR, 'Revisto');
+    legalTextEvents.off('statusChanged', statusChanged);
+
+    expect(summary.status).toBe(to);
+    expect(updateMany).toHaveBeenCalledWith({ where: { id: 'text-1', status: from }, data: { status: to } });
+    expect(createTransition).toHaveBeenCalledWith({
+      data: { textId: 'text-1', fromStatus: from, toStatus: to, action, actorId: 'editor-1', comment: 'Revisto' }
+    });
+    expect(statusChanged).toHaveBeenCalledWith({ textId: 'text-1', from, to });
+    expect(hasPermission).toHaveBeenCalledWith('editor-1', 'texts', TEXT_TRANSITIONS[action].permission);
+  });
+
+  it.each<[TextTransitionAction, LegalTextStatus]>([
+    ['submit', 'PENDING_REVIEW'],
+    ['approve', 'DRAFT'],
+    ['publish', 'PENDING_REVIEW'],
+    ['withdraw', 'PUBLISHED'],
+    ['archive', 'ARCHIVED']
+  ])('refuses to %s a %s text', async (action, from) => {
+    findUnique.mockResolvedValue(text(from));
+
+    await expect(service.transition('text-1', action, EDITOR, 'Revisto')).rejects.toBeInstanceOf(InvalidTransitionError);
+    expect(updateMany).not.toHaveBeenCalled();
+  });
+
+  it('requires a reason to reject', async () => {
+    findUnique.mockResolvedValue(text('PENDING_REVIEW'));
+
+    await expect(service.transition('text-1', 'reject', EDITOR, '  ')).rejects.toMatchObject({ code: 'COMMENT_REQUIRED' });
+    expect(findUnique).not.toHaveBeenCalled();
+  });
+
+  it('requires the permission of the action', async () => {
+    findUnique.mockResolvedValue(text('APPROVED'));
+    hasPermission.mockResolvedValue(false);
+
+    await expect(service.transition('text-1', 'publish', EDITOR)).rejects.toMatchObject({ code: 'TRANSITION_FORBIDDEN' });
+    expect(hasPermission).toHaveBeenCalledWith('editor-1', 'texts', 'publish');
+    expect(updateMany).not.toHaveBeenCalled();
+  });
+
+  it('only lets the author or a reviewer withdraw a text', async () => {
+    findUnique.mockResolvedValue(text('PENDING_REVIEW'));
+    findUniqueOrThrow.mockResolvedValue(text('DRAFT'));
+    hasPermission.mockImplementation(async (_userId: string, _resource: string, action: string) => action === 'update');
+
+    await expect(service.transition('text-1', 'withdraw', EDITOR)).rejects.toMatchObject({ code: 'TRANSITION_FORBIDDEN' });
+    expect(hasPermission).toHaveBeenCalledWith('editor-1', 'texts', 'approve');
+    expect(updateMany).not.toHaveBeenCalled();
+
+    await expect(service.transition('text-1', 'withdraw', { id: 'author-1', roles: ['EDITOR'] })).resolves.toMatchObject({
+      status: 'DRAFT'
+    });
+  });
+
+  it('fails without recording when the status changed concurrently', async () => {
+    findUnique.mockResolvedValue(text('PENDING_REVIEW'));
+    updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.transition('text-1', 'approve', EDITOR)).rejects.toMatchObject({ code: 'TRANSITION_CONFLICT' });
+    expect(createTransition).not.toHaveBeenCalled();
+  });
+
+  it('reports a missing text', async () => {
+    findUnique.mockResolvedValue(null);
+
+    await expect(service.transition('text-1', 'submit', EDITOR)).rejects.toMatchObject({ code: 'TEXT_NOT_FOUND' });
+  });
+});
+
+describe('TextWorkflowService.getReviewQueue', () => {
+  it('is only open to reviewers', async () => {
+    const service = new TextWorkflowService({ hasPermission: async () => false } as unknown as RoleService);
+
+    await expect(service.getReviewQueue({}, EDITOR)).rejects.toMatchObject({ code: 'TRANSITION_FORBIDDEN' });
+  });
+});
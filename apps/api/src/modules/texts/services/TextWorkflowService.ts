@@ -0,0 +1,168 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../../config/database';
+import { legalTextEvents } from '../../../shared/events/legalTextEvents';
+import { RoleService } from '../../auth/services/RoleService';
+import { toTextSummary } from './TextService';
+import {
+  LegalTextStatus,
+  LegalTextSummary,
+  TextTransitionAction,
+  TextTransitionRule,
+  TextTransitionEntry,
+  ReviewQueueFilters,
+  ReviewQueuePage,
+  TextViewer,
+  TextError,
+  LegalTextNotFoundError,
+  InvalidTransitionError
+} from '../../../shared/types/text.types';
+
+// DRAFT → PENDING_REVIEW → APPROVED → PUBLISHED → ARCHIVED；駁回或撤回退回草稿
+export const TEXT_TRANSITIONS: Record<TextTransitionAction, TextTransitionRule> = {
+  submit: { from: ['DRAFT'], to: 'PENDING_REVIEW', permission: 'update' },
+  withdraw: { from: ['PENDING_REVIEW', 'APPROVED'], to: 'DRAFT', permission: 'update', othersPermission: 'approve' },
+  approve: { from: ['PENDING_REVIEW'], to: 'APPROVED', permission: 'approve' },
+  reject: { from: ['PENDING_REVIEW', 'APPROVED'], to: 'DRAFT', permission: 'approve', requiresComment: true },
+  publish: { from: ['APPROVED'], to: 'PUBLISHED', permission: 'publish' },
+  archive: { from: ['DRAFT', 'PENDING_REVIEW', 'APPROVED', 'PUBLISHED'], to: 'ARCHIVED', permission: 'delete' }
+};
+
+const actorSelect = { select: { id: true, username: true } } as const;
+
+export class TextWorkflowService {
+  private readonly MAX_LIMIT = 100;
+
+  constructor(private roleService: RoleService = new RoleService()) {}
+
+  /**
+   * 執行一次狀態流轉並記錄。以「狀態仍為流轉前狀態」作為更新條件，
+   * 並發操作時只有一個能成功。
+   */
+  async transition(
+    textId: string,
+    action: TextTransitionAction,
+    actor: TextViewer,
+    comment?: string
+  ): Promise<LegalTextSummary> {
+    const rule = TEXT_TRANSITIONS[action];
+    const note = comment?.trim() || null;
+
+    if (rule.requiresComment && !note) {
+      throw new TextError(`A reason is required to ${action} a text`, 'COMMENT_REQUIRED', { action });
+    }
+
+    const text = await prisma.legalText.findUnique({ where: { id: textId } });
+    if (!text) {
+      throw new LegalTextNotFoundError(textId);
+    }
+
+    if (!(await this.roleService.hasPermission(actor.id, 'texts', rule.permission))) {
+      throw new TextError(`Insufficient permissions to ${action} texts`, 'TRANSITION_FORBIDDEN', { action });
+    }
+
+    // 例如撤回只限作者本人，或審核員、管理員
+    if (
+      rule.othersPermission &&
+      text.authorId !== actor.id &&
+      !(await this.roleService.hasPermission(actor.id, 'texts', rule.othersPermission))
+    ) {
+      throw new TextError(`Only the author or a reviewer can ${action} this text`, 'TRANSITION_FORBIDDEN', { action });
+    }
+
+    if (!rule.from.includes(text.status)) {
+      throw new InvalidTransitionError(action, text.status);
+    }
+
+    const updated = await prisma.$transaction(async tx => {
+      const { count } = await tx.legalText.updateMany({
+        where: { id: textId, status: text.status },
+        data: { status: rule.to }
+      });
+      if (count === 0) {
+        throw new TextError('Text status was changed concurrently, please retry', 'TRANSITION_CONFLICT', { textId });
+      }
+
+      await tx.textTransition.create({
+        data: {
+          textId,
+          fromStatus: text.status,
+          toStatus: rule.to,
+          action,
+          actorId: actor.id,
+          comment: note
+        }
+      });
+
+      return tx.legalText.findUniqueOrThrow({ where: { id: textId } });
+    });
+
+    legalTextEvents.emit('statusChanged', { textId, from: text.status, to: rule.to });
+
+    return toTextSummary(updated);
+  }
+
+  async getHistory(textId: string): Promise<TextTransitionEntry[]> {
+    const exists = await prisma.legalText.count({ where: { id: textId } });
+    if (!exists) {
+      throw new LegalTextNotFoundError(textId);
+    }
+
+    const transitions = await prisma.textTransition.findMany({
+      where: { textId },
+      include: { actor: actorSelect },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return transitions.map(transition => ({
+      id: transition.id,
+      textId: transition.textId,
+      fromStatus: transition.fromStatus,
+      toStatus: transition.toStatus,
+      action: transition.action as TextTransitionAction,
+      actor: transition.actor,
+      comment: transition.comment,
+      createdAt: transition.createdAt
+    }));
+  }
+
+  // 審核隊列：最早進入隊列（或最久未更新）的排在前面
+  async getReviewQueue(filters: ReviewQueueFilters, reviewer: TextViewer): Promise<ReviewQueuePage> {
+    if (!(await this.roleService.hasPermission(reviewer.id, 'texts', 'approve'))) {
+      throw new TextError('Insufficient permissions to review texts', 'TRANSITION_FORBIDDEN');
+    }
+
+    const page = Math.max(filters.page || 1, 1);
+    const limit = Math.min(Math.max(filters.limit || 20, 1), this.MAX_LIMIT);
+    const status: LegalTextStatus = filters.status || 'PENDING_REVIEW';
+
+    const where: Prisma.LegalTextWhereInput = { status };
+    if (filters.category) where.category = filters.category;
+
+    const [texts, total] = await Promise.all([
+      prisma.legalText.findMany({
+        where,
+        include: {
+          // 進入當前狀態的那次流轉
+          transitions: {
+            where: { toStatus: status },
+            orderBy: { createdAt: 'desc' },
+            take: 1,
+            include: { actor: actorSelect }
+          }
+        },
+        orderBy: { updatedAt: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.legalText.count({ where })
+    ]);
+
+    const items = texts.map(({ transitions, ...text }) => ({
+      ...toTextSummary(text),
+      submittedAt: transitions[0]?.createdAt ?? null,
+      submittedBy: transitions[0]?.actor ?? null
+    }));
+
+    return { items, total, page, limit };
+  }
+}
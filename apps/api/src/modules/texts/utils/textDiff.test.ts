@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { diffText, summarizeDiff, diffArticles, detectArticles } from './textDiff';
+import { DiffSegment, StructureArticle } from '../../../shared/types/text.types';
+
+// 按各側偏移量重建兩個版本，驗證片段完整覆蓋原文
+function rebuild(segments: DiffSegment[]): { oldText: string; newText: string } {
+  let oldText = '';
+  let newText = '';
+  for (const segment of segments) {
+    if (segment.type !== 'insert') {
+      expect(segment.oldOffset).toBe(oldText.length);
+      oldText += segment.text;
+    }
+    if (segment.type !== 'delete') {
+      expect(segment.newOffset).toBe(newText.length);
+      newText += segment.text;
+    }
+  }
+  return { oldText, newText };
+}
+
+function article(number: string, startOffset: number, endOffset: number): StructureArticle {
+  return { id: `article-${number}`, number, title: '', startOffset, endOffset };
+}
+
+describe('diffText', () => {
+  it('returns a single equal segment for identical texts', () => {
+    expect(diffText('第一條', '第一條')).toEqual([{ type: 'equal', text: '第一條', oldOffset: 0, newOffset: 0 }]);
+  });
+
+  it('reports character edits with offsets on both sides', () => {
+    const segments = diffText('租賃期為一年。', '租賃期為三年。');
+
+    expect(segments).toEqual([
+      { type: 'equal', text: '租賃期為', oldOffset: 0, newOffset: 0 },
+      { type: 'delete', text: '一', oldOffset: 4, newOffset: 4 },
+      { type: 'insert', text: '三', oldOffset: 5, newOffset: 4 },
+      { type: 'equal', text: '年。', oldOffset: 5, newOffset: 5 }
+    ]);
+    expect(summarizeDiff(segments)).toEqual({ insertions: 1, deletions: 1 });
+  });
+
+  it('reproduces both versions for interleaved edits', () => {
+    const oldText = 'O arrendatário deve pagar a renda.\nO senhorio entrega o prédio.';
+    const newText = 'O arrendatário paga a renda mensal.\nO senhorio deve entregar o prédio.';
+
+    expect(rebuild(diffText(oldText, newText))).toEqual({ oldText, newText });
+  });
+
+  it('falls back to line or whole-block diffs when characters differ too much', () => {
+    const oldText = Array.from({ length: 60 }, (_, index) => `linha antiga ${index} ${'x'.repeat(30)}\n`).join('');
+    const newText = Array.from({ length: 60 }, (_, index) => `nova linha ${index} ${'y'.repeat(30)}\n`).join('');
+
+    const segments = diffText(oldText, newText);
+
+    expect(rebuild(segments)).toEqual({ oldText, newText });
+    // 除共同的結尾換行外整段替換，不會拆成零碎的字符編輯
+    expect(summarizeDiff(segments)).toEqual({ insertions: newText.length - 1, deletions: oldText.length - 1 });
+  });
+});
+
+describe('diffArticles', () => {
+  it('pairs articles across numbering styles and classifies changes', () => {
+    // 舊版本用葡文條號、新版本用中文條號，正文相同語言以便判斷是否修改
+    const oldSource = {
+      text: 'AAAA|BBBB|CCCC',
+      articles: [article('1.º', 0, 4), article('2.º', 5, 9), article('3.º', 10, 14)]
+    };
+    const newSource = {
+      text: 'AAAA|BBXB|DDDD',
+      articles: [article('第一條', 0, 4), article('第二條', 5, 9), article('2-a', 10, 14)]
+    };
+
+    const diffs = diffArticles(oldSource, newSource);
+
+    expect(diffs.map(diff => [diff.number, diff.status])).toEqual([
+      ['第一條', 'unchanged'],
+      ['第二條', 'modified'],
+      ['3.º', 'removed'],
+      ['2-a', 'added']
+    ]);
+    expect(diffs[1]?.stats).toEqual({ insertions: 1, deletions: 1 });
+    expect(diffs[2]?.segments).toEqual([{ type: 'delete', text: 'CCCC', oldOffset: 0, newOffset: 0 }]);
+  });
+});
+
+describe('detectArticles', () => {
+  it('finds Portuguese article headings up to the next heading', () => {
+    const text = 'Lei n.º 1/2024\nArtigo 1.º\nObjecto\nArtigo 2.º-A\nDefinições\n';
+
+    expect(detectArticles(text, 'pt').map(article => [article.number, article.title, text.slice(article.startOffset, article.endOffset)])).toEqual([
+      ['1', 'Artigo 1.º', 'Artigo 1.º\nObjecto\n'],
+      ['2-A', 'Artigo 2.º-A', 'Artigo 2.º-A\nDefinições\n']
+    ]);
+  });
+
+  it('does not read the first letter of a capitalised title as the ordinal', () => {
+    const text = 'Artigo 1 Objecto\nArtigo 2 Âmbito\n';
+
+    expect(detectArticles(text, 'pt').map(article => article.number)).toEqual(['1', '2']);
+  });
+
+  it('finds Chinese article headings', () => {
+    const text = '第一條\n標的\n第十五條\n定義\n';
+
+    expect(detectArticles(text, 'zh').map(article => [article.number, article.startOffset])).toEqual([['1', 0], ['15', 7]]);
+  });
+});
@@ -0,0 +1,246 @@
+import {
+  DiffSegment,
+  DiffStats,
+  ArticleDiff,
+  StructureArticle,
+  TextLanguage
+} from '../../../shared/types/text.types';
+import { parseChineseNumeral } from '../../search/utils/chineseNumerals';
+
+type EditType = DiffSegment['type'];
+
+interface TokenEdit {
+  type: EditType;
+  token: string;
+}
+
+export interface ArticleSource {
+  text: string;
+  articles: StructureArticle[];
+}
+
+// 行首的條文標題：第十五條、第15條；Artigo 15.º、ARTIGO 15.º-A。
+// 序數標記區分大小寫，「Artigo 1 Objecto」中的 O 屬於標題而不是序數
+const ARTICLE_HEADINGS: Record<TextLanguage, RegExp> = {
+  zh: /^[ \t\u3000]*第\s*([0-9零〇一二三四五六七八九十百千兩]+(?:\s*-\s*[A-Za-z])?)\s*條/gm,
+  pt: /^[ \t]*(?:Artigo|ARTIGO)\s+(\d+(?:\.?\s*(?:[\u00ba\u00b0]|o(?![A-Za-z])))?(?:\s*-\s*[A-Z](?![A-Za-z]))?)/gm
+};
+
+// Myers 算法需保存每輪的 V 陣列，編輯距離上限決定記憶體用量
+const MAX_CHAR_EDITS = 1000;
+const MAX_LINE_EDITS = 1000;
+
+/**
+ * 字符級差異。先去掉共同前後綴；中間部分編輯距離過大時退為按行比較，
+ * 仍過大則整段視為刪除後插入。偏移量以 UTF-16 編碼單元計，與正文偏移量一致。
+ */
+export function diffText(oldText: string, newText: string): DiffSegment[] {
+  const prefix = commonPrefixLength(oldText, newText);
+  const suffix = commonSuffixLength(oldText.slice(prefix), newText.slice(prefix));
+
+  const oldMiddle = oldText.slice(prefix, oldText.length - suffix);
+  const newMiddle = newText.slice(prefix, newText.length - suffix);
+
+  const edits: TokenEdit[] = [];
+  if (prefix > 0) edits.push({ type: 'equal', token: oldText.slice(0, prefix) });
+
+  const middle = myers(oldMiddle.split(''), newMiddle.split(''), MAX_CHAR_EDITS)
+    ?? myers(splitLines(oldMiddle), splitLines(newMiddle), MAX_LINE_EDITS)
+    ?? [
+      { type: 'delete' as const, token: oldMiddle },
+      { type: 'insert' as const, token: newMiddle }
+    ];
+  edits.push(...middle);
+
+  if (suffix > 0) edits.push({ type: 'equal', token: oldText.slice(oldText.length - suffix) });
+
+  return toSegments(edits);
+}
+
+export function summarizeDiff(segments: DiffSegment[]): DiffStats {
+  return segments.reduce<DiffStats>((stats, segment) => {
+    if (segment.type === 'insert') stats.insertions += segment.text.length;
+    if (segment.type === 'delete') stats.deletions += segment.text.length;
+    return stats;
+  }, { insertions: 0, deletions: 0 });
+}
+
+function myers(a: string[], b: string[], maxEdits: number): TokenEdit[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, maxEdits);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && (v[offset + k - 1] ?? 0) < (v[offset + k + 1] ?? 0))
+        ? v[offset + k + 1] ?? 0
+        : (v[offset + k - 1] ?? 0) + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, a, b, offset);
+      }
+    }
+  }
+
+  return null;
+}
+
+function backtrack(trace: Int32Array[], a: string[], b: string[], offset: number): TokenEdit[] {
+  const edits: TokenEdit[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d] as Int32Array;
+    const k = x - y;
+    const prevK = k === -d || (k !== d && (v[offset + k - 1] ?? 0) < (v[offset + k + 1] ?? 0)) ? k + 1 : k - 1;
+    const prevX = v[offset + prevK] ?? 0;
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      edits.push({ type: 'equal', token: a[x - 1] as string });
+      x--;
+      y--;
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        edits.push({ type: 'insert', token: b[y - 1] as string });
+      } else {
+        edits.push({ type: 'delete', token: a[x - 1] as string });
+      }
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  return edits.reverse();
+}
+
+// 合併相鄰同類編輯並計算兩側偏移量
+function toSegments(edits: TokenEdit[]): DiffSegment[] {
+  const segments: DiffSegment[] = [];
+  let oldOffset = 0;
+  let newOffset = 0;
+
+  for (const edit of edits) {
+    if (!edit.token) continue;
+
+    const last = segments[segments.length - 1];
+    if (last && last.type === edit.type) {
+      last.text += edit.token;
+    } else {
+      segments.push({ type: edit.type, text: edit.token, oldOffset, newOffset });
+    }
+
+    if (edit.type !== 'insert') oldOffset += edit.token.length;
+    if (edit.type !== 'delete') newOffset += edit.token.length;
+  }
+
+  return segments;
+}
+
+// 保留換行符，拼接後與原文完全一致
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  const length = Math.min(a.length, b.length);
+  let index = 0;
+  while (index < length && a.charCodeAt(index) === b.charCodeAt(index)) index++;
+  return index;
+}
+
+function commonSuffixLength(a: string, b: string): number {
+  const length = Math.min(a.length, b.length);
+  let index = 0;
+  while (index < length && a.charCodeAt(a.length - 1 - index) === b.charCodeAt(b.length - 1 - index)) index++;
+  return index;
+}
+
+/**
+ * 條文級差異：按條文編號配對兩個版本的條文，逐條比較正文。
+ * 條文偏移量以各版本的結構為準。
+ */
+export function diffArticles(oldSource: ArticleSource, newSource: ArticleSource): ArticleDiff[] {
+  const oldArticles = new Map(oldSource.articles.map(article => [normalizeNumber(article.number), article]));
+  const newArticles = new Map(newSource.articles.map(article => [normalizeNumber(article.number), article]));
+  const numbers = [...new Set([...oldArticles.keys(), ...newArticles.keys()])];
+  const order = (number: string) => newArticles.get(number)?.startOffset ?? oldArticles.get(number)?.startOffset ?? 0;
+
+  return numbers
+    .sort((a, b) => order(a) - order(b))
+    .map(number => {
+      const oldArticle = oldArticles.get(number);
+      const newArticle = newArticles.get(number);
+      const oldText = oldArticle ? sliceRange(oldSource.text, oldArticle) : '';
+      const newText = newArticle ? sliceRange(newSource.text, newArticle) : '';
+
+      const diff: ArticleDiff = {
+        number: newArticle?.number ?? oldArticle?.number ?? number,
+        title: newArticle?.title ?? oldArticle?.title ?? '',
+        status: !oldArticle ? 'added' : !newArticle ? 'removed' : oldText === newText ? 'unchanged' : 'modified'
+      };
+
+      if (oldArticle) diff.oldRange = { startOffset: oldArticle.startOffset, endOffset: oldArticle.endOffset };
+      if (newArticle) diff.newRange = { startOffset: newArticle.startOffset, endOffset: newArticle.endOffset };
+      if (diff.status !== 'unchanged') {
+        diff.segments = diffText(oldText, newText);
+        diff.stats = summarizeDiff(diff.segments);
+      }
+
+      return diff;
+    });
+}
+
+/**
+ * 按行首的條文標題識別條文，每條到下一條標題前結束。
+ * 結構只記錄主語言的偏移量，另一語言的條文級比較使用這裡的結果。
+ */
+export function detectArticles(text: string, language: TextLanguage): StructureArticle[] {
+  const headings = [...text.matchAll(new RegExp(ARTICLE_HEADINGS[language]))];
+
+  return headings.map((heading, index) => {
+    const startOffset = heading.index ?? 0;
+    const lineEnd = text.indexOf('\n', startOffset);
+
+    return {
+      id: `article-${index + 1}`,
+      number: normalizeNumber(heading[1] || ''),
+      title: text.slice(startOffset, lineEnd === -1 ? text.length : lineEnd).trim(),
+      startOffset,
+      endOffset: headings[index + 1]?.index ?? text.length
+    };
+  });
+}
+
+function sliceRange(text: string, range: StructureArticle): string {
+  return text.slice(Math.max(0, range.startOffset), Math.min(text.length, range.endOffset));
+}
+
+// 「15」「15.º」「第十五條」等寫法統一成純數字，「15-A」「15.º-A」保留字母後綴，其餘原樣比較
+function normalizeNumber(number: string): string {
+  const match = number.match(/(\d+)(?:\.?\s*[\u00ba\u00b0o])?\s*(?:[-–]\s*([A-Za-z])\b)?/);
+  if (match?.[1]) {
+    return match[2] ? `${Number(match[1])}-${match[2].toUpperCase()}` : String(Number(match[1]));
+  }
+
+  const chinese = number.replace(/^第|[條条]$/g, '');
+  const parsed = parseChineseNumeral(chinese);
+  return parsed === null ? number.trim() : String(parsed);
+}
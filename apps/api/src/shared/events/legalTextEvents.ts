@@ -0,0 +1,35 @@
+import { EventEmitter } from 'events';
+import { TextStatus } from '@prisma/client';
+
+// 法律文本生命週期事件，供搜索索引、註解重新定位等下游模組訂閱
+export interface LegalTextEventMap {
+  created: { textId: string };
+  updated: { textId: string };
+  contentChanged: { textId: string; revision: number }; // 正文或結構產生了新版本
+  statusChanged: { textId: string; from: TextStatus; to: TextStatus };
+}
+
+export type LegalTextEventName = keyof LegalTextEventMap;
+
+class LegalTextEventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // 監聽器數量隨訂閱模組增長，不設上限警告
+    this.emitter.setMaxListeners(0);
+  }
+
+  emit<K extends LegalTextEventName>(event: K, payload: LegalTextEventMap[K]): void {
+    this.emitter.emit(event, payload);
+  }
+
+  on<K extends LegalTextEventName>(event: K, listener: (payload: LegalTextEventMap[K]) => void): void {
+    this.emitter.on(event, listener);
+  }
+
+  off<K extends LegalTextEventName>(event: K, listener: (payload: LegalTextEventMap[K]) => void): void {
+    this.emitter.off(event, listener);
+  }
+}
+
+export const legalTextEvents = new LegalTextEventBus();
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { AnnotationPosition } from './mongodb';
+
+function position(fingerprint: unknown) {
+  return new AnnotationPosition({
+    annotationId: 'annotation-1',
+    textId: 'text-1',
+    position: { startOffset: 0, endOffset: 4, selectedText: '租賃期間', contextHash: 'context' },
+    context: { before: '本法律的', after: '為一年', hash: 'context' },
+    fingerprint,
+    confidence: 1
+  });
+}
+
+describe('AnnotationPosition schema', () => {
+  it('accepts both the fingerprint object and legacy hash strings', () => {
+    const fingerprint = { hash: 'abc', trigrams: ['租賃期', '賃期間'], length: 4, wordCount: 1 };
+
+    expect(position(fingerprint).validateSync()).toBeUndefined();
+    expect(position('5d41402abc4b2a76').validateSync()).toBeUndefined();
+  });
+
+  it('rejects missing or malformed fingerprints', () => {
+    expect(position(undefined).validateSync()?.errors.fingerprint).toBeDefined();
+    expect(position({ hash: 'abc' }).validateSync()?.errors.fingerprint).toBeDefined();
+    expect(position(42).validateSync()?.errors.fingerprint).toBeDefined();
+  });
+});
@@ -42,6 +42,7 @@ export interface ILegalTextContent extends Document {
     extractedAt?: Date;
     lastModified: Date;
   };
+  currentRevision: number; // 對應 LegalTextRevision.revision
 }
 
 // 法律文本內容Schema
@@ -89,16 +90,79 @@ const LegalTextContentSchema = new Schema<ILegalTextContent>({
     sourceUrl: { type: String },
     extractedAt: { type: Date },
     lastModified: { type: Date, default: Date.now }
-  }
+  },
+  currentRevision: { type: Number, default: 0 }
 }, {
   timestamps: true,
   versionKey: false
 });
 
+// 法律文本修訂版本接口：每次保存正文都新增一個不可變版本
+export interface ILegalTextRevision extends Document {
+  textId: string; // PostgreSQL UUID
+  revision: number; // 從 1 開始遞增
+  content: ILegalTextContent['content'];
+  structure: ILegalTextContent['structure'];
+  authorId: string;
+  reason?: string;
+  restoredFrom?: number; // 由舊版本恢復時的來源版本
+  createdAt: Date;
+}
+
+const structureRangeSchema = {
+  id: { type: String, required: true },
+  title: { type: String, required: true },
+  startOffset: { type: Number, required: true },
+  endOffset: { type: Number, required: true }
+};
+
+// 法律文本修訂版本Schema；所有欄位建立後不可修改
+const LegalTextRevisionSchema = new Schema<ILegalTextRevision>({
+  textId: { type: String, required: true, immutable: true },
+  revision: { type: Number, required: true, immutable: true },
+  content: {
+    type: {
+      zh: {
+        text: { type: String },
+        html: { type: String },
+        wordCount: { type: Number, default: 0 }
+      },
+      pt: {
+        text: { type: String },
+        html: { type: String },
+        wordCount: { type: Number, default: 0 }
+      }
+    },
+    immutable: true
+  },
+  structure: {
+    type: {
+      chapters: [structureRangeSchema],
+      articles: [{ ...structureRangeSchema, number: { type: String, required: true } }],
+      sections: [structureRangeSchema]
+    },
+    immutable: true
+  },
+  authorId: { type: String, required: true, immutable: true },
+  reason: { type: String, immutable: true },
+  restoredFrom: { type: Number, immutable: true }
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  versionKey: false
+});
+
+LegalTextRevisionSchema.index({ textId: 1, revision: -1 }, { unique: true });
+
+// 禁止通過查詢更新修改已有版本
+LegalTextRevisionSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne'], function () {
+  throw new Error('Legal text revisions are immutable');
+});
+
 // 註解位置接口
 export interface IAnnotationPosition extends Document {
   annotationId: string; // PostgreSQL UUID
   textId: string; // PostgreSQL UUID
+  language: 'zh' | 'pt';
   position: {
     startOffset: number;
     endOffset: number;
@@ -111,7 +175,22 @@ export interface IAnnotationPosition extends Document {
     after: string;
     hash: string;
   };
-  fingerprint: string;
+  structural: {
+    chapterId?: string;
+    articleId?: string;
+    articleNumber?: string;
+    sectionId?: string;
+    paragraphIndex?: number;
+    articleParagraphIndex?: number;
+    paragraphOffset?: number;
+    elementPath?: string;
+  };
+  fingerprint: {
+    hash: string;
+    trigrams: string[];
+    length: number;
+    wordCount: number;
+  } | string; // 舊數據為字串哈希
   confidence: number;
   backup: {
     fuzzyMatches: Array<{
@@ -120,12 +199,34 @@ export interface IAnnotationPosition extends Document {
       similarity: number;
     }>;
   };
+  orphaned: boolean; // 正文修改後無法以足夠信心重新定位，需要作者手動重新附著
+  orphanedAt?: Date;
+  reanchoredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+function isStoredFingerprint(value: unknown): boolean {
+  if (typeof value === 'string') {
+    return value.length > 0;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const fingerprint = value as Record<string, unknown>;
+  return typeof fingerprint.hash === 'string'
+    && Array.isArray(fingerprint.trigrams)
+    && fingerprint.trigrams.every(trigram => typeof trigram === 'string')
+    && typeof fingerprint.length === 'number'
+    && typeof fingerprint.wordCount === 'number';
 }
 
 // 註解位置Schema
 const AnnotationPositionSchema = new Schema<IAnnotationPosition>({
   annotationId: { type: String, required: true, unique: true, index: true },
   textId: { type: String, required: true, index: true },
+  language: { type: String, enum: ['zh', 'pt'], default: 'zh' },
   position: {
     startOffset: { type: Number, required: true },
     endOffset: { type: Number, required: true },
@@ -138,7 +239,25 @@ const AnnotationPositionSchema = new Schema<IAnnotationPosition>({
     after: { type: String, required: true },
     hash: { type: String, required: true, index: true }
   },
-  fingerprint: { type: String, required: true, index: true },
+  structural: {
+    chapterId: { type: String },
+    articleId: { type: String },
+    articleNumber: { type: String },
+    sectionId: { type: String },
+    paragraphIndex: { type: Number },
+    articleParagraphIndex: { type: Number },
+    paragraphOffset: { type: Number },
+    elementPath: { type: String }
+  },
+  // 舊數據為字串哈希，讀取時由 positionMapper 重建，因此兩種形式都須能通過驗證
+  fingerprint: {
+    type: Schema.Types.Mixed,
+    required: true,
+    validate: {
+      validator: isStoredFingerprint,
+      message: 'fingerprint must be a hash string or an object with hash, trigrams, length and wordCount'
+    }
+  },
   confidence: { type: Number, required: true, min: 0, max: 1 },
   backup: {
     fuzzyMatches: [{
@@ -146,12 +265,18 @@ const AnnotationPositionSchema = new Schema<IAnnotationPosition>({
       endOffset: { type: Number, required: true },
       similarity: { type: Number, required: true, min: 0, max: 1 }
     }]
-  }
+  },
+  orphaned: { type: Boolean, default: false, index: true },
+  orphanedAt: { type: Date },
+  reanchoredAt: { type: Date }
 }, {
   timestamps: true,
   versionKey: false
 });
 
+AnnotationPositionSchema.index({ 'fingerprint.hash': 1 });
+
 // 導出模型
 export const LegalTextContent = mongoose.model<ILegalTextContent>('LegalTextContent', LegalTextContentSchema);
+export const LegalTextRevision = mongoose.model<ILegalTextRevision>('LegalTextRevision', LegalTextRevisionSchema);
 export const AnnotationPosition = mongoose.model<IAnnotationPosition>('AnnotationPosition', AnnotationPositionSchema); 
\ No newline at end of file
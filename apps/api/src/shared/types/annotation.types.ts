@@ -1,4 +1,9 @@
+import { LegalTextStructure } from './text.types';
+
 export interface AnnotationPosition {
+  // 所在的語言版本，偏移量只對該語言的正文有效
+  language: AnnotationLanguage;
+
   // 主要定位：絕對偏移量
   primary: {
     startOffset: number;
@@ -14,16 +19,10 @@ export interface AnnotationPosition {
   };
 
   // 結構定位：段落/章節信息
-  structural: {
-    chapterId?: string;
-    articleId?: string;
-    sectionId?: string;
-    paragraphIndex?: number;
-    elementPath?: string; // CSS選擇器路徑
-  };
+  structural: StructuralPath;
 
-  // 備用定位：文本指紋
-  fingerprint: string;
+  // 備用定位：選取文字的三元組指紋
+  fingerprint: TextFingerprint;
 
   // 元數據
   metadata: {
@@ -74,14 +73,25 @@ export interface ContextInfo {
 export interface StructuralPath {
   chapterId?: string;
   articleId?: string;
+  articleNumber?: string;         // 條文編號，結構 ID 重新生成後仍可配對
   sectionId?: string;
-  paragraphIndex?: number;
-  elementPath?: string;
+  paragraphIndex?: number;        // 全文中的段落序號（按換行切分，從 0 起）
+  articleParagraphIndex?: number; // 所在條文內的段落序號
+  paragraphOffset?: number;       // 選取起點相對段落起點的偏移量
+  elementPath?: string;           // CSS選擇器路徑，對應存儲的 HTML
+}
+
+// 結構定位所需的正文；結構偏移量只對主語言（有中文時為中文）有效
+export interface StructuralDocument {
+  language: AnnotationLanguage;
+  text: string;
+  html?: string;
+  structure?: LegalTextStructure;
 }
 
 export interface TextFingerprint {
-  hash: string;
-  trigrams: string[];
+  hash: string;       // 規範化文本的 SHA-256
+  trigrams: string[]; // 去重排序的字符三元組
   length: number;
   wordCount: number;
 }
@@ -142,19 +152,234 @@ export type AnnotationType =
   | 'correction'
   | 'reference';
 
-export type AnnotationStatus = 
-  | 'draft'
-  | 'pending'
-  | 'approved'
-  | 'rejected'
-  | 'archived';
+// 與 Prisma 的 AnnotationStatus 枚舉一致；公開註解須經審核，只有 APPROVED 的對其他用戶可見
+export type AnnotationStatus =
+  | 'DRAFT'
+  | 'PENDING'
+  | 'APPROVED'
+  | 'REJECTED'
+  | 'ARCHIVED';
+
+export interface ReplyUser {
+  id: string;
+  username: string;
+}
 
+// 討論串中的回覆；已刪除的回覆保留位置但不返回內容
 export interface AnnotationReply {
   id: string;
+  annotationId: string;
+  parentId: string | null;
   authorId: string;
+  author: ReplyUser;
+  content: string | null;
+  isPublic: boolean;
+  deleted: boolean;
+  mentions: ReplyUser[];
+  editedAt: Date | null;
+  createdAt: Date;
+  replies: AnnotationReply[];
+}
+
+export interface AnnotationThread {
+  annotationId: string;
+  resolved: boolean;
+  resolvedAt: Date | null;
+  resolvedBy: ReplyUser | null;
+  total: number;
+  replies: AnnotationReply[];
+}
+
+export interface ReplyInput {
+  content: string;
+  parentId?: string;
+  isPublic?: boolean;
+}
+
+export interface ReplyUpdate {
+  content?: string;
+  isPublic?: boolean;
+}
+
+export interface MentionFilters {
+  page?: number;
+  limit?: number;
+}
+
+export interface MentionItem {
+  replyId: string;
+  annotationId: string;
+  textId: string;
+  author: ReplyUser;
   content: string;
   createdAt: Date;
+}
+
+export interface MentionPage {
+  items: MentionItem[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+// 註解 API：類型與 Prisma 枚舉一致
+export type AnnotationRecordType = 'NOTE' | 'COMMENT' | 'REFERENCE' | 'TRANSLATION';
+
+export type AnnotationLanguage = 'zh' | 'pt';
+
+export interface AnnotationStatusRule {
+  from: AnnotationStatus[];
+  to: AnnotationStatus;
+  by: 'author' | 'moderator';
+  requiresPublic?: boolean; // 只有公開註解需要審核
+  requiresReason?: boolean;
+}
+
+export interface CreateAnnotationInput {
+  textId: string;
+  language: AnnotationLanguage;
+  selection: SelectionData;
+  content: string;
+  type?: AnnotationRecordType;
+  isPublic?: boolean;
+}
+
+export interface UpdateAnnotationInput {
+  content?: string;
+  type?: AnnotationRecordType;
+  isPublic?: boolean;
+}
+
+export interface AnnotationListFilters {
+  textId: string;
+  language?: AnnotationLanguage;
+  status?: AnnotationStatus;
+  authorId?: string;
+  includeParallel?: boolean; // 同時返回另一語言版本的註解，投射到本語言的對應位置
+}
+
+export interface AnnotationViewer {
+  id: string;
+  roles: string[];
+}
+
+// 讀取時按當前正文重新定位的結果；lost 表示正文已無法找到原選取內容，
+// orphaned 表示背景重新定位時信心度不足，等待作者手動重新附著
+export interface AnnotationAnchor {
+  status: 'anchored' | 'lost' | 'orphaned';
+  range: TextRange | null;
+  confidence: number;
+  method: PositioningMethod | null;
+}
+
+// 另一語言版本的註解在本語言正文中的對應位置；按條文、段落、句子逐級對齊，
+// granularity 表示最終對齊到的粒度，越細信心度越高
+export interface AnnotationAlignment {
+  sourceLanguage: AnnotationLanguage;
+  targetLanguage: AnnotationLanguage;
+  status: 'aligned' | 'unaligned';
+  range: TextRange | null;
+  confidence: number;
+  granularity: 'sentence' | 'paragraph' | 'article' | null;
+  articleNumber: string | null;
+}
+
+export interface AnnotationView {
+  id: string;
+  textId: string;
+  language: AnnotationLanguage;
+  authorId: string;
+  content: string;
+  type: AnnotationRecordType;
+  status: AnnotationStatus;
   isPublic: boolean;
+  rejectionReason: string | null;
+  selectedText: string;
+  anchor: AnnotationAnchor; // 在註解所在語言正文中的位置
+  alignment: AnnotationAlignment | null; // 僅跨語言返回時有值
+  resolvedAt: Date | null;
+  resolvedById: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AnnotationTransitionEntry {
+  id: string;
+  annotationId: string;
+  fromStatus: AnnotationStatus;
+  toStatus: AnnotationStatus;
+  actor: ReplyUser;
+  reason: string | null;
+  createdAt: Date;
+}
+
+export interface ModerationQueueFilters {
+  textId?: string;
+  language?: AnnotationLanguage;
+  page?: number;
+  limit?: number;
+}
+
+// 審核隊列項目：附選取文字前後的正文，審核時無需打開原文
+export interface ModerationQueueItem {
+  id: string;
+  textId: string;
+  textTitle: string;
+  language: AnnotationLanguage;
+  author: ReplyUser;
+  content: string;
+  type: AnnotationRecordType;
+  selectedText: string;
+  context: {
+    before: string;
+    after: string;
+  };
+  submittedAt: Date;
+  createdAt: Date;
+}
+
+export interface ModerationQueuePage {
+  items: ModerationQueueItem[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+export interface ReattachAnnotationInput {
+  selection: SelectionData;
+}
+
+export interface ReanchorSummary {
+  textId: string;
+  total: number;
+  reanchored: number;
+  orphaned: number;
+  failed: number;
+}
+
+export interface OrphanCandidate {
+  startOffset: number;
+  endOffset: number;
+  similarity: number;
+  text: string;
+}
+
+export interface OrphanReportItem {
+  annotationId: string;
+  textId: string;
+  textTitle: string;
+  language: AnnotationLanguage;
+  content: string;
+  selectedText: string;
+  lastKnownRange: { startOffset: number; endOffset: number };
+  confidence: number;
+  orphanedAt: Date | null;
+  candidates: OrphanCandidate[];
+}
+
+export interface OrphanReport {
+  total: number;
+  items: OrphanReportItem[];
 }
 
 // 錯誤類型
@@ -239,4 +464,21 @@ export interface StructuralMatchConfig {
   useParagraphIndex: boolean;
   useChapterStructure: boolean;
   tolerateStructuralChanges: boolean;
-} 
\ No newline at end of file
+} 
+
+export class AnnotationError extends Error {
+  constructor(
+    message: string,
+    public code: string = 'ANNOTATION_ERROR',
+    public metadata?: Record<string, any>
+  ) {
+    super(message);
+    this.name = 'AnnotationError';
+  }
+}
+
+export class AnnotationNotFoundError extends AnnotationError {
+  constructor(annotationId: string) {
+    super(`Annotation not found: ${annotationId}`, 'ANNOTATION_NOT_FOUND', { annotationId });
+  }
+}
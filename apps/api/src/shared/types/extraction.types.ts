@@ -17,6 +17,7 @@ export interface ExtractionResult {
   success: boolean;
   data?: ExtractedContent;
   error?: string;
+  errorCode?: string; // 失敗時的 ExtractionError code，用於判斷是否重試
   metadata: ExtractionMetadata;
 }
 
@@ -96,6 +97,36 @@ export interface ExtractionMetadata {
   processingTime: number;
   fileSize?: number;
   pageCount?: number;
+  // 各語言正文中每頁的起止偏移量（PDF）
+  pages?: {
+    zh?: PageOffset[];
+    pt?: PageOffset[];
+  };
+  // 文件自帶的屬性（DOCX 核心屬性）
+  properties?: DocumentProperties;
+  // 標題樣式段落（DOCX），供無法從文字識別的章節標題參考
+  headings?: HeadingHint[];
+}
+
+export interface HeadingHint {
+  text: string;
+  level: number; // 標題樣式級別：1 為章，2 為節
+}
+
+export interface DocumentProperties {
+  title?: string;
+  subject?: string;
+  author?: string;
+  lastModifiedBy?: string;
+  keywords?: string;
+  createdAt?: Date;
+  modifiedAt?: Date;
+}
+
+export interface PageOffset {
+  page: number;
+  startOffset: number;
+  endOffset: number;
 }
 
 export interface TextRange {
@@ -118,6 +149,35 @@ export interface StructuredData {
   category?: string;
 }
 
+// 擷取任務
+export type ExtractionJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type ExtractionJobItemStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ExtractionJobItem {
+  source: ExtractionSource;
+  status: ExtractionJobItemStatus;
+  attempts: number;
+  result?: ExtractionResult;
+  error?: string;
+}
+
+export interface ExtractionJob {
+  id: string;
+  kind: 'single' | 'batch';
+  ownerId: string; // 提交任務的用戶，只有該用戶可查詢或取消
+  status: ExtractionJobStatus;
+  progress: number; // 0-100，按已完成或失敗的來源計算
+  items: ExtractionJobItem[];
+  options: ExtractionOptions;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  heartbeatAt?: string;
+  cancelRequested?: boolean;
+  error?: string;
+  uploads?: string[]; // 上傳的臨時文件，任務結束後刪除
+}
+
 // 策略接口
 export interface ExtractionStrategy {
   extract(source: ExtractionSource, options: ExtractionOptions): Promise<ExtractionResult>;
@@ -9,6 +9,7 @@ export interface SearchQuery {
   author?: string;
   tags?: string[];
   filters?: SearchFilters;
+  userId?: string; // 發起搜索的用戶，寫入查詢日誌
 }
 
 export interface SearchFilters {
@@ -25,6 +26,19 @@ export interface SearchFilters {
     min?: number;
     max?: number;
   };
+  resultTypes?: SearchResultType[];
+  access?: SearchAccess;
+}
+
+// 可見範圍：公開文本，或 ACL 包含該用戶/角色的非公開文本
+export interface SearchAccess {
+  userId?: string;
+  roles: string[];
+}
+
+export interface DocumentAcl {
+  userIds: string[];
+  roles: string[];
 }
 
 export interface SearchOptions {
@@ -62,11 +76,26 @@ export interface SearchResult {
   metadata: SearchMetadata;
   facets?: SearchFacet[];
   suggestions?: string[];
+  didYouMean?: string; // 無結果時的拼寫更正建議
+}
+
+// article / chapter 為法律文本內的結構單元
+export type SearchResultType = 'legal_text' | 'article' | 'chapter' | 'annotation';
+
+// 結構單元在父文本中的位置，偏移量相對於對應語言的完整正文
+export interface StructuralLocation {
+  textId: string;
+  title: string;
+  articleNumber?: string;
+  chapterPath: string[];
+  startOffset: number;
+  endOffset: number;
+  language: 'zh' | 'pt';
 }
 
 export interface SearchResultItem {
   id: string;
-  type: 'legal_text' | 'annotation';
+  type: SearchResultType;
   title: {
     zh?: string;
     pt?: string;
@@ -77,6 +106,7 @@ export interface SearchResultItem {
   };
   highlights?: Highlight[];
   score: number;
+  relevance?: RelevanceScore;
   metadata: {
     category?: string;
     lawNumber?: string;
@@ -85,7 +115,9 @@ export interface SearchResultItem {
     language?: string;
     author?: string;
     tags?: string[];
+    isPublic?: boolean;
   };
+  location?: StructuralLocation;
   url?: string;
 }
 
@@ -110,6 +142,29 @@ export interface ProcessingStep {
   name: string;
   duration: number;
   results?: number;
+  engine?: SearchEngineType;
+  contributions?: EngineContribution[];
+}
+
+// 混合搜索：單一引擎對某結果的貢獻
+export interface EngineContribution {
+  id: string;
+  engine: SearchEngineType;
+  rank: number; // 1-based
+  rawScore: number;
+  normalizedScore: number;
+  weight: number;
+  fusedScore: number; // weight / (k + rank)
+}
+
+export interface HybridSearchConfig {
+  k: number;
+  weights: Partial<Record<SearchEngineType, number>>;
+}
+
+export interface EngineRanking {
+  engine: SearchEngineType;
+  results: SearchResultItem[];
 }
 
 export interface SearchFacet {
@@ -131,6 +186,8 @@ export interface SearchContext {
   language: string;
   expandedTerms?: string[];
   synonyms?: string[];
+  expansions?: QueryExpansion[];
+  queryAst?: QueryNode | null;
   filters: SearchFilters;
   engines: SearchEngineType[];
   results: SearchResultItem[];
@@ -138,6 +195,40 @@ export interface SearchContext {
   processingSteps: ProcessingStep[];
 }
 
+// 查詢語法樹
+export type QueryField = 'title' | 'lawNumber' | 'category' | 'article';
+
+export type QueryNode = TermNode | PhraseNode | BooleanNode | NotNode;
+
+export interface TermNode {
+  type: 'term';
+  value: string;
+  field?: QueryField;
+  prefix?: boolean;
+}
+
+export interface PhraseNode {
+  type: 'phrase';
+  value: string;
+  field?: QueryField;
+}
+
+export interface BooleanNode {
+  type: 'and' | 'or';
+  children: QueryNode[];
+}
+
+export interface NotNode {
+  type: 'not';
+  child: QueryNode;
+}
+
+// 析取範式中的單個條件
+export interface QueryLiteral {
+  node: TermNode | PhraseNode;
+  negated: boolean;
+}
+
 // 處理器接口
 export interface SearchProcessor {
   process(context: SearchContext): Promise<SearchContext>;
@@ -150,11 +241,15 @@ export interface SearchEngine {
   updateIndex(documents: IndexDocument[]): Promise<void>;
   deleteFromIndex(documentIds: string[]): Promise<void>;
   getStats(): Promise<SearchEngineStats>;
+  getFacets?(context: SearchContext, options: SearchOptions): Promise<SearchFacet[]>;
+  listDocumentIds?(type: SearchResultType): Promise<string[]>;
+  // 返回 false 時由其他引擎處理該查詢；未實現視為支持全部過濾條件
+  supportsFilters?(filters: SearchFilters): boolean;
 }
 
 export interface IndexDocument {
   id: string;
-  type: 'legal_text' | 'annotation';
+  type: SearchResultType;
   title: {
     zh?: string;
     pt?: string;
@@ -177,8 +272,11 @@ export interface IndexDocument {
     tags?: string[];
     wordCount?: number;
     authorId?: string;
+    isPublic?: boolean;
+    acl?: DocumentAcl; // 僅非公開文本
   };
   searchableText: string; // 合併所有可搜索文本
+  location?: StructuralLocation;
   lastUpdated: Date;
 }
 
@@ -196,6 +294,63 @@ export interface PopularQuery {
   avgResultCount: number;
 }
 
+// 查詢日誌條目
+export interface QueryLogEntry {
+  query: string;
+  normalizedQuery: string;
+  language: string;
+  filters: SearchFilters;
+  resultCount: number;
+  publicResultCount: number; // 公開文本的命中數，僅這部分查詢可作為建議提供給其他用戶
+  latencyMs: number;
+  engines: SearchEngineType[];
+  userId?: string;
+}
+
+// 索引同步
+export interface IndexRetryJob {
+  textId: string;
+  engine: SearchEngineType;
+  attempt: number;
+  lastError: string;
+  failedAt: string;
+}
+
+export interface IndexDriftReport {
+  expectedCount: number;
+  engines: Array<{
+    engine: SearchEngineType;
+    documentCount: number;
+    drift: number;
+    missing: string[];
+    stale: string[];
+    error?: string;
+  }>;
+  pendingRetries: number;
+  deadLetters: IndexRetryJob[];
+  reindex: ReindexStatus;
+}
+
+export interface ReindexStatus {
+  running: boolean;
+  startedAt?: Date;
+  finishedAt?: Date;
+  total: number;
+  processed: number;
+  failed: number;
+  removed: number;
+}
+
+export interface QueryLogAnalytics {
+  periodDays: number;
+  totalQueries: number;
+  uniqueQueries: number;
+  zeroResultRate: number;
+  averageLatency: number;
+  popularQueries: PopularQuery[];
+  zeroResultQueries: PopularQuery[];
+}
+
 // 查詢擴展
 export interface QueryExpansion {
   originalTerm: string;
@@ -211,6 +366,38 @@ export type ExpansionMethod =
   | 'semantic'
   | 'translation';
 
+// 同義詞詞庫條目
+export type SynonymLanguage = 'zh' | 'pt';
+
+export interface SynonymEntry {
+  id: string;
+  term: string;
+  termLanguage: SynonymLanguage;
+  synonym: string;
+  synonymLanguage: SynonymLanguage;
+  bidirectional: boolean;
+  confidence: number;
+  createdById?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SynonymInput {
+  term: string;
+  termLanguage: SynonymLanguage;
+  synonym: string;
+  synonymLanguage: SynonymLanguage;
+  bidirectional?: boolean;
+  confidence?: number;
+}
+
+export interface SynonymListFilters {
+  search?: string;
+  language?: SynonymLanguage;
+  page?: number;
+  limit?: number;
+}
+
 // 相關性計算
 export interface RelevanceScore {
   textMatch: number;
@@ -263,7 +450,7 @@ export class IndexError extends SearchError {
 }
 
 export class QueryError extends SearchError {
-  constructor(message: string, query: string) {
-    super(message, 'QUERY_ERROR', { query });
+  constructor(message: string, query: string, position?: number) {
+    super(message, 'QUERY_ERROR', { query, position });
   }
 } 
\ No newline at end of file
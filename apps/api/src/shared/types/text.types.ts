@@ -0,0 +1,259 @@
+export type TextLanguage = 'zh' | 'pt';
+
+export type LegalTextStatus =
+  | 'DRAFT'
+  | 'PENDING_REVIEW'
+  | 'APPROVED'
+  | 'PUBLISHED'
+  | 'ARCHIVED';
+
+export type ExtractionMethod = 'manual' | 'url' | 'pdf' | 'docx';
+
+export interface LegalTextBody {
+  text: string;
+  html?: string;
+}
+
+export interface StructureRange {
+  id: string;
+  title: string;
+  startOffset: number;
+  endOffset: number;
+}
+
+export interface StructureArticle extends StructureRange {
+  number: string;
+}
+
+export interface LegalTextStructure {
+  chapters: StructureRange[];
+  articles: StructureArticle[];
+  sections: StructureRange[];
+}
+
+// 創建請求：元數據寫入 PostgreSQL，正文和結構寫入 MongoDB
+export interface LegalTextInput {
+  titleZh: string;
+  titlePt?: string;
+  lawNumber?: string;
+  category?: string;
+  publicationDate?: string;
+  sourceUrl?: string;
+  isPublic?: boolean;
+  content: {
+    zh?: LegalTextBody;
+    pt?: LegalTextBody;
+  };
+  structure?: Partial<LegalTextStructure>;
+  extractionMethod?: ExtractionMethod;
+  revisionReason?: string;
+}
+
+// 可為 null 的欄位表示清除該值
+export interface LegalTextUpdate {
+  titleZh?: string;
+  titlePt?: string | null;
+  lawNumber?: string | null;
+  category?: string | null;
+  publicationDate?: string | null;
+  sourceUrl?: string | null;
+  isPublic?: boolean;
+  content?: {
+    zh?: LegalTextBody | null;
+    pt?: LegalTextBody | null;
+  };
+  structure?: Partial<LegalTextStructure>;
+  revisionReason?: string; // 正文或結構變更時記入修訂版本
+}
+
+export interface LegalTextListFilters {
+  page?: number;
+  limit?: number;
+  search?: string;
+  category?: string;
+  lawNumber?: string;
+  status?: LegalTextStatus;
+  isPublic?: boolean;
+  authorId?: string;
+  publishedFrom?: string;
+  publishedTo?: string;
+  sortBy?: 'publicationDate' | 'createdAt' | 'updatedAt' | 'titleZh';
+  sortOrder?: 'asc' | 'desc';
+}
+
+export interface LegalTextSummary {
+  id: string;
+  titleZh: string;
+  titlePt: string | null;
+  lawNumber: string | null;
+  category: string | null;
+  publicationDate: Date | null;
+  sourceUrl: string | null;
+  status: LegalTextStatus;
+  isPublic: boolean;
+  authorId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface LegalTextDetail extends LegalTextSummary {
+  contentId: string | null;
+  content: {
+    zh?: LegalTextBody & { wordCount: number };
+    pt?: LegalTextBody & { wordCount: number };
+  };
+  structure: LegalTextStructure;
+  extractionMethod: ExtractionMethod | null;
+  currentRevision: number;
+}
+
+export interface LegalTextPage {
+  items: LegalTextSummary[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+// 修訂版本
+export interface RevisionSummary {
+  revision: number;
+  authorId: string;
+  reason: string | null;
+  restoredFrom: number | null;
+  wordCount: {
+    zh: number;
+    pt: number;
+  };
+  createdAt: Date;
+}
+
+export interface RevisionDetail extends RevisionSummary {
+  textId: string;
+  content: LegalTextDetail['content'];
+  structure: LegalTextStructure;
+}
+
+export type DiffMode = 'char' | 'article';
+
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+  oldOffset: number;
+  newOffset: number;
+}
+
+export interface DiffStats {
+  insertions: number;
+  deletions: number;
+}
+
+export interface ArticleDiff {
+  number: string;
+  title: string;
+  status: 'added' | 'removed' | 'modified' | 'unchanged';
+  oldRange?: { startOffset: number; endOffset: number };
+  newRange?: { startOffset: number; endOffset: number };
+  segments?: DiffSegment[];
+  stats?: DiffStats;
+}
+
+export interface RevisionDiffQuery {
+  from: number;
+  to: number;
+  language: TextLanguage;
+  mode?: DiffMode;
+}
+
+export interface RevisionDiff {
+  textId: string;
+  from: number;
+  to: number;
+  language: TextLanguage;
+  mode: DiffMode;
+  stats: DiffStats;
+  segments?: DiffSegment[];
+  articles?: ArticleDiff[];
+}
+
+// 審核流程
+export type TextTransitionAction =
+  | 'submit'
+  | 'withdraw'
+  | 'approve'
+  | 'reject'
+  | 'publish'
+  | 'archive';
+
+export interface TextTransitionRule {
+  from: LegalTextStatus[];
+  to: LegalTextStatus;
+  permission: string; // texts 資源上的操作
+  othersPermission?: string; // 操作他人文本時另需的 texts 操作；未設置則不限作者
+  requiresComment?: boolean;
+}
+
+export interface TextTransitionEntry {
+  id: string;
+  textId: string;
+  fromStatus: LegalTextStatus;
+  toStatus: LegalTextStatus;
+  action: TextTransitionAction;
+  actor: {
+    id: string;
+    username: string;
+  };
+  comment: string | null;
+  createdAt: Date;
+}
+
+export interface ReviewQueueFilters {
+  status?: 'PENDING_REVIEW' | 'APPROVED';
+  category?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface ReviewQueueItem extends LegalTextSummary {
+  submittedAt: Date | null;
+  submittedBy: {
+    id: string;
+    username: string;
+  } | null;
+}
+
+export interface ReviewQueuePage {
+  items: ReviewQueueItem[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+// 請求者身份，決定可見範圍
+export interface TextViewer {
+  id: string;
+  roles: string[];
+}
+
+// 錯誤類型
+export class TextError extends Error {
+  constructor(
+    message: string,
+    public code: string = 'TEXT_ERROR',
+    public metadata?: Record<string, any>
+  ) {
+    super(message);
+    this.name = 'TextError';
+  }
+}
+
+export class LegalTextNotFoundError extends TextError {
+  constructor(textId: string) {
+    super(`Legal text not found: ${textId}`, 'TEXT_NOT_FOUND', { textId });
+  }
+}
+
+export class InvalidTransitionError extends TextError {
+  constructor(action: string, from: LegalTextStatus) {
+    super(`Cannot ${action} a text in status ${from}`, 'INVALID_TRANSITION', { action, from });
+  }
+}
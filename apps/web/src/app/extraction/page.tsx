@@ -1,63 +1,126 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
+import { FileDropzone } from '@/components/extraction/FileDropzone';
+import { ExtractionAPI } from '@/lib/api';
+import { ApiResponse } from '@/types/auth';
+import { ExtractionJob, ExtractionOutcome } from '@/types/extraction';
 
-interface ExtractionResult {
-  success: boolean;
-  data?: {
-    success: boolean;
-    data?: {
-      title?: { zh?: string; pt?: string };
-      content: {
-        zh?: { text: string; html: string; wordCount: number };
-        pt?: { text: string; html: string; wordCount: number };
-      };
-      metadata: {
-        extractor: string;
-        confidence: number;
-        processingTime: number;
-        language?: string;
-      };
-    };
-  };
-  error?: string;
-}
+type ExtractionResult = ApiResponse<ExtractionOutcome>;
+
+const POLL_INTERVAL_MS = 1000;
+const JOB_STATUS_LABELS: Record<ExtractionJob['status'], string> = {
+  queued: '排隊中',
+  running: '擷取中',
+  completed: '已完成',
+  failed: '失敗',
+  cancelled: '已取消'
+};
 
 export default function ExtractionPage() {
   const [url, setUrl] = useState('');
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<ExtractionResult | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [job, setJob] = useState<ExtractionJob | null>(null);
+  const pollTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  const handleExtraction = async () => {
-    if (!url.trim()) return;
+  const stopPolling = () => {
+    if (pollTimer.current) {
+      clearTimeout(pollTimer.current);
+      pollTimer.current = null;
+    }
+  };
+
+  useEffect(() => stopPolling, []);
+
+  // 輪詢任務狀態直至結束；單一網址或文件任務的 result 即擷取結果
+  const pollJob = (id: string) => {
+    pollTimer.current = setTimeout(async () => {
+      try {
+        const response = await ExtractionAPI.getJob(id);
+        if (!response.success || !response.data) {
+          throw new Error(response.error || '無法取得任務狀態');
+        }
+
+        const current = response.data;
+        setJob(current);
 
+        if (current.status === 'queued' || current.status === 'running') {
+          pollJob(id);
+          return;
+        }
+
+        const outcome = current.items[0]?.result;
+        setResult(outcome
+          ? { success: true, data: outcome }
+          : { success: false, error: current.status === 'cancelled' ? '任務已取消' : current.error || '擷取失敗' });
+        setLoading(false);
+      } catch (error: any) {
+        setResult({
+          success: false,
+          error: error?.response?.data?.error || (error instanceof Error ? error.message : 'Unknown error')
+        });
+        setLoading(false);
+      }
+    }, POLL_INTERVAL_MS);
+  };
+
+  const handleCancel = async () => {
+    if (!job) return;
+    try {
+      const response = await ExtractionAPI.cancelJob(job.id);
+      if (response.data) setJob(response.data);
+    } catch {
+      // 任務可能已結束，交由輪詢更新狀態
+    }
+  };
+
+  const handleUpload = async (file: File) => {
+    stopPolling();
+    setJob(null);
     setLoading(true);
+    setFileName(file.name);
+    setResult(null);
+    setUploadProgress(0);
     try {
-      const response = await fetch('/api/extraction/extract', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          source: url,
-          type: 'url',
-          options: {
-            language: 'auto',
-            preserveFormatting: true
-          }
-        }),
+      const response = await ExtractionAPI.upload(file, { language: 'auto' }, setUploadProgress);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || '無法建立擷取任務');
+      }
+      pollJob(response.data.jobId);
+    } catch (error: any) {
+      setResult({
+        success: false,
+        error: error?.response?.data?.error || (error instanceof Error ? error.message : 'Unknown error')
       });
+      setLoading(false);
+    } finally {
+      setUploadProgress(null);
+    }
+  };
 
-      const data = await response.json();
-      setResult(data);
-    } catch (error) {
+  const handleExtraction = async () => {
+    if (!url.trim()) return;
+
+    stopPolling();
+    setLoading(true);
+    setResult(null);
+    setJob(null);
+    try {
+      const response = await ExtractionAPI.extractUrl(url, { language: 'auto' });
+      if (!response.success || !response.data) {
+        throw new Error(response.error || '無法建立擷取任務');
+      }
+      pollJob(response.data.jobId);
+    } catch (error: any) {
       setResult({
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
+        error: error?.response?.data?.error || (error instanceof Error ? error.message : 'Unknown error')
       });
-    } finally {
       setLoading(false);
     }
   };
@@ -72,7 +135,7 @@ export default function ExtractionPage() {
 
           <div className="mb-6">
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              輸入網址或上傳文件
+              輸入網址
             </label>
             <div className="flex space-x-4">
               <Input
@@ -92,6 +155,38 @@ export default function ExtractionPage() {
             </div>
           </div>
 
+          {job && (job.status === 'queued' || job.status === 'running') && (
+            <div className="mb-6 rounded-lg border border-blue-200 bg-blue-50 p-4">
+              <div className="flex items-center justify-between text-sm text-blue-900">
+                <span>
+                  {JOB_STATUS_LABELS[job.status]}
+                  {job.cancelRequested && '（正在取消）'}
+                  {(job.items[0]?.attempts ?? 0) > 1 && `，第 ${job.items[0]?.attempts} 次嘗試`}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleCancel}
+                  disabled={job.cancelRequested}
+                >
+                  取消
+                </Button>
+              </div>
+              {job.items[0]?.error && (
+                <p className="text-xs text-blue-700 mt-2">上次錯誤：{job.items[0].error}</p>
+              )}
+            </div>
+          )}
+
+          <div className="mb-6">
+            <FileDropzone
+              onFile={handleUpload}
+              disabled={loading}
+              progress={uploadProgress}
+              fileName={fileName}
+            />
+          </div>
+
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
             <div className="bg-blue-50 p-4 rounded-lg">
               <h3 className="font-semibold text-blue-900 mb-2">支持格式</h3>
@@ -128,30 +223,30 @@ export default function ExtractionPage() {
             <div className="border-t pt-6">
               <h2 className="text-xl font-semibold mb-4">擷取結果</h2>
               
-              {result.success && result.data ? (
+              {result.success && result.data?.success ? (
                 <div className="space-y-4">
                   <div className="bg-green-50 p-4 rounded-lg">
                     <h3 className="font-semibold text-green-900 mb-2">擷取成功！</h3>
                     <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                       <div>
                         <span className="font-medium">擷取器：</span>
-                        <span className="text-gray-600">{result.data.data?.metadata.extractor}</span>
+                        <span className="text-gray-600">{result.data.metadata.extractor}</span>
                       </div>
                       <div>
                         <span className="font-medium">信心度：</span>
                         <span className="text-gray-600">
-                          {(result.data.data?.metadata.confidence * 100).toFixed(1)}%
+                          {(result.data.metadata.confidence * 100).toFixed(1)}%
                         </span>
                       </div>
                       <div>
                         <span className="font-medium">處理時間：</span>
                         <span className="text-gray-600">
-                          {result.data.data?.metadata.processingTime}ms
+                          {result.data.metadata.processingTime}ms
                         </span>
                       </div>
                       <div>
                         <span className="font-medium">語言：</span>
-                        <span className="text-gray-600">{result.data.data?.metadata.language}</span>
+                        <span className="text-gray-600">{result.data.metadata.language}</span>
                       </div>
                     </div>
                   </div>
@@ -201,7 +296,7 @@ export default function ExtractionPage() {
               ) : (
                 <div className="bg-red-50 p-4 rounded-lg">
                   <h3 className="font-semibold text-red-900 mb-2">擷取失敗</h3>
-                  <p className="text-red-700">{result.error || '未知錯誤'}</p>
+                  <p className="text-red-700">{result.error || result.data?.error || '未知錯誤'}</p>
                 </div>
               )}
             </div>
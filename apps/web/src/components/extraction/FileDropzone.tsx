@@ -0,0 +1,112 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { DocumentArrowUpIcon } from '@heroicons/react/24/outline';
+
+// 與服務端 MAX_FILE_SIZE 的默認值一致
+const MAX_FILE_SIZE = Number(process.env.NEXT_PUBLIC_MAX_FILE_SIZE) || 10 * 1024 * 1024;
+const ACCEPTED_EXTENSIONS = ['.pdf', '.docx'];
+
+interface FileDropzoneProps {
+  onFile: (file: File) => void;
+  disabled?: boolean;
+  progress?: number | null;
+  fileName?: string | null;
+}
+
+export function FileDropzone({ onFile, disabled, progress, fileName }: FileDropzoneProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 先在瀏覽器端做基本檢查，真正的類型判斷由服務端按文件內容進行
+  const selectFile = (file: File | undefined) => {
+    if (!file || disabled) return;
+
+    const name = file.name.toLowerCase();
+    if (!ACCEPTED_EXTENSIONS.some(extension => name.endsWith(extension))) {
+      setError('只支持 PDF 和 Word（.docx）文件');
+      return;
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      setError(`文件不能超過 ${(MAX_FILE_SIZE / 1024 / 1024).toFixed(0)} MB`);
+      return;
+    }
+
+    setError(null);
+    onFile(file);
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragging(false);
+    selectFile(event.dataTransfer.files[0]);
+  };
+
+  const borderClass = dragging
+    ? 'border-blue-500 bg-blue-50'
+    : error
+      ? 'border-red-300 bg-red-50'
+      : 'border-gray-300 bg-gray-50 hover:border-blue-400';
+
+  return (
+    <div>
+      <div
+        role="button"
+        tabIndex={0}
+        aria-disabled={disabled}
+        onClick={() => !disabled && inputRef.current?.click()}
+        onKeyDown={(event) => {
+          if ((event.key === 'Enter' || event.key === ' ') && !disabled) {
+            event.preventDefault();
+            inputRef.current?.click();
+          }
+        }}
+        onDragOver={(event) => {
+          event.preventDefault();
+          if (!disabled) setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        className={`flex flex-col items-center justify-center rounded-lg border-2 border-dashed p-8 text-center transition-colors ${borderClass} ${disabled ? 'cursor-not-allowed opacity-60' : 'cursor-pointer'}`}
+      >
+        <DocumentArrowUpIcon className="h-10 w-10 text-gray-400 mb-3" />
+        <p className="text-sm text-gray-700">
+          拖放 PDF 或 Word 文件到這裡，或<span className="text-blue-600 font-medium">點擊選擇文件</span>
+        </p>
+        <p className="text-xs text-gray-500 mt-1">
+          支持 .pdf、.docx，最大 {(MAX_FILE_SIZE / 1024 / 1024).toFixed(0)} MB
+        </p>
+
+        {fileName && (
+          <p className="text-sm text-gray-800 mt-3 truncate max-w-full">{fileName}</p>
+        )}
+
+        {progress !== null && progress !== undefined && (
+          <div className="w-full max-w-xs mt-3">
+            <div className="h-2 rounded bg-gray-200 overflow-hidden">
+              <div className="h-2 bg-blue-600 transition-all" style={{ width: `${progress}%` }} />
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              {progress < 100 ? `上傳中 ${progress}%` : '上傳完成，擷取中...'}
+            </p>
+          </div>
+        )}
+
+        <input
+          ref={inputRef}
+          type="file"
+          accept={[...ACCEPTED_EXTENSIONS, 'application/pdf', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'].join(',')}
+          className="hidden"
+          onChange={(event) => {
+            selectFile(event.target.files?.[0]);
+            // 允許再次選擇同一文件
+            event.target.value = '';
+          }}
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ import {
   ApiResponse,
   User 
 } from '@/types/auth';
+import { ExtractionLanguage, ExtractionJob, ExtractionJobTicket } from '@/types/extraction';
 
 // API配置
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
@@ -175,6 +176,56 @@ export class AuthAPI {
   }
 }
 
+export class ExtractionAPI {
+  // 網址擷取在服務端排隊執行，返回任務 ID，結果經 status 輪詢
+  static async extractUrl(
+    url: string,
+    options: { language?: ExtractionLanguage } = {}
+  ): Promise<ApiResponse<ExtractionJobTicket>> {
+    const response = await apiClient.post<ApiResponse<ExtractionJobTicket>>('/api/extraction/extract', {
+      source: url,
+      type: 'url',
+      options: { language: options.language || 'auto', preserveFormatting: true }
+    });
+    return response.data;
+  }
+
+  static async getJob(id: string): Promise<ApiResponse<ExtractionJob>> {
+    const response = await apiClient.get<ApiResponse<ExtractionJob>>(`/api/extraction/status/${id}`);
+    return response.data;
+  }
+
+  static async cancelJob(id: string): Promise<ApiResponse<ExtractionJob>> {
+    const response = await apiClient.post<ApiResponse<ExtractionJob>>(`/api/extraction/status/${id}/cancel`);
+    return response.data;
+  }
+
+  // 上傳 PDF 或 DOCX 並排隊擷取，返回任務 ID；服務端以流方式讀取表單，選項字段須在文件之前
+  static async upload(
+    file: File,
+    options: { language?: ExtractionLanguage } = {},
+    onProgress?: (percent: number) => void
+  ): Promise<ApiResponse<ExtractionJobTicket>> {
+    const form = new FormData();
+    if (options.language) {
+      form.append('language', options.language);
+    }
+    form.append('file', file);
+
+    const response = await apiClient.post<ApiResponse<ExtractionJobTicket>>('/api/extraction/upload', form, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      timeout: 120000,
+      onUploadProgress: (event) => {
+        if (onProgress && event.total) {
+          onProgress(Math.round((event.loaded / event.total) * 100));
+        }
+      }
+    });
+
+    return response.data;
+  }
+}
+
 // 通用API客戶端
 export class ApiClient {
   static async get<T = any>(url: string, config?: AxiosRequestConfig): Promise<ApiResponse<T>> {
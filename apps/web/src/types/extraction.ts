@@ -0,0 +1,64 @@
+export type ExtractionLanguage = 'zh' | 'pt' | 'en' | 'auto';
+
+export interface ExtractedBody {
+  text: string;
+  html: string;
+  wordCount: number;
+}
+
+export interface ExtractedContent {
+  title?: { zh?: string; pt?: string };
+  content: {
+    zh?: ExtractedBody;
+    pt?: ExtractedBody;
+  };
+}
+
+export interface ExtractionMetadata {
+  extractor: string;
+  confidence: number;
+  processingTime: number;
+  language?: string;
+  fileSize?: number;
+  pageCount?: number;
+}
+
+// 服務端 TextExtractionService 的擷取結果
+export interface ExtractionOutcome {
+  success: boolean;
+  data?: ExtractedContent;
+  error?: string;
+  metadata: ExtractionMetadata;
+}
+
+export type ExtractionJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ExtractionJobTicket {
+  jobId: string;
+  status: ExtractionJobStatus;
+  statusUrl: string;
+}
+
+export interface ExtractionJobItem {
+  source: string;
+  type: string;
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+  attempts: number;
+  error: string | null;
+  result: ExtractionOutcome | null;
+}
+
+// /api/extraction/status/:id；單一任務的 result 為擷取結果，批量任務為結果數組
+export interface ExtractionJob {
+  id: string;
+  kind: 'single' | 'batch';
+  status: ExtractionJobStatus;
+  progress: number;
+  cancelRequested: boolean;
+  items: ExtractionJobItem[];
+  result: ExtractionOutcome | Array<ExtractionOutcome | null> | null;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}